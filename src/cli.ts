@@ -12,6 +12,10 @@
  *   npx basanos sync             Sync live entities into Basanos
  *   npx basanos discover         Discover constraints from data patterns
  *   npx basanos full             Run all steps in sequence
+ *   npx basanos replay           Replay an audit log against changed rules
+ *   npx basanos audit verify     Verify the audit hash chain and checkpoints
+ *   npx basanos audit export     Export signed audit checkpoints
+ *   npx basanos snapshot list    List named snapshots of the entity store
  */
 
 import "dotenv/config";
@@ -20,14 +24,321 @@ import { fileURLToPath } from "url";
 
 import { ConnectorRegistry } from "./connectors/registry.js";
 import { OntologyEngine } from "./ontology/engine.js";
-import { loadDomainFromYaml } from "./loader.js";
-import { existsSync } from "fs";
+import { entityValidationModeFromEnv } from "./ontology/schema.js";
+import { createEntityStoreFromEnv, createSnapshot, isValidSnapshotName, validateSnapshot } from "./ontology/entity-store.js";
+import type { EntitySnapshot } from "./ontology/entity-store.js";
+import { loadDomainFromYaml, loadConstraintsFromYaml } from "./loader.js";
+import { replayAuditLog } from "./constraints/replay.js";
+import { evaluationPolicyFromEnv } from "./constraints/engine.js";
+import { createAuditStoreFromEnv, createCheckpointerFromEnv } from "./constraints/audit-store.js";
+import { verifyChain, verifyCheckpoint } from "./constraints/audit-chain.js";
+import type { AuditCheckpoint } from "./constraints/audit-chain.js";
+import { createPublicKey } from "crypto";
+import type { KeyObject } from "crypto";
+import type { AuditEntry } from "./constraints/engine.js";
+import type { ConstraintDefinition, ConstraintSeverity, ConstraintStatus } from "./constraints/types.js";
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "fs";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const projectRoot = resolve(__dirname, "..");
 
 const command = process.argv[2] || "help";
 
+/**
+ * Read a `--flag value` option from the command line.
+ */
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+/**
+ * Parse a comma-separated list option.
+ */
+function listOption(name: string): string[] {
+  return (option(name) || "").split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Load every domain ontology and constraint file under domains/, with
+ * the dashboard's persisted promotions applied, as the MCP server does.
+ */
+function loadLocalRules(): { ontology: OntologyEngine; constraints: ConstraintDefinition[] } {
+  const ontology = new OntologyEngine();
+  const constraints = new Map<string, ConstraintDefinition>();
+  const domainsDir = resolve(projectRoot, "domains");
+
+  if (existsSync(domainsDir)) {
+    for (const entry of readdirSync(domainsDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const domainDir = resolve(domainsDir, entry.name);
+      const ontologyYaml = resolve(domainDir, "ontology.yaml");
+      if (existsSync(ontologyYaml)) {
+        ontology.registerDomain(loadDomainFromYaml(ontologyYaml));
+      }
+      for (const file of ["constraints.yaml", "discovered-constraints.yaml"]) {
+        const path = resolve(domainDir, file);
+        if (!existsSync(path)) continue;
+        for (const c of loadConstraintsFromYaml(path)) constraints.set(c.id, c);
+      }
+    }
+  }
+
+  const overridesPath = resolve(projectRoot, "constraint-overrides.json");
+  if (existsSync(overridesPath)) {
+    const overrides = JSON.parse(readFileSync(overridesPath, "utf-8")) as Record<string, { status?: string; severity?: string }>;
+    for (const [id, o] of Object.entries(overrides)) {
+      const c = constraints.get(id);
+      if (!c) continue;
+      if (o.status) c.status = o.status as ConstraintStatus;
+      if (o.severity) c.severity = o.severity as ConstraintSeverity;
+    }
+  }
+
+  return { ontology, constraints: Array.from(constraints.values()) };
+}
+
+/**
+ * Replay an exported or persisted audit log against the local rule set
+ * with the requested changes and print which outcomes would change.
+ */
+async function replay() {
+  const auditPath = option("audit");
+  if (auditPath && !existsSync(auditPath)) {
+    console.error(`❌ Audit file not found: ${auditPath}`);
+    console.error("   Usage: basanos replay [--audit <audit.json>] [--since <iso>] [--until <iso>] [--promote id,...] [--disable id,...] [--rules constraints.yaml]");
+    process.exit(1);
+  }
+
+  let entries: AuditEntry[];
+  if (auditPath) {
+    const raw = JSON.parse(readFileSync(auditPath, "utf-8")) as AuditEntry[] | { entries: AuditEntry[] };
+    entries = Array.isArray(raw) ? raw : raw.entries;
+  } else {
+    // No export given: replay the persistent audit store
+    entries = createAuditStoreFromEnv(projectRoot)
+      .query({ since: option("since"), until: option("until") })
+      .entries.reverse();
+  }
+
+  const { ontology, constraints } = loadLocalRules();
+  const rulesPath = option("rules");
+  if (rulesPath) {
+    const extra = loadConstraintsFromYaml(resolve(rulesPath));
+    const ids = new Set(extra.map((c) => c.id));
+    constraints.splice(0, constraints.length, ...constraints.filter((c) => !ids.has(c.id)), ...extra);
+    console.log(`Loaded ${extra.length} constraint(s) from ${rulesPath}`);
+  }
+
+  const report = await replayAuditLog(entries, constraints, {
+    ontology,
+    restrictToDomain: process.env.BASANOS_RESTRICT_TO_DOMAIN === "true",
+    ...evaluationPolicyFromEnv(),
+    promote: listOption("promote"),
+    disable: listOption("disable"),
+  });
+
+  for (const id of report.unknownConstraints) {
+    console.warn(`⚠️  Unknown constraint: ${id}`);
+  }
+
+  console.log(`Replayed ${report.total} audit entries${report.skippedDryRuns > 0 ? ` (${report.skippedDryRuns} dry runs skipped)` : ""}\n`);
+  console.log(`🚫 Newly blocked: ${report.newlyBlocked.length}`);
+  for (const d of report.newlyBlocked) {
+    console.log(`  #${d.auditId} ${d.timestamp} ${d.action} on ${d.targetEntity} (by ${d.blockedBy.join(", ")})`);
+  }
+  console.log(`✅ Newly allowed: ${report.newlyAllowed.length}`);
+  for (const d of report.newlyAllowed) {
+    console.log(`  #${d.auditId} ${d.timestamp} ${d.action} on ${d.targetEntity}`);
+  }
+  console.log(`   Unchanged: ${report.unchanged}`);
+
+  const jsonPath = option("json");
+  if (jsonPath) {
+    writeFileSync(jsonPath, JSON.stringify(report, null, 2), "utf-8");
+    console.log(`\nReport written to ${jsonPath}`);
+  }
+}
+
+/**
+ * Audit trail integrity: verify the hash chain and signed checkpoints,
+ * take a checkpoint now, or export checkpoints for an auditor.
+ */
+async function audit() {
+  const sub = process.argv[3] || "verify";
+  const checkpointer = createCheckpointerFromEnv(projectRoot);
+
+  if (sub === "checkpoint") {
+    const [head] = createAuditStoreFromEnv(projectRoot).query({ limit: 1 }).entries;
+    if (!head) {
+      console.error("❌ The audit log is empty; nothing to checkpoint.");
+      process.exit(1);
+    }
+    const cp = checkpointer.checkpoint(head);
+    console.log(`✅ Checkpoint signed at entry #${cp.entryId} (${cp.hash.slice(0, 16)}...)`);
+    return;
+  }
+
+  if (sub === "export") {
+    const bundle = checkpointer.export();
+    const outPath = option("out");
+    if (outPath) {
+      writeFileSync(outPath, JSON.stringify(bundle, null, 2), "utf-8");
+      console.log(`✅ Exported ${bundle.checkpoints.length} checkpoint(s) to ${outPath}`);
+      console.log(`   Signing key fingerprint: ${bundle.keyId}`);
+    } else {
+      console.log(JSON.stringify(bundle, null, 2));
+    }
+    return;
+  }
+
+  if (sub !== "verify") {
+    console.error(`❌ Unknown audit command: ${sub}. Use verify, checkpoint, or export.`);
+    process.exit(1);
+  }
+
+  // Verify either an exported log + checkpoint bundle, or the local store
+  const auditPath = option("audit");
+  let entries: AuditEntry[];
+  if (auditPath) {
+    const raw = JSON.parse(readFileSync(auditPath, "utf-8")) as AuditEntry[] | { entries: AuditEntry[] };
+    entries = (Array.isArray(raw) ? raw : raw.entries).slice().sort((a, b) => a.id - b.id);
+  } else {
+    entries = createAuditStoreFromEnv(projectRoot).list();
+  }
+
+  const chain = verifyChain(entries);
+  if (chain.checked === 0) {
+    console.log("Audit log is empty.");
+  } else if (chain.valid) {
+    console.log(`✅ Hash chain intact: ${chain.checked} entries (#${chain.firstId} to #${chain.lastId})`);
+  } else {
+    console.error(`❌ Hash chain broken: ${chain.breaks.length} problem(s) in ${chain.checked} entries`);
+    for (const b of chain.breaks) {
+      console.error(`   #${b.entryId} ${b.reason}: ${b.detail}`);
+    }
+  }
+
+  let checkpoints: AuditCheckpoint[];
+  let publicKey: KeyObject | undefined;
+  const bundlePath = option("checkpoints");
+  if (bundlePath) {
+    const bundle = JSON.parse(readFileSync(bundlePath, "utf-8")) as { publicKey: string; checkpoints: AuditCheckpoint[] };
+    checkpoints = bundle.checkpoints;
+    publicKey = createPublicKey(bundle.publicKey);
+  } else {
+    checkpoints = checkpointer.list();
+    publicKey = checkpoints.length > 0 ? checkpointer.getPublicKey() : undefined;
+  }
+
+  let checkpointFailures = 0;
+  for (const cp of checkpoints) {
+    const result = verifyCheckpoint(cp, publicKey!, entries);
+    const ok = result.signatureValid && result.matchesLog !== false;
+    if (!ok) checkpointFailures++;
+    const state = !result.signatureValid
+      ? "invalid signature"
+      : result.matchesLog === "entry_not_retained"
+        ? "signature valid, entry rotated away"
+        : result.matchesLog ? "matches log" : "DOES NOT MATCH LOG";
+    console.log(`  ${ok ? "✅" : "❌"} checkpoint #${cp.entryId} (${cp.createdAt}): ${state}`);
+  }
+  if (checkpoints.length === 0) {
+    console.log("No signed checkpoints recorded yet.");
+  }
+
+  if (!chain.valid || checkpointFailures > 0) process.exit(1);
+}
+
+/**
+ * Named snapshots of the persisted entity graph: take one, list them,
+ * make one the live graph again, or move them between machines as JSON.
+ */
+async function snapshot() {
+  const sub = process.argv[3] || "list";
+  const arg = process.argv[4];
+  const store = createEntityStoreFromEnv(projectRoot);
+
+  if (sub === "list") {
+    console.log(`Entity store: ${store.load().length} entities`);
+    const snapshots = store.listSnapshots();
+    if (snapshots.length === 0) console.log("No snapshots saved yet.");
+    for (const s of snapshots) {
+      console.log(`  ${s.name}  ${s.createdAt}  ${s.entityCount} entities  [${s.domains.join(", ")}]`);
+    }
+    return;
+  }
+
+  if (!["save", "restore", "export", "import", "delete"].includes(sub)) {
+    console.error(`❌ Unknown snapshot command: ${sub}. Use list, save, restore, export, import, or delete.`);
+    process.exit(1);
+  }
+  if (!arg) {
+    console.error(`❌ Usage: snapshot ${sub} <${sub === "import" ? "file" : "name"}>`);
+    process.exit(1);
+  }
+
+  if (sub === "save") {
+    if (!isValidSnapshotName(arg)) {
+      console.error("❌ Snapshot names use letters, digits, '.', '_' and '-' (up to 64).");
+      process.exit(1);
+    }
+    const taken = createSnapshot(arg, store.load());
+    store.saveSnapshot(taken);
+    console.log(`✅ Saved snapshot "${arg}" (${taken.entities.length} entities)`);
+    return;
+  }
+
+  if (sub === "import") {
+    const raw = JSON.parse(readFileSync(arg, "utf-8")) as EntitySnapshot;
+    const imported = { ...raw, name: option("name") || raw.name };
+    const errors = validateSnapshot(imported);
+    if (errors.length > 0) {
+      console.error(`❌ Invalid snapshot ${arg}:`);
+      for (const error of errors.slice(0, 10)) console.error(`   ${error}`);
+      process.exit(1);
+    }
+    store.saveSnapshot(imported);
+    console.log(`✅ Imported snapshot "${imported.name}" (${imported.entities.length} entities)`);
+    return;
+  }
+
+  const found = store.getSnapshot(arg);
+  if (!found) {
+    console.error(`❌ Snapshot not found: ${arg}`);
+    process.exit(1);
+  }
+
+  if (sub === "restore") {
+    const errors = validateSnapshot(found);
+    if (errors.length > 0) {
+      console.error(`❌ Invalid snapshot ${arg}:`);
+      for (const error of errors.slice(0, 10)) console.error(`   ${error}`);
+      process.exit(1);
+    }
+    // Checked against the local domains like a sync, under BASANOS_ENTITY_VALIDATION
+    const { ontology } = loadLocalRules();
+    const validation = ontology.replaceEntities(found.entities, { validation: entityValidationModeFromEnv() });
+    for (const issue of validation.issues.slice(0, 10)) {
+      console.log(`  ⚠️  ${issue.entityId}: ${issue.message}`);
+    }
+    store.save(ontology.getAllEntities());
+    const rejected = validation.rejected > 0 ? ` (${validation.rejected} invalid entities left out)` : "";
+    console.log(`✅ Restored snapshot "${arg}": the entity store now holds ${ontology.getAllEntities().length} entities${rejected}`);
+  } else if (sub === "export") {
+    const outPath = option("out");
+    if (outPath) {
+      writeFileSync(outPath, JSON.stringify(found, null, 2), "utf-8");
+      console.log(`✅ Exported snapshot "${arg}" to ${outPath}`);
+    } else {
+      console.log(JSON.stringify(found, null, 2));
+    }
+  } else {
+    store.deleteSnapshot(arg);
+    console.log(`✅ Deleted snapshot "${arg}" (${found.entities.length} entities)`);
+  }
+}
+
 async function main() {
   console.log("╔══════════════════════════════════════════╗");
   console.log("║          Basanos CLI v0.1.0              ║");
@@ -40,10 +351,35 @@ async function main() {
     console.log("  sync       Sync live entities into Basanos");
     console.log("  discover   Discover constraints from data patterns");
     console.log("  full       Run all steps (connect -> import -> sync -> discover)");
+    console.log("  replay     Replay an audit log against changed rules");
+    console.log("             [--audit <file> | --since <iso> --until <iso>] [--promote id,...] [--disable id,...]");
+    console.log("             [--rules <yaml>] [--json <out>]");
+    console.log("  audit      verify [--audit <file> --checkpoints <file>]  Check the hash chain and signed checkpoints");
+    console.log("             checkpoint                                    Sign a checkpoint of the current chain head");
+    console.log("             export [--out <file>]                         Export checkpoints with the public key");
+    console.log("  snapshot   list                                          List snapshots of the entity store");
+    console.log("             save <name> | restore <name> | delete <name>  Take, restore or remove a snapshot");
+    console.log("             export <name> [--out <file>]                  Export a snapshot as JSON");
+    console.log("             import <file> [--name <name>]                 Import a snapshot exported elsewhere");
     console.log("\nConfiguration: Set connector env vars in .env (see README)");
     return;
   }
 
+  if (command === "replay") {
+    await replay();
+    return;
+  }
+
+  if (command === "audit") {
+    await audit();
+    return;
+  }
+
+  if (command === "snapshot") {
+    await snapshot();
+    return;
+  }
+
   console.log("Loading connector plugins...");
   const registry = await ConnectorRegistry.create();
   const connector = registry.getPrimary();
@@ -120,13 +456,26 @@ async function main() {
       console.error("  ❌ No ontology YAML found. Run 'import' first.");
       process.exit(1);
     }
+    // Synced records are mapped onto ITSM entity types and validated against them
+    if (existsSync(liveYaml) && existsSync(itsmYaml)) {
+      ontologyEngine.registerDomain(loadDomainFromYaml(itsmYaml));
+    }
+
+    // Synced entities are merged into the persisted graph and saved back
+    const previouslyStored = ontologyEngine.attachStore(createEntityStoreFromEnv(projectRoot));
 
     const limit = parseInt(process.env.SERVICENOW_SYNC_LIMIT || "100", 10);
-    const syncResult = await connector.syncEntities(ontologyEngine, { limit });
+    const validation = entityValidationModeFromEnv();
+    const syncResult = await connector.syncEntities(ontologyEngine, { limit, validation });
+    for (const issue of syncResult.validation?.issues.slice(0, 10) ?? []) {
+      console.log(`  ⚠️  ${issue.entityId}: ${issue.message}`);
+    }
+
+    ontologyEngine.persist();
 
     // Show a traversal example if we synced incidents
     const allEntities = ontologyEngine.getAllEntities();
-    console.log(`\n📊 Entity store: ${allEntities.length} entities total`);
+    console.log(`\n📊 Entity store: ${allEntities.length} entities total (${previouslyStored} before this sync)`);
 
     const sampleIncident = allEntities.find((e) => e.type === "incident");
     if (sampleIncident) {
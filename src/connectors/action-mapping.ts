@@ -0,0 +1,335 @@
+/**
+ * Action Mapping — declares what each proxied tool does.
+ *
+ * Constraints are keyed on actions (resolve, close, approve), but the
+ * upstream MCP server exposes tools with free-form names. Each domain
+ * can ship an action-mapping.yaml that maps a tool name or pattern to
+ * the action it performs, the argument naming its target, the target's
+ * entity type, and which connectors to consult for context.
+ *
+ * A tool no mapping covers gets an action guessed from its name. If
+ * the tool looks like a write, the unmapped-tool policy applies: deny
+ * (block the call), warn, or allow. A renamed write tool therefore
+ * fails closed instead of silently escaping enforcement.
+ */
+
+import type { OntologyEngine } from "../ontology/engine.js";
+import type { ConstraintContext, ConstraintDefinition, ConstraintResult } from "../constraints/types.js";
+import { ConstraintSeverity, ConstraintStatus } from "../constraints/types.js";
+import type { ResolvedTarget } from "./enrichment.js";
+
+/**
+ * What to do with a write-like tool that no mapping covers.
+ */
+export type UnmappedToolPolicy = "deny" | "warn" | "allow";
+
+const UNMAPPED_POLICIES: UnmappedToolPolicy[] = ["deny", "warn", "allow"];
+
+/**
+ * One entry in an action-mapping.yaml file.
+ */
+export interface ToolMapping {
+  /** Exact tool name (case-insensitive) */
+  tool?: string;
+  /** Regular expression tested against the tool name (case-insensitive) */
+  match?: string;
+  /** Only apply to tools from this upstream (e.g. servicenow, github) */
+  upstream?: string;
+  /** Constraint-relevant action the tool performs */
+  action: string;
+  /** Tool argument holding the target record's identifier */
+  targetArg?: string;
+  /**
+   * Entity type of the target (e.g. incident). Without targetArg, an
+   * explicit `_target_entity` must be an entity of this type.
+   */
+  entityType?: string;
+  /** Connector IDs to consult for context; omitted means every configured one */
+  enrich?: string[];
+}
+
+/**
+ * The contents of one domain's action-mapping.yaml.
+ */
+export interface ActionMappingFile {
+  /** Domain the mapping belongs to; prefixes resolved entity IDs */
+  domain: string;
+  /** Policy for write-like tools no entry covers (default: deny) */
+  unmapped?: UnmappedToolPolicy;
+  /** Mappings, checked in order; the first match wins */
+  tools: ToolMapping[];
+}
+
+/**
+ * How a proxied tool is treated.
+ */
+export interface ResolvedToolMapping {
+  /** The upstream tool name */
+  toolName: string;
+  /** The action constraints are evaluated against */
+  action: string;
+  /** Whether a mapping entry covers the tool */
+  mapped: boolean;
+  /** Whether the tool's name or description suggests it changes data */
+  writeLike: boolean;
+  /** Domain of the matching mapping */
+  domain?: string;
+  /** The matching mapping entry */
+  mapping?: ToolMapping;
+  /** Set for unmapped write-like tools: the policy that applies */
+  unmappedPolicy?: UnmappedToolPolicy;
+}
+
+/** ID of the built-in constraint enforcing the unmapped-tool policy */
+export const UNMAPPED_TOOL_CONSTRAINT_ID = "basanos:unmapped_write_tool";
+
+const WRITE_VERBS =
+  /\b(create|update|modify|edit|delete|remove|resolve|close|cancel|assign|reassign|approve|reject|set|add|submit|reopen|restart|execute|run|trigger|write)\b/i;
+
+/**
+ * Check that a value is a valid unmapped-tool policy.
+ */
+export function isUnmappedToolPolicy(value: unknown): value is UnmappedToolPolicy {
+  return UNMAPPED_POLICIES.includes(value as UnmappedToolPolicy);
+}
+
+/**
+ * Guess whether a tool changes data from its name and description.
+ * Names may be phrases ("Resolve incident") or identifiers
+ * (resolve_incident, resolveIncident). Deliberately broad: a false positive only means the tool needs a
+ * mapping entry.
+ */
+export function isWriteLike(toolName: string, description = ""): boolean {
+  // Split snake_case, kebab-case and camelCase names into words
+  const words = toolName.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/[_\-.]+/g, " ");
+  return WRITE_VERBS.test(words) || /\bwrite operation\b/i.test(description);
+}
+
+/**
+ * Guess an action from a tool name. Used only for unmapped tools.
+ */
+export function guessAction(toolName: string): string {
+  const lower = toolName.toLowerCase();
+  if (lower.includes("look up") || lower.includes("lookup") || lower.includes("get")) return "lookup";
+  if (lower.includes("summariz")) return "summarize";
+  if (lower.includes("resolve")) return "resolve";
+  if (lower.includes("close")) return "close";
+  if (lower.includes("assign")) return "assign";
+  if (lower.includes("approve")) return "approve";
+  if (lower.includes("create")) return "create";
+  if (lower.includes("update")) return "update";
+  if (lower.includes("delete")) return "delete";
+  return lower.replace(/\s+/g, "_");
+}
+
+/**
+ * Check the structure of a parsed action-mapping file. Returns a list
+ * of problems; empty means valid.
+ */
+export function validateActionMapping(raw: unknown): string[] {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") return ["Action mapping must be a YAML object"];
+  const file = raw as Record<string, unknown>;
+
+  if (typeof file.domain !== "string" || file.domain === "") {
+    errors.push("Missing domain");
+  }
+  if (file.unmapped !== undefined && !isUnmappedToolPolicy(file.unmapped)) {
+    errors.push(`Invalid unmapped policy "${String(file.unmapped)}" (expected deny, warn or allow)`);
+  }
+  if (!Array.isArray(file.tools)) {
+    errors.push("Missing tools list");
+    return errors;
+  }
+
+  file.tools.forEach((entry: unknown, i: number) => {
+    const where = `tools[${i}]`;
+    if (!entry || typeof entry !== "object") {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    const m = entry as Record<string, unknown>;
+    const label = typeof m.tool === "string" ? `${where} ("${m.tool}")` : where;
+
+    if ((m.tool === undefined) === (m.match === undefined)) {
+      errors.push(`${label}: set exactly one of tool or match`);
+    }
+    if (m.tool !== undefined && (typeof m.tool !== "string" || m.tool === "")) {
+      errors.push(`${label}: tool must be a non-empty string`);
+    }
+    if (m.match !== undefined) {
+      if (typeof m.match !== "string") {
+        errors.push(`${label}: match must be a string`);
+      } else {
+        try {
+          new RegExp(m.match, "i");
+        } catch (err) {
+          errors.push(`${label}: invalid match pattern: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    }
+    if (typeof m.action !== "string" || m.action === "") {
+      errors.push(`${label}: missing action`);
+    }
+    if (m.upstream !== undefined && typeof m.upstream !== "string") {
+      errors.push(`${label}: upstream must be a string`);
+    }
+    if (m.targetArg !== undefined && typeof m.targetArg !== "string") {
+      errors.push(`${label}: targetArg must be a string`);
+    }
+    if (m.entityType !== undefined && typeof m.entityType !== "string") {
+      errors.push(`${label}: entityType must be a string`);
+    }
+    if (m.targetArg !== undefined && m.entityType === undefined) {
+      errors.push(`${label}: targetArg needs an entityType`);
+    }
+    if (m.enrich !== undefined && !(Array.isArray(m.enrich) && m.enrich.every((c) => typeof c === "string"))) {
+      errors.push(`${label}: enrich must be a list of connector IDs`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Check a mapping's references against what is loaded at startup:
+ * entity types must exist in the ontology and enrichment connectors
+ * must be configured. Returns warnings; the mapping still loads.
+ */
+export function checkActionMappingReferences(
+  file: ActionMappingFile,
+  ontology: OntologyEngine,
+  connectorIds: string[]
+): string[] {
+  const warnings: string[] = [];
+  for (const m of file.tools) {
+    const label = m.tool ? `"${m.tool}"` : `/${m.match}/`;
+    if (m.entityType && !ontology.getEntityType(file.domain, m.entityType)) {
+      warnings.push(`${label}: entity type "${m.entityType}" is not defined in domain "${file.domain}"`);
+    }
+    for (const id of m.enrich ?? []) {
+      if (!connectorIds.includes(id)) {
+        warnings.push(`${label}: enrichment connector "${id}" is not configured`);
+      }
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Resolves proxied tools against every loaded action-mapping file.
+ */
+export class ActionMapper {
+  private files: ActionMappingFile[] = [];
+  private policyOverride: UnmappedToolPolicy | undefined;
+
+  /**
+   * @param options.unmapped - overrides the files' unmapped policy
+   *                           (e.g. from BASANOS_UNMAPPED_TOOLS)
+   */
+  constructor(options: { unmapped?: UnmappedToolPolicy } = {}) {
+    this.policyOverride = options.unmapped;
+  }
+
+  /**
+   * Add a domain's mapping. Files are checked in the order added.
+   */
+  add(file: ActionMappingFile): void {
+    this.files.push(file);
+  }
+
+  /**
+   * All loaded mapping files.
+   */
+  getFiles(): ActionMappingFile[] {
+    return this.files;
+  }
+
+  /**
+   * The policy for unmapped write-like tools: the override if set,
+   * otherwise the strictest policy any file declares, otherwise deny.
+   */
+  getUnmappedPolicy(): UnmappedToolPolicy {
+    if (this.policyOverride) return this.policyOverride;
+    const declared = this.files.map((f) => f.unmapped).filter(isUnmappedToolPolicy);
+    if (declared.length === 0) return "deny";
+    return UNMAPPED_POLICIES.find((p) => declared.includes(p)) ?? "deny";
+  }
+
+  /**
+   * Find the mapping for a tool, or describe how it is treated unmapped.
+   * Entries restricted to another upstream are skipped.
+   */
+  resolve(toolName: string, description = "", upstream?: string): ResolvedToolMapping {
+    const writeLike = isWriteLike(toolName, description);
+    for (const file of this.files) {
+      for (const mapping of file.tools) {
+        if (mapping.upstream && upstream && mapping.upstream !== upstream) continue;
+        const matches = mapping.tool !== undefined
+          ? mapping.tool.toLowerCase() === toolName.toLowerCase()
+          : new RegExp(mapping.match ?? "", "i").test(toolName);
+        if (matches) {
+          return { toolName, action: mapping.action, mapped: true, writeLike, domain: file.domain, mapping };
+        }
+      }
+    }
+    return {
+      toolName,
+      action: guessAction(toolName),
+      mapped: false,
+      writeLike,
+      ...(writeLike ? { unmappedPolicy: this.getUnmappedPolicy() } : {}),
+    };
+  }
+
+  /**
+   * The target named by a mapped tool's targetArg, if present in the
+   * arguments. Returns undefined when the mapping does not say.
+   */
+  targetFor(resolved: ResolvedToolMapping, args: Record<string, unknown>): ResolvedTarget | undefined {
+    const m = resolved.mapping;
+    if (!m?.targetArg || !m.entityType) return undefined;
+    const value = args[m.targetArg];
+    if (typeof value !== "string" && typeof value !== "number") return undefined;
+    const ref = String(value).trim();
+    if (ref === "") return undefined;
+    return { targetEntity: `${resolved.domain}:${m.entityType}:${ref}`, entityRef: ref };
+  }
+}
+
+/**
+ * Built-in constraint that enforces the unmapped-tool policy. The proxy
+ * marks each call with `tool_mapped` and `tool_write_like`; this blocks
+ * (deny) or warns on unmapped write-like tools, whatever the target's
+ * domain.
+ */
+export function createUnmappedToolConstraint(policy: "deny" | "warn"): ConstraintDefinition {
+  const severity = policy === "deny" ? ConstraintSeverity.BLOCK : ConstraintSeverity.WARN;
+  return {
+    id: UNMAPPED_TOOL_CONSTRAINT_ID,
+    name: "Unmapped Write Tool",
+    domain: "basanos",
+    allDomains: true,
+    appliesTo: ["*"],
+    relevantActions: ["*"],
+    severity,
+    status: ConstraintStatus.PROMOTED,
+    description:
+      "Proxied tools that look like writes must be declared in an action-mapping.yaml " +
+      "so the right constraints apply to them.",
+    evaluate: async (context: ConstraintContext): Promise<ConstraintResult> => {
+      const unmappedWrite =
+        context.metadata.tool_mapped === false && context.metadata.tool_write_like === true;
+      return {
+        constraintId: UNMAPPED_TOOL_CONSTRAINT_ID,
+        satisfied: !unmappedWrite,
+        severity,
+        explanation: unmappedWrite
+          ? `Tool "${String(context.metadata.tool_name)}" looks like a write but has no entry in any ` +
+            "action-mapping.yaml. Add a mapping so its constraints can be enforced."
+          : "Tool is mapped or read-only.",
+        involvedEntities: [context.targetEntity],
+      };
+    },
+  };
+}
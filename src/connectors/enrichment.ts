@@ -0,0 +1,130 @@
+/**
+ * Enrichment Gateway — gathers live context for proxied tool calls.
+ *
+ * Agents calling a proxied tool only pass the tool's own arguments,
+ * which say nothing about change freezes or open deploys. Before the
+ * call is checked, the gateway resolves the target entity from those
+ * arguments and asks each configured connector for current state.
+ *
+ * Connectors run in order, and each sees the metadata gathered so far,
+ * so Jira can look up deploys for the CI that ServiceNow reported.
+ * A connector that fails is recorded in the trace and skipped; the
+ * constraints then see whatever the others returned.
+ */
+
+import type { ConnectorPlugin } from "./types.js";
+import type { EnrichmentStep } from "../constraints/engine.js";
+
+/**
+ * Anything that can add live context for an entity.
+ */
+export interface EnrichmentSource {
+  /** Connector ID recorded in the enrichment trace */
+  id: string;
+  /** Return metadata for rule evaluation; an `error` key marks a soft failure */
+  enrich(
+    entityRef: string,
+    action: string,
+    priorMetadata: Record<string, unknown>
+  ): Promise<Record<string, unknown>>;
+}
+
+export interface ResolvedTarget {
+  /** Entity ID used for constraint evaluation and scoping */
+  targetEntity: string;
+  /** Record reference handed to connectors (e.g. an incident number) */
+  entityRef?: string;
+}
+
+export interface EnrichmentResult {
+  /** Tool arguments merged with everything the connectors returned */
+  metadata: Record<string, unknown>;
+  /** One step per connector consulted */
+  trace: EnrichmentStep[];
+}
+
+/** Target used when nothing in the arguments identifies a record */
+export const UNKNOWN_TARGET = "servicenow:unknown:unknown";
+
+const INCIDENT_NUMBER = /\bINC\d+\b/i;
+
+/**
+ * Work out which entity a tool call targets. An explicit
+ * `_target_entity` wins; otherwise the first incident number found in
+ * a string argument is used (e.g. `number: "INC0010001"`).
+ *
+ * @param args - tool arguments as sent by the agent
+ * @param domain - domain prefix for resolved entity IDs
+ */
+export function resolveTarget(args: Record<string, unknown>, domain = "itsm"): ResolvedTarget {
+  const explicit = args._target_entity;
+  if (typeof explicit === "string" && explicit.trim() !== "") {
+    const parts = explicit.split(":");
+    const ref = parts[parts.length - 1];
+    return { targetEntity: explicit, entityRef: ref && ref !== "unknown" ? ref : undefined };
+  }
+
+  for (const value of Object.values(args)) {
+    if (typeof value !== "string") continue;
+    const match = value.match(INCIDENT_NUMBER);
+    if (match) {
+      const number = match[0].toUpperCase();
+      return { targetEntity: `${domain}:incident:${number}`, entityRef: number };
+    }
+  }
+
+  return { targetEntity: UNKNOWN_TARGET };
+}
+
+/**
+ * Adapt a connector plugin to an enrichment source.
+ */
+export function pluginSource(plugin: ConnectorPlugin): EnrichmentSource {
+  return {
+    id: plugin.id,
+    enrich: (entityRef, action, priorMetadata) =>
+      plugin.enrichContext(entityRef, action, priorMetadata),
+  };
+}
+
+/**
+ * Ask each source, in order, for context on the entity and merge the
+ * results over the base metadata. Enriched values win over tool
+ * arguments, so an agent cannot pass `change_freeze_active: false` to
+ * talk its way past a freeze.
+ */
+export async function enrichContext(
+  sources: EnrichmentSource[],
+  entityRef: string | undefined,
+  action: string,
+  baseMetadata: Record<string, unknown>
+): Promise<EnrichmentResult> {
+  const metadata: Record<string, unknown> = { ...baseMetadata };
+  const trace: EnrichmentStep[] = [];
+  if (!entityRef) return { metadata, trace };
+
+  for (const source of sources) {
+    const started = Date.now();
+    try {
+      const { error, ...data } = await source.enrich(entityRef, action, { ...metadata });
+      Object.assign(metadata, data);
+      trace.push({
+        connector: source.id,
+        entityRef,
+        fields: Object.keys(data),
+        durationMs: Date.now() - started,
+        ...(error !== undefined ? { error: String(error) } : {}),
+      });
+    } catch (err) {
+      trace.push({
+        connector: source.id,
+        entityRef,
+        fields: [],
+        durationMs: Date.now() - started,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { metadata, trace };
+}
@@ -264,10 +264,16 @@ class JiraPlugin implements ConnectorPlugin {
 
   async enrichContext(
     entityRef: string,
-    _action: string
+    _action: string,
+    priorMetadata?: Record<string, unknown>
   ): Promise<Record<string, unknown>> {
-    // entityRef is expected to be a CI/service name (e.g., "recommendationservice")
-    const serviceKey = entityRef.split("/")[0].toLowerCase();
+    // entityRef is expected to be a CI/service name (e.g., "recommendationservice").
+    // Behind the proxy it is an incident number, so use the CI ServiceNow found.
+    const ciName = typeof priorMetadata?.ci_name === "string" ? priorMetadata.ci_name : "";
+    const serviceKey = (ciName || entityRef).split("/")[0].toLowerCase();
+    if (!serviceKey) {
+      return { source: "jira", jira_open_deploys: 0, jira_deploy_details: [] };
+    }
     const active = this.getActiveDeploys().filter((d) =>
       d.service.toLowerCase().includes(serviceKey)
     );
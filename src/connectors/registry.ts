@@ -27,13 +27,18 @@ const SKIP_DIRS = new Set(["node_modules", "__tests__", "test"]);
 export class ConnectorRegistry {
   private plugins: Map<string, ConnectorPlugin> = new Map();
   private configured: Map<string, ConnectorPlugin> = new Map();
+  private log: (message: string) => void = console.log;
 
   /**
    * Create and initialize a registry by scanning for plugins.
    * This is the primary way to create a registry.
+   *
+   * @param log - where status lines go; the MCP server passes a stderr
+   *              logger because stdout carries the protocol
    */
-  static async create(): Promise<ConnectorRegistry> {
+  static async create(log?: (message: string) => void): Promise<ConnectorRegistry> {
     const registry = new ConnectorRegistry();
+    if (log) registry.log = log;
     await registry.discoverPlugins();
     return registry;
   }
@@ -77,9 +82,9 @@ export class ConnectorRegistry {
 
     if (plugin.configureFromEnv()) {
       this.configured.set(plugin.id, plugin);
-      console.log(`  Connector [${plugin.id}]: configured`);
+      this.log(`  Connector [${plugin.id}]: configured`);
     } else {
-      console.log(`  Connector [${plugin.id}]: available (not configured)`);
+      this.log(`  Connector [${plugin.id}]: available (not configured)`);
     }
   }
 
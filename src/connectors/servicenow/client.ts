@@ -320,7 +320,7 @@ export function createConnectorFromEnv(): ServiceNowConnector | null {
     return null;
   }
 
-  console.log(`  Auth mode: ${authMode}`);
+  console.error(`  Auth mode: ${authMode}`);
 
   return new ServiceNowConnector({
     instanceUrl,
@@ -57,7 +57,8 @@ async function discoverIncidentConstraints(
           "Incident resolution during active change windows should be blocked.",
         conditions: [],
         violationMessage:
-          "An active change freeze is in effect. Escalate to change management.",
+          "An active change freeze is in effect. Active changes on the CI: " +
+          "{{active_change_numbers|none recorded}}. Escalate to change management.",
         satisfiedMessage: "No active change freeze detected.",
         evidence: `${recentChanges.length} change requests found in recent history`,
       });
@@ -10,6 +10,8 @@
 import type { ServiceNowConnector, ServiceNowRecord } from "./client.js";
 import type { OntologyEngine } from "../../ontology/engine.js";
 import type { Entity, EntityId } from "../../ontology/types.js";
+import type { EntityValidationMode, EntityValidationReport } from "../../ontology/schema.js";
+import { EntityValidationError, createValidationReport, mergeValidationReport, recordValidation } from "../../ontology/schema.js";
 
 /**
  * Field mappings: which ServiceNow fields map to Basanos entity properties
@@ -157,17 +159,21 @@ function extractRefId(field: unknown): string | null {
 
 /**
  * Sync entities from a ServiceNow table into the Basanos ontology engine.
+ * Each entity is checked against its schema: in strict mode invalid
+ * entities are left out, in lenient mode they are stored; either way
+ * their issues go into the validation report.
  */
 export async function syncTable(
   connector: ServiceNowConnector,
   tableName: string,
   ontologyEngine: OntologyEngine,
-  options?: { limit?: number; query?: string }
-): Promise<{ synced: number; errors: number }> {
+  options?: { limit?: number; query?: string; validation?: EntityValidationMode }
+): Promise<{ synced: number; errors: number; validation: EntityValidationReport }> {
+  const validation = createValidationReport(options?.validation ?? "lenient");
   const mapping = ITSM_TABLE_MAP[tableName];
   if (!mapping) {
     console.log(`  ⚠️  No mapping for table ${tableName}, skipping`);
-    return { synced: 0, errors: 0 };
+    return { synced: 0, errors: 0, validation };
   }
 
   const allPropertyFields = Object.keys(mapping.propertyFields);
@@ -211,15 +217,24 @@ export async function syncTable(
         relationships,
       };
 
-      ontologyEngine.addEntity(entity);
-      synced++;
+      try {
+        const issues = ontologyEngine.addEntity(entity, { validation: validation.mode });
+        if (validation.mode !== "off") recordValidation(validation, issues, false);
+        synced++;
+      } catch (err) {
+        if (!(err instanceof EntityValidationError)) throw err;
+        recordValidation(validation, err.issues, true);
+      }
     } catch (err) {
       errors++;
     }
   }
 
-  console.log(`  ✅ ${tableName}: synced ${synced} entities (${errors} errors)`);
-  return { synced, errors };
+  const invalid = validation.invalid > 0
+    ? `, ${validation.invalid} failed validation${validation.rejected > 0 ? ` (${validation.rejected} rejected)` : ""}`
+    : "";
+  console.log(`  ✅ ${tableName}: synced ${synced} entities (${errors} errors${invalid})`);
+  return { synced, errors, validation };
 }
 
 /**
@@ -228,13 +243,14 @@ export async function syncTable(
 export async function syncAllTables(
   connector: ServiceNowConnector,
   ontologyEngine: OntologyEngine,
-  options?: { limit?: number }
-): Promise<{ totalSynced: number; totalErrors: number; tables: string[] }> {
+  options?: { limit?: number; validation?: EntityValidationMode }
+): Promise<{ totalSynced: number; totalErrors: number; tables: string[]; validation: EntityValidationReport }> {
   console.log("\nSyncing entities from ServiceNow...");
 
   let totalSynced = 0;
   let totalErrors = 0;
   const tables: string[] = [];
+  const validation = createValidationReport(options?.validation ?? "lenient");
 
   // Sync in dependency order: referenced tables first
   const syncOrder = [
@@ -251,10 +267,15 @@ export async function syncAllTables(
     totalSynced += result.synced;
     totalErrors += result.errors;
     tables.push(table);
+    mergeValidationReport(validation, result.validation);
   }
 
   console.log(
     `\n✅ Sync complete: ${totalSynced} entities across ${tables.length} tables (${totalErrors} errors)`
   );
-  return { totalSynced, totalErrors, tables };
+  if (validation.invalid > 0) {
+    const codes = Object.entries(validation.byCode).map(([code, n]) => `${code} ${n}`).join(", ");
+    console.log(`⚠️  Validation (${validation.mode}): ${validation.invalid} of ${validation.checked} entities have issues (${codes})`);
+  }
+  return { totalSynced, totalErrors, tables, validation };
 }
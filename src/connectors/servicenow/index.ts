@@ -93,7 +93,9 @@ class ServiceNowPlugin implements ConnectorPlugin {
     // Set up MCP proxy if configured
     const mcpServerUrl = process.env.SERVICENOW_MCP_SERVER_URL;
     if (mcpServerUrl) {
-      const tokenFile = process.env.SERVICENOW_TOKEN_FILE || "servicenow-tokens.json";
+      const tokenFile = process.env.SERVICENOW_MCP_TOKEN_FILE
+        || process.env.SERVICENOW_TOKEN_FILE
+        || "servicenow-tokens.json";
       this._mcpProxy = new ServiceNowMCPProxy(
         mcpServerUrl,
         tokenFile,
@@ -29,6 +29,17 @@ export interface SNMCPTool {
   config_dict?: Record<string, unknown>;
 }
 
+/**
+ * An HTTP request to the ServiceNow instance that executes a tool.
+ */
+export interface SNMCPRequest {
+  method: string;
+  /** Path on the instance, e.g. /api/now/table/incident */
+  endpoint: string;
+  /** JSON body, with the tool template expanded from the arguments */
+  payload: Record<string, unknown>;
+}
+
 export interface SNMCPConfig {
   /** Full MCP Server URL, e.g. https://instance.service-now.com/sncapps/mcp-server/mcp/sn_mcp_server_default */
   mcpServerUrl?: string;
@@ -209,6 +220,18 @@ export class ServiceNowMCPClient {
     toolName: string,
     args: Record<string, unknown>
   ): Promise<unknown> {
+    const request = await this.buildRequest(toolName, args);
+    return this.makeRequest(request.method, request.endpoint, request.payload);
+  }
+
+  /**
+   * Build the request `executeTool` would send for a call, without
+   * sending it. Used for dry runs.
+   */
+  async buildRequest(
+    toolName: string,
+    args: Record<string, unknown>
+  ): Promise<SNMCPRequest> {
     const tools = await this.fetchTools();
     const tool = tools.find((t) => t.name === toolName);
     if (!tool) {
@@ -216,18 +239,18 @@ export class ServiceNowMCPClient {
     }
 
     if (tool.tool_type === "rest_api") {
-      return this.executeRestApiTool(tool, args);
+      return this.restApiRequest(tool, args);
     } else if (tool.tool_type === "ai_skill") {
-      return this.executeAiSkillTool(tool, args);
+      return this.aiSkillRequest(tool, args);
     } else {
       throw new Error(`Unsupported tool type: ${tool.tool_type}`);
     }
   }
 
-  private async executeRestApiTool(
+  private restApiRequest(
     tool: SNMCPTool,
     args: Record<string, unknown>
-  ): Promise<unknown> {
+  ): SNMCPRequest {
     const template = tool.template || {};
     const payload: Record<string, unknown> = {};
 
@@ -244,15 +267,17 @@ export class ServiceNowMCPClient {
       }
     }
 
-    const endpoint = tool.api_endpoint || "";
-    const method = tool.api_method || "POST";
-    return this.makeRequest(method, endpoint, payload);
+    return {
+      method: tool.api_method || "POST",
+      endpoint: tool.api_endpoint || "",
+      payload,
+    };
   }
 
-  private async executeAiSkillTool(
+  private aiSkillRequest(
     tool: SNMCPTool,
     args: Record<string, unknown>
-  ): Promise<unknown> {
+  ): SNMCPRequest {
     const preprocessEndpoint = tool.preprocessing_endpoint;
     if (!preprocessEndpoint) {
       throw new Error(`AI skill "${tool.name}" missing preprocessing endpoint`);
@@ -261,12 +286,10 @@ export class ServiceNowMCPClient {
     const template = tool.template || {};
     const payload: Record<string, unknown> = { ...template };
 
-    // Merge arguments into payload
+    // Merge arguments into payload (copying the inner object, so the
+    // cached tool template is never modified)
     if (payload.payload && typeof payload.payload === "object") {
-      const inner = payload.payload as Record<string, unknown>;
-      for (const [key, value] of Object.entries(args)) {
-        inner[key] = value;
-      }
+      payload.payload = { ...(payload.payload as Record<string, unknown>), ...args };
     } else {
       for (const [key, value] of Object.entries(args)) {
         payload[key] = value;
@@ -278,7 +301,7 @@ export class ServiceNowMCPClient {
       payload.config_dict = tool.config_dict;
     }
 
-    return this.makeRequest("POST", preprocessEndpoint, payload);
+    return { method: "POST", endpoint: preprocessEndpoint, payload };
   }
 
   /**
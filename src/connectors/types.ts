@@ -18,6 +18,7 @@
 
 import type { Entity } from "../ontology/types.js";
 import type { OntologyEngine } from "../ontology/engine.js";
+import type { EntityValidationMode, EntityValidationReport } from "../ontology/schema.js";
 import type {
   ConstraintContext,
   ConstraintResult,
@@ -58,12 +59,16 @@ export interface SchemaImportResult {
 export interface SyncOptions {
   limit?: number;
   query?: string;
+  /** How synced entities are checked against their schema (default lenient) */
+  validation?: EntityValidationMode;
 }
 
 export interface SyncResult {
   totalSynced: number;
   totalErrors: number;
   tables: string[];
+  /** Schema validation of the synced entities */
+  validation?: EntityValidationReport;
 }
 
 /**
@@ -105,7 +110,11 @@ export interface MCPProxyCapability {
   testConnection(): Promise<ConnectionResult>;
   listTools(): Promise<MCPProxyTool[]>;
   executeTool(name: string, args: Record<string, unknown>): Promise<unknown>;
-  enrichContext(entityRef: string, action: string): Promise<Record<string, unknown>>;
+  enrichContext(
+    entityRef: string,
+    action: string,
+    priorMetadata?: Record<string, unknown>
+  ): Promise<Record<string, unknown>>;
   queryEntities?(filter?: string): Promise<Array<Record<string, string>>>;
   isConnected(): boolean;
   getInstanceUrl(): string;
@@ -210,7 +219,8 @@ export interface ConnectorPlugin {
    *   - Querying the target system for live records
    *   - Mapping system-specific fields to Basanos entity properties
    *   - Wiring relationships between entities
-   *   - Adding entities to the ontology engine via engine.addEntity()
+   *   - Adding entities to the ontology engine via engine.addEntity(),
+   *     validated in the requested mode, and reporting the outcome
    *
    * @param ontologyEngine - the engine to populate
    * @param options - limit, query filters
@@ -260,12 +270,18 @@ export interface ConnectorPlugin {
    * constraints. For example, if a constraint checks metadata.change_freeze_active,
    * this method must return { change_freeze_active: true/false, ... }.
    *
+   * Connectors are called in turn, and priorMetadata holds what the tool
+   * arguments and earlier connectors provided (e.g. ServiceNow's ci_name),
+   * so a connector can key its lookup on another system's data.
+   *
    * @param entityRef - entity identifier (e.g., incident number, issue key)
    * @param action - intended action (e.g., "resolve", "close", "assign")
+   * @param priorMetadata - context gathered so far, if called by the proxy
    */
   enrichContext(
     entityRef: string,
-    action: string
+    action: string,
+    priorMetadata?: Record<string, unknown>
   ): Promise<Record<string, unknown>>;
 
   // ── Optional: MCP Proxy ───────────────────────────────────
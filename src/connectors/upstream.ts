@@ -0,0 +1,271 @@
+/**
+ * Upstream MCP Client — connects Basanos to any MCP server.
+ *
+ * Each upstream declared in upstreams.yaml is reached over stdio (a
+ * spawned command) or streamable HTTP using the MCP SDK client. Its
+ * tools are listed once at startup and mounted on the Basanos server
+ * under the upstream's prefix, so github_create_issue and
+ * jira_create_issue can sit side by side.
+ *
+ *   Agent -> Basanos (constraint check) -> upstream MCP server
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+/**
+ * One upstream MCP server to front.
+ */
+export interface UpstreamConfig {
+  /** Upstream ID, used in logs, audit metadata and action mappings */
+  name: string;
+  /** Prefix for exposed tool names (default: `<name>_`) */
+  prefix?: string;
+  /** Display name for tool descriptions (default: the name) */
+  label?: string;
+  /** How to reach the server */
+  transport: "stdio" | "http";
+  /** stdio: command to spawn */
+  command?: string;
+  /** stdio: command arguments */
+  args?: string[];
+  /** stdio: extra environment variables; `${VAR}` is expanded */
+  env?: Record<string, string>;
+  /** stdio: working directory */
+  cwd?: string;
+  /** http: streamable HTTP endpoint */
+  url?: string;
+  /** http: request headers; `${VAR}` is expanded */
+  headers?: Record<string, string>;
+}
+
+/**
+ * The contents of upstreams.yaml.
+ */
+export interface UpstreamsFile {
+  upstreams: UpstreamConfig[];
+}
+
+const UPSTREAM_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+function isStringMap(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === "object" && !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string");
+}
+
+/**
+ * Check the structure of a parsed upstreams file. Returns a list of
+ * problems; empty means valid.
+ */
+export function validateUpstreams(raw: unknown): string[] {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") return ["Upstreams file must be a YAML object"];
+  const file = raw as Record<string, unknown>;
+  if (!Array.isArray(file.upstreams)) return ["Missing upstreams list"];
+
+  const seen = new Set<string>();
+  file.upstreams.forEach((entry: unknown, i: number) => {
+    const where = `upstreams[${i}]`;
+    if (!entry || typeof entry !== "object") {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    const u = entry as Record<string, unknown>;
+    const label = typeof u.name === "string" ? `${where} ("${u.name}")` : where;
+
+    if (typeof u.name !== "string" || !UPSTREAM_NAME.test(u.name)) {
+      errors.push(`${label}: name must start with a letter and use only letters, digits, _ or -`);
+    } else if (seen.has(u.name)) {
+      errors.push(`${label}: duplicate name`);
+    } else {
+      seen.add(u.name);
+    }
+    if (u.prefix !== undefined && typeof u.prefix !== "string") {
+      errors.push(`${label}: prefix must be a string`);
+    }
+    if (u.label !== undefined && typeof u.label !== "string") {
+      errors.push(`${label}: label must be a string`);
+    }
+
+    if (u.transport === "stdio") {
+      if (typeof u.command !== "string" || u.command === "") {
+        errors.push(`${label}: stdio transport needs a command`);
+      }
+      if (u.args !== undefined && !(Array.isArray(u.args) && u.args.every((a) => typeof a === "string"))) {
+        errors.push(`${label}: args must be a list of strings`);
+      }
+      if (u.env !== undefined && !isStringMap(u.env)) {
+        errors.push(`${label}: env must map names to strings`);
+      }
+      if (u.cwd !== undefined && typeof u.cwd !== "string") {
+        errors.push(`${label}: cwd must be a string`);
+      }
+    } else if (u.transport === "http") {
+      if (typeof u.url !== "string") {
+        errors.push(`${label}: http transport needs a url`);
+      } else {
+        try {
+          new URL(u.url);
+        } catch {
+          errors.push(`${label}: invalid url "${u.url}"`);
+        }
+      }
+      if (u.headers !== undefined && !isStringMap(u.headers)) {
+        errors.push(`${label}: headers must map names to strings`);
+      }
+    } else {
+      errors.push(`${label}: transport must be stdio or http`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Replace `${VAR}` references with values from the environment, so
+ * tokens stay in .env rather than upstreams.yaml. Unset variables
+ * become empty strings.
+ */
+export function expandEnv(value: string, env: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => env[name] ?? "");
+}
+
+function expandAll(values: Record<string, string> | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values ?? {})) out[key] = expandEnv(value);
+  return out;
+}
+
+// ── JSON Schema → zod ─────────────────────────────────────────
+
+type JsonSchema = Record<string, unknown>;
+
+function schemaToZod(schema: JsonSchema | undefined): z.ZodTypeAny {
+  if (!schema || typeof schema !== "object") return z.unknown();
+  let field: z.ZodTypeAny;
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0 && schema.enum.every((v) => typeof v === "string")) {
+    field = z.enum(schema.enum as [string, ...string[]]);
+  } else if (type === "string") {
+    field = z.string();
+  } else if (type === "number") {
+    field = z.number();
+  } else if (type === "integer") {
+    field = z.number().int();
+  } else if (type === "boolean") {
+    field = z.boolean();
+  } else if (type === "array") {
+    field = z.array(schemaToZod(schema.items as JsonSchema | undefined));
+  } else if (type === "object") {
+    const properties = schema.properties as Record<string, JsonSchema> | undefined;
+    field = properties && Object.keys(properties).length > 0
+      ? z.object(jsonSchemaToZodShape(schema)).passthrough()
+      : z.record(z.unknown());
+  } else {
+    field = z.unknown();
+  }
+
+  return typeof schema.description === "string" ? field.describe(schema.description) : field;
+}
+
+/**
+ * Convert a tool's JSON Schema input to a zod raw shape for
+ * McpServer.tool(). Covers the common subset (scalars, enums, arrays,
+ * nested objects); anything else is accepted as-is and left for the
+ * upstream to validate.
+ */
+export function jsonSchemaToZodShape(schema: Tool["inputSchema"] | JsonSchema | undefined): Record<string, z.ZodTypeAny> {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  const properties = (schema?.properties ?? {}) as Record<string, JsonSchema>;
+  const required = Array.isArray(schema?.required) ? (schema.required as string[]) : [];
+  for (const [name, property] of Object.entries(properties)) {
+    const field = schemaToZod(property);
+    shape[name] = required.includes(name) ? field : field.optional();
+  }
+  return shape;
+}
+
+// ── Client ────────────────────────────────────────────────────
+
+/**
+ * MCP SDK client for one upstream server.
+ */
+export class UpstreamMCPClient {
+  private config: UpstreamConfig;
+  private client: Client;
+  private connected = false;
+
+  constructor(config: UpstreamConfig) {
+    this.config = config;
+    this.client = new Client({ name: "basanos", version: "0.1.0" });
+  }
+
+  getName(): string {
+    return this.config.name;
+  }
+
+  getLabel(): string {
+    return this.config.label ?? this.config.name;
+  }
+
+  getPrefix(): string {
+    return this.config.prefix ?? `${this.config.name}_`;
+  }
+
+  /**
+   * Connect using the configured transport. A transport can be passed
+   * in instead (e.g. an in-memory pair in tests).
+   */
+  async connect(transport?: Transport): Promise<void> {
+    await this.client.connect(transport ?? this.createTransport());
+    this.connected = true;
+  }
+
+  private createTransport(): Transport {
+    const c = this.config;
+    if (c.transport === "stdio") {
+      return new StdioClientTransport({
+        command: c.command!,
+        args: (c.args ?? []).map((a) => expandEnv(a)),
+        env: { ...getDefaultEnvironment(), ...expandAll(c.env) },
+        cwd: c.cwd,
+        stderr: "inherit",
+      });
+    }
+    return new StreamableHTTPClientTransport(new URL(expandEnv(c.url!)), {
+      requestInit: { headers: expandAll(c.headers) },
+    });
+  }
+
+  /**
+   * Every tool the upstream offers, following pagination.
+   */
+  async listTools(): Promise<Tool[]> {
+    const tools: Tool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.client.listTools(cursor ? { cursor } : undefined);
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Forward a tool call and return the upstream's result unchanged.
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    return (await this.client.callTool({ name, arguments: args })) as CallToolResult;
+  }
+
+  async close(): Promise<void> {
+    if (!this.connected) return;
+    this.connected = false;
+    await this.client.close();
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Approval Queue — proxied calls held for a human decision.
+ *
+ * A require_approval constraint does not end the call the way a block
+ * does. The proxy parks the call (upstream tool, arguments and verdict)
+ * here and hands the agent an approval ID to poll. A reviewer approves
+ * or rejects it with a reason; on approval the original call is
+ * forwarded and its outcome recorded on the request. Reviewers need a
+ * reviewer role, and nobody decides a request they made themselves.
+ *
+ * The MCP server parks calls and the dashboard decides them, usually in
+ * separate processes, so the queue can be backed by a JSON file that
+ * every operation re-reads. Every change to it is made under a lock
+ * file, and an approval is claimed there before the call is forwarded,
+ * so a call is forwarded at most once.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { randomUUID } from "crypto";
+
+import type { ConstraintVerdict } from "./engine.js";
+import { withFileLock } from "./file-lock.js";
+import type { Principal } from "./types.js";
+
+/**
+ * Lifecycle of a parked call: pending until decided, then rejected, or
+ * approved and executed (or failed). Undecided requests expire.
+ */
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "executed" | "failed" | "expired";
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = ["pending", "approved", "rejected", "executed", "failed", "expired"];
+
+/**
+ * Who decides a parked call.
+ */
+export type Reviewer = Pick<Principal, "id" | "roles">;
+
+/**
+ * A reviewer's decision on a parked call.
+ */
+export interface ApprovalDecision {
+  /** Reviewer (principal ID, or "dashboard" when anonymous) */
+  by: string;
+  /** Why the call was approved or rejected */
+  reason: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+/**
+ * What happened when an approved call was forwarded.
+ */
+export interface ApprovalOutcome {
+  /** ISO timestamp */
+  at: string;
+  /** Upstream result, if the call succeeded */
+  result?: unknown;
+  /** Error message, if the call failed */
+  error?: string;
+}
+
+/**
+ * A proxied tool call waiting for, or past, a human decision.
+ */
+export interface ApprovalRequest {
+  /** Approval ID agents poll with */
+  id: string;
+  status: ApprovalStatus;
+  /** ISO timestamp the call was parked */
+  createdAt: string;
+  /** ISO timestamp after which a pending request expires */
+  expiresAt?: string;
+  /** Upstream the call was meant for (e.g. "servicenow") */
+  upstream: string;
+  /** Tool name on the upstream */
+  tool: string;
+  /** Name the tool is exposed under on Basanos */
+  exposedName: string;
+  /** Arguments to forward on approval */
+  args: Record<string, unknown>;
+  /** The verdict that held the call, including its context and principal */
+  verdict: ConstraintVerdict;
+  decision?: ApprovalDecision;
+  outcome?: ApprovalOutcome;
+}
+
+/**
+ * What the proxy supplies when it parks a call.
+ */
+export type ApprovalInput = Pick<ApprovalRequest, "upstream" | "tool" | "exposedName" | "args" | "verdict">;
+
+/**
+ * Forwards an approved call and returns the upstream result.
+ */
+export type ApprovalExecutor = (request: ApprovalRequest) => Promise<unknown>;
+
+/**
+ * A decision that cannot be applied: a reviewer who may not decide it
+ * (403), unknown ID (404) or a request that is no longer pending (409).
+ */
+export class ApprovalError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApprovalError";
+    this.status = status;
+  }
+}
+
+export interface ApprovalQueueOptions {
+  /** JSON file shared between processes; omit to keep the queue in memory */
+  path?: string;
+  /** How long a request stays pending, in milliseconds; 0 never expires (default: 24h) */
+  ttlMs?: number;
+  /** Roles that may decide requests; empty lets any reviewer decide (default) */
+  reviewerRoles?: string[];
+}
+
+export class ApprovalQueue {
+  private readonly path: string | undefined;
+  private readonly ttlMs: number;
+  private readonly reviewerRoles: string[];
+  private requests: ApprovalRequest[] = [];
+
+  constructor(options: ApprovalQueueOptions = {}) {
+    this.path = options.path ? resolve(options.path) : undefined;
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+    this.reviewerRoles = options.reviewerRoles ?? [];
+    if (this.path) mkdirSync(dirname(this.path), { recursive: true });
+  }
+
+  /**
+   * Park a call for review. Returns the pending request.
+   */
+  async submit(input: ApprovalInput): Promise<ApprovalRequest> {
+    const now = new Date();
+    const request: ApprovalRequest = {
+      id: randomUUID(),
+      status: "pending",
+      createdAt: now.toISOString(),
+      ...(this.ttlMs > 0 ? { expiresAt: new Date(now.getTime() + this.ttlMs).toISOString() } : {}),
+      ...input,
+    };
+    return this.locked(() => {
+      const requests = this.load();
+      requests.push(request);
+      this.save(requests);
+      return request;
+    });
+  }
+
+  /** Roles that may decide requests; empty when anyone may */
+  getReviewerRoles(): string[] {
+    return [...this.reviewerRoles];
+  }
+
+  /**
+   * Look up a request by ID.
+   */
+  get(id: string): ApprovalRequest | undefined {
+    return this.load().find((r) => r.id === id);
+  }
+
+  /**
+   * List requests, newest first, optionally by status.
+   */
+  list(status?: ApprovalStatus): ApprovalRequest[] {
+    return this.load().filter((r) => !status || r.status === status).reverse();
+  }
+
+  /**
+   * Reject a pending request. The call is never forwarded.
+   */
+  reject(id: string, reviewer: Reviewer, reason: string): Promise<ApprovalRequest> {
+    return this.decide(id, "rejected", reviewer, reason);
+  }
+
+  /**
+   * Approve a pending request and forward the original call through
+   * `execute`. The request is marked approved before the call is
+   * forwarded, so a second approval finds it decided. It ends up
+   * executed or failed, with the outcome.
+   */
+  async approve(id: string, reviewer: Reviewer, reason: string, execute: ApprovalExecutor): Promise<ApprovalRequest> {
+    const approved = await this.decide(id, "approved", reviewer, reason);
+    let outcome: Omit<ApprovalOutcome, "at">;
+    try {
+      outcome = { result: await execute(approved) };
+    } catch (err) {
+      outcome = { error: err instanceof Error ? err.message : String(err) };
+    }
+    return this.update(id, (r) => {
+      r.status = outcome.error === undefined ? "executed" : "failed";
+      r.outcome = { at: new Date().toISOString(), ...outcome };
+    });
+  }
+
+  private decide(id: string, status: "approved" | "rejected", reviewer: Reviewer, reason: string): Promise<ApprovalRequest> {
+    return this.update(id, (r) => {
+      if (r.status !== "pending") {
+        throw new ApprovalError(`Approval ${id} is already ${r.status}`, 409);
+      }
+      if (r.verdict.context.principal?.id === reviewer.id) {
+        throw new ApprovalError(`${reviewer.id} cannot decide their own request`, 403);
+      }
+      if (this.reviewerRoles.length > 0 && !reviewer.roles.some((role) => this.reviewerRoles.includes(role))) {
+        throw new ApprovalError(`${reviewer.id} needs one of these roles to decide: ${this.reviewerRoles.join(", ")}`, 403);
+      }
+      r.status = status;
+      r.decision = { by: reviewer.id, reason, at: new Date().toISOString() };
+    });
+  }
+
+  /**
+   * Re-read, change and write one request, holding the queue's lock.
+   */
+  private update(id: string, change: (request: ApprovalRequest) => void): Promise<ApprovalRequest> {
+    return this.locked(() => {
+      const requests = this.load();
+      const request = requests.find((r) => r.id === id);
+      if (!request) throw new ApprovalError(`Approval not found: ${id}`, 404);
+      change(request);
+      this.save(requests);
+      return request;
+    });
+  }
+
+  private async locked<T>(fn: () => T): Promise<T> {
+    return this.path ? withFileLock(`${this.path}.lock`, fn) : fn();
+  }
+
+  /**
+   * Read the queue (from disk when file-backed) and expire stale
+   * pending requests. Expirations reach the file with the next change.
+   */
+  private load(): ApprovalRequest[] {
+    if (this.path) {
+      this.requests = existsSync(this.path)
+        ? (JSON.parse(readFileSync(this.path, "utf-8")) as ApprovalRequest[])
+        : [];
+    }
+    const now = new Date().toISOString();
+    for (const r of this.requests) {
+      if (r.status === "pending" && r.expiresAt && r.expiresAt <= now) r.status = "expired";
+    }
+    return this.requests;
+  }
+
+  private save(requests: ApprovalRequest[]): void {
+    this.requests = requests;
+    if (!this.path) return;
+    // Write then rename, so a reader never sees a half-written file
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(requests, null, 2), "utf-8");
+    renameSync(tmp, this.path);
+  }
+}
+
+// ── Configuration ─────────────────────────────────────────────
+
+/**
+ * Create the approval queue described by BASANOS_APPROVALS_* environment
+ * variables: a JSON file under .basanos/ (BASANOS_APPROVALS_PATH), or
+ * memory with BASANOS_APPROVALS_STORE=memory. Pending requests expire
+ * after BASANOS_APPROVAL_TTL_MINUTES (default 1440; 0 never). Reviewers
+ * need one of BASANOS_APPROVAL_REVIEWER_ROLES (empty lets anyone
+ * decide). It defaults to approver when callers are authenticated, and
+ * to empty when they are not, since there are no roles to check then.
+ */
+export function createApprovalQueueFromEnv(projectRoot: string, authenticated = true): ApprovalQueue {
+  const minutes = parseInt(process.env.BASANOS_APPROVAL_TTL_MINUTES || "", 10);
+  const ttlMs = Number.isNaN(minutes) || minutes < 0 ? undefined : minutes * 60 * 1000;
+  const reviewerRoles = (process.env.BASANOS_APPROVAL_REVIEWER_ROLES ?? (authenticated ? "approver" : ""))
+    .split(",").map((r) => r.trim()).filter(Boolean);
+  if (process.env.BASANOS_APPROVALS_STORE === "memory") {
+    return new ApprovalQueue({ ttlMs, reviewerRoles });
+  }
+  return new ApprovalQueue({
+    path: resolve(projectRoot, process.env.BASANOS_APPROVALS_PATH || ".basanos/approvals.json"),
+    ttlMs,
+    reviewerRoles,
+  });
+}
@@ -0,0 +1,320 @@
+/**
+ * Audit Chain — tamper evidence for the constraint audit trail.
+ *
+ * Every audit entry carries the SHA-256 hash of its canonical JSON form
+ * (all fields except `hash` itself, including `prevHash`), and `prevHash`
+ * links it to the entry before it. Editing, removing, or reordering an
+ * entry breaks the chain from that point on.
+ *
+ * Signed checkpoints pin the chain head at intervals with an Ed25519
+ * key kept on local disk, so a rewritten chain can be detected even if
+ * every hash was recomputed.
+ */
+
+import {
+  appendFileSync,
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import { dirname, resolve } from "path";
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+} from "crypto";
+import type { KeyObject } from "crypto";
+import type { AuditEntry } from "./engine.js";
+
+/** prevHash of the first entry in a chain */
+export const GENESIS_HASH = "0".repeat(64);
+
+// ── Hashing ───────────────────────────────────────────────────
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level.
+ * Values go through a JSON round-trip first, so Dates become ISO
+ * strings and undefined properties disappear, exactly as they would
+ * after being written to and read back from disk.
+ */
+export function canonicalize(value: unknown): string {
+  return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(value ?? null))));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Hash an audit entry: SHA-256 over its canonical form without `hash`.
+ */
+export function computeEntryHash(entry: AuditEntry): string {
+  const { hash: _hash, ...content } = entry;
+  return createHash("sha256").update(canonicalize(content)).digest("hex");
+}
+
+/**
+ * Link a new entry to the chain and set its hash.
+ */
+export function chainEntry(entry: AuditEntry, prevHash: string | undefined): AuditEntry {
+  const linked: AuditEntry = { ...entry, prevHash: prevHash ?? GENESIS_HASH };
+  linked.hash = computeEntryHash(linked);
+  return linked;
+}
+
+// ── Verification ──────────────────────────────────────────────
+
+export interface ChainBreak {
+  /** ID of the entry where the chain breaks */
+  entryId: number;
+  /** What is wrong with it */
+  reason: "missing_hash" | "hash_mismatch" | "prev_hash_mismatch" | "id_gap";
+  /** Human-readable detail */
+  detail: string;
+}
+
+export interface ChainVerification {
+  /** True when no breaks were found */
+  valid: boolean;
+  /** Number of entries checked */
+  checked: number;
+  /** First entry ID checked (older entries may have been rotated away) */
+  firstId?: number;
+  /** Last entry ID checked */
+  lastId?: number;
+  /** Every break found, oldest first */
+  breaks: ChainBreak[];
+}
+
+/**
+ * Verify a run of audit entries, oldest first. The first entry must
+ * link to GENESIS_HASH if it is entry #1; otherwise its prevHash is
+ * taken on trust, since earlier entries may have been rotated away
+ * (signed checkpoints cover that gap).
+ */
+export function verifyChain(entries: AuditEntry[]): ChainVerification {
+  const breaks: ChainBreak[] = [];
+  let previous: AuditEntry | undefined;
+
+  for (const entry of entries) {
+    if (!entry.hash || !entry.prevHash) {
+      breaks.push({ entryId: entry.id, reason: "missing_hash", detail: "Entry has no hash chain fields" });
+      previous = entry;
+      continue;
+    }
+
+    const expected = computeEntryHash(entry);
+    if (expected !== entry.hash) {
+      breaks.push({
+        entryId: entry.id,
+        reason: "hash_mismatch",
+        detail: `Content does not match its hash (stored ${entry.hash.slice(0, 12)}, computed ${expected.slice(0, 12)})`,
+      });
+    }
+
+    if (previous) {
+      if (entry.id !== previous.id + 1) {
+        breaks.push({
+          entryId: entry.id,
+          reason: "id_gap",
+          detail: `Entry #${entry.id} follows #${previous.id}`,
+        });
+      }
+      if (entry.prevHash !== previous.hash) {
+        breaks.push({
+          entryId: entry.id,
+          reason: "prev_hash_mismatch",
+          detail: `prevHash does not match the hash of entry #${previous.id}`,
+        });
+      }
+    } else if (entry.id === 1 && entry.prevHash !== GENESIS_HASH) {
+      breaks.push({
+        entryId: entry.id,
+        reason: "prev_hash_mismatch",
+        detail: "First entry does not link to the genesis hash",
+      });
+    }
+
+    previous = entry;
+  }
+
+  return {
+    valid: breaks.length === 0,
+    checked: entries.length,
+    firstId: entries[0]?.id,
+    lastId: entries[entries.length - 1]?.id,
+    breaks,
+  };
+}
+
+// ── Signed Checkpoints ────────────────────────────────────────
+
+/**
+ * A signed statement that entry `entryId` had hash `hash`.
+ */
+export interface AuditCheckpoint {
+  /** ID of the chain head when the checkpoint was taken */
+  entryId: number;
+  /** Hash of that entry */
+  hash: string;
+  /** ISO timestamp of the checkpoint */
+  createdAt: string;
+  /** Base64 Ed25519 signature over `${entryId}:${hash}:${createdAt}` */
+  signature: string;
+  /** SHA-256 fingerprint of the signing public key */
+  keyId: string;
+}
+
+export interface CheckpointVerification {
+  checkpoint: AuditCheckpoint;
+  /** The signature is valid for the given public key */
+  signatureValid: boolean;
+  /** The entry is still in the log and its hash matches, if present */
+  matchesLog: boolean | "entry_not_retained";
+}
+
+export interface AuditCheckpointerOptions {
+  /** Ed25519 private key (PEM); created with mode 0600 if missing */
+  keyPath: string;
+  /** JSONL file checkpoints are appended to */
+  checkpointPath: string;
+  /** Take a checkpoint every N entries; 0 disables periodic checkpoints */
+  every?: number;
+}
+
+function checkpointPayload(entryId: number, hash: string, createdAt: string): Buffer {
+  return Buffer.from(`${entryId}:${hash}:${createdAt}`, "utf-8");
+}
+
+/**
+ * Fingerprint of a public key, used to tell which key signed a checkpoint.
+ */
+export function keyFingerprint(publicKey: KeyObject): string {
+  const der = publicKey.export({ type: "spki", format: "der" });
+  return createHash("sha256").update(der).digest("hex");
+}
+
+/**
+ * Check a checkpoint's signature and, when the entry is available,
+ * that the log still holds the checkpointed hash.
+ */
+export function verifyCheckpoint(
+  checkpoint: AuditCheckpoint,
+  publicKey: KeyObject,
+  entries: AuditEntry[]
+): CheckpointVerification {
+  const signatureValid = verify(
+    null,
+    checkpointPayload(checkpoint.entryId, checkpoint.hash, checkpoint.createdAt),
+    publicKey,
+    Buffer.from(checkpoint.signature, "base64")
+  );
+  const entry = entries.find((e) => e.id === checkpoint.entryId);
+  return {
+    checkpoint,
+    signatureValid,
+    matchesLog: entry ? entry.hash === checkpoint.hash : "entry_not_retained",
+  };
+}
+
+/**
+ * Signs checkpoints of the audit chain head with a local Ed25519 key.
+ */
+export class AuditCheckpointer {
+  private readonly keyPath: string;
+  private readonly checkpointPath: string;
+  private readonly every: number;
+  private privateKey: KeyObject | undefined;
+
+  constructor(options: AuditCheckpointerOptions) {
+    this.keyPath = resolve(options.keyPath);
+    this.checkpointPath = resolve(options.checkpointPath);
+    this.every = options.every ?? 0;
+  }
+
+  /**
+   * Record a checkpoint if this entry falls on the configured interval.
+   */
+  onAppend(entry: AuditEntry): AuditCheckpoint | undefined {
+    if (this.every <= 0 || entry.id % this.every !== 0) return undefined;
+    return this.checkpoint(entry);
+  }
+
+  /**
+   * Sign and record a checkpoint for the given chain head.
+   */
+  checkpoint(entry: AuditEntry): AuditCheckpoint {
+    if (!entry.hash) {
+      throw new Error(`Audit entry #${entry.id} has no hash to checkpoint`);
+    }
+    const key = this.loadKey();
+    const createdAt = new Date().toISOString();
+    const checkpoint: AuditCheckpoint = {
+      entryId: entry.id,
+      hash: entry.hash,
+      createdAt,
+      signature: sign(null, checkpointPayload(entry.id, entry.hash, createdAt), key).toString("base64"),
+      keyId: keyFingerprint(createPublicKey(key)),
+    };
+    mkdirSync(dirname(this.checkpointPath), { recursive: true });
+    appendFileSync(this.checkpointPath, JSON.stringify(checkpoint) + "\n", "utf-8");
+    return checkpoint;
+  }
+
+  /**
+   * All recorded checkpoints, oldest first.
+   */
+  list(): AuditCheckpoint[] {
+    if (!existsSync(this.checkpointPath)) return [];
+    return readFileSync(this.checkpointPath, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as AuditCheckpoint);
+  }
+
+  /**
+   * Public half of the signing key, to hand to auditors with an export.
+   */
+  getPublicKey(): KeyObject {
+    return createPublicKey(this.loadKey());
+  }
+
+  /**
+   * Bundle checkpoints with the PEM public key needed to verify them.
+   */
+  export(): { publicKey: string; keyId: string; checkpoints: AuditCheckpoint[] } {
+    const publicKey = this.getPublicKey();
+    return {
+      publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+      keyId: keyFingerprint(publicKey),
+      checkpoints: this.list(),
+    };
+  }
+
+  private loadKey(): KeyObject {
+    if (this.privateKey) return this.privateKey;
+    if (existsSync(this.keyPath)) {
+      this.privateKey = createPrivateKey(readFileSync(this.keyPath, "utf-8"));
+    } else {
+      const { privateKey } = generateKeyPairSync("ed25519");
+      mkdirSync(dirname(this.keyPath), { recursive: true });
+      writeFileSync(this.keyPath, privateKey.export({ type: "pkcs8", format: "pem" }), { mode: 0o600 });
+      chmodSync(this.keyPath, 0o600);
+      this.privateKey = privateKey;
+    }
+    return this.privateKey;
+  }
+}
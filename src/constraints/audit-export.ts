@@ -0,0 +1,415 @@
+/**
+ * Audit Export — formats verdicts for SIEM ingestion.
+ *
+ * Formats:
+ *   - csv:    one row per verdict, with a header row for full exports
+ *   - ocsf:   OCSF API Activity (class 6003) JSON events
+ *   - syslog: RFC 5424 lines with a structured-data element
+ *   - cef:    ArcSight Common Event Format lines
+ *
+ * Sinks stream each verdict as it is recorded to a local file or a
+ * UDP/TCP syslog listener. A failing sink never affects a verdict.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, statSync } from "fs";
+import { dirname, resolve } from "path";
+import { hostname } from "os";
+import { createSocket } from "dgram";
+import type { Socket as UdpSocket } from "dgram";
+import { createConnection } from "net";
+import type { Socket as TcpSocket } from "net";
+import type { AuditEntry } from "./engine.js";
+import { ConstraintSeverity } from "./types.js";
+
+export type AuditExportFormat = "csv" | "ocsf" | "syslog" | "cef";
+
+export const AUDIT_EXPORT_FORMATS: AuditExportFormat[] = ["csv", "ocsf", "syslog", "cef"];
+
+const PRODUCT = { name: "Basanos", vendor: "project-basanos", version: "0.1.0" };
+
+/**
+ * Outcome of an audited action: blocked, allowed with warnings, or allowed.
+ */
+export function auditOutcome(entry: AuditEntry): "blocked" | "warned" | "allowed" {
+  if (!entry.verdict.allowed) return "blocked";
+  const warned = entry.verdict.results.some(
+    (r) => !r.satisfied && r.severity === ConstraintSeverity.WARN
+  );
+  return warned ? "warned" : "allowed";
+}
+
+function violated(entry: AuditEntry, severity: ConstraintSeverity): string[] {
+  return entry.verdict.results
+    .filter((r) => !r.satisfied && r.severity === severity)
+    .map((r) => r.constraintId);
+}
+
+// ── CSV ───────────────────────────────────────────────────────
+
+export const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "action",
+  "target_entity",
+  "outcome",
+  "blocked_by",
+  "warned_by",
+  "summary",
+  "hash",
+  "principal",
+  "dry_run",
+];
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV row (no trailing newline). Multi-valued columns use ";".
+ */
+export function toCsvRow(entry: AuditEntry): string {
+  return [
+    entry.id,
+    entry.timestamp,
+    entry.verdict.context.intendedAction,
+    entry.verdict.context.targetEntity,
+    auditOutcome(entry),
+    violated(entry, ConstraintSeverity.BLOCK).join(";"),
+    violated(entry, ConstraintSeverity.WARN).join(";"),
+    entry.verdict.summary,
+    entry.hash ?? "",
+    entry.principal?.id ?? "",
+    entry.dryRun ? "true" : "",
+  ].map(csvField).join(",");
+}
+
+// ── OCSF ──────────────────────────────────────────────────────
+
+/**
+ * Map a verdict to an OCSF API Activity event (class_uid 6003).
+ * Basanos-specific detail goes in `unmapped`.
+ */
+export function toOcsf(entry: AuditEntry): Record<string, unknown> {
+  const outcome = auditOutcome(entry);
+  const { context } = entry.verdict;
+  const [domain, type] = context.targetEntity.split(":");
+  return {
+    class_uid: 6003,
+    class_name: "API Activity",
+    category_uid: 6,
+    category_name: "Application Activity",
+    activity_id: 99,
+    activity_name: context.intendedAction,
+    type_uid: 600399,
+    time: new Date(entry.timestamp).getTime(),
+    severity_id: outcome === "blocked" ? 4 : outcome === "warned" ? 3 : 1,
+    severity: outcome === "blocked" ? "High" : outcome === "warned" ? "Medium" : "Informational",
+    status_id: entry.verdict.allowed ? 1 : 2,
+    status: entry.verdict.allowed ? "Success" : "Failure",
+    disposition_id: entry.verdict.allowed ? 1 : 2,
+    disposition: entry.verdict.allowed ? "Allowed" : "Blocked",
+    message: entry.verdict.summary,
+    ...(entry.principal
+      ? {
+          actor: {
+            user: {
+              uid: entry.principal.id,
+              groups: entry.principal.roles.map((name) => ({ name })),
+              ...(entry.principal.team ? { org: { name: entry.principal.team } } : {}),
+            },
+          },
+        }
+      : {}),
+    api: {
+      operation: context.intendedAction,
+      service: { name: PRODUCT.name },
+    },
+    resources: [{ uid: context.targetEntity, type: type || undefined, group: { name: domain } }],
+    metadata: {
+      version: "1.1.0",
+      uid: String(entry.id),
+      product: { name: PRODUCT.name, vendor_name: PRODUCT.vendor, version: PRODUCT.version },
+      log_name: "constraint_audit",
+    },
+    unmapped: {
+      outcome,
+      blocked_by: violated(entry, ConstraintSeverity.BLOCK),
+      warned_by: violated(entry, ConstraintSeverity.WARN),
+      hash: entry.hash,
+      prev_hash: entry.prevHash,
+      ...(entry.dryRun ? { dry_run: true } : {}),
+    },
+  };
+}
+
+// ── Syslog (RFC 5424) ─────────────────────────────────────────
+
+export interface SyslogOptions {
+  /** HOSTNAME field (default: os.hostname()) */
+  hostname?: string;
+  /** APP-NAME field (default: "basanos") */
+  appName?: string;
+  /** Syslog facility number (default: 13, log audit) */
+  facility?: number;
+}
+
+function sdValue(value: string): string {
+  return value.replace(/[\\"\]]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Format a verdict as an RFC 5424 syslog line. Blocked actions are
+ * severity 4 (warning), warned 5 (notice), allowed 6 (informational).
+ */
+export function toSyslog(entry: AuditEntry, options: SyslogOptions = {}): string {
+  const outcome = auditOutcome(entry);
+  const severity = outcome === "blocked" ? 4 : outcome === "warned" ? 5 : 6;
+  const pri = (options.facility ?? 13) * 8 + severity;
+  const host = (options.hostname ?? hostname()).replace(/\s/g, "") || "-";
+  const app = options.appName ?? "basanos";
+  const params: Record<string, string> = {
+    id: String(entry.id),
+    action: entry.verdict.context.intendedAction,
+    target: entry.verdict.context.targetEntity,
+    outcome,
+    blockedBy: violated(entry, ConstraintSeverity.BLOCK).join(","),
+    warnedBy: violated(entry, ConstraintSeverity.WARN).join(","),
+  };
+  if (entry.principal) params.principal = entry.principal.id;
+  if (entry.dryRun) params.dryRun = "true";
+  if (entry.hash) params.hash = entry.hash;
+  const sd = Object.entries(params)
+    .map(([k, v]) => `${k}="${sdValue(v)}"`)
+    .join(" ");
+  const msg = entry.verdict.summary.replace(/[\r\n]+/g, " ");
+  return `<${pri}>1 ${entry.timestamp} ${host} ${app} ${process.pid} VERDICT [basanos@32473 ${sd}] ${msg}`;
+}
+
+// ── CEF ───────────────────────────────────────────────────────
+
+function cefHeader(value: string): string {
+  return value.replace(/[\\|]/g, (c) => `\\${c}`).replace(/[\r\n]+/g, " ");
+}
+
+function cefExtension(value: string): string {
+  return value
+    .replace(/[\\=]/g, (c) => `\\${c}`)
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Format a verdict as a CEF:0 line. Severity is 8 for blocked,
+ * 5 for warned and 2 for allowed actions.
+ */
+export function toCef(entry: AuditEntry): string {
+  const outcome = auditOutcome(entry);
+  const severity = outcome === "blocked" ? 8 : outcome === "warned" ? 5 : 2;
+  const name = outcome === "blocked"
+    ? "Agent action blocked"
+    : outcome === "warned" ? "Agent action allowed with warnings" : "Agent action allowed";
+  const extension: Record<string, string> = {
+    rt: String(new Date(entry.timestamp).getTime()),
+    externalId: String(entry.id),
+    act: entry.verdict.context.intendedAction,
+    outcome,
+    cs1Label: "targetEntity",
+    cs1: entry.verdict.context.targetEntity,
+    cs2Label: "blockedBy",
+    cs2: violated(entry, ConstraintSeverity.BLOCK).join(","),
+    cs3Label: "warnedBy",
+    cs3: violated(entry, ConstraintSeverity.WARN).join(","),
+    msg: entry.verdict.summary,
+  };
+  if (entry.principal) extension.suser = entry.principal.id;
+  if (entry.hash) {
+    extension.cs4Label = "hash";
+    extension.cs4 = entry.hash;
+  }
+  if (entry.dryRun) {
+    extension.cs5Label = "dryRun";
+    extension.cs5 = "true";
+  }
+  const header = [
+    "CEF:0",
+    PRODUCT.vendor,
+    PRODUCT.name,
+    PRODUCT.version,
+    `verdict:${outcome}`,
+    name,
+    String(severity),
+  ].map((v, i) => (i === 0 ? v : cefHeader(v)));
+  const ext = Object.entries(extension)
+    .map(([k, v]) => `${k}=${cefExtension(v)}`)
+    .join(" ");
+  return `${header.join("|")}|${ext}`;
+}
+
+// ── Formatting ────────────────────────────────────────────────
+
+/**
+ * Format one entry as a single line for streaming (CSV rows carry no header).
+ */
+export function formatAuditLine(entry: AuditEntry, format: AuditExportFormat): string {
+  switch (format) {
+    case "csv": return toCsvRow(entry);
+    case "ocsf": return JSON.stringify(toOcsf(entry));
+    case "syslog": return toSyslog(entry);
+    case "cef": return toCef(entry);
+  }
+}
+
+/**
+ * Format a batch of entries as a complete export document.
+ * CSV gets a header row; OCSF is a JSON array; syslog and CEF are one line per entry.
+ */
+export function formatAuditEntries(entries: AuditEntry[], format: AuditExportFormat): string {
+  if (format === "ocsf") {
+    return JSON.stringify(entries.map(toOcsf), null, 2);
+  }
+  const lines = entries.map((e) => formatAuditLine(e, format));
+  if (format === "csv") lines.unshift(CSV_COLUMNS.join(","));
+  return lines.join("\n") + "\n";
+}
+
+// ── Sinks ─────────────────────────────────────────────────────
+
+/**
+ * Receives each audit entry as it is recorded.
+ */
+export interface AuditSink {
+  /** Human-readable destination, for startup logs */
+  readonly description: string;
+  /** Deliver one entry; must not throw for transport errors */
+  write(entry: AuditEntry): void;
+  /** Release sockets or handles */
+  close(): void;
+}
+
+/**
+ * Appends formatted lines to a local file. OCSF is written as JSON Lines.
+ */
+export class FileAuditSink implements AuditSink {
+  readonly description: string;
+  private readonly path: string;
+  private readonly format: AuditExportFormat;
+
+  constructor(path: string, format: AuditExportFormat) {
+    this.path = resolve(path);
+    this.format = format;
+    this.description = `${format} -> ${this.path}`;
+    mkdirSync(dirname(this.path), { recursive: true });
+  }
+
+  write(entry: AuditEntry): void {
+    const needsHeader = this.format === "csv" && (!existsSync(this.path) || statSync(this.path).size === 0);
+    const line = formatAuditLine(entry, this.format) + "\n";
+    appendFileSync(this.path, needsHeader ? CSV_COLUMNS.join(",") + "\n" + line : line, "utf-8");
+  }
+
+  close(): void {
+    // Nothing held open between writes.
+  }
+}
+
+export interface SyslogSinkOptions {
+  host: string;
+  port: number;
+  protocol: "udp" | "tcp";
+  /** Line format sent to the listener (default: syslog) */
+  format?: "syslog" | "cef";
+  /** Called on transport errors; verdicts are never affected */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Sends each verdict to a syslog listener over UDP or TCP.
+ * TCP uses newline-delimited framing and reconnects on the next write
+ * after a dropped connection.
+ */
+export class SyslogAuditSink implements AuditSink {
+  readonly description: string;
+  private readonly options: SyslogSinkOptions;
+  private udp: UdpSocket | undefined;
+  private tcp: TcpSocket | undefined;
+
+  constructor(options: SyslogSinkOptions) {
+    this.options = options;
+    this.description = `${options.format ?? "syslog"} -> ${options.protocol}://${options.host}:${options.port}`;
+  }
+
+  write(entry: AuditEntry): void {
+    const line = this.options.format === "cef" ? toCef(entry) : toSyslog(entry);
+    const onError = (error: Error) => this.options.onError?.(error);
+
+    if (this.options.protocol === "udp") {
+      if (!this.udp) {
+        this.udp = createSocket(this.options.host.includes(":") ? "udp6" : "udp4");
+        this.udp.on("error", onError);
+        this.udp.unref();
+      }
+      this.udp.send(Buffer.from(line, "utf-8"), this.options.port, this.options.host, (error) => {
+        if (error) onError(error);
+      });
+      return;
+    }
+
+    if (!this.tcp || this.tcp.destroyed) {
+      this.tcp = createConnection({ host: this.options.host, port: this.options.port });
+      this.tcp.on("error", (error) => {
+        onError(error);
+        this.tcp?.destroy();
+      });
+      this.tcp.unref();
+    }
+    this.tcp.write(line + "\n");
+  }
+
+  close(): void {
+    this.udp?.close();
+    this.udp = undefined;
+    this.tcp?.end();
+    this.tcp = undefined;
+  }
+}
+
+function parseFormat(value: string | undefined, fallback: AuditExportFormat): AuditExportFormat {
+  return AUDIT_EXPORT_FORMATS.includes(value as AuditExportFormat) ? value as AuditExportFormat : fallback;
+}
+
+/**
+ * Build sinks from environment variables:
+ *   BASANOS_AUDIT_EXPORT_FILE      path to append to
+ *   BASANOS_AUDIT_EXPORT_FORMAT    csv | ocsf | syslog | cef (default: ocsf)
+ *   BASANOS_AUDIT_SYSLOG           udp://host:514 or tcp://host:601
+ *   BASANOS_AUDIT_SYSLOG_FORMAT    syslog | cef (default: syslog)
+ */
+export function createAuditSinksFromEnv(
+  projectRoot: string,
+  onError?: (error: Error) => void
+): AuditSink[] {
+  const sinks: AuditSink[] = [];
+
+  const file = process.env.BASANOS_AUDIT_EXPORT_FILE;
+  if (file) {
+    sinks.push(new FileAuditSink(resolve(projectRoot, file), parseFormat(process.env.BASANOS_AUDIT_EXPORT_FORMAT, "ocsf")));
+  }
+
+  const syslog = process.env.BASANOS_AUDIT_SYSLOG;
+  if (syslog) {
+    const url = new URL(syslog);
+    const protocol = url.protocol.replace(":", "");
+    if (protocol !== "udp" && protocol !== "tcp") {
+      throw new Error(`BASANOS_AUDIT_SYSLOG must start with udp:// or tcp://, got "${syslog}"`);
+    }
+    sinks.push(new SyslogAuditSink({
+      host: url.hostname.replace(/^\[|\]$/g, ""),
+      port: url.port ? parseInt(url.port, 10) : protocol === "udp" ? 514 : 601,
+      protocol,
+      format: process.env.BASANOS_AUDIT_SYSLOG_FORMAT === "cef" ? "cef" : "syslog",
+      onError,
+    }));
+  }
+
+  return sinks;
+}
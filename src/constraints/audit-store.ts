@@ -0,0 +1,517 @@
+/**
+ * Audit Store — durable, queryable storage for constraint verdicts.
+ *
+ * The ConstraintEngine appends one entry per evaluation. Two backends:
+ *
+ *   - InMemoryAuditStore: the original behavior, lost on restart
+ *   - JsonlAuditStore: append-only JSON Lines file with size-based
+ *     rotation and age-based retention
+ *
+ * The JSONL store re-reads the file when it grows, so the MCP server
+ * and the dashboard can share one audit trail across processes. Appends
+ * take an exclusive lock file, so two processes never assign the same
+ * ID or fork the hash chain.
+ *
+ * Both stores hash-chain entries as they are appended (see audit-chain.ts).
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from "fs";
+import { dirname, resolve } from "path";
+import type { AuditEntry } from "./engine.js";
+import { ConstraintSeverity } from "./types.js";
+import { AuditCheckpointer, chainEntry } from "./audit-chain.js";
+import { withFileLock } from "./file-lock.js";
+
+/**
+ * What the engine hands to a store; the store assigns the ID and hashes.
+ */
+export type AuditEntryInput = Omit<AuditEntry, "id" | "hash" | "prevHash">;
+
+/**
+ * Verdict filter for audit queries. "warned" matches allowed actions
+ * with at least one unsatisfied WARN constraint.
+ */
+export type AuditVerdictFilter = "allowed" | "blocked" | "warned";
+
+/**
+ * Filters and pagination for audit queries. All filters are ANDed.
+ */
+export interface AuditQuery {
+  /** Only entries at or after this time */
+  since?: Date | string;
+  /** Only entries at or before this time */
+  until?: Date | string;
+  /** Only entries for this intended action */
+  action?: string;
+  /** Only entries targeting this entity */
+  entityId?: string;
+  /** Only entries where this constraint was evaluated (enforced or shadow) */
+  constraintId?: string;
+  /** Only entries made by this principal ID */
+  principal?: string;
+  /** Only entries with this outcome */
+  verdict?: AuditVerdictFilter;
+  /** Only dry runs (true) or only real calls (false) */
+  dryRun?: boolean;
+  /** Number of matching entries to skip (newest first) */
+  offset?: number;
+  /** Maximum entries to return; omit for all */
+  limit?: number;
+}
+
+/**
+ * One page of audit query results, newest first.
+ */
+export interface AuditPage {
+  /** Matching entries before pagination */
+  total: number;
+  /** Offset applied */
+  offset: number;
+  /** Entries in this page */
+  entries: AuditEntry[];
+}
+
+export interface AuditSummary {
+  total: number;
+  allowed: number;
+  blocked: number;
+}
+
+/**
+ * Storage backend for the constraint audit trail.
+ */
+export interface AuditStore {
+  /** Persist an entry, assigning its sequential ID and chain hash */
+  append(entry: AuditEntryInput): Promise<AuditEntry>;
+  /** All retained entries, oldest first */
+  list(): AuditEntry[];
+  /** Filter and paginate retained entries, newest first */
+  query(query?: AuditQuery): AuditPage;
+  /** Allowed vs blocked counts across retained entries, dry runs excluded */
+  summary(): AuditSummary;
+}
+
+// ── Filtering ─────────────────────────────────────────────────
+
+function toTime(value: Date | string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Check whether an audit entry matches every filter in a query.
+ */
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const { verdict } = entry;
+  const time = new Date(entry.timestamp).getTime();
+
+  const since = toTime(query.since);
+  if (since !== undefined && time < since) return false;
+  const until = toTime(query.until);
+  if (until !== undefined && time > until) return false;
+
+  if (query.action && verdict.context.intendedAction !== query.action) return false;
+  if (query.entityId && verdict.context.targetEntity !== query.entityId) return false;
+  if (query.principal && entry.principal?.id !== query.principal) return false;
+  if (query.dryRun !== undefined && (entry.dryRun === true) !== query.dryRun) return false;
+
+  if (query.constraintId) {
+    const evaluated = [...verdict.results, ...(entry.shadowResults ?? [])];
+    if (!evaluated.some((r) => r.constraintId === query.constraintId)) return false;
+  }
+
+  if (query.verdict === "allowed" && !verdict.allowed) return false;
+  if (query.verdict === "blocked" && verdict.allowed) return false;
+  if (query.verdict === "warned") {
+    const warned = verdict.results.some(
+      (r) => !r.satisfied && r.severity === ConstraintSeverity.WARN
+    );
+    if (!verdict.allowed || !warned) return false;
+  }
+
+  return true;
+}
+
+function paginate(entries: AuditEntry[], query: AuditQuery): AuditPage {
+  const matching = entries.filter((e) => matchesAuditQuery(e, query)).reverse();
+  const offset = Math.max(0, query.offset ?? 0);
+  const end = query.limit === undefined ? undefined : offset + Math.max(0, query.limit);
+  return { total: matching.length, offset, entries: matching.slice(offset, end) };
+}
+
+function summarize(entries: AuditEntry[]): AuditSummary {
+  const attempted = entries.filter((e) => !e.dryRun);
+  const blocked = attempted.filter((e) => !e.verdict.allowed).length;
+  return { total: attempted.length, allowed: attempted.length - blocked, blocked };
+}
+
+// ── In-Memory Store ───────────────────────────────────────────
+
+/**
+ * Audit store held in process memory. Resets on restart.
+ */
+export class InMemoryAuditStore implements AuditStore {
+  private entries: AuditEntry[] = [];
+  private nextId: number = 1;
+
+  async append(entry: AuditEntryInput): Promise<AuditEntry> {
+    const previous = this.entries[this.entries.length - 1];
+    const stored = chainEntry({ id: this.nextId++, ...entry }, previous?.hash);
+    this.entries.push(stored);
+    return stored;
+  }
+
+  list(): AuditEntry[] {
+    return [...this.entries];
+  }
+
+  query(query: AuditQuery = {}): AuditPage {
+    return paginate(this.entries, query);
+  }
+
+  summary(): AuditSummary {
+    return summarize(this.entries);
+  }
+}
+
+// ── JSONL Store ───────────────────────────────────────────────
+
+export interface JsonlAuditStoreOptions {
+  /** Path of the active log file, e.g. .basanos/audit/audit.jsonl */
+  path: string;
+  /** Rotate the active file once it would exceed this size (default 10 MB) */
+  maxBytes?: number;
+  /** Rotated files to keep alongside the active one (default 5) */
+  maxFiles?: number;
+  /** Drop entries older than this many days; 0 keeps everything (default 0) */
+  retentionDays?: number;
+  /** Newest entries kept in memory for queries (default 50,000) */
+  maxEntries?: number;
+  /** Signs periodic checkpoints of the hash chain */
+  checkpointer?: AuditCheckpointer;
+}
+
+/**
+ * Append-only JSON Lines audit store.
+ *
+ * Rotated files are named audit.1.jsonl (newest) to audit.N.jsonl
+ * (oldest). The newest entries are cached in memory and the active
+ * file is re-read from the last known offset whenever another process
+ * has appended to it. Each append reads, assigns the next ID and writes
+ * under `<path>.lock`, so IDs stay sequential across processes.
+ *
+ * With a retention window, the active file is rotated once its oldest
+ * entry expires and rotated files are deleted once their newest one
+ * does, so expired entries leave the disk as well as the cache.
+ */
+export class JsonlAuditStore implements AuditStore {
+  private readonly path: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private readonly retentionDays: number;
+  private readonly maxEntries: number;
+  private readonly lockPath: string;
+  private readonly checkpointer: AuditCheckpointer | undefined;
+  private entries: AuditEntry[] = [];
+  /** Timestamp of the first entry in the active file */
+  private activeSince: number | undefined;
+  /** ID of the first entry in the active file */
+  private activeFirstId: number | undefined;
+  /** ID of the first entry in each rotated file, .1 first */
+  private rotatedFirstIds: Array<number | undefined> = [];
+  private lastId: number = 0;
+  private lastHash: string | undefined;
+  private offset: number = 0;
+  private inode: number = -1;
+
+  constructor(options: JsonlAuditStoreOptions) {
+    this.path = resolve(options.path);
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    this.retentionDays = options.retentionDays ?? 0;
+    this.maxEntries = options.maxEntries ?? 50_000;
+    this.lockPath = `${this.path}.lock`;
+    this.checkpointer = options.checkpointer;
+    mkdirSync(dirname(this.path), { recursive: true });
+    this.reload();
+  }
+
+  async append(entry: AuditEntryInput): Promise<AuditEntry> {
+    const stored = await withFileLock(this.lockPath, () => {
+      // Another process may have appended or rotated since the last read
+      this.refresh();
+      const chained = chainEntry({ id: this.lastId + 1, ...entry }, this.lastHash);
+      const line = JSON.stringify(chained) + "\n";
+
+      const full = this.offset + Buffer.byteLength(line) > this.maxBytes;
+      const cutoff = this.retentionCutoff();
+      const expired = cutoff !== undefined && this.activeSince !== undefined && this.activeSince < cutoff;
+      if (this.offset > 0 && (full || expired)) this.rotate();
+      else this.deleteExpiredFiles();
+
+      appendFileSync(this.path, line, "utf-8");
+      this.offset += Buffer.byteLength(line);
+      this.inode = statSync(this.path).ino;
+      this.activeSince ??= new Date(chained.timestamp).getTime();
+      this.activeFirstId ??= chained.id;
+      this.lastId = chained.id;
+      this.lastHash = chained.hash;
+      this.cache([chained]);
+      return chained;
+    });
+    this.checkpointer?.onAppend(stored);
+    return stored;
+  }
+
+  list(): AuditEntry[] {
+    this.refresh();
+    return this.retained();
+  }
+
+  query(query: AuditQuery = {}): AuditPage {
+    this.refresh();
+    return paginate(this.retained(), query);
+  }
+
+  summary(): AuditSummary {
+    this.refresh();
+    return summarize(this.retained());
+  }
+
+  private rotatedPath(n: number): string {
+    return this.path.replace(/(\.jsonl)?$/, `.${n}.jsonl`);
+  }
+
+  private retentionCutoff(): number | undefined {
+    return this.retentionDays > 0 ? Date.now() - this.retentionDays * 24 * 60 * 60 * 1000 : undefined;
+  }
+
+  /**
+   * Entries within the retention window. Expired ones are dropped from
+   * the cache for good.
+   */
+  private retained(): AuditEntry[] {
+    const cutoff = this.retentionCutoff();
+    if (cutoff !== undefined) {
+      this.entries = this.entries.filter((e) => new Date(e.timestamp).getTime() >= cutoff);
+    }
+    return [...this.entries];
+  }
+
+  /**
+   * Add entries to the cache, keeping at most maxEntries of the newest.
+   */
+  private cache(entries: AuditEntry[]): void {
+    this.trackHead(entries);
+    this.entries.push(...entries);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  /**
+   * Shift rotated files up by one, dropping the oldest, and move the
+   * active file to .1. Rotated files past the retention window are deleted.
+   */
+  private rotate(): void {
+    const oldest = this.rotatedPath(this.maxFiles);
+    if (existsSync(oldest)) unlinkSync(oldest);
+    for (let n = this.maxFiles - 1; n >= 1; n--) {
+      const from = this.rotatedPath(n);
+      if (existsSync(from)) renameSync(from, this.rotatedPath(n + 1));
+    }
+    if (this.maxFiles > 0) {
+      renameSync(this.path, this.rotatedPath(1));
+    } else {
+      unlinkSync(this.path);
+    }
+
+    this.shiftRotated();
+    this.deleteExpiredFiles();
+  }
+
+  /**
+   * Account for the active file having moved to .1: its entries stay
+   * cached, those of a file pushed past maxFiles are dropped, and the
+   * next active file starts empty. Nothing is re-read.
+   */
+  private shiftRotated(): void {
+    this.rotatedFirstIds = [this.activeFirstId, ...this.rotatedFirstIds].slice(0, this.maxFiles);
+    const oldestKept = [...this.rotatedFirstIds].reverse().find((id) => id !== undefined) ?? this.lastId + 1;
+    const dropped = this.entries.findIndex((e) => e.id >= oldestKept);
+    this.entries.splice(0, dropped === -1 ? this.entries.length : dropped);
+
+    this.offset = 0;
+    this.inode = -1;
+    this.activeSince = undefined;
+    this.activeFirstId = undefined;
+  }
+
+  /**
+   * Delete rotated files last written before the retention window, i.e.
+   * whose newest entry has expired.
+   */
+  private deleteExpiredFiles(): void {
+    const cutoff = this.retentionCutoff();
+    if (cutoff === undefined) return;
+    for (let n = 1; n <= this.maxFiles; n++) {
+      const file = this.rotatedPath(n);
+      if (existsSync(file) && statSync(file).mtimeMs < cutoff) {
+        unlinkSync(file);
+        this.rotatedFirstIds[n - 1] = undefined;
+      }
+    }
+  }
+
+  /**
+   * Rebuild the cache from rotated files (oldest first) and the active file.
+   */
+  private reload(): void {
+    this.entries = [];
+    this.lastId = 0;
+    this.lastHash = undefined;
+    this.rotatedFirstIds = [];
+    for (let n = this.maxFiles; n >= 1; n--) {
+      const file = this.rotatedPath(n);
+      if (!existsSync(file)) continue;
+      const rotated = parseLines(readFileSync(file, "utf-8"));
+      this.rotatedFirstIds[n - 1] = rotated[0]?.id;
+      this.cache(rotated);
+    }
+
+    this.offset = 0;
+    this.inode = -1;
+    this.activeSince = undefined;
+    this.activeFirstId = undefined;
+    if (existsSync(this.path)) {
+      this.inode = statSync(this.path).ino;
+      this.readTail(this.path, statSync(this.path).size);
+    }
+  }
+
+  private trackHead(entries: AuditEntry[]): void {
+    for (const e of entries) {
+      if (e.id > this.lastId) {
+        this.lastId = e.id;
+        this.lastHash = e.hash;
+      }
+    }
+  }
+
+  /**
+   * Pick up entries appended by other processes since the last read.
+   * When another process has rotated the active file once, the rest of
+   * it is read from .1 and the new active file from its start; anything
+   * else that replaced the file means re-reading everything.
+   */
+  private refresh(): void {
+    const stat = existsSync(this.path) ? statSync(this.path) : undefined;
+    if (this.inode !== -1 && stat?.ino !== this.inode) {
+      const first = this.rotatedPath(1);
+      const rotatedOnce = this.maxFiles > 0 && existsSync(first) && statSync(first).ino === this.inode;
+      if (!rotatedOnce) {
+        this.reload();
+        return;
+      }
+      this.readTail(first, statSync(first).size);
+      this.shiftRotated();
+    }
+    if (!stat) return;
+    if (stat.size < this.offset) {
+      this.reload();
+      return;
+    }
+    this.inode = stat.ino;
+    if (stat.size > this.offset) this.readTail(this.path, stat.size);
+  }
+
+  /**
+   * Cache the complete lines of `file` between the known offset and
+   * `size`, and advance the offset past them.
+   */
+  private readTail(file: string, size: number): void {
+    const fd = openSync(file, "r");
+    try {
+      const buffer = Buffer.alloc(size - this.offset);
+      readSync(fd, buffer, 0, buffer.length, this.offset);
+      const end = buffer.lastIndexOf(0x0a) + 1;
+      if (end === 0) return;
+      const added = parseLines(buffer.subarray(0, end).toString("utf-8"));
+      if (this.offset === 0 && added.length > 0) {
+        this.activeSince = new Date(added[0].timestamp).getTime();
+        this.activeFirstId = added[0].id;
+      }
+      this.cache(added);
+      this.offset += end;
+    } finally {
+      closeSync(fd);
+    }
+  }
+}
+
+/**
+ * Parse JSON Lines, skipping blank or corrupt lines rather than
+ * losing the rest of the trail.
+ */
+function parseLines(content: string): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // Partially written or corrupted line; keep reading.
+    }
+  }
+  return entries;
+}
+
+// ── Configuration ─────────────────────────────────────────────
+
+/**
+ * Create the audit store described by BASANOS_AUDIT_* environment
+ * variables. Defaults to a JSONL file under .basanos/audit/ in the
+ * project root; BASANOS_AUDIT_STORE=memory restores the old behavior.
+ */
+export function createAuditStoreFromEnv(projectRoot: string): AuditStore {
+  if (process.env.BASANOS_AUDIT_STORE === "memory") {
+    return new InMemoryAuditStore();
+  }
+  const int = (name: string): number | undefined => {
+    const value = parseInt(process.env[name] || "", 10);
+    return Number.isNaN(value) ? undefined : value;
+  };
+  return new JsonlAuditStore({
+    path: resolve(projectRoot, process.env.BASANOS_AUDIT_PATH || ".basanos/audit/audit.jsonl"),
+    maxBytes: int("BASANOS_AUDIT_MAX_BYTES"),
+    maxFiles: int("BASANOS_AUDIT_MAX_FILES"),
+    retentionDays: int("BASANOS_AUDIT_RETENTION_DAYS"),
+    maxEntries: int("BASANOS_AUDIT_MAX_ENTRIES"),
+    checkpointer: createCheckpointerFromEnv(projectRoot),
+  });
+}
+
+/**
+ * Create the checkpoint signer described by BASANOS_AUDIT_* environment
+ * variables. The key and checkpoints live next to the audit log.
+ */
+export function createCheckpointerFromEnv(projectRoot: string): AuditCheckpointer {
+  const every = parseInt(process.env.BASANOS_AUDIT_CHECKPOINT_EVERY || "100", 10);
+  return new AuditCheckpointer({
+    keyPath: resolve(projectRoot, process.env.BASANOS_AUDIT_SIGNING_KEY || ".basanos/audit/signing-key.pem"),
+    checkpointPath: resolve(projectRoot, process.env.BASANOS_AUDIT_CHECKPOINTS || ".basanos/audit/checkpoints.jsonl"),
+    every: Number.isNaN(every) ? 100 : every,
+  });
+}
@@ -3,21 +3,66 @@
  *
  * Given an intended agent action and the current context,
  * the engine checks all applicable constraints and returns
- * a structured verdict: proceed, warn, or block.
+ * a structured verdict: proceed, warn, hold for approval, or block.
  */
 
 import type {
   ConstraintContext,
   ConstraintDefinition,
   ConstraintResult,
+  OnErrorPolicy,
+  Principal,
 } from "./types.js";
 import { ConstraintSeverity, ConstraintStatus } from "./types.js";
+import { OntologyEngine } from "../ontology/engine.js";
+import type { AuditPage, AuditQuery, AuditStore } from "./audit-store.js";
+import { InMemoryAuditStore } from "./audit-store.js";
+import type { AuditSink } from "./audit-export.js";
+
+/**
+ * A constraint that matched the action but was not evaluated
+ * because the target entity is outside its scope.
+ */
+export interface SkippedConstraint {
+  /** The constraint that was skipped */
+  constraintId: string;
+  /** Why it was skipped */
+  reason: "entity_type" | "domain";
+  /** Human-readable explanation for the audit trail */
+  explanation: string;
+}
+
+/**
+ * An enforced constraint that threw or ran out of time. Its result in
+ * the verdict follows the onError policy recorded here.
+ */
+export interface EvaluationFailure {
+  /** The constraint that could not be evaluated */
+  constraintId: string;
+  /** Whether it threw or timed out */
+  outcome: "error" | "timeout";
+  /** The policy applied to its result */
+  policy: OnErrorPolicy;
+  /** Error message or timeout detail */
+  detail: string;
+  /** Time spent before it failed */
+  durationMs: number;
+}
 
 export interface ConstraintVerdict {
   /** Can the action proceed? */
   allowed: boolean;
+  /**
+   * Set when only require_approval constraints stand in the way: the
+   * action may proceed once a human approves it.
+   */
+  requiresApproval?: boolean;
   /** All constraint results, including passed ones */
   results: ConstraintResult[];
+  /** Constraints relevant to the action but out of scope for the target entity */
+  skipped: SkippedConstraint[];
+  /** Enforced constraints that errored or timed out */
+  failures: EvaluationFailure[];
   /** Summary explanation for agent reasoning */
   summary: string;
   /** ISO timestamp of evaluation */
@@ -26,6 +71,32 @@ export interface ConstraintVerdict {
   context: ConstraintContext;
 }
 
+/**
+ * One connector consulted for live context before evaluation.
+ */
+export interface EnrichmentStep {
+  /** Connector ID (e.g. "servicenow", "jira") */
+  connector: string;
+  /** Record reference the connector was asked about */
+  entityRef: string;
+  /** Metadata keys the connector contributed */
+  fields: string[];
+  /** Time the connector took */
+  durationMs: number;
+  /** Why the connector returned nothing useful, if it failed */
+  error?: string;
+}
+
+/**
+ * Extra information recorded alongside a verdict.
+ */
+export interface EvaluateOptions {
+  /** How the context metadata was gathered */
+  enrichment?: EnrichmentStep[];
+  /** The caller asked what would happen; the action is never performed */
+  dryRun?: boolean;
+}
+
 export interface AuditEntry {
   /** Sequential audit ID */
   id: number;
@@ -33,12 +104,144 @@ export interface AuditEntry {
   timestamp: string;
   /** The full verdict */
   verdict: ConstraintVerdict;
+  /**
+   * Results of shadow-evaluated constraints (candidate and shadow status).
+   * Recorded for review only; they never affect the verdict.
+   */
+  shadowResults: ConstraintResult[];
+  /** Connectors consulted to enrich the context, if any */
+  enrichment?: EnrichmentStep[];
+  /** The authenticated caller, if any */
+  principal?: Principal;
+  /** Set for dry runs, which were evaluated but never forwarded */
+  dryRun?: true;
+  /** SHA-256 of this entry's canonical form, set by the audit store */
+  hash?: string;
+  /** Hash of the previous entry, linking the tamper-evident chain */
+  prevHash?: string;
+}
+
+/**
+ * How a non-enforced constraint would have behaved had it been promoted.
+ */
+export interface ShadowSummary {
+  /** The constraint being shadowed */
+  constraintId: string;
+  /** Number of audited actions the constraint was evaluated against */
+  evaluations: number;
+  /** Evaluations where it would have blocked the action */
+  wouldBlock: number;
+  /** Evaluations where it would have raised a warning */
+  wouldWarn: number;
+  /** Evaluations where it would have held the action for human approval */
+  wouldHold: number;
+  /** wouldBlock / evaluations, 0 when never evaluated */
+  wouldBlockRate: number;
+  /** wouldHold / evaluations, 0 when never evaluated */
+  wouldHoldRate: number;
+}
+
+export interface ConstraintEngineOptions {
+  /** Ontology used to resolve target entity types and subtypes */
+  ontology?: OntologyEngine;
+  /** Skip constraints whose domain differs from the target entity's domain */
+  restrictToDomain?: boolean;
+  /**
+   * Shadow-evaluate candidate constraints as well as those with shadow
+   * status (default: true). Shadow status constraints always run.
+   */
+  shadowCandidates?: boolean;
+  /** Where verdicts are recorded (default: in memory) */
+  auditStore?: AuditStore;
+  /** Streams each recorded entry to external destinations (files, syslog) */
+  auditSinks?: AuditSink[];
+  /** Policy for constraints that throw or time out without their own (default: warn) */
+  onError?: OnErrorPolicy;
+  /** Per-constraint timeout in milliseconds; 0 disables (default: 5000) */
+  constraintTimeoutMs?: number;
+  /** Deadline for evaluating all constraints of one action; 0 disables (default: 10000) */
+  evaluationDeadlineMs?: number;
+}
+
+const ON_ERROR_POLICIES: OnErrorPolicy[] = ["block", "warn", "allow"];
+
+/**
+ * Check that a value is a valid onError policy.
+ */
+export function isOnErrorPolicy(value: unknown): value is OnErrorPolicy {
+  return ON_ERROR_POLICIES.includes(value as OnErrorPolicy);
+}
+
+/**
+ * Read the evaluation error policy and time limits from the environment:
+ * BASANOS_ON_ERROR, BASANOS_CONSTRAINT_TIMEOUT_MS and
+ * BASANOS_EVALUATION_DEADLINE_MS. Unset or invalid values keep the defaults.
+ */
+export function evaluationPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Pick<ConstraintEngineOptions, "onError" | "constraintTimeoutMs" | "evaluationDeadlineMs"> {
+  const ms = (value: string | undefined) => {
+    const n = Number(value);
+    return value !== undefined && value !== "" && Number.isFinite(n) && n >= 0 ? n : undefined;
+  };
+  return {
+    onError: isOnErrorPolicy(env.BASANOS_ON_ERROR) ? env.BASANOS_ON_ERROR : undefined,
+    constraintTimeoutMs: ms(env.BASANOS_CONSTRAINT_TIMEOUT_MS),
+    evaluationDeadlineMs: ms(env.BASANOS_EVALUATION_DEADLINE_MS),
+  };
+}
+
+class EvaluationTimeout extends Error {}
+
+/**
+ * Settle with the promise, or reject with EvaluationTimeout after `ms`.
+ * A non-finite or zero limit waits indefinitely.
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  if (!Number.isFinite(ms) || ms <= 0) return promise;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new EvaluationTimeout()), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
 export class ConstraintEngine {
   private constraints: Map<string, ConstraintDefinition> = new Map();
-  private auditLog: AuditEntry[] = [];
-  private nextAuditId: number = 1;
+  private auditStore: AuditStore;
+  private auditSinks: AuditSink[];
+  private ontology: OntologyEngine;
+  private restrictToDomain: boolean;
+  private shadowCandidates: boolean;
+  private onError: OnErrorPolicy;
+  private constraintTimeoutMs: number;
+  private evaluationDeadlineMs: number;
+  /** Shadow passes still running, each recording its audit entry when done */
+  private pendingShadow: Set<Promise<void>> = new Set();
+  /** A deferred audit write that failed, thrown by the next evaluate or flush */
+  private auditError: Error | undefined;
+
+  constructor(options: ConstraintEngineOptions = {}) {
+    this.ontology = options.ontology ?? new OntologyEngine();
+    this.restrictToDomain = options.restrictToDomain ?? false;
+    this.shadowCandidates = options.shadowCandidates ?? true;
+    this.auditStore = options.auditStore ?? new InMemoryAuditStore();
+    this.auditSinks = options.auditSinks ?? [];
+    this.onError = options.onError ?? "warn";
+    this.constraintTimeoutMs = options.constraintTimeoutMs ?? 5000;
+    this.evaluationDeadlineMs = options.evaluationDeadlineMs ?? 10000;
+  }
+
+  /**
+   * The ontology used to scope constraints to their target's type.
+   */
+  getOntology(): OntologyEngine {
+    return this.ontology;
+  }
 
   /**
    * Register a constraint definition.
@@ -59,55 +262,62 @@ export class ConstraintEngine {
   /**
    * Evaluate all applicable constraints for a given context.
    * Returns a verdict with structured results and a summary.
+   *
+   * Shadow constraints start alongside the enforced ones, under the same
+   * evaluation deadline, but the verdict never waits for them: if they
+   * are still running when the enforced pass finishes, the audit entry
+   * is recorded once they settle (see `flush`). If recording it then
+   * fails, the next evaluation throws that error.
    */
-  async evaluate(context: ConstraintContext): Promise<ConstraintVerdict> {
-    const applicable = Array.from(this.constraints.values()).filter(
-      (c) =>
-        c.status === ConstraintStatus.PROMOTED &&
-        (c.relevantActions.includes(context.intendedAction) ||
-        c.relevantActions.includes("*"))
-    );
+  async evaluate(
+    context: ConstraintContext,
+    options: EvaluateOptions = {}
+  ): Promise<ConstraintVerdict> {
+    this.throwAuditError();
+    const relevant = this.relevantFor(context.intendedAction, [ConstraintStatus.PROMOTED]);
+    const { applicable, skipped } = this.filterByScope(relevant, context.targetEntity);
+
+    const shadowStatuses = this.shadowCandidates
+      ? [ConstraintStatus.SHADOW, ConstraintStatus.CANDIDATE]
+      : [ConstraintStatus.SHADOW];
+    const shadowed = this.filterByScope(
+      this.relevantFor(context.intendedAction, shadowStatuses),
+      context.targetEntity
+    ).applicable;
+    const shadow: { results?: ConstraintResult[]; done: Promise<ConstraintResult[]> } = {
+      done: this.runConstraints(shadowed, context).then(({ results }) => (shadow.results = results)),
+    };
 
     if (applicable.length === 0) {
+      const skippedNote = skipped.length > 0
+        ? ` (${skipped.length} out of scope for ${context.targetEntity})`
+        : "";
       const verdict: ConstraintVerdict = {
         allowed: true,
         results: [],
-        summary: `No constraints apply to action: ${context.intendedAction}`,
+        skipped,
+        failures: [],
+        summary: `No constraints apply to action: ${context.intendedAction}${skippedNote}`,
         evaluatedAt: new Date().toISOString(),
         context,
       };
-      this.auditLog.push({
-        id: this.nextAuditId++,
-        timestamp: verdict.evaluatedAt,
-        verdict,
-      });
+      await this.recordAfterShadow(verdict, shadow, options);
       return verdict;
     }
 
-    const results: ConstraintResult[] = [];
-    for (const constraint of applicable) {
-      try {
-        const result = await constraint.evaluate(context);
-        results.push(result);
-      } catch (error) {
-        results.push({
-          constraintId: constraint.id,
-          satisfied: false,
-          severity: ConstraintSeverity.WARN,
-          explanation: `Constraint evaluation failed: ${error instanceof Error ? error.message : String(error)}`,
-          involvedEntities: [context.targetEntity],
-        });
-      }
-    }
+    const { results, failures } = await this.runConstraints(applicable, context);
 
     const blocked = results.filter(
       (r) => !r.satisfied && r.severity === ConstraintSeverity.BLOCK
     );
+    const held = results.filter(
+      (r) => !r.satisfied && r.severity === ConstraintSeverity.REQUIRE_APPROVAL
+    );
     const warnings = results.filter(
       (r) => !r.satisfied && r.severity === ConstraintSeverity.WARN
     );
 
-    const allowed = blocked.length === 0;
+    const allowed = blocked.length === 0 && held.length === 0;
 
     const summaryParts: string[] = [];
     if (blocked.length > 0) {
@@ -115,11 +325,21 @@ export class ConstraintEngine {
         `BLOCKED by ${blocked.length} constraint(s): ${blocked.map((b) => b.explanation).join("; ")}`
       );
     }
+    if (held.length > 0) {
+      summaryParts.push(
+        `APPROVAL REQUIRED by ${held.length} constraint(s): ${held.map((h) => h.explanation).join("; ")}`
+      );
+    }
     if (warnings.length > 0) {
       summaryParts.push(
         `${warnings.length} warning(s): ${warnings.map((w) => w.explanation).join("; ")}`
       );
     }
+    if (failures.length > 0) {
+      summaryParts.push(
+        `${failures.length} constraint(s) could not be evaluated: ${failures.map((f) => `${f.constraintId} (${f.outcome}, ${f.policy})`).join("; ")}`
+      );
+    }
     if (summaryParts.length === 0) {
       summaryParts.push(
         `All ${results.length} constraint(s) satisfied for action: ${context.intendedAction}`
@@ -128,26 +348,237 @@ export class ConstraintEngine {
 
     const verdict: ConstraintVerdict = {
       allowed,
+      ...(blocked.length === 0 && held.length > 0 ? { requiresApproval: true } : {}),
       results,
+      skipped,
+      failures,
       summary: summaryParts.join(" | "),
       evaluatedAt: new Date().toISOString(),
       context,
     };
 
-    this.auditLog.push({
-      id: this.nextAuditId++,
+    await this.recordAfterShadow(verdict, shadow, options);
+
+    return verdict;
+  }
+
+  /**
+   * Wait for shadow evaluations still running, and their audit entries.
+   * Throws if one of those entries could not be recorded.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingShadow);
+    this.throwAuditError();
+  }
+
+  /**
+   * Actions named by promoted constraints whose scope covers the target
+   * entity, sorted. Constraints relevant to every action ("*") name no
+   * action of their own.
+   */
+  actionsInScope(targetEntity: string): string[] {
+    const promoted = Array.from(this.constraints.values()).filter(
+      (c) => c.status === ConstraintStatus.PROMOTED
+    );
+    const actions = new Set<string>();
+    for (const c of this.filterByScope(promoted, targetEntity).applicable) {
+      for (const action of c.relevantActions) {
+        if (action !== "*") actions.add(action);
+      }
+    }
+    return Array.from(actions).sort();
+  }
+
+  /**
+   * Record a verdict now if its shadow pass has finished, or once it
+   * does. Shadow constraints that need no I/O finish within a turn of
+   * the event loop, which is all the verdict waits; slower ones run on
+   * under the evaluation deadline.
+   */
+  private async recordAfterShadow(
+    verdict: ConstraintVerdict,
+    shadow: { results?: ConstraintResult[]; done: Promise<ConstraintResult[]> },
+    options: EvaluateOptions
+  ): Promise<void> {
+    await Promise.race([shadow.done, new Promise((resolve) => setImmediate(resolve))]);
+    if (shadow.results) {
+      await this.record(verdict, shadow.results, options);
+      return;
+    }
+    const pending: Promise<void> = shadow.done
+      .then((results) => this.record(verdict, results, options))
+      .catch((err) => {
+        // Nobody is waiting on the verdict any more; an audit store that
+        // cannot be written fails the next evaluation instead.
+        this.auditError ??= err instanceof Error ? err : new Error(String(err));
+      })
+      .finally(() => this.pendingShadow.delete(pending));
+    this.pendingShadow.add(pending);
+  }
+
+  private throwAuditError(): void {
+    const err = this.auditError;
+    if (!err) return;
+    this.auditError = undefined;
+    throw new Error(`Audit entry could not be recorded: ${err.message}`, { cause: err });
+  }
+
+  /**
+   * Append a verdict to the audit store and stream it to any sinks.
+   * A failing sink is ignored; the audit store remains the record.
+   */
+  private async record(
+    verdict: ConstraintVerdict,
+    shadowResults: ConstraintResult[],
+    options: EvaluateOptions
+  ): Promise<void> {
+    const entry = await this.auditStore.append({
       timestamp: verdict.evaluatedAt,
       verdict,
+      shadowResults,
+      ...(options.enrichment ? { enrichment: options.enrichment } : {}),
+      ...(verdict.context.principal ? { principal: verdict.context.principal } : {}),
+      ...(options.dryRun ? { dryRun: true as const } : {}),
     });
+    for (const sink of this.auditSinks) {
+      try {
+        sink.write(entry);
+      } catch {
+        // Export must never affect enforcement.
+      }
+    }
+  }
 
-    return verdict;
+  /**
+   * Constraints with one of the given statuses that are relevant to an action.
+   */
+  private relevantFor(action: string, statuses: ConstraintStatus[]): ConstraintDefinition[] {
+    return Array.from(this.constraints.values()).filter(
+      (c) =>
+        statuses.includes(c.status) &&
+        (c.relevantActions.includes(action) ||
+        c.relevantActions.includes("*"))
+    );
+  }
+
+  /**
+   * Evaluate constraints concurrently. Each runs under its own timeout,
+   * capped by the evaluation deadline. A constraint that throws or runs
+   * out of time produces a result according to its onError policy rather
+   * than aborting the whole evaluation. Results keep the input order.
+   */
+  private async runConstraints(
+    constraints: ConstraintDefinition[],
+    context: ConstraintContext
+  ): Promise<{ results: ConstraintResult[]; failures: EvaluationFailure[] }> {
+    const deadline = this.evaluationDeadlineMs > 0 ? this.evaluationDeadlineMs : Infinity;
+
+    const outcomes = await Promise.all(constraints.map(async (constraint): Promise<{
+      result: ConstraintResult;
+      failure?: EvaluationFailure;
+    }> => {
+      const ownTimeout = constraint.timeoutMs ?? this.constraintTimeoutMs;
+      const limit = Math.min(ownTimeout > 0 ? ownTimeout : Infinity, deadline);
+      const started = Date.now();
+      try {
+        return { result: await withTimeout(Promise.resolve().then(() => constraint.evaluate(context)), limit) };
+      } catch (error) {
+        const outcome = error instanceof EvaluationTimeout ? "timeout" : "error";
+        const detail = outcome === "timeout"
+          ? limit === deadline
+            ? `Evaluation deadline of ${limit}ms exceeded`
+            : `Timed out after ${limit}ms`
+          : error instanceof Error ? error.message : String(error);
+        const failure: EvaluationFailure = {
+          constraintId: constraint.id,
+          outcome,
+          policy: constraint.onError ?? this.onError,
+          detail,
+          durationMs: Date.now() - started,
+        };
+        return { result: this.failureResult(constraint, context, failure), failure };
+      }
+    }));
+
+    return {
+      results: outcomes.map((o) => o.result),
+      failures: outcomes.flatMap((o) => (o.failure ? [o.failure] : [])),
+    };
+  }
+
+  /**
+   * The result recorded for a constraint that could not be evaluated.
+   * "allow" marks it satisfied; "block" and "warn" set the severity.
+   */
+  private failureResult(
+    constraint: ConstraintDefinition,
+    context: ConstraintContext,
+    failure: EvaluationFailure
+  ): ConstraintResult {
+    const what = failure.outcome === "timeout" ? "timed out" : "failed";
+    const severity = failure.policy === "block"
+      ? ConstraintSeverity.BLOCK
+      : failure.policy === "warn" ? ConstraintSeverity.WARN : constraint.severity;
+    return {
+      constraintId: constraint.id,
+      satisfied: failure.policy === "allow",
+      severity,
+      explanation: `Constraint evaluation ${what}: ${failure.detail}` +
+        (failure.policy === "allow" ? " (allowed by onError policy)" : ""),
+      involvedEntities: [context.targetEntity],
+      evaluation: failure.outcome,
+    };
+  }
+
+  /**
+   * Split constraints into those whose appliesTo/domain scope covers the
+   * target entity and those that do not. If the target's type cannot be
+   * resolved, every constraint stays applicable (fail safe).
+   */
+  private filterByScope(
+    constraints: ConstraintDefinition[],
+    targetEntity: string
+  ): { applicable: ConstraintDefinition[]; skipped: SkippedConstraint[] } {
+    const scope = this.ontology.resolveEntityScope(targetEntity);
+    if (!scope) return { applicable: constraints, skipped: [] };
+
+    const applicable: ConstraintDefinition[] = [];
+    const skipped: SkippedConstraint[] = [];
+
+    for (const c of constraints) {
+      if (this.restrictToDomain && !c.allDomains && c.domain !== scope.domain) {
+        skipped.push({
+          constraintId: c.id,
+          reason: "domain",
+          explanation: `Constraint belongs to domain "${c.domain}", target is in "${scope.domain}"`,
+        });
+        continue;
+      }
+
+      const typeMatches =
+        c.appliesTo.length === 0 ||
+        c.appliesTo.includes("*") ||
+        c.appliesTo.some((t) => scope.types.includes(t));
+      if (!typeMatches) {
+        skipped.push({
+          constraintId: c.id,
+          reason: "entity_type",
+          explanation: `Constraint applies to ${c.appliesTo.join(", ")}; target is ${scope.types[0]}`,
+        });
+        continue;
+      }
+
+      applicable.push(c);
+    }
+
+    return { applicable, skipped };
   }
 
   /**
    * Get the full audit log of all constraint evaluations.
    */
   getAuditLog(): AuditEntry[] {
-    return [...this.auditLog];
+    return this.auditStore.list();
   }
 
   /**
@@ -157,24 +588,57 @@ export class ConstraintEngine {
     action?: string;
     entityId?: string;
   }): AuditEntry[] {
-    return this.auditLog.filter((entry) => {
-      if (filter.action && entry.verdict.context.intendedAction !== filter.action) {
-        return false;
-      }
-      if (filter.entityId && entry.verdict.context.targetEntity !== filter.entityId) {
-        return false;
-      }
-      return true;
-    });
+    return this.auditStore.query(filter).entries.reverse();
+  }
+
+  /**
+   * Query the audit trail with filters and pagination, newest first.
+   */
+  queryAuditLog(query: AuditQuery = {}): AuditPage {
+    return this.auditStore.query(query);
   }
 
   /**
    * Get count of blocked vs allowed verdicts.
    */
   getAuditSummary(): { total: number; allowed: number; blocked: number } {
-    const total = this.auditLog.length;
-    const blocked = this.auditLog.filter((e) => !e.verdict.allowed).length;
-    return { total, allowed: total - blocked, blocked };
+    return this.auditStore.summary();
+  }
+
+  /**
+   * Summarize how each shadow-evaluated constraint would have behaved
+   * across the audit log. Use this to judge a candidate before promoting it.
+   * Dry runs are left out: nobody actually attempted those actions.
+   */
+  getShadowSummary(): ShadowSummary[] {
+    const byId = new Map<string, ShadowSummary>();
+    for (const entry of this.auditStore.list()) {
+      if (entry.dryRun) continue;
+      for (const r of entry.shadowResults ?? []) {
+        let summary = byId.get(r.constraintId);
+        if (!summary) {
+          summary = {
+            constraintId: r.constraintId,
+            evaluations: 0,
+            wouldBlock: 0,
+            wouldWarn: 0,
+            wouldHold: 0,
+            wouldBlockRate: 0,
+            wouldHoldRate: 0,
+          };
+          byId.set(r.constraintId, summary);
+        }
+        summary.evaluations++;
+        if (!r.satisfied && r.severity === ConstraintSeverity.BLOCK) summary.wouldBlock++;
+        if (!r.satisfied && r.severity === ConstraintSeverity.WARN) summary.wouldWarn++;
+        if (!r.satisfied && r.severity === ConstraintSeverity.REQUIRE_APPROVAL) summary.wouldHold++;
+      }
+    }
+    for (const summary of byId.values()) {
+      summary.wouldBlockRate = summary.wouldBlock / summary.evaluations;
+      summary.wouldHoldRate = summary.wouldHold / summary.evaluations;
+    }
+    return Array.from(byId.values());
   }
 
   /**
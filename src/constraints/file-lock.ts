@@ -0,0 +1,87 @@
+/**
+ * File Lock — serializes read-modify-write of files that several
+ * processes share: the audit log, the approval queue and the retry
+ * queue.
+ *
+ * The lock is a file created with O_EXCL that holds its owner's PID; a
+ * lock whose owner is no longer running is taken over. Waiting for it
+ * never blocks the event loop, and callers in the same process queue
+ * up behind each other instead of polling the file.
+ */
+
+import { closeSync, openSync, readFileSync, statSync, unlinkSync, writeSync } from "fs";
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 5;
+
+/** The last holder or waiter of each lock in this process */
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` holding the lock file at `lockPath`. Throws if the lock
+ * cannot be taken within five seconds.
+ */
+export function withFileLock<T>(lockPath: string, fn: () => T | Promise<T>): Promise<T> {
+  const previous = queues.get(lockPath) ?? Promise.resolve();
+  const run = previous.then(() => holdLock(lockPath, fn));
+  const settled = run.then(() => undefined, () => undefined);
+  queues.set(lockPath, settled);
+  void settled.then(() => {
+    if (queues.get(lockPath) === settled) queues.delete(lockPath);
+  });
+  return run;
+}
+
+async function holdLock<T>(lockPath: string, fn: () => T | Promise<T>): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let fd: number;
+  for (;;) {
+    try {
+      fd = openSync(lockPath, "wx");
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      if (lockIsStale(lockPath)) {
+        try {
+          unlinkSync(lockPath);
+        } catch {
+          // Another process took it over first.
+        }
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for lock ${lockPath}`);
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+  try {
+    writeSync(fd, String(process.pid));
+    closeSync(fd);
+    return await fn();
+  } finally {
+    unlinkSync(lockPath);
+  }
+}
+
+function lockIsStale(lockPath: string): boolean {
+  let pid: number;
+  try {
+    pid = parseInt(readFileSync(lockPath, "utf-8"), 10);
+  } catch {
+    return false;
+  }
+  // Empty while its owner is between creating and writing it, unless
+  // the owner died there
+  if (Number.isNaN(pid)) {
+    try {
+      return Date.now() - statSync(lockPath).mtimeMs > LOCK_TIMEOUT_MS;
+    } catch {
+      return false;
+    }
+  }
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
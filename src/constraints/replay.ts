@@ -0,0 +1,180 @@
+/**
+ * Audit Replay — re-evaluates recorded agent actions against an
+ * alternate constraint set.
+ *
+ * Answers "if we promote this rule, which of last week's allowed
+ * actions would have been blocked?". Each audit entry's context,
+ * including the enrichment metadata captured at the time, is run
+ * through a scratch ConstraintEngine and the new verdict is compared
+ * with the recorded one.
+ */
+
+import type { AuditEntry, ConstraintEngineOptions } from "./engine.js";
+import { ConstraintEngine } from "./engine.js";
+import type { ConstraintContext, ConstraintDefinition } from "./types.js";
+import { ConstraintSeverity, ConstraintStatus } from "./types.js";
+import type { OntologyEngine } from "../ontology/engine.js";
+
+/**
+ * Changes applied on top of the constraint set before replaying.
+ */
+export interface ReplayChanges {
+  /** Constraint IDs to treat as promoted */
+  promote?: string[];
+  /** Constraint IDs to treat as disabled */
+  disable?: string[];
+  /** Severity overrides by constraint ID */
+  severity?: Record<string, ConstraintSeverity>;
+}
+
+export interface ReplayOptions
+  extends ReplayChanges,
+    Pick<ConstraintEngineOptions, "onError" | "constraintTimeoutMs" | "evaluationDeadlineMs"> {
+  /** Ontology used for appliesTo scoping, as in the live engine */
+  ontology?: OntologyEngine;
+  /** Mirror the live engine's domain restriction */
+  restrictToDomain?: boolean;
+}
+
+/**
+ * One audited action whose outcome changed under the alternate rules.
+ */
+export interface ReplayDiff {
+  /** ID of the original audit entry */
+  auditId: number;
+  /** When the original action was evaluated */
+  timestamp: string;
+  /** The action the agent intended */
+  action: string;
+  /** The entity the action targeted */
+  targetEntity: string;
+  /** Verdict as recorded */
+  before: { allowed: boolean; summary: string };
+  /** Verdict under the alternate constraint set */
+  after: { allowed: boolean; summary: string };
+  /** Constraints that block the action under the alternate set */
+  blockedBy: string[];
+}
+
+export interface ReplayReport {
+  /** Number of audit entries replayed */
+  total: number;
+  /** Dry-run entries left out; those actions were never attempted */
+  skippedDryRuns: number;
+  /** Previously allowed actions that would now be blocked */
+  newlyBlocked: ReplayDiff[];
+  /** Previously blocked actions that would now be allowed */
+  newlyAllowed: ReplayDiff[];
+  /** Entries whose allowed/blocked outcome did not change */
+  unchanged: number;
+  /** IDs named in the changes that are not in the constraint set */
+  unknownConstraints: string[];
+}
+
+/**
+ * Restore a context that went through JSON (e.g. loaded from an
+ * exported audit log) so time-sensitive constraints see a real Date.
+ */
+export function reviveContext(context: ConstraintContext): ConstraintContext {
+  return { ...context, timestamp: new Date(context.timestamp) };
+}
+
+/**
+ * Check replay changes received as JSON. Returns a list of problems
+ * (empty when valid).
+ */
+export function validateReplayChanges(changes: unknown): string[] {
+  if (typeof changes !== "object" || changes === null || Array.isArray(changes)) {
+    return ["Replay changes must be an object"];
+  }
+  const { promote, disable, severity } = changes as Record<string, unknown>;
+  const errors: string[] = [];
+  const isIdList = (v: unknown) => v === undefined || (Array.isArray(v) && v.every((x) => typeof x === "string"));
+  if (!isIdList(promote) || !isIdList(disable)) {
+    errors.push("promote and disable must be arrays of constraint IDs");
+  }
+  if (severity !== undefined) {
+    const severities = Object.values(ConstraintSeverity) as string[];
+    if (typeof severity !== "object" || severity === null || Array.isArray(severity)) {
+      errors.push("severity must map constraint IDs to severities");
+    } else {
+      for (const [id, value] of Object.entries(severity)) {
+        if (!severities.includes(value as string)) {
+          errors.push(`Invalid severity for ${id}: ${JSON.stringify(value)}. Use: ${severities.join(", ")}`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Replay audit entries against a constraint set with optional changes
+ * applied. The given constraint definitions are copied, never mutated.
+ * Dry runs are skipped. Pass the live onError and timeout settings so
+ * replayed verdicts fail the way production would.
+ */
+export async function replayAuditLog(
+  entries: AuditEntry[],
+  constraints: ConstraintDefinition[],
+  options: ReplayOptions = {}
+): Promise<ReplayReport> {
+  const engine = new ConstraintEngine({
+    ontology: options.ontology,
+    restrictToDomain: options.restrictToDomain,
+    shadowCandidates: false,
+    onError: options.onError,
+    constraintTimeoutMs: options.constraintTimeoutMs,
+    evaluationDeadlineMs: options.evaluationDeadlineMs,
+  });
+  for (const c of constraints) {
+    engine.register({ ...c });
+  }
+
+  const unknownConstraints: string[] = [];
+  const apply = (ids: string[] | undefined, status: ConstraintStatus) => {
+    for (const id of ids ?? []) {
+      if (!engine.updateConstraintStatus(id, status)) unknownConstraints.push(id);
+    }
+  };
+  apply(options.promote, ConstraintStatus.PROMOTED);
+  apply(options.disable, ConstraintStatus.DISABLED);
+  for (const [id, severity] of Object.entries(options.severity ?? {})) {
+    if (!engine.updateConstraintSeverity(id, severity)) unknownConstraints.push(id);
+  }
+
+  const replayed = entries.filter((e) => !e.dryRun);
+  const report: ReplayReport = {
+    total: replayed.length,
+    skippedDryRuns: entries.length - replayed.length,
+    newlyBlocked: [],
+    newlyAllowed: [],
+    unchanged: 0,
+    unknownConstraints,
+  };
+
+  for (const entry of replayed) {
+    const before = entry.verdict;
+    const after = await engine.evaluate(reviveContext(before.context));
+
+    if (before.allowed === after.allowed) {
+      report.unchanged++;
+      continue;
+    }
+
+    const diff: ReplayDiff = {
+      auditId: entry.id,
+      timestamp: entry.timestamp,
+      action: before.context.intendedAction,
+      targetEntity: before.context.targetEntity,
+      before: { allowed: before.allowed, summary: before.summary },
+      after: { allowed: after.allowed, summary: after.summary },
+      blockedBy: after.results
+        .filter((r) => !r.satisfied && (r.severity === ConstraintSeverity.BLOCK || r.severity === ConstraintSeverity.REQUIRE_APPROVAL))
+        .map((r) => r.constraintId),
+    };
+    (after.allowed ? report.newlyAllowed : report.newlyBlocked).push(diff);
+  }
+
+  return report;
+}
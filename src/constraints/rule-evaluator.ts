@@ -5,18 +5,144 @@
  * This replaces hardcoded TypeScript constraint functions with
  * a configurable rules engine. Operators can define constraints
  * in YAML without writing code.
+ *
+ * Conditions can be nested into boolean groups:
+ *   - all: [...]   every child must match (AND)
+ *   - any: [...]   at least one child must match (OR)
+ *   - not: {...}   the child must NOT match
+ *
+ * A plain list of conditions at the top level is treated as `all`.
+ *
+ * Field paths:
+ *   - `priority`                         top-level key
+ *   - `impact.max_criticality`           nested object key
+ *   - `active_change_details[0].type`    array index
+ *   - `active_change_details[*].type`    every element; resolves to an array
+ *   A key that literally exists in the metadata (even one containing dots)
+ *   always wins over path parsing. Inside `where` clauses, `$` is the
+ *   current array element itself.
+ *
+ * Type coercion:
+ *   - eq / neq / in / notIn / contains: strict equality, except that a
+ *     number and a numeric string compare as numbers ("5" eq 5), and a
+ *     boolean and "true"/"false" compare as booleans.
+ *   - gt / gte / lt / lte / between: both sides are converted to numbers
+ *     (numeric strings allowed). If either side is not numeric, both are
+ *     read as dates and compared as timestamps. Otherwise the condition
+ *     does not match.
+ *   - before / after: both sides are read as dates. The expected value
+ *     may be an ISO timestamp or a relative expression: `now`, `now-2h`,
+ *     `now+30m` (units: s, m, h, d, w). `now` is the evaluation timestamp.
+ *   - Dates are Date values, epoch milliseconds, ISO-8601 strings
+ *     (`2026-03-01`, `2026-03-01T10:00:00Z`, `2026-03-01 10:00:00`) or
+ *     relative expressions. Other strings are never dates, so
+ *     "Server 2016" gt "Server 2012" does not match.
+ *   - exists: the value is present and not null; a wildcard path that
+ *     yields no elements does not exist.
+ *   - contains: substring match on strings, membership on arrays.
+ *   - startsWith / matches: string fields only. `matches` takes a regex
+ *     source, optionally written as `/pattern/flags`.
+ *   - empty: undefined, null, "", [] and {} are empty.
+ *
+ * Array quantifiers apply `where` to each element of an array field:
+ *   - any:   at least one element matches
+ *   - all:   every element matches (false for a missing or empty array)
+ *   - count: number of matching elements (all elements when `where` is
+ *            omitted), compared with `value` — a number for equality or
+ *            an object such as `{ gte: 2, lt: 5 }`.
+ *
+ * Messages may cite the data that was evaluated with `{{path}}`
+ * placeholders, resolved like condition fields. Arrays are joined with
+ * ", ", objects are rendered as JSON, and missing values as "unknown"
+ * unless a fallback is given: `{{active_change_numbers|none recorded}}`.
  */
 
+/**
+ * Operators supported by a leaf condition.
+ */
+export type RuleOperator =
+  | "eq" | "neq"
+  | "gt" | "gte" | "lt" | "lte" | "between"
+  | "in" | "notIn"
+  | "exists" | "empty"
+  | "contains" | "startsWith" | "matches"
+  | "before" | "after"
+  | "any" | "all" | "count";
+
 /**
  * A single condition in a declarative constraint rule.
  */
 export interface RuleCondition {
-  /** Metadata field to check */
+  /** Metadata field or path to check */
   field: string;
   /** Comparison operator */
-  operator: "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "in" | "exists";
-  /** Expected value (omit for 'exists') */
+  operator: RuleOperator;
+  /** Expected value (omit for 'exists' and 'empty') */
   value?: unknown;
+  /** Per-element condition for the any/all/count quantifiers */
+  where?: ConditionNode;
+}
+
+/**
+ * A boolean group of conditions. Exactly one of `all`, `any`
+ * or `not` must be present.
+ */
+export type ConditionGroup =
+  | { all: ConditionNode[] }
+  | { any: ConditionNode[] }
+  | { not: ConditionNode };
+
+/**
+ * A node in a condition tree: a leaf condition or a boolean group.
+ */
+export type ConditionNode = RuleCondition | ConditionGroup;
+
+/**
+ * The outcome of evaluating one node of a condition tree.
+ * Groups carry their children so each branch can be reported.
+ */
+export interface ConditionEvaluation {
+  /** Node kind */
+  type: "all" | "any" | "not" | "condition";
+  /** Whether this node matched */
+  matched: boolean;
+  /** Leaf field (condition nodes only) */
+  field?: string;
+  /** Leaf operator (condition nodes only) */
+  operator?: RuleOperator;
+  /** Leaf expected value (condition nodes only) */
+  expected?: unknown;
+  /** Value found at the leaf's field path (condition nodes only) */
+  actual?: unknown;
+  /** Child evaluations (group nodes only) */
+  children?: ConditionEvaluation[];
+}
+
+/**
+ * One leaf condition's outcome, flattened from a condition tree for
+ * agents and reviewers.
+ */
+export interface ConditionTrace {
+  /** Position in the tree, e.g. "all[1].any[0]" */
+  path: string;
+  /** Metadata field or path checked */
+  field: string;
+  /** Operator applied */
+  operator: RuleOperator;
+  /** Value the rule expected */
+  expected: unknown;
+  /** Value found in the context metadata */
+  actual: unknown;
+  /** Whether the condition held (before any enclosing `not`) */
+  passed: boolean;
+}
+
+/**
+ * Options that influence evaluation.
+ */
+export interface EvaluationOptions {
+  /** Reference time for `now` in date comparisons (defaults to current time) */
+  now?: Date;
 }
 
 /**
@@ -28,62 +154,520 @@ export interface DeclarativeConstraint {
   domain: string;
   appliesTo: string[];
   relevantActions: string[];
-  severity: "block" | "warn" | "info";
-  status?: "candidate" | "promoted" | "disabled";
+  severity: "block" | "require_approval" | "warn" | "info";
+  status?: "candidate" | "shadow" | "promoted" | "disabled";
   description: string;
-  conditions: RuleCondition[];
+  onError?: "block" | "warn" | "allow";
+  timeoutMs?: number;
+  conditions: ConditionNode[] | ConditionGroup;
   violationMessage: string;
   satisfiedMessage: string;
 }
 
+const OPERATORS: ReadonlySet<string> = new Set<RuleOperator>([
+  "eq", "neq", "gt", "gte", "lt", "lte", "between", "in", "notIn",
+  "exists", "empty", "contains", "startsWith", "matches",
+  "before", "after", "any", "all", "count",
+]);
+
+const COUNT_COMPARATORS: ReadonlySet<string> = new Set(["eq", "neq", "gt", "gte", "lt", "lte"]);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+const RELATIVE_TIME = /^now\s*(?:([+-])\s*(\d+)\s*([smhdw]))?$/i;
+
+const UNIT_MS: Record<string, number> = {
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+function isGroup(node: ConditionNode): node is ConditionGroup {
+  return "all" in node || "any" in node || "not" in node;
+}
+
+// ── Path resolution ───────────────────────────────────────────
+
+const WILDCARD = Symbol("wildcard");
+type PathSegment = string | number | typeof WILDCARD;
+
+const pathCache = new Map<string, PathSegment[]>();
+
+function parsePath(path: string): PathSegment[] {
+  const cached = pathCache.get(path);
+  if (cached) return cached;
+
+  const segments: PathSegment[] = [];
+  const pattern = /([^.[\]]+)|\[(\d+|\*)\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(path)) !== null) {
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else if (match[2] === "*") {
+      segments.push(WILDCARD);
+    } else {
+      segments.push(Number(match[2]));
+    }
+  }
+  pathCache.set(path, segments);
+  return segments;
+}
+
+/**
+ * Resolve a field path against a metadata object.
+ * Wildcard segments (`[*]`) fan out and produce an array of results.
+ * Only own properties are read, so "constructor" or "__proto__" never
+ * reach Object.prototype.
+ */
+export function resolvePath(root: unknown, path: string): unknown {
+  if (root && typeof root === "object" && !Array.isArray(root) && Object.hasOwn(root, path)) {
+    return (root as Record<string, unknown>)[path];
+  }
+  if (path === "$" || path === "") return root;
+
+  const segments = parsePath(path);
+  const startsAtElement = segments[0] === "$";
+  return walk(root, startsAtElement ? segments.slice(1) : segments);
+}
+
+function walk(current: unknown, segments: PathSegment[]): unknown {
+  if (segments.length === 0) return current;
+  if (current === null || current === undefined) return undefined;
+
+  const [head, ...rest] = segments;
+
+  if (head === WILDCARD) {
+    if (!Array.isArray(current)) return undefined;
+    const results: unknown[] = [];
+    for (const item of current) {
+      const value = walk(item, rest);
+      if (value === undefined) continue;
+      // Nested wildcards flatten into a single list
+      if (Array.isArray(value) && rest.includes(WILDCARD)) results.push(...value);
+      else results.push(value);
+    }
+    return results;
+  }
+
+  if (typeof head === "number") {
+    return Array.isArray(current) ? walk(current[head], rest) : undefined;
+  }
+
+  if (typeof current !== "object" || !Object.hasOwn(current, head)) return undefined;
+  return walk((current as Record<string, unknown>)[head], rest);
+}
+
+// ── Coercion helpers ──────────────────────────────────────────
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+function toTimestamp(value: unknown, now: Date): number | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+
+  const relative = RELATIVE_TIME.exec(value.trim());
+  if (relative) {
+    const [, sign, amount, unit] = relative;
+    if (!sign) return now.getTime();
+    const offset = Number(amount) * UNIT_MS[unit.toLowerCase()];
+    return now.getTime() + (sign === "-" ? -offset : offset);
+  }
+
+  if (!ISO_DATE.test(value.trim())) return undefined;
+  const parsed = Date.parse(value.trim());
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function looseEquals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a === "number" && typeof b === "string") return toNumber(b) === a;
+  if (typeof a === "string" && typeof b === "number") return toNumber(a) === b;
+  if (typeof a === "boolean" && typeof b === "string") return b === String(a);
+  if (typeof a === "string" && typeof b === "boolean") return a === String(b);
+  return false;
+}
+
+/**
+ * Compare two values for ordering. Returns a negative number, zero or
+ * a positive number, or undefined when the values are not comparable.
+ */
+export function compareValues(a: unknown, b: unknown, now: Date): number | undefined {
+  const bIsRelative = typeof b === "string" && RELATIVE_TIME.test(b.trim());
+  if (!bIsRelative) {
+    const na = toNumber(a);
+    const nb = toNumber(b);
+    if (na !== undefined && nb !== undefined) return na - nb;
+  }
+  const ta = toTimestamp(a, now);
+  const tb = toTimestamp(b, now);
+  if (ta !== undefined && tb !== undefined) return ta - tb;
+  return undefined;
+}
+
+function compareWith(op: string, a: unknown, b: unknown, now: Date): boolean {
+  if (op === "eq") return looseEquals(a, b);
+  if (op === "neq") return !looseEquals(a, b);
+  const cmp = compareValues(a, b, now);
+  if (cmp === undefined) return false;
+  switch (op) {
+    case "gt": return cmp > 0;
+    case "gte": return cmp >= 0;
+    case "lt": return cmp < 0;
+    case "lte": return cmp <= 0;
+    default: return false;
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object" && !(value instanceof Date)) {
+    return Object.keys(value as Record<string, unknown>).length === 0;
+  }
+  return false;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function toRegExp(source: unknown): RegExp | undefined {
+  if (typeof source !== "string") return undefined;
+  const cached = regexCache.get(source);
+  if (cached) return cached;
+  const literal = /^\/(.*)\/([a-z]*)$/s.exec(source);
+  try {
+    const re = literal ? new RegExp(literal[1], literal[2]) : new RegExp(source);
+    regexCache.set(source, re);
+    return re;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Expose an array element as the metadata root for a `where` clause.
+ * Non-object elements are reachable through `$`.
+ */
+function elementScope(element: unknown): Record<string, unknown> {
+  if (element && typeof element === "object" && !Array.isArray(element)) {
+    return element as Record<string, unknown>;
+  }
+  return { $: element };
+}
+
+function elementMatches(
+  element: unknown,
+  where: ConditionNode | undefined,
+  options: EvaluationOptions
+): boolean {
+  if (!where) return true;
+  return evaluateConditionTree(where, elementScope(element), options).matched;
+}
+
+function countMatches(count: number, expected: unknown, now: Date): boolean {
+  if (typeof expected === "number") return count === expected;
+  if (!expected || typeof expected !== "object") return false;
+  return Object.entries(expected as Record<string, unknown>).every(
+    ([op, bound]) => COUNT_COMPARATORS.has(op) && compareWith(op, count, bound, now)
+  );
+}
+
+// ── Evaluation ────────────────────────────────────────────────
+
 /**
  * Evaluate a single condition against a metadata context.
  * Returns true if the condition is MET (i.e., the constraint IS triggered).
  */
 export function evaluateCondition(
   condition: RuleCondition,
-  metadata: Record<string, unknown>
+  metadata: Record<string, unknown>,
+  options: EvaluationOptions = {}
 ): boolean {
-  const fieldValue = metadata[condition.field];
+  const fieldValue = resolvePath(metadata, condition.field);
+  const expected = condition.value;
+  const now = options.now ?? new Date();
 
   switch (condition.operator) {
     case "exists":
+      if (Array.isArray(fieldValue) && fieldValue.length === 0 && condition.field.includes("[*]")) return false;
       return fieldValue !== undefined && fieldValue !== null;
 
-    case "eq":
-      return fieldValue === condition.value;
+    case "empty":
+      return isEmpty(fieldValue);
 
+    case "eq":
     case "neq":
-      return fieldValue !== condition.value;
-
     case "gt":
-      return typeof fieldValue === "number" && fieldValue > (condition.value as number);
-
     case "gte":
-      return typeof fieldValue === "number" && fieldValue >= (condition.value as number);
-
     case "lt":
-      return typeof fieldValue === "number" && fieldValue < (condition.value as number);
-
     case "lte":
-      return typeof fieldValue === "number" && fieldValue <= (condition.value as number);
+      return compareWith(condition.operator, fieldValue, expected, now);
+
+    case "between": {
+      if (!Array.isArray(expected) || expected.length !== 2) return false;
+      return (
+        compareWith("gte", fieldValue, expected[0], now) &&
+        compareWith("lte", fieldValue, expected[1], now)
+      );
+    }
+
+    case "before":
+    case "after": {
+      const actual = toTimestamp(fieldValue, now);
+      const bound = toTimestamp(expected, now);
+      if (actual === undefined || bound === undefined) return false;
+      return condition.operator === "before" ? actual < bound : actual > bound;
+    }
 
     case "in":
-      return Array.isArray(condition.value) && condition.value.includes(fieldValue);
+    case "notIn": {
+      if (!Array.isArray(expected)) return false;
+      const candidates = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+      const found = candidates.some((v) => expected.some((e) => looseEquals(v, e)));
+      return condition.operator === "in" ? found : !found;
+    }
+
+    case "contains":
+      if (typeof fieldValue === "string") {
+        return typeof expected === "string" && fieldValue.includes(expected);
+      }
+      return Array.isArray(fieldValue) && fieldValue.some((v) => looseEquals(v, expected));
+
+    case "startsWith":
+      return (
+        typeof fieldValue === "string" &&
+        typeof expected === "string" &&
+        fieldValue.startsWith(expected)
+      );
+
+    case "matches": {
+      const re = toRegExp(expected);
+      return typeof fieldValue === "string" && re !== undefined && re.test(fieldValue);
+    }
+
+    case "any":
+      return (
+        Array.isArray(fieldValue) &&
+        fieldValue.some((el) => elementMatches(el, condition.where, options))
+      );
+
+    case "all":
+      return (
+        Array.isArray(fieldValue) &&
+        fieldValue.length > 0 &&
+        fieldValue.every((el) => elementMatches(el, condition.where, options))
+      );
+
+    case "count": {
+      const items = Array.isArray(fieldValue) ? fieldValue : [];
+      const n = items.filter((el) => elementMatches(el, condition.where, options)).length;
+      return countMatches(n, expected, now);
+    }
 
     default:
       return false;
   }
 }
 
+/**
+ * Evaluate a condition tree node, returning the per-branch outcome.
+ * Every child of a group is evaluated (no short-circuit) so the
+ * full tree can be shown in the audit trail.
+ */
+export function evaluateConditionTree(
+  node: ConditionNode,
+  metadata: Record<string, unknown>,
+  options: EvaluationOptions = {}
+): ConditionEvaluation {
+  if ("all" in node) {
+    const children = node.all.map((c) => evaluateConditionTree(c, metadata, options));
+    return { type: "all", matched: children.every((c) => c.matched), children };
+  }
+
+  if ("any" in node) {
+    const children = node.any.map((c) => evaluateConditionTree(c, metadata, options));
+    return { type: "any", matched: children.some((c) => c.matched), children };
+  }
+
+  if ("not" in node) {
+    const child = evaluateConditionTree(node.not, metadata, options);
+    return { type: "not", matched: !child.matched, children: [child] };
+  }
+
+  return {
+    type: "condition",
+    matched: evaluateCondition(node, metadata, options),
+    field: node.field,
+    operator: node.operator,
+    expected: node.value,
+    actual: resolvePath(metadata, node.field),
+  };
+}
+
+/**
+ * Flatten an evaluated condition tree into its leaf conditions, in order.
+ */
+export function traceConditions(evaluation: ConditionEvaluation, path = ""): ConditionTrace[] {
+  if (evaluation.type === "condition") {
+    return [{
+      path: path || "condition",
+      field: evaluation.field ?? "",
+      operator: evaluation.operator ?? "eq",
+      expected: evaluation.expected,
+      actual: evaluation.actual,
+      passed: evaluation.matched,
+    }];
+  }
+  const children = evaluation.children ?? [];
+  return children.flatMap((child, i) => {
+    const step = evaluation.type === "not" ? "not" : `${evaluation.type}[${i}]`;
+    return traceConditions(child, path ? `${path}.${step}` : step);
+  });
+}
+
+function templateValue(value: unknown, fallback = "unknown"): string {
+  if (value === undefined || value === null) return fallback;
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map((v) => templateValue(v)).join(", ") : fallback;
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Replace `{{path}}` placeholders in a message with values from the
+ * context metadata, e.g. "Active changes: {{active_change_numbers}}".
+ * `{{path|text}}` renders `text` when the value is missing or empty.
+ */
+export function renderTemplate(template: string, metadata: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([^{}|]+?)\s*(?:\|([^{}]*))?\}\}/g, (_match, path: string, fallback?: string) =>
+    templateValue(resolvePath(metadata, path), fallback?.trim())
+  );
+}
+
+/**
+ * Normalize the `conditions` value of a declarative constraint into
+ * a single root node. A list becomes an implicit `all` group.
+ */
+export function toConditionRoot(
+  conditions: ConditionNode[] | ConditionGroup | undefined
+): ConditionGroup {
+  if (!conditions) return { all: [] };
+  if (Array.isArray(conditions)) return { all: conditions };
+  return conditions;
+}
+
+/**
+ * Validate the operator-specific shape of a leaf condition's value.
+ */
+function validateLeafValue(obj: Record<string, unknown>, path: string): string[] {
+  const { operator, value } = obj;
+  switch (operator) {
+    case "in":
+    case "notIn":
+      return Array.isArray(value) ? [] : [`${path}: '${operator}' expects a list value`];
+    case "between":
+      return Array.isArray(value) && value.length === 2
+        ? []
+        : [`${path}: 'between' expects a [min, max] value`];
+    case "matches":
+      return toRegExp(value) ? [] : [`${path}: 'matches' expects a valid regular expression`];
+    case "before":
+    case "after":
+      return toTimestamp(value, new Date()) !== undefined
+        ? []
+        : [`${path}: '${operator}' expects an ISO date or a 'now' expression`];
+    case "any":
+    case "all":
+      return obj.where === undefined
+        ? [`${path}: '${operator}' requires a 'where' condition`]
+        : validateConditionTree(obj.where, `${path}.where`);
+    case "count": {
+      const errors = obj.where === undefined ? [] : validateConditionTree(obj.where, `${path}.where`);
+      const validBound =
+        typeof value === "number" ||
+        (!!value && typeof value === "object" && !Array.isArray(value) &&
+          Object.keys(value).length > 0 &&
+          Object.keys(value).every((k) => COUNT_COMPARATORS.has(k)));
+      if (!validBound) {
+        errors.push(`${path}: 'count' expects a number or an object like { gte: 2 }`);
+      }
+      return errors;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Validate the structure of a condition tree.
+ * Returns a list of problems; an empty list means the tree is well-formed.
+ */
+export function validateConditionTree(node: unknown, path = "conditions"): string[] {
+  if (Array.isArray(node)) {
+    return node.flatMap((c, i) => validateConditionTree(c, `${path}[${i}]`));
+  }
+  if (!node || typeof node !== "object") {
+    return [`${path}: expected a condition or an all/any/not group`];
+  }
+
+  const obj = node as Record<string, unknown>;
+  const groupKeys = ["all", "any", "not"].filter((k) => k in obj);
+
+  if (groupKeys.length > 1) {
+    return [`${path}: a group must have exactly one of all/any/not (found ${groupKeys.join(", ")})`];
+  }
+
+  if (groupKeys.length === 1) {
+    const key = groupKeys[0];
+    const child = obj[key];
+    if (key === "not") {
+      if (Array.isArray(child)) {
+        return [`${path}.not: expected a single condition or group, not a list`];
+      }
+      return validateConditionTree(child, `${path}.not`);
+    }
+    if (!Array.isArray(child)) {
+      return [`${path}.${key}: expected a list of conditions`];
+    }
+    return validateConditionTree(child, `${path}.${key}`);
+  }
+
+  const errors: string[] = [];
+  if (typeof obj.field !== "string" || obj.field === "") {
+    errors.push(`${path}: missing 'field'`);
+  }
+  if (typeof obj.operator !== "string" || !OPERATORS.has(obj.operator)) {
+    errors.push(`${path}: unknown operator '${String(obj.operator)}'`);
+    return errors;
+  }
+  return [...errors, ...validateLeafValue(obj, path)];
+}
+
 /**
  * Evaluate all conditions in a constraint against metadata.
  * All conditions must be true for the constraint to be triggered (AND logic).
+ * Entries may themselves be all/any/not groups.
  */
 export function evaluateAllConditions(
-  conditions: RuleCondition[],
-  metadata: Record<string, unknown>
+  conditions: ConditionNode[],
+  metadata: Record<string, unknown>,
+  options: EvaluationOptions = {}
 ): boolean {
   if (conditions.length === 0) return true; // No conditions = unconditionally active
-  return conditions.every((c) => evaluateCondition(c, metadata));
+  return conditions.every((c) =>
+    isGroup(c)
+      ? evaluateConditionTree(c, metadata, options).matched
+      : evaluateCondition(c, metadata, options)
+  );
 }
@@ -7,6 +7,7 @@
  */
 
 import type { EntityId } from "../ontology/types.js";
+import type { ConditionEvaluation, ConditionTrace } from "./rule-evaluator.js";
 
 /**
  * Severity level for a constraint violation.
@@ -14,6 +15,8 @@ import type { EntityId } from "../ontology/types.js";
 export enum ConstraintSeverity {
   /** Action must not proceed — hard business rule */
   BLOCK = "block",
+  /** Action is held until a human approves it */
+  REQUIRE_APPROVAL = "require_approval",
   /** Action may proceed but agent should flag the risk */
   WARN = "warn",
   /** Informational — agent should be aware but no action needed */
@@ -30,8 +33,16 @@ export enum ConstraintStatus {
   PROMOTED = "promoted",
   /** Explicitly turned off (was promoted, now paused) */
   DISABLED = "disabled",
+  /** Evaluated on every action and audited, but never enforced */
+  SHADOW = "shadow",
 }
 
+/**
+ * What an enforced constraint contributes to the verdict when it cannot
+ * be evaluated: fail closed (block), flag it (warn), or fail open (allow).
+ */
+export type OnErrorPolicy = "block" | "warn" | "allow";
+
 /**
  * The result of evaluating a constraint against a context.
  */
@@ -46,6 +57,29 @@ export interface ConstraintResult {
   explanation: string;
   /** Entities involved in this constraint evaluation */
   involvedEntities: EntityId[];
+  /** Per-branch outcome of a declarative condition tree, if any */
+  conditionResult?: ConditionEvaluation;
+  /** Each leaf condition with the value it saw, if declarative */
+  conditionTrace?: ConditionTrace[];
+  /**
+   * Set when the constraint could not be evaluated; the result then
+   * reflects its onError policy rather than the rule itself.
+   */
+  evaluation?: "error" | "timeout";
+}
+
+/**
+ * Who is acting: the authenticated caller behind a tool call.
+ */
+export interface Principal {
+  /** Agent or user ID (API key owner or JWT subject) */
+  id: string;
+  /** Roles granted to the caller (e.g. triage, sre) */
+  roles: string[];
+  /** Owning team, if known */
+  team?: string;
+  /** How the caller authenticated */
+  method: "api_key" | "jwt";
 }
 
 /**
@@ -63,6 +97,8 @@ export interface ConstraintContext {
   timestamp: Date;
   /** Additional key-value context */
   metadata: Record<string, unknown>;
+  /** The authenticated caller; rule conditions reach it as `principal.*` */
+  principal?: Principal;
 }
 
 /**
@@ -76,16 +112,22 @@ export interface ConstraintDefinition {
   name: string;
   /** The domain this constraint belongs to */
   domain: string;
+  /** Applies to targets in every domain, even when the engine restricts constraints to the target's domain */
+  allDomains?: boolean;
   /** Which entity types this constraint applies to */
   appliesTo: string[];
   /** Which actions this constraint is relevant for */
   relevantActions: string[];
   /** Severity when violated */
   severity: ConstraintSeverity;
-  /** Lifecycle status: candidate, promoted, or disabled */
+  /** Lifecycle status: candidate, shadow, promoted, or disabled */
   status: ConstraintStatus;
   /** Human-readable description for agent reasoning */
   description: string;
+  /** Policy when evaluation throws or times out (default: the engine's) */
+  onError?: OnErrorPolicy;
+  /** Evaluation timeout in milliseconds (default: the engine's) */
+  timeoutMs?: number;
   /** Evaluation function — takes context, returns result */
   evaluate: (context: ConstraintContext) => Promise<ConstraintResult>;
 }
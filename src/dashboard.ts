@@ -16,14 +16,33 @@ import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
 import { resolve, dirname } from "path";
 import { fileURLToPath } from "url";
 import { OntologyEngine } from "./ontology/engine.js";
-import { ConstraintEngine } from "./constraints/engine.js";
-import { validateDomainSchema } from "./ontology/schema.js";
-import { loadDomainFromYaml, loadConstraintsFromYaml } from "./loader.js";
+import { ConstraintEngine, evaluationPolicyFromEnv } from "./constraints/engine.js";
+import { replayAuditLog, validateReplayChanges } from "./constraints/replay.js";
+import { createAuditStoreFromEnv } from "./constraints/audit-store.js";
+import { APPROVAL_STATUSES, ApprovalError, createApprovalQueueFromEnv } from "./constraints/approvals.js";
+import type { ApprovalStatus } from "./constraints/approvals.js";
+import { createAuditSinksFromEnv, formatAuditEntries, AUDIT_EXPORT_FORMATS } from "./constraints/audit-export.js";
+import type { AuditExportFormat } from "./constraints/audit-export.js";
+import type { AuditQuery, AuditVerdictFilter } from "./constraints/audit-store.js";
+import { verifyChain } from "./constraints/audit-chain.js";
+import { entityValidationModeFromEnv, validateDomainSchema } from "./ontology/schema.js";
+import type { EntityQuery } from "./ontology/query.js";
+import { parseEntitySort, validateEntityQuery } from "./ontology/query.js";
+import { impactSource } from "./ontology/impact.js";
+import { createEntityStoreFromEnv, createSnapshot, isValidSnapshotName, snapshotInfo, validateSnapshot } from "./ontology/entity-store.js";
+import type { EntitySnapshot } from "./ontology/entity-store.js";
+import { loadDomainFromYaml, loadConstraintsFromYaml, loadActionMappingFromYaml } from "./loader.js";
 import { generateAgentCard } from "./a2a/types.js";
 import { load as yamlLoad } from "js-yaml";
 import { ServiceNowMCPClient, parseMCPServerUrl } from "./connectors/servicenow/mcp-proxy.js";
 import { ConnectorRegistry } from "./connectors/registry.js";
 import type { ConnectorPlugin } from "./connectors/types.js";
+import { ActionMapper, isUnmappedToolPolicy } from "./connectors/action-mapping.js";
+import { AuthenticationError, createAuthenticatorFromEnv } from "./server/auth.js";
+import { assessAllowedActions } from "./server/allowed-actions.js";
+import type { EnrichmentSource } from "./connectors/enrichment.js";
+import { pluginSource } from "./connectors/enrichment.js";
+import type { Principal } from "./constraints/types.js";
 
 // ── Initialize engines (load all YAML domains) ───────────────
 
@@ -31,7 +50,19 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const domainsDir = resolve(__dirname, "..", "domains");
 
 const ontologyEngine = new OntologyEngine();
-const constraintEngine = new ConstraintEngine();
+const constraintEngine = new ConstraintEngine({
+  ontology: ontologyEngine,
+  restrictToDomain: process.env.BASANOS_RESTRICT_TO_DOMAIN === "true",
+  shadowCandidates: process.env.BASANOS_SHADOW_CANDIDATES !== "false",
+  ...evaluationPolicyFromEnv(),
+  auditStore: createAuditStoreFromEnv(resolve(__dirname, "..")),
+  auditSinks: createAuditSinksFromEnv(resolve(__dirname, ".."), (err) => console.warn("Audit sink error:", err.message)),
+});
+
+const unmappedOverride = process.env.BASANOS_UNMAPPED_TOOLS;
+const actionMapper = new ActionMapper({
+  unmapped: isUnmappedToolPolicy(unmappedOverride) ? unmappedOverride : undefined,
+});
 
 if (existsSync(domainsDir)) {
   for (const entry of readdirSync(domainsDir, { withFileTypes: true })) {
@@ -40,6 +71,7 @@ if (existsSync(domainsDir)) {
     const ontologyYaml = resolve(domainDir, "ontology.yaml");
     const constraintsYaml = resolve(domainDir, "constraints.yaml");
     const discoveredYaml = resolve(domainDir, "discovered-constraints.yaml");
+    const actionMappingYaml = resolve(domainDir, "action-mapping.yaml");
 
     if (existsSync(ontologyYaml)) {
       console.log(`Loading domain: ${entry.name}`);
@@ -64,6 +96,33 @@ if (existsSync(domainsDir)) {
         constraintEngine.register(c);
       }
     }
+
+    if (existsSync(actionMappingYaml)) {
+      console.log(`  Loading action mapping: ${actionMappingYaml}`);
+      actionMapper.add(loadActionMappingFromYaml(actionMappingYaml));
+    }
+  }
+}
+
+// ── Load persisted entities ──────────────────────────────────
+
+// Shared with the MCP server and CLI; syncs below are written back
+try {
+  const entitiesLoaded = ontologyEngine.attachStore(createEntityStoreFromEnv(resolve(__dirname, "..")));
+  console.log(`Loaded ${entitiesLoaded} persisted entities`);
+} catch (err) {
+  console.warn("Failed to load persisted entities:", String(err));
+}
+
+/**
+ * Pick up entities another process synced. A store that cannot be read
+ * leaves the last good graph in place.
+ */
+function refreshEntities(): void {
+  try {
+    ontologyEngine.refresh();
+  } catch (err) {
+    console.warn("Failed to reload persisted entities, keeping the loaded graph:", String(err));
   }
 }
 
@@ -118,7 +177,23 @@ if (existsSync(discoveryRulesPath)) {
 // ── Express API ───────────────────────────────────────────────
 
 const app = express();
-app.use(express.json());
+// Snapshot imports carry the whole entity graph
+app.use(express.json({ limit: "25mb" }));
+
+// API callers authenticate like MCP clients; the principal is kept in
+// res.locals for verdicts made on their behalf.
+const authenticator = createAuthenticatorFromEnv(resolve(__dirname, ".."));
+console.log(`API authentication: ${authenticator.getMode()}`);
+app.use("/api", (req, res, next) => {
+  try {
+    res.locals.principal = authenticator.authenticate(req.headers);
+    next();
+  } catch (err) {
+    if (!(err instanceof AuthenticationError)) return next(err);
+    res.setHeader("WWW-Authenticate", 'Bearer realm="basanos"');
+    res.status(401).json({ error: err.message });
+  }
+});
 
 app.get("/api/domains", (_req, res) => {
   const domains = ontologyEngine.getDomains().map((d) => ({
@@ -146,6 +221,7 @@ app.get("/api/domains/:domain/entities/:type", (req, res) => {
 
 app.get("/api/domains/:domain/constraints", (req, res) => {
   const constraints = constraintEngine.getConstraints(req.params.domain);
+  const shadow = new Map(constraintEngine.getShadowSummary().map((s) => [s.constraintId, s]));
   res.json(constraints.map((c) => ({
     id: c.id,
     name: c.name,
@@ -155,17 +231,23 @@ app.get("/api/domains/:domain/constraints", (req, res) => {
     severity: c.severity,
     status: c.status,
     description: c.description,
+    shadow: shadow.get(c.id),
   })));
 });
 
+app.get("/api/constraints/shadow", (_req, res) => {
+  res.json(constraintEngine.getShadowSummary());
+});
+
 app.post("/api/constraints/:id/status", express.json(), (req, res) => {
   const { status } = req.body;
-  const validStatuses = ["candidate", "promoted", "disabled"];
+  const validStatuses = ["candidate", "shadow", "promoted", "disabled"];
   if (!validStatuses.includes(status)) {
-    return res.status(400).json({ error: "Invalid status. Use: candidate, promoted, disabled" });
+    return res.status(400).json({ error: "Invalid status. Use: candidate, shadow, promoted, disabled" });
   }
   const statusMap: Record<string, import("./constraints/types.js").ConstraintStatus> = {
     candidate: "candidate" as import("./constraints/types.js").ConstraintStatus,
+    shadow: "shadow" as import("./constraints/types.js").ConstraintStatus,
     promoted: "promoted" as import("./constraints/types.js").ConstraintStatus,
     disabled: "disabled" as import("./constraints/types.js").ConstraintStatus,
   };
@@ -179,12 +261,13 @@ app.post("/api/constraints/:id/status", express.json(), (req, res) => {
 
 app.post("/api/constraints/:id/severity", express.json(), (req, res) => {
   const { severity } = req.body;
-  const validSeverities = ["block", "warn", "info"];
+  const validSeverities = ["block", "require_approval", "warn", "info"];
   if (!validSeverities.includes(severity)) {
-    return res.status(400).json({ error: "Invalid severity. Use: block, warn, info" });
+    return res.status(400).json({ error: "Invalid severity. Use: block, require_approval, warn, info" });
   }
   const severityMap: Record<string, import("./constraints/types.js").ConstraintSeverity> = {
     block: "block" as import("./constraints/types.js").ConstraintSeverity,
+    require_approval: "require_approval" as import("./constraints/types.js").ConstraintSeverity,
     warn: "warn" as import("./constraints/types.js").ConstraintSeverity,
     info: "info" as import("./constraints/types.js").ConstraintSeverity,
   };
@@ -235,6 +318,13 @@ if ((mcpServerUrl || process.env.SERVICENOW_INSTANCE_URL) && (existsSync(mcpToke
   }
 }
 
+app.get("/api/action-mapping", (_req, res) => {
+  res.json({
+    unmappedPolicy: actionMapper.getUnmappedPolicy(),
+    files: actionMapper.getFiles(),
+  });
+});
+
 app.get("/api/mcp-proxy/status", async (_req, res) => {
   if (!mcpClient) {
     return res.json({ connected: false, message: "Not configured. Enter credentials below." });
@@ -246,7 +336,7 @@ app.get("/api/mcp-proxy/status", async (_req, res) => {
       instance: mcpClient.getInstanceUrl(),
       server: mcpClient.getServerName(),
       tokenValid: mcpClient.isConnected(),
-      tools: tools.map(t => ({ name: t.name, type: t.tool_type, inputs: Object.keys(t.tool_inputs || {}) })),
+      tools: tools.map(t => ({ name: t.name, type: t.tool_type, inputs: Object.keys(t.tool_inputs || {}), mapping: actionMapper.resolve(t.name, t.description) })),
     });
   } catch (err) {
     res.json({ connected: false, message: String(err) });
@@ -340,7 +430,7 @@ app.post("/api/mcp-proxy/connect", express.json(), async (req, res) => {
       success: true,
       instance: instanceUrl,
       server: serverName || "sn_mcp_server_default",
-      tools: tools.map(t => ({ name: t.name, type: t.tool_type, inputs: Object.keys(t.tool_inputs || {}) })),
+      tools: tools.map(t => ({ name: t.name, type: t.tool_type, inputs: Object.keys(t.tool_inputs || {}), mapping: actionMapper.resolve(t.name, t.description) })),
     });
   } catch (err) {
     res.status(500).json({ error: String(err) });
@@ -406,6 +496,7 @@ app.post("/api/demo/execute", express.json(), async (req, res) => {
       relatedEntities,
       timestamp: new Date(),
       metadata,
+      principal: res.locals.principal as Principal | undefined,
     });
 
     steps.push({
@@ -453,6 +544,67 @@ app.post("/api/demo/execute", express.json(), async (req, res) => {
   }
 });
 
+// ── Approval queue ───────────────────────────────────────────
+
+// Calls held by require_approval constraints, parked by the MCP server.
+// Approving one forwards the original call through the MCP proxy client.
+// Without authentication there are no reviewer roles to check.
+const approvalQueue = createApprovalQueueFromEnv(resolve(__dirname, ".."), authenticator.isEnabled());
+
+app.get("/api/approvals", (req, res) => {
+  const status = req.query.status as string | undefined;
+  if (status && !APPROVAL_STATUSES.includes(status as ApprovalStatus)) {
+    return res.status(400).json({ error: `Invalid status. Use: ${APPROVAL_STATUSES.join(", ")}` });
+  }
+  res.json({
+    pending: approvalQueue.list("pending").length,
+    approvals: approvalQueue.list(status as ApprovalStatus | undefined),
+  });
+});
+
+app.get("/api/approvals/:id", (req, res) => {
+  const request = approvalQueue.get(req.params.id);
+  if (!request) return res.status(404).json({ error: "Approval not found" });
+  res.json(request);
+});
+
+app.post("/api/approvals/:id/:decision", express.json(), async (req, res) => {
+  const { decision, id } = req.params;
+  const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+  if (decision !== "approve" && decision !== "reject") {
+    return res.status(404).json({ error: "Use /approve or /reject" });
+  }
+  if (!reason) return res.status(400).json({ error: "A reason is required" });
+  const principal = res.locals.principal as Principal | undefined;
+  const reviewerRoles = approvalQueue.getReviewerRoles();
+  if (!principal && reviewerRoles.length > 0) {
+    const fix = authenticator.isEnabled()
+      ? "send an API key or JWT that carries one"
+      : "API authentication is off, so enable BASANOS_AUTH or clear BASANOS_APPROVAL_REVIEWER_ROLES";
+    return res.status(403).json({ error: `Deciding approvals needs one of these roles: ${reviewerRoles.join(", ")}; ${fix}` });
+  }
+  const reviewer = principal ?? { id: "dashboard", roles: [] };
+
+  try {
+    if (decision === "reject") {
+      return res.json(await approvalQueue.reject(id, reviewer, reason));
+    }
+    const request = approvalQueue.get(id);
+    if (request?.status === "pending" && request.upstream === "servicenow" && !mcpClient) {
+      return res.status(400).json({ error: "MCP proxy not connected; connect it before approving" });
+    }
+    res.json(await approvalQueue.approve(id, reviewer, reason, (r) => {
+      if (r.upstream !== "servicenow" || !mcpClient) {
+        throw new Error(`Calls to ${r.upstream} cannot be forwarded from the dashboard`);
+      }
+      return mcpClient.executeTool(r.tool, r.args);
+    }));
+  } catch (err) {
+    if (!(err instanceof ApprovalError)) throw err;
+    res.status(err.status).json({ error: err.message });
+  }
+});
+
 // ── Cross-system connectors (plugin registry) ───────────────
 
 console.log("\nLoading connector plugins...");
@@ -543,6 +695,7 @@ app.post("/api/demo/multi-execute", express.json(), async (req, res) => {
       relatedEntities,
       timestamp: new Date(),
       metadata,
+      principal: res.locals.principal as Principal | undefined,
     });
 
     steps.push({
@@ -605,6 +758,159 @@ app.post("/api/connectors/:id/test", async (req, res) => {
   }
 });
 
+// ── Entity query ─────────────────────────────────────────────
+
+/**
+ * Build an entity query from ?domain=&type=&where=&related=&sort=&offset=&limit=.
+ * `where` and `related` are JSON; `sort` is e.g. priority,-opened_at.
+ * Returns an error message for an invalid query.
+ */
+function entityQueryFrom(query: Record<string, unknown>): EntityQuery | string {
+  const param = (name: string) => (typeof query[name] === "string" && query[name] !== "" ? query[name] as string : undefined);
+  let parsed: EntityQuery;
+  try {
+    parsed = {
+      domain: param("domain"),
+      type: param("type"),
+      where: param("where") ? JSON.parse(param("where")!) : undefined,
+      related: param("related") ? JSON.parse(param("related")!) : undefined,
+      sort: param("sort") ? parseEntitySort(param("sort")!) : undefined,
+      offset: param("offset") ? Number(param("offset")) : 0,
+      limit: param("limit") ? Number(param("limit")) : 50,
+    };
+  } catch (err) {
+    return `Invalid query: ${(err as Error).message}`;
+  }
+  const errors = validateEntityQuery(parsed);
+  return errors.length > 0 ? `Invalid query: ${errors.join("; ")}` : parsed;
+}
+
+app.get("/api/entities", (req, res) => {
+  const query = entityQueryFrom(req.query);
+  if (typeof query === "string") return res.status(400).json({ error: query });
+  refreshEntities();
+  res.json(ontologyEngine.queryEntities(query));
+});
+
+// ── Entity snapshots ─────────────────────────────────────────
+
+// Named copies of the entity graph. GET /api/snapshots/:name exports
+// one as JSON; PUT imports one, and /restore makes it the live graph
+// the MCP server loads too.
+app.get("/api/snapshots", (_req, res) => {
+  refreshEntities();
+  res.json({
+    entities: ontologyEngine.getAllEntities().length,
+    snapshots: ontologyEngine.getStore()?.listSnapshots() ?? [],
+  });
+});
+
+app.post("/api/snapshots", (req, res) => {
+  const store = ontologyEngine.getStore();
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  if (!store) return res.status(503).json({ error: "No entity store configured" });
+  if (!isValidSnapshotName(name)) {
+    return res.status(400).json({ error: "Snapshot names use letters, digits, '.', '_' and '-' (up to 64)" });
+  }
+  refreshEntities();
+  const snapshot = createSnapshot(name, ontologyEngine.getAllEntities());
+  store.saveSnapshot(snapshot);
+  res.status(201).json(snapshotInfo(snapshot));
+});
+
+/**
+ * Read a stored snapshot, answering 404 or 500 itself when there is
+ * none or its file cannot be parsed.
+ */
+function readSnapshot(name: string, res: express.Response): EntitySnapshot | undefined {
+  let snapshot: EntitySnapshot | undefined;
+  try {
+    snapshot = ontologyEngine.getStore()?.getSnapshot(name);
+  } catch (err) {
+    res.status(500).json({ error: String(err) });
+    return undefined;
+  }
+  if (!snapshot) res.status(404).json({ error: "Snapshot not found" });
+  return snapshot;
+}
+
+app.get("/api/snapshots/:name", (req, res) => {
+  const snapshot = readSnapshot(req.params.name, res);
+  if (!snapshot) return;
+  res.setHeader("Content-Disposition", `attachment; filename="${snapshot.name}.json"`);
+  res.json(snapshot);
+});
+
+app.put("/api/snapshots/:name", (req, res) => {
+  const store = ontologyEngine.getStore();
+  if (!store) return res.status(503).json({ error: "No entity store configured" });
+  const snapshot = { ...req.body, name: req.params.name } as EntitySnapshot;
+  const errors = validateSnapshot(snapshot);
+  if (errors.length > 0) return res.status(400).json({ error: `Invalid snapshot: ${errors.slice(0, 10).join("; ")}` });
+  store.saveSnapshot(snapshot);
+  res.json(snapshotInfo(store.getSnapshot(snapshot.name)!));
+});
+
+// Restored entities are validated like a sync, under BASANOS_ENTITY_VALIDATION
+app.post("/api/snapshots/:name/restore", (req, res) => {
+  const snapshot = readSnapshot(req.params.name, res);
+  if (!snapshot) return;
+  const errors = validateSnapshot(snapshot);
+  if (errors.length > 0) return res.status(422).json({ error: `Invalid snapshot: ${errors.slice(0, 10).join("; ")}` });
+  const validation = ontologyEngine.replaceEntities(snapshot.entities, { validation: entityValidationModeFromEnv() });
+  ontologyEngine.persist();
+  res.json({
+    restored: snapshot.name,
+    entities: ontologyEngine.getAllEntities().length,
+    validation: { ...validation, issues: validation.issues.slice(0, 50) },
+  });
+});
+
+app.delete("/api/snapshots/:name", (req, res) => {
+  if (!ontologyEngine.getStore()?.deleteSnapshot(req.params.name)) {
+    return res.status(404).json({ error: "Snapshot not found" });
+  }
+  res.json({ deleted: req.params.name });
+});
+
+// ── Allowed actions ──────────────────────────────────────────
+
+/**
+ * Live context for allowed-action queries: ServiceNow through the MCP
+ * proxy client when connected, then every other configured connector,
+ * then the blast radius from the ontology store.
+ */
+function enrichmentSources(): EnrichmentSource[] {
+  const sources: EnrichmentSource[] = [];
+  if (mcpClient) {
+    const client = mcpClient;
+    sources.push({ id: "servicenow", enrich: (entityRef) => client.enrichIncidentContext(entityRef) });
+  }
+  for (const plugin of connectorRegistry.getConfigured()) {
+    if (plugin.id === "servicenow" && mcpClient) continue;
+    sources.push(pluginSource(plugin));
+  }
+  sources.push(impactSource(ontologyEngine));
+  return sources;
+}
+
+// ?actions=resolve,close limits the matrix to those actions
+app.get("/api/entities/:id/allowed-actions", async (req, res) => {
+  const actions = typeof req.query.actions === "string" && req.query.actions !== ""
+    ? req.query.actions.split(",").map((a) => a.trim()).filter(Boolean)
+    : undefined;
+  refreshEntities();
+  try {
+    res.json(await assessAllowedActions(constraintEngine, enrichmentSources(), {
+      targetEntity: req.params.id,
+      actions,
+      principal: res.locals.principal as Principal | undefined,
+    }));
+  } catch (err) {
+    res.status(500).json({ error: String(err) });
+  }
+});
+
 app.get("/api/agent-card", (_req, res) => {
   const card = generateAgentCard({
     url: "stdio://basanos",
@@ -613,10 +919,82 @@ app.get("/api/agent-card", (_req, res) => {
   res.json(card);
 });
 
-app.get("/api/audit", (_req, res) => {
-  const log = constraintEngine.getAuditLog();
+/**
+ * Build an audit query from ?action=&entity=&constraint=&principal=&verdict=&dryRun=&since=&until=&offset=&limit=.
+ * Returns an error message for an invalid verdict.
+ */
+function auditQueryFrom(query: Record<string, unknown>): AuditQuery | string {
+  const param = (name: string) => (typeof query[name] === "string" && query[name] !== "" ? query[name] as string : undefined);
+  const verdict = param("verdict");
+  if (verdict && !["allowed", "blocked", "warned"].includes(verdict)) {
+    return "Invalid verdict. Use: allowed, blocked, warned";
+  }
+  const dryRun = param("dryRun");
+  if (dryRun && !["true", "false"].includes(dryRun)) {
+    return "Invalid dryRun. Use: true, false";
+  }
+  const limit = param("limit") ? parseInt(param("limit")!, 10) : undefined;
+  const offset = param("offset") ? parseInt(param("offset")!, 10) : 0;
+  return {
+    action: param("action"),
+    entityId: param("entity"),
+    constraintId: param("constraint"),
+    principal: param("principal"),
+    verdict: verdict as AuditVerdictFilter | undefined,
+    dryRun: dryRun === undefined ? undefined : dryRun === "true",
+    since: param("since"),
+    until: param("until"),
+    offset: Number.isNaN(offset) ? 0 : offset,
+    limit: limit === undefined || Number.isNaN(limit) ? undefined : limit,
+  };
+}
+
+app.get("/api/audit", (req, res) => {
+  const query = auditQueryFrom(req.query);
+  if (typeof query === "string") return res.status(400).json({ error: query });
+  const page = constraintEngine.queryAuditLog(query);
   const summary = constraintEngine.getAuditSummary();
-  res.json({ summary, entries: log });
+  res.json({ summary, total: page.total, offset: page.offset, entries: page.entries });
+});
+
+app.get("/api/audit/export", (req, res) => {
+  const format = String(req.query.format || "csv") as AuditExportFormat;
+  if (!AUDIT_EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `Invalid format. Use: ${AUDIT_EXPORT_FORMATS.join(", ")}` });
+  }
+  const query = auditQueryFrom(req.query);
+  if (typeof query === "string") return res.status(400).json({ error: query });
+  // Exports read oldest first, the order a SIEM ingests them
+  const entries = constraintEngine.queryAuditLog(query).entries.reverse();
+  const types: Record<AuditExportFormat, [string, string]> = {
+    csv: ["text/csv", "csv"],
+    ocsf: ["application/json", "json"],
+    syslog: ["text/plain", "log"],
+    cef: ["text/plain", "cef"],
+  };
+  const [contentType, extension] = types[format];
+  res.setHeader("Content-Type", `${contentType}; charset=utf-8`);
+  res.setHeader("Content-Disposition", `attachment; filename="basanos-audit.${extension}"`);
+  res.send(formatAuditEntries(entries, format));
+});
+
+app.get("/api/audit/verify", (_req, res) => {
+  res.json(verifyChain(constraintEngine.getAuditLog()));
+});
+
+app.post("/api/replay", express.json(), async (req, res) => {
+  const errors = validateReplayChanges(req.body ?? {});
+  if (errors.length > 0) return res.status(400).json({ error: errors.join("; ") });
+  const { promote, disable, severity } = req.body ?? {};
+  const report = await replayAuditLog(constraintEngine.getAuditLog(), constraintEngine.getAllConstraints(), {
+    ontology: ontologyEngine,
+    restrictToDomain: process.env.BASANOS_RESTRICT_TO_DOMAIN === "true",
+    ...evaluationPolicyFromEnv(),
+    promote,
+    disable,
+    severity,
+  });
+  res.json(report);
 });
 
 app.get("/api/provenance", (_req, res) => {
@@ -691,7 +1069,9 @@ app.post("/api/import", async (req, res) => {
 
     const importResult = await importSchemas(connector, importTables, outputDir);
 
-    const syncResult = await syncAllTables(connector, ontologyEngine, { limit: 100 });
+    refreshEntities();
+    const syncResult = await syncAllTables(connector, ontologyEngine, { limit: 100, validation: entityValidationModeFromEnv() });
+    ontologyEngine.persist();
 
     const discovered = await discoverConstraints(connector, resolve(outputDir, "discovered-constraints.yaml"));
 
@@ -715,7 +1095,12 @@ app.post("/api/import", async (req, res) => {
     res.json({
       success: true,
       import: { tables: importResult.tablesImported, fields: importResult.fieldsImported, relationships: importResult.referencesFound },
-      sync: { entities: syncResult.totalSynced, errors: syncResult.totalErrors },
+      sync: {
+        entities: syncResult.totalSynced,
+        errors: syncResult.totalErrors,
+        stored: ontologyEngine.getAllEntities().length,
+        validation: { ...syncResult.validation, issues: syncResult.validation.issues.slice(0, 50) },
+      },
       discovery: { constraints: discovered.length, evidence: discovered.map((c) => ({ name: c.name, severity: c.severity, evidence: c.evidence })) },
     });
   } catch (err) {
@@ -1122,6 +1507,7 @@ function dashboardHtml(): string {
     <button onclick="showTab('constraints')">Constraints</button>
     <button onclick="showTab('agent-card')">Agent Card</button>
     <button onclick="showTab('audit')">Audit Trail</button>
+    <button onclick="showTab('approvals')">Approvals</button>
     <button onclick="showTab('connectors')">Connectors</button>
     <button onclick="showTab('connect')">Connect</button>
     <button onclick="showTab('demo')" style="color:var(--success);">Single-system Demo</button>
@@ -1135,6 +1521,28 @@ function dashboardHtml(): string {
   </main>
 
 <script>
+  // When the API requires authentication, ask for a key once and send
+  // it with every request for the rest of the browser session.
+  const baseFetch = window.fetch.bind(window);
+  window.fetch = async function(input, init) {
+    const withKey = function() {
+      const key = sessionStorage.getItem('basanos-api-key');
+      if (!key) return init;
+      const headers = new Headers((init && init.headers) || {});
+      headers.set('Authorization', 'Bearer ' + key);
+      return Object.assign({}, init, { headers: headers });
+    };
+    let res = await baseFetch(input, withKey());
+    if (res.status === 401 && String(input).startsWith('/api')) {
+      const key = prompt('This Basanos dashboard requires an API key or token:');
+      if (key) {
+        sessionStorage.setItem('basanos-api-key', key.trim());
+        res = await baseFetch(input, withKey());
+      }
+    }
+    return res;
+  };
+
   let allDomains = [];
   let domainData = null;
   let constraintData = null;
@@ -1233,7 +1641,7 @@ function dashboardHtml(): string {
   async function showTab(tab) {
     currentTab = tab;
     document.querySelectorAll('nav button').forEach((b, i) => {
-      const tabs = ['overview', 'entities', 'constraints', 'agent-card', 'audit', 'connectors', 'connect', 'demo', 'multi-demo', 'discovery-rules'];
+      const tabs = ['overview', 'entities', 'constraints', 'agent-card', 'audit', 'approvals', 'connectors', 'connect', 'demo', 'multi-demo', 'discovery-rules'];
       b.classList.toggle('active', tabs[i] === tab);
     });
     const el = document.getElementById('content');
@@ -1252,6 +1660,7 @@ function dashboardHtml(): string {
       }
     } else {
       switch (tab) {
+        case 'approvals': await renderApprovals(el); break;
         case 'connectors': await renderConnectors(el); break;
         case 'connect': await renderConnect(el); break;
         case 'demo': await renderDemo(el); break;
@@ -1354,7 +1763,7 @@ function dashboardHtml(): string {
         <div style="margin-top:0.5rem;">
           \${prov.discoveryEvidence.map(e =>
             \`<div style="padding:0.3rem 0;font-size:0.85rem;">
-              <span class="badge \${{block:'badge-block',warn:'badge-warn',info:'badge-info'}[e.severity]}">\${e.severity}</span>
+              <span class="badge \${{block:'badge-block',require_approval:'badge-warn',warn:'badge-warn',info:'badge-info'}[e.severity]}">\${e.severity}</span>
               <strong>\${e.name}</strong>
               <span style="color:var(--text-secondary);margin-left:0.5rem;">\${e.evidence}</span>
             </div>\`
@@ -1431,28 +1840,46 @@ function dashboardHtml(): string {
     if (!constraintData) return;
     const promoted = constraintData.filter(c => c.status === 'promoted');
     const candidates = constraintData.filter(c => c.status === 'candidate');
+    const shadowed = constraintData.filter(c => c.status === 'shadow');
     const disabled = constraintData.filter(c => c.status === 'disabled');
 
+    function shadowStats(c) {
+      if (c.status !== 'candidate' && c.status !== 'shadow') return '';
+      var s = c.shadow;
+      if (!s || s.evaluations === 0) {
+        return '<div style="margin-top:0.5rem;font-size:0.8rem;color:var(--text-secondary);">Shadow: not evaluated yet</div>';
+      }
+      var rate = Math.round(s.wouldBlockRate * 100);
+      var rateColor = rate >= 50 ? 'var(--danger)' : rate > 0 ? 'var(--warn)' : 'var(--success)';
+      return '<div style="margin-top:0.5rem;font-size:0.8rem;color:var(--text-secondary);">' +
+        'Shadow: would have blocked <strong style="color:' + rateColor + ';">' + s.wouldBlock + ' of ' + s.evaluations + ' (' + rate + '%)</strong>' +
+        (s.wouldHold > 0 ? ', held for approval ' + s.wouldHold + ' (' + Math.round(s.wouldHoldRate * 100) + '%)' : '') +
+        (s.wouldWarn > 0 ? ', warned on ' + s.wouldWarn : '') +
+      '</div>';
+    }
+
     function constraintCard(c) {
-      const statusColors = { promoted: 'var(--success)', candidate: 'var(--accent)', disabled: 'var(--text-secondary)' };
-      const statusLabels = { promoted: 'ENFORCED', candidate: 'CANDIDATE', disabled: 'DISABLED' };
+      const statusColors = { promoted: 'var(--success)', candidate: 'var(--accent)', shadow: 'var(--warn)', disabled: 'var(--text-secondary)' };
+      const statusLabels = { promoted: 'ENFORCED', candidate: 'CANDIDATE', shadow: 'SHADOW', disabled: 'DISABLED' };
       var isDiscovered = c.id.includes(':discovered:');
       var sourceLabel = isDiscovered ? 'discovered' : 'hand-crafted';
       var sourceColor = isDiscovered ? 'var(--text-secondary)' : 'var(--accent)';
       return '<div class="card" style="' + (c.status === 'disabled' ? 'opacity:0.6;' : '') + '">' +
         '<div style="display:flex;justify-content:space-between;align-items:flex-start;flex-wrap:wrap;gap:0.5rem;">' +
           '<h2 style="margin:0;">' + c.name +
-            ' <span class="badge ' + {block:'badge-block',warn:'badge-warn',info:'badge-info'}[c.severity] + '">' + c.severity.toUpperCase() + '</span>' +
+            ' <span class="badge ' + {block:'badge-block',require_approval:'badge-warn',warn:'badge-warn',info:'badge-info'}[c.severity] + '">' + c.severity.toUpperCase() + '</span>' +
             ' <span style="font-size:0.7rem;padding:2px 8px;border-radius:4px;color:white;background:' + (statusColors[c.status] || 'gray') + ';">' + (statusLabels[c.status] || c.status) + '</span>' +
             ' <span style="font-size:0.65rem;padding:2px 6px;border-radius:4px;border:1px solid ' + sourceColor + ';color:' + sourceColor + ';">' + sourceLabel + '</span>' +
           '</h2>' +
           '<div style="display:flex;gap:0.5rem;align-items:center;">' +
             '<select onchange="updateSeverity(\\'' + c.id + '\\', this.value)" style="padding:4px 8px;border-radius:4px;border:1px solid var(--border);background:var(--card-bg);color:var(--text-primary);font-size:0.8rem;">' +
               '<option value="block"' + (c.severity === 'block' ? ' selected' : '') + '>Block</option>' +
+              '<option value="require_approval"' + (c.severity === 'require_approval' ? ' selected' : '') + '>Require approval</option>' +
               '<option value="warn"' + (c.severity === 'warn' ? ' selected' : '') + '>Warn</option>' +
               '<option value="info"' + (c.severity === 'info' ? ' selected' : '') + '>Info</option>' +
             '</select>' +
-            (c.status === 'candidate' ? '<button class="btn-primary" style="font-size:0.8rem;padding:4px 12px;" onclick="updateStatus(\\'' + c.id + '\\', \\'promoted\\')">Promote</button>' : '') +
+            (c.status === 'candidate' || c.status === 'shadow' ? '<button class="btn-primary" style="font-size:0.8rem;padding:4px 12px;" onclick="updateStatus(\\'' + c.id + '\\', \\'promoted\\')">Promote</button>' : '') +
+            (c.status === 'candidate' ? '<button style="font-size:0.8rem;padding:4px 12px;border:1px solid var(--border);border-radius:4px;background:var(--card-bg);color:var(--text-secondary);cursor:pointer;" onclick="updateStatus(\\'' + c.id + '\\', \\'shadow\\')">Shadow</button>' : '') +
             (c.status === 'promoted' ? '<button style="font-size:0.8rem;padding:4px 12px;border:1px solid var(--border);border-radius:4px;background:var(--card-bg);color:var(--text-secondary);cursor:pointer;" onclick="updateStatus(\\'' + c.id + '\\', \\'disabled\\')">Disable</button>' : '') +
             (c.status === 'disabled' ? '<button style="font-size:0.8rem;padding:4px 12px;border:1px solid var(--border);border-radius:4px;background:var(--card-bg);color:var(--accent);cursor:pointer;" onclick="updateStatus(\\'' + c.id + '\\', \\'promoted\\')">Re-enable</button>' +
               ' <button style="font-size:0.8rem;padding:4px 12px;border:1px solid var(--border);border-radius:4px;background:var(--card-bg);color:var(--text-secondary);cursor:pointer;" onclick="updateStatus(\\'' + c.id + '\\', \\'candidate\\')">To Candidate</button>' : '') +
@@ -1465,6 +1892,7 @@ function dashboardHtml(): string {
           '<span style="font-size:0.8rem;color:var(--text-secondary);margin-left:0.5rem;">Actions:</span>' +
           c.relevantActions.map(function(a) { return '<span class="badge badge-info">' + a + '</span>'; }).join('') +
         '</div>' +
+        shadowStats(c) +
       '</div>';
     }
 
@@ -1475,6 +1903,7 @@ function dashboardHtml(): string {
         '<div class="card stat-card"><div class="stat-value" style="color:var(--text-secondary)">' + disabled.length + '</div><div class="stat-label">Disabled</div></div>' +
       '</div>' +
       (promoted.length > 0 ? '<h3 style="margin:1rem 0 0.5rem;color:var(--success);">Enforced (' + promoted.length + ')</h3>' + promoted.map(constraintCard).join('') : '') +
+      (shadowed.length > 0 ? '<h3 style="margin:1rem 0 0.5rem;color:var(--warn);">Shadow (' + shadowed.length + ')</h3>' + shadowed.map(constraintCard).join('') : '') +
       (candidates.length > 0 ? '<h3 style="margin:1rem 0 0.5rem;color:var(--accent);">Candidates (' + candidates.length + ')</h3>' + candidates.map(constraintCard).join('') : '') +
       (disabled.length > 0 ? '<details style="margin-top:1rem;"><summary style="cursor:pointer;color:var(--text-secondary);font-weight:600;">Disabled (' + disabled.length + ')</summary>' + disabled.map(constraintCard).join('') + '</details>' : '');
   }
@@ -1515,9 +1944,37 @@ function dashboardHtml(): string {
     \`;
   }
 
+  let auditFilters = { action: '', entity: '', constraint: '', verdict: '', since: '', until: '' };
+  let auditOffset = 0;
+  const AUDIT_PAGE_SIZE = 25;
+
+  // Plain links cannot send the API key, so fetch the export instead
+  function downloadExport(link) {
+    if (!sessionStorage.getItem('basanos-api-key')) return true;
+    fetch(link.getAttribute('href')).then(async function(res) {
+      if (!res.ok) return;
+      const name = (res.headers.get('Content-Disposition') || '').match(/filename="?([^"]+)"?/);
+      const a = document.createElement('a');
+      a.href = URL.createObjectURL(await res.blob());
+      a.download = name ? name[1] : 'basanos-audit';
+      a.click();
+      URL.revokeObjectURL(a.href);
+    });
+    return false;
+  }
+
   async function renderAudit(el) {
-    const res = await fetch('/api/audit');
+    const params = new URLSearchParams({ offset: String(auditOffset), limit: String(AUDIT_PAGE_SIZE) });
+    for (const [k, v] of Object.entries(auditFilters)) {
+      if (!v) continue;
+      params.set(k, (k === 'since' || k === 'until') ? new Date(v).toISOString() : v);
+    }
+    const [res, chainRes] = await Promise.all([fetch('/api/audit?' + params.toString()), fetch('/api/audit/verify')]);
     const data = await res.json();
+    const chain = await chainRes.json();
+    const pageEnd = Math.min(data.offset + data.entries.length, data.total);
+    const filterInput = (key, placeholder) =>
+      '<input id="audit-' + key + '" type="text" placeholder="' + placeholder + '" value="' + auditFilters[key] + '" style="flex:1;min-width:140px;" />';
     el.innerHTML = \`
       <div class="stat-grid">
         <div class="card stat-card">
@@ -1532,24 +1989,152 @@ function dashboardHtml(): string {
           <div class="stat-value" style="color:var(--danger)">\${data.summary.blocked}</div>
           <div class="stat-label">Blocked</div>
         </div>
+        <div class="card stat-card">
+          <div class="stat-value" style="color:\${chain.valid ? 'var(--success)' : 'var(--danger)'}">\${chain.valid ? 'Intact' : chain.breaks.length + ' break(s)'}</div>
+          <div class="stat-label" title="\${chain.breaks.map(b => '#' + b.entryId + ' ' + b.reason).join(', ')}">Hash Chain</div>
+        </div>
+      </div>
+      <div class="card">
+        <div style="display:flex;gap:0.5rem;flex-wrap:wrap;align-items:center;">
+          \${filterInput('action', 'Action (e.g. resolve)')}
+          \${filterInput('entity', 'Target entity ID')}
+          \${filterInput('constraint', 'Constraint ID')}
+          <select id="audit-verdict" style="padding:4px 8px;border-radius:4px;border:1px solid var(--border);background:var(--card-bg);color:var(--text-primary);">
+            \${['', 'allowed', 'warned', 'blocked'].map(v => '<option value="' + v + '"' + (auditFilters.verdict === v ? ' selected' : '') + '>' + (v || 'Any verdict') + '</option>').join('')}
+          </select>
+          <label style="font-size:0.8rem;color:var(--text-secondary);">From <input id="audit-since" type="datetime-local" value="\${auditFilters.since}" /></label>
+          <label style="font-size:0.8rem;color:var(--text-secondary);">To <input id="audit-until" type="datetime-local" value="\${auditFilters.until}" /></label>
+          <button class="btn-primary" style="font-size:0.8rem;padding:4px 12px;" onclick="applyAuditFilters()">Filter</button>
+          <button style="font-size:0.8rem;padding:4px 12px;border:1px solid var(--border);border-radius:4px;background:var(--card-bg);color:var(--text-secondary);cursor:pointer;" onclick="clearAuditFilters()">Clear</button>
+          <span style="font-size:0.8rem;color:var(--text-secondary);margin-left:auto;">Export:
+            \${['csv', 'ocsf', 'syslog', 'cef'].map(f => {
+              const exportParams = new URLSearchParams(params);
+              exportParams.delete('offset');
+              exportParams.delete('limit');
+              exportParams.set('format', f);
+              return '<a href="/api/audit/export?' + exportParams.toString() + '" onclick="return downloadExport(this)">' + f.toUpperCase() + '</a>';
+            }).join(' · ')}
+          </span>
+        </div>
       </div>
       \${data.entries.length === 0
-        ? '<div class="empty-state">No constraint evaluations yet. Use the MCP tools to generate audit entries.</div>'
+        ? '<div class="empty-state">' + (data.total === 0 && data.summary.total > 0 ? 'No audit entries match these filters.' : 'No constraint evaluations yet. Use the MCP tools to generate audit entries.') + '</div>'
         : data.entries.map(e => \`
           <div class="card">
             <h2>
               #\${e.id}
-              <span class="badge \${e.verdict.allowed ? 'badge-success' : 'badge-block'}">\${e.verdict.allowed ? 'ALLOWED' : 'BLOCKED'}</span>
+              <span class="badge \${e.verdict.allowed ? 'badge-success' : e.verdict.requiresApproval ? 'badge-warn' : 'badge-block'}">\${e.verdict.allowed ? 'ALLOWED' : e.verdict.requiresApproval ? 'APPROVAL REQUIRED' : 'BLOCKED'}</span>
+              \${e.dryRun ? '<span class="badge badge-type" title="Evaluated only; the call was not forwarded">DRY RUN</span>' : ''}
             </h2>
             <p><strong>Action:</strong> \${e.verdict.context.intendedAction} on <span class="badge badge-type">\${e.verdict.context.targetEntity}</span></p>
             <p><strong>Time:</strong> \${e.timestamp}</p>
+            \${e.principal ? '<p><strong>Caller:</strong> ' + e.principal.id + (e.principal.roles.length > 0 ? ' (' + e.principal.roles.join(', ') + ')' : '') + (e.principal.team ? ' · ' + e.principal.team : '') + '</p>' : ''}
             <p style="margin-top:0.5rem;">\${e.verdict.summary}</p>
+            \${(e.shadowResults || []).filter(r => !r.satisfied).length > 0 ? '<p style="font-size:0.8rem;color:var(--text-secondary);">Shadow (not enforced): ' + e.shadowResults.filter(r => !r.satisfied).map(r => r.constraintId + ' would ' + (r.severity === 'block' ? 'block' : r.severity)).join(', ') + '</p>' : ''}
+            \${e.verdict.results.filter(r => !r.satisfied && (r.conditionTrace || []).length > 0).map(r => '<p style="font-size:0.8rem;color:var(--text-secondary);">' + r.constraintId + ' matched: ' + r.conditionTrace.filter(t => t.passed).map(t => t.field + ' ' + t.operator + ' ' + JSON.stringify(t.expected ?? null) + ' (saw ' + JSON.stringify(t.actual ?? null) + ')').join('; ') + '</p>').join('')}
+            \${(e.enrichment || []).length > 0 ? '<p style="font-size:0.8rem;color:var(--text-secondary);">Enriched from: ' + e.enrichment.map(t => t.connector + (t.error ? ' (failed: ' + t.error + ')' : ' (' + t.fields.length + ' fields, ' + t.durationMs + 'ms)')).join(', ') + '</p>' : ''}
+            \${(e.verdict.failures || []).length > 0 ? '<p style="font-size:0.8rem;color:var(--warn);">Not evaluated: ' + e.verdict.failures.map(f => f.constraintId + ' ' + (f.outcome === 'timeout' ? 'timed out' : 'errored') + ' after ' + f.durationMs + 'ms, onError ' + f.policy).join(', ') + '</p>' : ''}
+            \${(e.verdict.skipped || []).length > 0 ? '<p style="font-size:0.8rem;color:var(--text-secondary);">Skipped (out of scope): ' + e.verdict.skipped.map(s => s.constraintId).join(', ') + '</p>' : ''}
           </div>
         \`).join('')
       }
+      \${data.total > 0 ? \`
+        <div style="display:flex;justify-content:space-between;align-items:center;margin-top:0.5rem;font-size:0.85rem;color:var(--text-secondary);">
+          <span>Showing \${data.offset + 1}-\${pageEnd} of \${data.total}</span>
+          <span>
+            <button \${data.offset === 0 ? 'disabled' : ''} style="font-size:0.8rem;padding:4px 12px;border:1px solid var(--border);border-radius:4px;background:var(--card-bg);color:var(--text-secondary);cursor:pointer;" onclick="pageAudit(-1)">Newer</button>
+            <button \${pageEnd >= data.total ? 'disabled' : ''} style="font-size:0.8rem;padding:4px 12px;border:1px solid var(--border);border-radius:4px;background:var(--card-bg);color:var(--text-secondary);cursor:pointer;" onclick="pageAudit(1)">Older</button>
+          </span>
+        </div>
+      \` : ''}
     \`;
   }
 
+  function applyAuditFilters() {
+    for (const key of Object.keys(auditFilters)) {
+      const input = document.getElementById('audit-' + key);
+      auditFilters[key] = input ? input.value.trim() : '';
+    }
+    auditOffset = 0;
+    showTab('audit');
+  }
+
+  function clearAuditFilters() {
+    auditFilters = { action: '', entity: '', constraint: '', verdict: '', since: '', until: '' };
+    auditOffset = 0;
+    showTab('audit');
+  }
+
+  function pageAudit(direction) {
+    auditOffset = Math.max(0, auditOffset + direction * AUDIT_PAGE_SIZE);
+    showTab('audit');
+  }
+
+  let approvalFilter = 'pending';
+
+  async function renderApprovals(el) {
+    const res = await fetch('/api/approvals' + (approvalFilter ? '?status=' + approvalFilter : ''));
+    const data = await res.json();
+    const statusBadge = { pending: 'badge-warn', approved: 'badge-info', executed: 'badge-success', failed: 'badge-block', rejected: 'badge-block', expired: 'badge-type' };
+    el.innerHTML =
+      '<div class="stat-grid">' +
+        '<div class="card stat-card">' +
+          '<div class="stat-value" style="color:var(--warn)">' + data.pending + '</div>' +
+          '<div class="stat-label">Awaiting Approval</div>' +
+        '</div>' +
+      '</div>' +
+      '<div class="card">' +
+        '<p style="color:var(--text-secondary);margin-bottom:0.75rem;">Proxied calls held by <strong>require_approval</strong> constraints. Approving forwards the original call to ServiceNow; agents poll <code>basanos_approval_status</code> for the outcome.</p>' +
+        '<select onchange="filterApprovals(this.value)" style="padding:4px 8px;border-radius:4px;border:1px solid var(--border);background:var(--card-bg);color:var(--text-primary);">' +
+          ['', 'pending', 'executed', 'failed', 'rejected', 'expired'].map(function(v) {
+            return '<option value="' + v + '"' + (approvalFilter === v ? ' selected' : '') + '>' + (v || 'All requests') + '</option>';
+          }).join('') +
+        '</select>' +
+      '</div>' +
+      (data.approvals.length === 0
+        ? '<div class="empty-state">' + (approvalFilter === 'pending' ? 'No calls are waiting for approval.' : 'No approval requests match this filter.') + '</div>'
+        : data.approvals.map(function(a) {
+          var ctx = a.verdict.context;
+          var held = a.verdict.results.filter(function(r) { return !r.satisfied && r.severity === 'require_approval'; });
+          return '<div class="card">' +
+            '<h2>' + a.tool + ' <span class="badge ' + (statusBadge[a.status] || 'badge-type') + '">' + a.status.toUpperCase() + '</span></h2>' +
+            '<p><strong>Action:</strong> ' + ctx.intendedAction + ' on <span class="badge badge-type">' + ctx.targetEntity + '</span></p>' +
+            '<p><strong>Requested:</strong> ' + a.createdAt + (a.status === 'pending' && a.expiresAt ? ' (expires ' + a.expiresAt + ')' : '') + '</p>' +
+            (ctx.principal ? '<p><strong>Caller:</strong> ' + ctx.principal.id + (ctx.principal.roles.length > 0 ? ' (' + ctx.principal.roles.join(', ') + ')' : '') + '</p>' : '') +
+            held.map(function(r) { return '<p style="margin-top:0.5rem;">' + r.explanation + '</p>'; }).join('') +
+            '<pre style="font-size:0.75rem;overflow-x:auto;">' + JSON.stringify(a.args, null, 2).replace(/</g, '&lt;') + '</pre>' +
+            (a.decision ? '<p style="font-size:0.85rem;"><strong>' + (a.status === 'rejected' ? 'Rejected' : 'Approved') + ' by ' + a.decision.by + ':</strong> ' + a.decision.reason + '</p>' : '') +
+            (a.outcome ? '<p style="font-size:0.8rem;color:' + (a.outcome.error ? 'var(--danger)' : 'var(--text-secondary)') + ';">' + (a.outcome.error ? 'Forwarding failed: ' + a.outcome.error : 'Forwarded at ' + a.outcome.at) + '</p>' : '') +
+            (a.status === 'pending'
+              ? '<div style="display:flex;gap:0.5rem;margin-top:0.5rem;">' +
+                  '<button class="btn-primary" style="font-size:0.8rem;padding:4px 12px;" onclick="decideApproval(\\'' + a.id + '\\', \\'approve\\')">Approve &amp; forward</button>' +
+                  '<button style="font-size:0.8rem;padding:4px 12px;border:1px solid var(--border);border-radius:4px;background:var(--card-bg);color:var(--danger);cursor:pointer;" onclick="decideApproval(\\'' + a.id + '\\', \\'reject\\')">Reject</button>' +
+                '</div>'
+              : '') +
+          '</div>';
+        }).join(''));
+  }
+
+  function filterApprovals(status) {
+    approvalFilter = status;
+    showTab('approvals');
+  }
+
+  async function decideApproval(id, decision) {
+    const reason = window.prompt(decision === 'approve' ? 'Reason for approving:' : 'Reason for rejecting:');
+    if (!reason || !reason.trim()) return;
+    const res = await fetch('/api/approvals/' + encodeURIComponent(id) + '/' + decision, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: reason }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      alert('Could not ' + decision + ': ' + (body.error || res.status));
+    }
+    showTab('approvals');
+  }
+
   async function renderDiscoveryRules(el) {
     el.innerHTML = '<div class="empty-state">Loading discovery rules...</div>';
     let rules = [];
@@ -1590,7 +2175,7 @@ function dashboardHtml(): string {
           '<span class="badge badge-type" style="font-size:0.8rem;">' + connector + '</span> ' +
           'Analyzers (' + cRules.length + ')</h3>' +
           cRules.map(function(r) {
-            var sevClass = {block:'badge-block',warn:'badge-warn',info:'badge-info'}[r.severity] || 'badge-info';
+            var sevClass = {block:'badge-block',require_approval:'badge-warn',warn:'badge-warn',info:'badge-info'}[r.severity] || 'badge-info';
             var outputText = r.output
               ? (r.severity === 'block' ? 'Blocks ' : 'Warns on ') +
                 (r.output.relevantActions || []).join(', ') + ' actions for ' +
@@ -2291,7 +2876,7 @@ function dashboardHtml(): string {
             (p.constraintsDiscovered ? '<p>Constraints discovered: ' + p.constraintsDiscovered + '</p>' : '') +
             (p.discoveryEvidence ? p.discoveryEvidence.map(function(e) {
               return '<div style="font-size:0.85rem;padding:0.2rem 0;"><span class="badge ' +
-                ({block:'badge-block',warn:'badge-warn',info:'badge-info'}[e.severity] || 'badge-info') +
+                ({block:'badge-block',require_approval:'badge-warn',warn:'badge-warn',info:'badge-info'}[e.severity] || 'badge-info') +
                 '">' + e.severity + '</span> ' + e.name + ' <span style="color:var(--text-secondary)">' + e.evidence + '</span></div>';
             }).join('') : '');
         }
@@ -2329,6 +2914,11 @@ function dashboardHtml(): string {
             data.tools.map(function(t) {
               return '<div style="padding:0.5rem 0.75rem;border:1px solid var(--border);border-radius:0.5rem;font-size:0.85rem;">' +
                 '<strong>' + t.name + '</strong> <span class="badge badge-info" style="font-size:0.65rem;">' + t.type + '</span>' +
+                (t.mapping.mapped
+                  ? ' <span class="badge badge-success" style="font-size:0.65rem;">' + t.mapping.action + '</span>'
+                  : t.mapping.unmappedPolicy
+                    ? ' <span class="badge ' + (t.mapping.unmappedPolicy === 'deny' ? 'badge-block' : 'badge-warn') + '" style="font-size:0.65rem;">unmapped write: ' + t.mapping.unmappedPolicy + '</span>'
+                    : ' <span class="badge badge-type" style="font-size:0.65rem;">unmapped: ' + t.mapping.action + '</span>') +
                 '<div style="color:var(--text-secondary);font-size:0.75rem;margin-top:0.25rem;">Inputs: ' + (t.inputs.length > 0 ? t.inputs.join(', ') : 'none') + '</div>' +
                 '</div>';
             }).join('') + '</div>';
@@ -2500,6 +3090,18 @@ function dashboardHtml(): string {
         log.textContent += '\\nEntity Sync:\\n';
         log.textContent += '   Entities synced: ' + data.sync.entities + '\\n';
         log.textContent += '   Errors: ' + data.sync.errors + '\\n';
+        log.textContent += '   Entity store: ' + data.sync.stored + ' entities (shared with the MCP server)\\n';
+        const validation = data.sync.validation;
+        if (validation && validation.mode !== 'off') {
+          log.textContent += '   Validation (' + validation.mode + '): ' + validation.invalid + ' of ' + validation.checked + ' entities have issues' +
+            (validation.rejected > 0 ? ', ' + validation.rejected + ' rejected' : '') + '\\n';
+          Object.keys(validation.byCode).forEach(code => {
+            log.textContent += '     ' + code + ': ' + validation.byCode[code] + '\\n';
+          });
+          validation.issues.slice(0, 10).forEach(issue => {
+            log.textContent += '     ' + issue.entityId + ' - ' + issue.message + '\\n';
+          });
+        }
         log.textContent += '\\nConstraint Discovery:\\n';
         log.textContent += '   Constraints found: ' + data.discovery.constraints + '\\n';
         data.discovery.evidence.forEach(e => {
@@ -16,31 +16,87 @@ import { resolve, dirname } from "path";
 import { fileURLToPath } from "url";
 
 import { OntologyEngine } from "./ontology/engine.js";
-import { ConstraintEngine } from "./constraints/engine.js";
+import { ConstraintEngine, evaluationPolicyFromEnv } from "./constraints/engine.js";
+import { createAuditStoreFromEnv } from "./constraints/audit-store.js";
+import { createAuditSinksFromEnv } from "./constraints/audit-export.js";
+import { createApprovalQueueFromEnv } from "./constraints/approvals.js";
 import { validateDomainSchema } from "./ontology/schema.js";
+import type { EntityQuery } from "./ontology/query.js";
+import { parseEntitySort, validateEntityQuery } from "./ontology/query.js";
+import type { TraversalOptions } from "./ontology/traversal.js";
+import { validateTraversalOptions } from "./ontology/traversal.js";
+import { analyzeImpact, impactSource } from "./ontology/impact.js";
+import { createEntityStoreFromEnv } from "./ontology/entity-store.js";
 
 import { itsmDomain } from "./domains/itsm/ontology.js";
 import { itsmConstraints } from "./domains/itsm/constraints.js";
-import { loadDomainFromYaml, loadConstraintsFromYaml } from "./loader.js";
+import {
+  loadDomainFromYaml,
+  loadConstraintsFromYaml,
+  loadActionMappingFromYaml,
+  loadUpstreamsFromYaml,
+  loadPoliciesFromYaml,
+} from "./loader.js";
 
 import { readResource } from "./server/resources.js";
+import { startHttpServer } from "./server/http.js";
+import { createAuthenticatorFromEnv, principalFromAuthInfo } from "./server/auth.js";
+import type { HttpServerHandle } from "./server/http.js";
 import { generateAgentCard } from "./a2a/types.js";
 import { ServiceNowMCPClient } from "./connectors/servicenow/mcp-proxy.js";
+import { ConnectorRegistry } from "./connectors/registry.js";
+import type { EnrichmentSource } from "./connectors/enrichment.js";
+import { pluginSource } from "./connectors/enrichment.js";
+import {
+  ActionMapper,
+  checkActionMappingReferences,
+  createUnmappedToolConstraint,
+  isUnmappedToolPolicy,
+} from "./connectors/action-mapping.js";
+import { UpstreamMCPClient, jsonSchemaToZodShape } from "./connectors/upstream.js";
+import type { UpstreamConfig } from "./connectors/upstream.js";
+import type { GuardedToolSpec, ProxyDependencies } from "./server/proxy.js";
+import {
+  checkToolPolicy,
+  describeMapping,
+  exposedToolName,
+  jsonResult,
+  registerGuardedTool,
+  retryGuardedCall,
+} from "./server/proxy.js";
+import { RetryScheduler, createRetryQueueFromEnv, retrySettingsFromEnv } from "./server/retry-queue.js";
+import { ToolPolicySet } from "./server/policy.js";
+import { assessAllowedActions, parseMetadataJson } from "./server/allowed-actions.js";
+import type { Principal } from "./constraints/types.js";
 import { config as dotenvConfig } from "dotenv";
 
 dotenvConfig();
 
 // ── Initialize engines ────────────────────────────────────────
 
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
 const ontologyEngine = new OntologyEngine();
-const constraintEngine = new ConstraintEngine();
+const constraintEngine = new ConstraintEngine({
+  ontology: ontologyEngine,
+  restrictToDomain: process.env.BASANOS_RESTRICT_TO_DOMAIN === "true",
+  shadowCandidates: process.env.BASANOS_SHADOW_CANDIDATES !== "false",
+  ...evaluationPolicyFromEnv(),
+  auditStore: createAuditStoreFromEnv(resolve(__dirname, "..")),
+  auditSinks: createAuditSinksFromEnv(resolve(__dirname, ".."), (err) => console.error("Audit sink error:", err.message)),
+});
+const approvalQueue = createApprovalQueueFromEnv(resolve(__dirname, ".."));
 
 // ── Load all domains dynamically ─────────────────────────────
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
 const domainsDir = resolve(__dirname, "..", "domains");
 let domainsLoaded = 0;
 let constraintsLoaded = 0;
+const unmappedOverride = process.env.BASANOS_UNMAPPED_TOOLS;
+const actionMapper = new ActionMapper({
+  unmapped: isUnmappedToolPolicy(unmappedOverride) ? unmappedOverride : undefined,
+});
+const toolPolicies = new ToolPolicySet();
 
 if (existsSync(domainsDir)) {
   for (const entry of readdirSync(domainsDir, { withFileTypes: true })) {
@@ -49,6 +105,8 @@ if (existsSync(domainsDir)) {
     const ontologyYaml = resolve(domainDir, "ontology.yaml");
     const constraintsYaml = resolve(domainDir, "constraints.yaml");
     const discoveredYaml = resolve(domainDir, "discovered-constraints.yaml");
+    const actionMappingYaml = resolve(domainDir, "action-mapping.yaml");
+    const policiesYaml = resolve(domainDir, "policies.yaml");
 
     if (existsSync(ontologyYaml)) {
       console.error(`Loading domain: ${entry.name}`);
@@ -76,6 +134,16 @@ if (existsSync(domainsDir)) {
         constraintsLoaded++;
       }
     }
+
+    if (existsSync(actionMappingYaml)) {
+      console.error(`  Loading action mapping: ${actionMappingYaml}`);
+      actionMapper.add(loadActionMappingFromYaml(actionMappingYaml));
+    }
+
+    if (existsSync(policiesYaml)) {
+      console.error(`  Loading tool policies: ${policiesYaml}`);
+      toolPolicies.add(loadPoliciesFromYaml(policiesYaml));
+    }
   }
 }
 
@@ -90,7 +158,38 @@ if (domainsLoaded === 0) {
   domainsLoaded = 1;
 }
 
+const unmappedPolicy = actionMapper.getUnmappedPolicy();
+if (unmappedPolicy !== "allow") {
+  constraintEngine.register(createUnmappedToolConstraint(unmappedPolicy));
+}
+
 console.error(`Loaded ${domainsLoaded} domain(s), ${constraintsLoaded} constraint(s)`);
+console.error(`Unmapped write-like proxied tools: ${unmappedPolicy}`);
+if (toolPolicies.isEnabled()) {
+  console.error(`Tool policies: ${toolPolicies.getFiles().reduce((n, f) => n + f.policies.length, 0)} (default: ${toolPolicies.getDefault()})`);
+}
+
+// ── Load persisted entities ──────────────────────────────────
+
+// Synced by the CLI or dashboard; reloaded when either syncs again
+try {
+  const entitiesLoaded = ontologyEngine.attachStore(createEntityStoreFromEnv(resolve(__dirname, "..")));
+  console.error(`Loaded ${entitiesLoaded} persisted entities`);
+} catch (err) {
+  console.error("Failed to load persisted entities:", String(err));
+}
+
+/**
+ * Pick up entities another process synced. A store that cannot be read
+ * leaves the last good graph in place.
+ */
+function refreshEntities(): void {
+  try {
+    ontologyEngine.refresh();
+  } catch (err) {
+    console.error("Failed to reload persisted entities, keeping the loaded graph:", String(err));
+  }
+}
 
 // ── Initialize ServiceNow MCP Client (if configured) ────────
 
@@ -115,61 +214,93 @@ if ((snMCPServerUrl || snInstanceUrl) && existsSync(snTokenFile)) {
   console.error("ServiceNow MCP proxy disabled (no MCP Server URL or token file)");
 }
 
-// ── Create MCP Server ─────────────────────────────────────────
-
-const server = new McpServer({
-  name: "basanos",
-  version: "0.1.0",
-});
-
-// ── Register Resources (dynamic per domain) ─────────────────
-
-for (const domain of ontologyEngine.getDomains()) {
-  server.resource(
-    `ontology-${domain.name}`,
-    `basanos://ontology/${domain.name}`,
-    {
-      description: `Complete semantic ontology for the ${domain.label} domain.`,
-      mimeType: "text/markdown",
-    },
-    async (uri) => {
-      const result = readResource(uri.href, ontologyEngine, constraintEngine);
+// ── Load Upstream MCP Servers (upstreams.yaml) ──────────────
+
+const upstreamsFile = process.env.BASANOS_UPSTREAMS_FILE || resolve(__dirname, "..", "upstreams.yaml");
+let upstreams: UpstreamConfig[] = [];
+const upstreamClients: UpstreamMCPClient[] = [];
+const proxiedTools: GuardedToolSpec[] = [];
+let proxyDeps: ProxyDependencies | null = null;
+// Live context for constraint checks, loaded at startup whether or not
+// any upstream is proxied: the ontology's blast radius and configured
+// connectors apply to basanos_allowed_actions either way.
+let enrichmentSources: EnrichmentSource[] = [];
+
+// Blocked calls sent with _execute_when_allowed, re-checked until they
+// clear. The queue is on disk, so calls queued before a restart resume
+// once their tool is discovered again.
+const retryScheduler = new RetryScheduler({
+  queue: createRetryQueueFromEnv(resolve(__dirname, "..")),
+  ...retrySettingsFromEnv(),
+  attempt: async (queued, claim) => {
+    const spec = proxiedTools.find((t) => t.exposedName === queued.exposedName);
+    if (!spec || !proxyDeps) {
       return {
-        contents: [{
-          uri: uri.href,
-          text: result?.content ?? "Resource not found",
-          mimeType: result?.mimeType ?? "text/plain",
-        }],
+        forwarded: false,
+        verdict: { allowed: false, summary: `${queued.exposedName} is not available right now`, evaluatedAt: new Date().toISOString() },
       };
     }
-  );
+    return retryGuardedCall(proxyDeps, spec, queued, claim);
+  },
+});
 
-  server.resource(
-    `constraints-${domain.name}`,
-    `basanos://constraints/${domain.name}`,
-    {
-      description: `Business logic constraints for the ${domain.label} domain.`,
-      mimeType: "text/markdown",
-    },
-    async (uri) => {
-      const result = readResource(uri.href, ontologyEngine, constraintEngine);
-      return {
-        contents: [{
-          uri: uri.href,
-          text: result?.content ?? "Resource not found",
-          mimeType: result?.mimeType ?? "text/plain",
-        }],
-      };
-    }
-  );
+if (existsSync(upstreamsFile)) {
+  try {
+    upstreams = loadUpstreamsFromYaml(upstreamsFile);
+    console.error(`Upstream MCP servers: ${upstreams.map((u) => `${u.name} (${u.transport})`).join(", ") || "none"}`);
+  } catch (err) {
+    console.error(String(err));
+  }
+}
+
+// ── Create MCP Server ─────────────────────────────────────────
+
+/**
+ * Build an MCP server with every resource and tool registered. Stdio
+ * mode builds one; HTTP mode builds one per session. All of them share
+ * the engines above, so verdicts land in the same audit trail.
+ *
+ * @param agentUrl - URL advertised in the A2A agent card
+ * @param principal - Caller the server is built for; tool policies
+ *   decide which proxied tools it lists
+ */
+function buildServer(agentUrl = "stdio://basanos", principal?: Principal): McpServer {
+  const server = new McpServer({
+    name: "basanos",
+    version: "0.1.0",
+  }, {
+    // Logging notifications report how queued calls end
+    capabilities: { logging: {} },
+  });
 
-  for (const entityType of domain.entityTypes) {
+  // Resources (dynamic per domain)
+
+  for (const domain of ontologyEngine.getDomains()) {
     server.resource(
-      `entity-${domain.name}-${entityType.name}`,
-      `basanos://ontology/${domain.name}/${entityType.name}`,
+      `ontology-${domain.name}`,
+      `basanos://ontology/${domain.name}`,
       {
-        description: entityType.description,
-        mimeType: "application/json",
+        description: `Complete semantic ontology for the ${domain.label} domain.`,
+        mimeType: "text/markdown",
+      },
+      async (uri) => {
+        const result = readResource(uri.href, ontologyEngine, constraintEngine);
+        return {
+          contents: [{
+            uri: uri.href,
+            text: result?.content ?? "Resource not found",
+            mimeType: result?.mimeType ?? "text/plain",
+          }],
+        };
+      }
+    );
+
+    server.resource(
+      `constraints-${domain.name}`,
+      `basanos://constraints/${domain.name}`,
+      {
+        description: `Business logic constraints for the ${domain.label} domain.`,
+        mimeType: "text/markdown",
       },
       async (uri) => {
         const result = readResource(uri.href, ontologyEngine, constraintEngine);
@@ -177,203 +308,469 @@ for (const domain of ontologyEngine.getDomains()) {
           contents: [{
             uri: uri.href,
             text: result?.content ?? "Resource not found",
-            mimeType: result?.mimeType ?? "application/json",
+            mimeType: result?.mimeType ?? "text/plain",
           }],
         };
       }
     );
+
+    for (const entityType of domain.entityTypes) {
+      server.resource(
+        `entity-${domain.name}-${entityType.name}`,
+        `basanos://ontology/${domain.name}/${entityType.name}`,
+        {
+          description: entityType.description,
+          mimeType: "application/json",
+        },
+        async (uri) => {
+          const result = readResource(uri.href, ontologyEngine, constraintEngine);
+          return {
+            contents: [{
+              uri: uri.href,
+              text: result?.content ?? "Resource not found",
+              mimeType: result?.mimeType ?? "application/json",
+            }],
+          };
+        }
+      );
+    }
   }
-}
 
-const agentCard = generateAgentCard({
-  url: "stdio://basanos",
-  domains: ontologyEngine.getDomains().map((d) => d.name),
-});
+  const agentCard = generateAgentCard({
+    url: agentUrl,
+    domains: ontologyEngine.getDomains().map((d) => d.name),
+  });
 
-server.resource(
-  "agent-card",
-  "basanos://agent-card",
-  {
-    description: "A2A Agent Card describing Basanos capabilities, skills, and preconditions/postconditions.",
-    mimeType: "application/json",
-  },
-  async (uri) => ({
-    contents: [{
-      uri: uri.href,
-      text: JSON.stringify(agentCard, null, 2),
+  server.resource(
+    "agent-card",
+    "basanos://agent-card",
+    {
+      description: "A2A Agent Card describing Basanos capabilities, skills, and preconditions/postconditions.",
       mimeType: "application/json",
-    }],
-  })
-);
-
-// ── Register Tools ────────────────────────────────────────────
-
-server.tool(
-  "basanos_describe_domain",
-  "Get the complete semantic ontology for a domain — entity types, properties, relationships, and their meanings.",
-  { domain: z.string().describe("Domain name (e.g., 'itsm')") },
-  async ({ domain }) => {
-    const description = ontologyEngine.describeDomain(domain);
-    return { content: [{ type: "text" as const, text: description }] };
-  }
-);
-
-server.tool(
-  "basanos_get_entity_type",
-  "Get the detailed schema for a specific entity type.",
-  {
-    domain: z.string().describe("Domain name"),
-    entity_type: z.string().describe("Entity type name"),
-  },
-  async ({ domain, entity_type }) => {
-    const entityType = ontologyEngine.getEntityType(domain, entity_type);
-    if (!entityType) {
+    },
+    async (uri) => ({
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify(agentCard, null, 2),
+        mimeType: "application/json",
+      }],
+    })
+  );
+
+  // Tools
+
+  server.tool(
+    "basanos_describe_domain",
+    "Get the complete semantic ontology for a domain — entity types, properties, relationships, and their meanings.",
+    { domain: z.string().describe("Domain name (e.g., 'itsm')") },
+    async ({ domain }) => {
+      const description = ontologyEngine.describeDomain(domain);
+      return { content: [{ type: "text" as const, text: description }] };
+    }
+  );
+
+  server.tool(
+    "basanos_get_entity_type",
+    "Get the detailed schema for a specific entity type.",
+    {
+      domain: z.string().describe("Domain name"),
+      entity_type: z.string().describe("Entity type name"),
+    },
+    async ({ domain, entity_type }) => {
+      const entityType = ontologyEngine.getEntityType(domain, entity_type);
+      if (!entityType) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Entity type "${entity_type}" not found in domain "${domain}"`,
+            },
+          ],
+        };
+      }
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(entityType, null, 2) },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_get_relationships",
+    "Get all relationships for an entity type — direct and inverse.",
+    {
+      domain: z.string().describe("Domain name"),
+      entity_type: z.string().describe("Entity type name"),
+    },
+    async ({ domain, entity_type }) => {
+      const relationships = ontologyEngine.getRelationshipsFor(
+        domain,
+        entity_type
+      );
       return {
         content: [
           {
             type: "text" as const,
-            text: `Entity type "${entity_type}" not found in domain "${domain}"`,
+            text: JSON.stringify(relationships, null, 2),
           },
         ],
       };
     }
-    return {
-      content: [
-        { type: "text" as const, text: JSON.stringify(entityType, null, 2) },
-      ],
-    };
-  }
-);
-
-server.tool(
-  "basanos_get_relationships",
-  "Get all relationships for an entity type — direct and inverse.",
-  {
-    domain: z.string().describe("Domain name"),
-    entity_type: z.string().describe("Entity type name"),
-  },
-  async ({ domain, entity_type }) => {
-    const relationships = ontologyEngine.getRelationshipsFor(
-      domain,
-      entity_type
-    );
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: JSON.stringify(relationships, null, 2),
-        },
-      ],
-    };
-  }
-);
-
-server.tool(
-  "basanos_check_constraints",
-  "Evaluate business logic constraints before taking an action. ALWAYS call this before mutating operations.",
-  {
-    action: z.string().describe("Intended action (e.g., 'resolve', 'reassign', 'close', 'assign')"),
-    target_entity_id: z.string().describe("Target entity ID (domain:type:id)"),
-    related_entity_ids: z.string().optional().describe("Comma-separated related entity IDs"),
-    metadata_json: z.string().optional().describe("JSON string of additional context metadata"),
-  },
-  async ({ action, target_entity_id, related_entity_ids, metadata_json }) => {
-    const relatedIds = related_entity_ids
-      ? related_entity_ids.split(",").map((s: string) => s.trim())
-      : [];
-    const metadata = metadata_json ? JSON.parse(metadata_json) : {};
-
-    const verdict = await constraintEngine.evaluate({
-      intendedAction: action,
-      targetEntity: target_entity_id,
-      relatedEntities: relatedIds,
-      timestamp: new Date(),
-      metadata,
-    });
-    return {
-      content: [
-        { type: "text" as const, text: JSON.stringify(verdict, null, 2) },
-      ],
-    };
-  }
-);
-
-server.tool(
-  "basanos_list_constraints",
-  "List all business logic constraints for a domain.",
-  { domain: z.string().describe("Domain name (e.g., 'itsm')") },
-  async ({ domain }) => {
-    const description = constraintEngine.describeConstraints(domain);
-    return { content: [{ type: "text" as const, text: description }] };
-  }
-);
-
-server.tool(
-  "basanos_audit_log",
-  "Retrieve the audit trail of all constraint evaluations. Every check_constraints call is logged with timestamp, context, and verdict. Use for compliance, post-mortems, and debugging agent behavior.",
-  {
-    action: z.string().optional().describe("Filter by action (e.g., 'resolve')"),
-    entity_id: z.string().optional().describe("Filter by target entity ID"),
-  },
-  async ({ action, entity_id }) => {
-    const filter: { action?: string; entityId?: string } = {};
-    if (action) filter.action = action;
-    if (entity_id) filter.entityId = entity_id;
-
-    const hasFilter = filter.action || filter.entityId;
-    const entries = hasFilter
-      ? constraintEngine.getAuditEntriesFor(filter)
-      : constraintEngine.getAuditLog();
-    const summary = constraintEngine.getAuditSummary();
-
-    const result = {
-      summary,
-      entries: entries.map((e) => ({
-        id: e.id,
-        timestamp: e.timestamp,
-        action: e.verdict.context.intendedAction,
-        target: e.verdict.context.targetEntity,
-        allowed: e.verdict.allowed,
-        summary: e.verdict.summary,
-      })),
-    };
-
-    return {
-      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-    };
+  );
+
+  server.tool(
+    "basanos_query_entities",
+    "Find entities in the ontology by domain, type (subtypes included), property conditions and conditions on related entities. Conditions use the constraint operators, e.g. [{\"field\":\"priority\",\"operator\":\"eq\",\"value\":1}].",
+    {
+      domain: z.string().optional().describe("Domain name (e.g., 'itsm')"),
+      entity_type: z.string().optional().describe("Entity type; subtypes match too"),
+      where_json: z.string().optional().describe("JSON conditions on the entity's properties (a list, or an all/any/not group)"),
+      related_json: z.string().optional().describe("JSON list of {relationship, where?, related?} filters on linked entities"),
+      sort: z.string().optional().describe("Comma-separated fields; prefix with '-' for descending (e.g., 'priority,-opened_at')"),
+      offset: z.number().int().min(0).optional().describe("Entities to skip (default 0)"),
+      limit: z.number().int().min(1).max(500).optional().describe("Page size (default 50)"),
+    },
+    async ({ domain, entity_type, where_json, related_json, sort, offset, limit }) => {
+      let query: EntityQuery;
+      try {
+        query = {
+          domain,
+          type: entity_type,
+          where: where_json ? JSON.parse(where_json) : undefined,
+          related: related_json ? JSON.parse(related_json) : undefined,
+          sort: sort ? parseEntitySort(sort) : undefined,
+          offset: offset ?? 0,
+          limit: limit ?? 50,
+        };
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: `Invalid query: ${(err as Error).message}` }], isError: true };
+      }
+      const errors = validateEntityQuery(query);
+      if (errors.length > 0) {
+        return { content: [{ type: "text" as const, text: `Invalid query: ${errors.join("; ")}` }], isError: true };
+      }
+      refreshEntities();
+      const page = ontologyEngine.queryEntities(query);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(page, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_traverse",
+    "Walk the relationships of an entity and return every entity reached with the path (relationship and direction of each hop). Use direction 'incoming' or 'both' for questions like 'what else does this CI affect?'.",
+    {
+      entity_id: z.string().describe("Start entity ID (domain:type:id)"),
+      direction: z.enum(["outgoing", "incoming", "both"]).optional().describe("outgoing (default), incoming or both"),
+      relationships: z.string().optional().describe("Comma-separated relationship names to follow; inverse names (e.g. has_incidents) select incoming edges"),
+      max_depth: z.number().int().min(1).max(6).optional().describe("Maximum hops (default 2)"),
+      entity_types: z.string().optional().describe("Comma-separated types to return (subtypes included); other entities are still walked through"),
+      where_json: z.string().optional().describe("JSON conditions the returned entities must match"),
+    },
+    async ({ entity_id, direction, relationships, max_depth, entity_types, where_json }) => {
+      const list = (value?: string) => (value ? value.split(",").map((v) => v.trim()).filter(Boolean) : undefined);
+      let options: TraversalOptions;
+      try {
+        options = {
+          direction,
+          relationships: list(relationships),
+          maxDepth: max_depth ?? 2,
+          types: list(entity_types),
+          where: where_json ? JSON.parse(where_json) : undefined,
+        };
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: `Invalid traversal: ${(err as Error).message}` }], isError: true };
+      }
+      const errors = validateTraversalOptions(options);
+      if (errors.length > 0) {
+        return { content: [{ type: "text" as const, text: `Invalid traversal: ${errors.join("; ")}` }], isError: true };
+      }
+      refreshEntities();
+      if (!ontologyEngine.getEntity(entity_id)) {
+        return { content: [{ type: "text" as const, text: `Entity not found: ${entity_id}` }], isError: true };
+      }
+      const nodes = ontologyEngine.traversePaths(entity_id, options);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify({ start: entity_id, total: nodes.length, nodes }, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_find_path",
+    "Find the shortest chain of relationships linking two entities, following relationships in both directions by default.",
+    {
+      from_entity_id: z.string().describe("Start entity ID (domain:type:id)"),
+      to_entity_id: z.string().describe("Target entity ID (domain:type:id)"),
+      direction: z.enum(["outgoing", "incoming", "both"]).optional().describe("both (default), outgoing or incoming"),
+      relationships: z.string().optional().describe("Comma-separated relationship names to follow"),
+      max_depth: z.number().int().min(1).max(10).optional().describe("Maximum hops (default 6)"),
+    },
+    async ({ from_entity_id, to_entity_id, direction, relationships, max_depth }) => {
+      refreshEntities();
+      if (!ontologyEngine.getEntity(from_entity_id)) {
+        return { content: [{ type: "text" as const, text: `Entity not found: ${from_entity_id}` }], isError: true };
+      }
+      const path = ontologyEngine.findPath(from_entity_id, to_entity_id, {
+        direction,
+        relationships: relationships ? relationships.split(",").map((r) => r.trim()).filter(Boolean) : undefined,
+        maxDepth: max_depth,
+      });
+      const result = path
+        ? { found: true, from: from_entity_id, to: to_entity_id, hops: path.length, path }
+        : { found: false, from: from_entity_id, to: to_entity_id };
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_impact_analysis",
+    "Blast radius of a CI or business service: upstream business services with their criticality and SLA penalties, dependent CIs, open incidents and active changes, and a weighted impact score (0-100).",
+    {
+      entity_id: z.string().describe("CI or business service entity ID (domain:type:id)"),
+      max_depth: z.number().int().min(1).max(10).optional().describe("Maximum dependency hops upstream (default 5)"),
+    },
+    async ({ entity_id, max_depth }) => {
+      refreshEntities();
+      const analysis = analyzeImpact(ontologyEngine, entity_id, { maxDepth: max_depth });
+      if (!analysis) {
+        return { content: [{ type: "text" as const, text: `Entity not found: ${entity_id}` }], isError: true };
+      }
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(analysis, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_check_constraints",
+    "Evaluate business logic constraints before taking an action. ALWAYS call this before mutating operations.",
+    {
+      action: z.string().describe("Intended action (e.g., 'resolve', 'reassign', 'close', 'assign')"),
+      target_entity_id: z.string().describe("Target entity ID (domain:type:id)"),
+      related_entity_ids: z.string().optional().describe("Comma-separated related entity IDs"),
+      metadata_json: z.string().optional().describe("JSON string of additional context metadata"),
+    },
+    async ({ action, target_entity_id, related_entity_ids, metadata_json }, extra) => {
+      const relatedIds = related_entity_ids
+        ? related_entity_ids.split(",").map((s: string) => s.trim())
+        : [];
+      const metadata = metadata_json ? JSON.parse(metadata_json) : {};
+
+      const verdict = await constraintEngine.evaluate({
+        intendedAction: action,
+        targetEntity: target_entity_id,
+        relatedEntities: relatedIds,
+        timestamp: new Date(),
+        metadata,
+        principal: principalFromAuthInfo(extra.authInfo),
+      });
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(verdict, null, 2) },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_allowed_actions",
+    "List what may be done to an entity right now. Gathers live context once, evaluates every action that promoted constraints in scope for the entity care about, and returns an allow/warn/require_approval/block matrix with the reasons. Use it to plan before acting.",
+    {
+      entity_id: z.string().describe("Target entity ID (domain:type:id)"),
+      actions: z.string().optional().describe("Comma-separated actions to check (default: every action in scope)"),
+      metadata_json: z.string().optional().describe("JSON string of additional context metadata"),
+    },
+    async ({ entity_id, actions, metadata_json }, extra) => {
+      let metadata: Record<string, unknown>;
+      try {
+        metadata = parseMetadataJson(metadata_json);
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: `Invalid metadata: ${(err as Error).message}` }], isError: true };
+      }
+      refreshEntities();
+      const matrix = await assessAllowedActions(constraintEngine, enrichmentSources, {
+        targetEntity: entity_id,
+        actions: actions ? actions.split(",").map((a) => a.trim()).filter(Boolean) : undefined,
+        metadata,
+        principal: principalFromAuthInfo(extra.authInfo),
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(matrix, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_list_constraints",
+    "List all business logic constraints for a domain.",
+    { domain: z.string().describe("Domain name (e.g., 'itsm')") },
+    async ({ domain }) => {
+      const description = constraintEngine.describeConstraints(domain);
+      return { content: [{ type: "text" as const, text: description }] };
+    }
+  );
+
+  server.tool(
+    "basanos_audit_log",
+    "Retrieve the audit trail of all constraint evaluations. Every check_constraints call is logged with timestamp, context, and verdict. Use for compliance, post-mortems, and debugging agent behavior. Results are newest first and paginated.",
+    {
+      action: z.string().optional().describe("Filter by action (e.g., 'resolve')"),
+      entity_id: z.string().optional().describe("Filter by target entity ID"),
+      constraint_id: z.string().optional().describe("Filter to evaluations that checked this constraint"),
+      principal: z.string().optional().describe("Filter by the calling agent's principal ID"),
+      verdict: z.enum(["allowed", "blocked", "warned"]).optional().describe("Filter by outcome"),
+      dry_run: z.boolean().optional().describe("true for dry runs only, false to leave them out"),
+      since: z.string().optional().describe("ISO timestamp; only entries at or after this time"),
+      until: z.string().optional().describe("ISO timestamp; only entries at or before this time"),
+      offset: z.number().int().min(0).optional().describe("Entries to skip (default 0)"),
+      limit: z.number().int().min(1).max(500).optional().describe("Page size (default 50)"),
+    },
+    async ({ action, entity_id, constraint_id, principal, verdict, dry_run, since, until, offset, limit }) => {
+      const page = constraintEngine.queryAuditLog({
+        action,
+        entityId: entity_id,
+        constraintId: constraint_id,
+        principal,
+        verdict,
+        dryRun: dry_run,
+        since,
+        until,
+        offset: offset ?? 0,
+        limit: limit ?? 50,
+      });
+      const summary = constraintEngine.getAuditSummary();
+
+      const result = {
+        summary,
+        total: page.total,
+        offset: page.offset,
+        entries: page.entries.map((e) => ({
+          id: e.id,
+          timestamp: e.timestamp,
+          action: e.verdict.context.intendedAction,
+          target: e.verdict.context.targetEntity,
+          principal: e.principal?.id,
+          allowed: e.verdict.allowed,
+          ...(e.dryRun ? { dryRun: true } : {}),
+          summary: e.verdict.summary,
+        })),
+      };
+
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_approval_status",
+    "Check a proxied call that was held for human approval. Returns pending, rejected (with the reviewer's reason), expired, or executed/failed with the upstream result.",
+    { approval_id: z.string().describe("Approval ID returned when the call was held") },
+    async ({ approval_id }, extra) => {
+      const request = approvalQueue.get(approval_id);
+      const owner = request?.verdict.context.principal?.id;
+      if (!request || (owner && owner !== principalFromAuthInfo(extra.authInfo)?.id)) {
+        return { content: [{ type: "text" as const, text: `Approval not found: ${approval_id}` }], isError: true };
+      }
+      const result = {
+        id: request.id,
+        status: request.status,
+        tool: request.tool,
+        action: request.verdict.context.intendedAction,
+        target: request.verdict.context.targetEntity,
+        createdAt: request.createdAt,
+        expiresAt: request.expiresAt,
+        decision: request.decision,
+        outcome: request.outcome,
+      };
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    "basanos_retry_status",
+    "Check a blocked proxied call queued with _execute_when_allowed: waiting (with the latest verdict), in_flight while it is being forwarded, executed with the upstream result, failed, expired, or cancelled. Set cancel to stop retrying a waiting call.",
+    {
+      retry_id: z.string().describe("Retry ID returned when the call was queued"),
+      cancel: z.boolean().optional().describe("Stop retrying the call"),
+    },
+    async ({ retry_id, cancel }, extra) => {
+      let queued = retryScheduler.getQueue().get(retry_id);
+      if (!queued || (queued.principal && queued.principal.id !== principalFromAuthInfo(extra.authInfo)?.id)) {
+        return { content: [{ type: "text" as const, text: `Queued call not found: ${retry_id}` }], isError: true };
+      }
+      if (cancel) queued = (await retryScheduler.cancel(retry_id)) ?? queued;
+      const result = {
+        id: queued.id,
+        status: queued.status,
+        tool: queued.tool,
+        createdAt: queued.createdAt,
+        deadline: queued.deadline,
+        attempts: queued.attempts,
+        lastAttemptAt: queued.lastAttemptAt,
+        lastVerdict: queued.lastVerdict,
+        outcome: queued.outcome,
+      };
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // Proxied upstream tools, discovered once at startup, minus those
+  // the caller's tool policies leave out
+  if (proxyDeps) {
+    for (const spec of proxiedTools) {
+      if (checkToolPolicy(proxyDeps, spec, principal).allowed) registerGuardedTool(server, proxyDeps, spec);
+    }
   }
-);
 
-// ── Register Proxied ServiceNow MCP Tools ────────────────────
+  return server;
+}
+
+// ── Discover Proxied Upstream MCP Tools ──────────────────────
 
 /**
- * Derive an action name from a ServiceNow MCP tool name.
- * This maps tool names to constraint-relevant actions.
+ * Connectors consulted for live context before a proxied call is checked.
+ * ServiceNow enrichment goes through the proxy's own client; every other
+ * configured connector plugin is asked in registry order, and the
+ * ontology store adds the blast radius of the affected CI last.
  */
-function deriveAction(toolName: string): string {
-  const lower = toolName.toLowerCase();
-  if (lower.includes("look up") || lower.includes("lookup") || lower.includes("get")) return "lookup";
-  if (lower.includes("summariz")) return "summarize";
-  if (lower.includes("resolve")) return "resolve";
-  if (lower.includes("close")) return "close";
-  if (lower.includes("assign")) return "assign";
-  if (lower.includes("approve")) return "approve";
-  if (lower.includes("create")) return "create";
-  if (lower.includes("update")) return "update";
-  if (lower.includes("delete")) return "delete";
-  return lower.replace(/\s+/g, "_");
+async function createEnrichmentSources(): Promise<EnrichmentSource[]> {
+  const registry = await ConnectorRegistry.create((message) => console.error(message));
+  const sources: EnrichmentSource[] = [];
+  if (snMCPClient) {
+    const client = snMCPClient;
+    sources.push({
+      id: "servicenow",
+      enrich: (entityRef) => client.enrichIncidentContext(entityRef),
+    });
+  }
+  for (const plugin of registry.getConfigured()) {
+    if (plugin.id === "servicenow" && snMCPClient) continue;
+    sources.push(pluginSource(plugin));
+  }
+  sources.push(impactSource(ontologyEngine));
+  return sources;
 }
 
-async function registerProxiedTools() {
+async function discoverServiceNowTools() {
   if (!snMCPClient) return;
+  const client = snMCPClient;
 
   try {
-    const tools = await snMCPClient.fetchTools();
+    const tools = await client.fetchTools();
     console.error(`Registering ${tools.length} proxied ServiceNow MCP tools...`);
 
     for (const tool of tools) {
       const safeName = "sn_" + tool.name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/_+$/, "");
-      const action = deriveAction(tool.name);
 
       // Build zod schema from tool inputs
       const schemaFields: Record<string, z.ZodTypeAny> = {};
@@ -387,114 +784,167 @@ async function registerProxiedTools() {
         schemaFields[inputName] = inputDef.required ? field : field.optional();
       }
 
-      // Add optional constraint context fields
-      schemaFields["_target_entity"] = z.string().optional().describe(
-        "Target entity ID for constraint checking (e.g., servicenow-live:incident:INC001)"
-      );
-
-      const description =
-        `[Proxied from ServiceNow] ${tool.description || tool.name}\n\n` +
-        `Basanos enforces promoted constraints before forwarding this call to ServiceNow. ` +
-        `If a constraint blocks the action, the call will NOT reach ServiceNow.`;
-
-      server.tool(
-        safeName,
-        description.substring(0, 1024),
-        schemaFields,
-        async (args: Record<string, unknown>) => {
-          const targetEntity = (args._target_entity as string) || `servicenow:unknown:unknown`;
-          // Remove internal fields before forwarding
-          const snArgs = { ...args };
-          delete snArgs._target_entity;
-
-          // Check constraints before forwarding
-          const verdict = await constraintEngine.evaluate({
-            intendedAction: action,
-            targetEntity,
-            relatedEntities: [],
-            timestamp: new Date(),
-            metadata: { tool_name: tool.name, tool_type: tool.tool_type, ...snArgs },
+      proxiedTools.push({
+        exposedName: safeName,
+        upstreamName: tool.name,
+        upstream: "servicenow",
+        upstreamLabel: "ServiceNow",
+        description: tool.description,
+        inputShape: schemaFields,
+        metadata: { tool_type: tool.tool_type },
+        deferrable: true,
+        preview: (args) => client.buildRequest(tool.name, args),
+        forward: async (args, verdict) => {
+          const result = await client.executeTool(tool.name, args);
+          return jsonResult({
+            blocked: false,
+            tool: tool.name,
+            action: verdict.context.intendedAction,
+            constraintVerdict: {
+              allowed: true,
+              summary: verdict.summary,
+              evaluatedAt: verdict.evaluatedAt,
+            },
+            result,
           });
-
-          if (!verdict.allowed) {
-            return {
-              content: [
-                {
-                  type: "text" as const,
-                  text: JSON.stringify({
-                    blocked: true,
-                    tool: tool.name,
-                    action,
-                    verdict: {
-                      allowed: false,
-                      summary: verdict.summary,
-                      results: verdict.results,
-                      evaluatedAt: verdict.evaluatedAt,
-                    },
-                    message: "This action was BLOCKED by Basanos constraints. The call was NOT forwarded to ServiceNow.",
-                  }, null, 2),
-                },
-              ],
-            };
-          }
-
-          // Constraints passed - forward to ServiceNow
-          try {
-            const result = await snMCPClient!.executeTool(tool.name, snArgs);
-            return {
-              content: [
-                {
-                  type: "text" as const,
-                  text: JSON.stringify({
-                    blocked: false,
-                    tool: tool.name,
-                    action,
-                    constraintVerdict: {
-                      allowed: true,
-                      summary: verdict.summary,
-                      evaluatedAt: verdict.evaluatedAt,
-                    },
-                    result,
-                  }, null, 2),
-                },
-              ],
-            };
-          } catch (err) {
-            return {
-              content: [
-                {
-                  type: "text" as const,
-                  text: JSON.stringify({
-                    error: true,
-                    tool: tool.name,
-                    message: `ServiceNow MCP call failed: ${String(err)}`,
-                    constraintVerdict: { allowed: true, summary: verdict.summary },
-                  }, null, 2),
-                },
-              ],
-            };
-          }
-        }
-      );
-
-      console.error(`  Registered: ${safeName} (action: ${action}, type: ${tool.tool_type})`);
+        },
+      });
+      const resolved = actionMapper.resolve(tool.name, tool.description, "servicenow");
+      console.error(`  Registered: ${safeName} (${describeMapping(resolved)}, type: ${tool.tool_type})`);
     }
   } catch (err) {
     console.error("Failed to register proxied ServiceNow MCP tools:", String(err));
   }
 }
 
+/**
+ * Connect to each upstream in upstreams.yaml and mount its tools under
+ * the upstream's prefix. An upstream that cannot be reached is skipped;
+ * the rest still load.
+ */
+async function discoverUpstreamTools() {
+  for (const upstream of upstreams) {
+    const client = new UpstreamMCPClient(upstream);
+    try {
+      await client.connect();
+      upstreamClients.push(client);
+      const tools = await client.listTools();
+      console.error(`Registering ${tools.length} proxied tools from upstream "${client.getName()}"...`);
+
+      for (const tool of tools) {
+        const exposedName = exposedToolName(client.getPrefix(), tool.name);
+        proxiedTools.push({
+          exposedName,
+          upstreamName: tool.name,
+          upstream: client.getName(),
+          upstreamLabel: client.getLabel(),
+          description: tool.description ?? "",
+          inputShape: jsonSchemaToZodShape(tool.inputSchema),
+          forward: (args) => client.callTool(tool.name, args),
+        });
+        const resolved = actionMapper.resolve(tool.name, tool.description ?? "", client.getName());
+        console.error(`  Registered: ${exposedName} (${describeMapping(resolved)})`);
+      }
+    } catch (err) {
+      console.error(`Failed to register tools from upstream "${upstream.name}":`, String(err));
+      await client.close().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Connect to ServiceNow and every configured upstream, and collect
+ * their tools. Each server built afterwards mounts the same list.
+ */
+async function discoverProxiedTools() {
+  if (!snMCPClient && upstreams.length === 0) return;
+
+  for (const file of actionMapper.getFiles()) {
+    const warnings = checkActionMappingReferences(file, ontologyEngine, enrichmentSources.map((s) => s.id));
+    for (const warning of warnings) {
+      console.error(`  Action mapping warning (${file.domain}): ${warning}`);
+    }
+  }
+
+  proxyDeps = {
+    constraintEngine,
+    actionMapper,
+    enrichmentSources,
+    policy: toolPolicies.isEnabled() ? toolPolicies : undefined,
+    approvals: approvalQueue,
+    retry: retryScheduler,
+  };
+  await discoverServiceNowTools();
+  await discoverUpstreamTools();
+}
+
 // ── Start Server ──────────────────────────────────────────────
 
+/**
+ * Read a `--flag value` option from the command line.
+ */
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+// `basanos` or `basanos serve` runs on stdio; `basanos serve --http`
+// serves streamable HTTP instead, and adding `--stdio` runs both.
+const httpMode = process.argv.includes("--http");
+const stdioMode = !httpMode || process.argv.includes("--stdio");
+let httpServer: HttpServerHandle | null = null;
+
 async function main() {
-  // Register proxied SN MCP tools before connecting
-  await registerProxiedTools();
+  enrichmentSources = await createEnrichmentSources();
+  console.error(`Context enrichment: ${enrichmentSources.map((s) => s.id).join(", ") || "none"}`);
+
+  // Discover proxied upstream tools before connecting
+  await discoverProxiedTools();
+  retryScheduler.start();
+
+  if (httpMode) {
+    const host = option("host") || process.env.BASANOS_HTTP_HOST || "127.0.0.1";
+    const port = parseInt(option("port") || process.env.BASANOS_HTTP_PORT || "3100", 10);
+    const allowedHosts = (process.env.BASANOS_HTTP_ALLOWED_HOSTS || "")
+      .split(",").map((h) => h.trim()).filter(Boolean);
+    const idleMinutes = parseFloat(process.env.BASANOS_HTTP_SESSION_IDLE_MINUTES || "30");
+    const maxSessions = parseInt(process.env.BASANOS_HTTP_MAX_SESSIONS || "100", 10);
+    const url = `http://${host}:${port}/mcp`;
+    const authenticator = createAuthenticatorFromEnv(resolve(__dirname, ".."));
+    httpServer = await startHttpServer({
+      host,
+      port,
+      allowedHosts: allowedHosts.length > 0 ? allowedHosts : undefined,
+      createServer: (principal) => buildServer(url, principal),
+      authenticator,
+      sessionIdleMs: Number.isFinite(idleMinutes) && idleMinutes >= 0 ? idleMinutes * 60_000 : undefined,
+      maxSessions: Number.isInteger(maxSessions) && maxSessions > 0 ? maxSessions : undefined,
+    });
+    console.error(`Basanos MCP server listening on ${url} (auth: ${authenticator.getMode()})`);
+  }
 
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Basanos MCP server running on stdio");
+  if (stdioMode) {
+    const transport = new StdioServerTransport();
+    await buildServer().connect(transport);
+    console.error("Basanos MCP server running on stdio");
+    // Upstream stdio children keep the event loop alive, so close them
+    // explicitly when the client goes away.
+    if (!httpMode) process.stdin.on("end", shutdown);
+  }
 }
 
+async function shutdown() {
+  retryScheduler.stop();
+  await httpServer?.close();
+  await Promise.allSettled(upstreamClients.map((client) => client.close()));
+  // Audit entries waiting on slow shadow constraints
+  await constraintEngine.flush().catch((err) => console.error(err.message));
+  process.exit(0);
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
 main().catch((error) => {
   console.error("Fatal error:", error);
   process.exit(1);
@@ -14,8 +14,21 @@ import type { DomainSchema, EntityTypeSchema, RelationshipSchema, PropertySchema
 import { Cardinality } from "./ontology/types.js";
 import type { ConstraintDefinition, ConstraintContext, ConstraintResult } from "./constraints/types.js";
 import { ConstraintSeverity, ConstraintStatus } from "./constraints/types.js";
+import { isOnErrorPolicy } from "./constraints/engine.js";
+import type { ActionMappingFile } from "./connectors/action-mapping.js";
+import { validateActionMapping } from "./connectors/action-mapping.js";
+import type { UpstreamConfig, UpstreamsFile } from "./connectors/upstream.js";
+import { validateUpstreams } from "./connectors/upstream.js";
+import type { PolicyFile } from "./server/policy.js";
+import { validatePolicies } from "./server/policy.js";
 import type { DeclarativeConstraint } from "./constraints/rule-evaluator.js";
-import { evaluateAllConditions } from "./constraints/rule-evaluator.js";
+import {
+  evaluateConditionTree,
+  renderTemplate,
+  toConditionRoot,
+  traceConditions,
+  validateConditionTree,
+} from "./constraints/rule-evaluator.js";
 
 // ── Cardinality mapping ───────────────────────────────────────
 
@@ -28,6 +41,7 @@ const CARDINALITY_MAP: Record<string, Cardinality> = {
 
 const SEVERITY_MAP: Record<string, ConstraintSeverity> = {
   block: ConstraintSeverity.BLOCK,
+  require_approval: ConstraintSeverity.REQUIRE_APPROVAL,
   warn: ConstraintSeverity.WARN,
   info: ConstraintSeverity.INFO,
 };
@@ -36,6 +50,7 @@ const STATUS_MAP: Record<string, ConstraintStatus> = {
   candidate: ConstraintStatus.CANDIDATE,
   promoted: ConstraintStatus.PROMOTED,
   disabled: ConstraintStatus.DISABLED,
+  shadow: ConstraintStatus.SHADOW,
 };
 
 // ── Ontology Loader ───────────────────────────────────────────
@@ -55,6 +70,7 @@ interface RawYamlEntityType {
   description: string;
   properties: PropertySchema[];
   relationships: RawYamlRelationship[];
+  extends?: string;
 }
 
 interface RawYamlDomain {
@@ -88,6 +104,7 @@ export function loadDomainFromYaml(filePath: string): DomainSchema {
         description: r.description.trim(),
       })
     ),
+    ...(et.extends ? { parentType: et.extends } : {}),
   }));
 
   return {
@@ -105,12 +122,46 @@ interface RawYamlConstraints {
   constraints: DeclarativeConstraint[];
 }
 
+/**
+ * What rule conditions and messages can reference: the context
+ * metadata plus the authenticated caller as `principal`. The principal
+ * always comes from the context: metadata keys under `principal`,
+ * including literal dotted keys like "principal.roles", are dropped so
+ * a tool argument cannot impersonate another caller.
+ */
+function ruleScope(context: ConstraintContext): Record<string, unknown> {
+  const scope: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(context.metadata)) {
+    if (!/^principal(?:$|[.[])/.test(key)) scope[key] = value;
+  }
+  scope.principal = context.principal;
+  return scope;
+}
+
 export function loadConstraintsFromYaml(
   filePath: string
 ): ConstraintDefinition[] {
   const raw = yamlLoad(readFileSync(filePath, "utf-8")) as RawYamlConstraints;
 
   return raw.constraints.map((dc): ConstraintDefinition => {
+    const conditionErrors = validateConditionTree(dc.conditions ?? []);
+    if (conditionErrors.length > 0) {
+      throw new Error(
+        `Invalid conditions in constraint "${dc.id}" (${filePath}): ${conditionErrors.join("; ")}`
+      );
+    }
+    if (dc.onError !== undefined && !isOnErrorPolicy(dc.onError)) {
+      throw new Error(
+        `Invalid onError "${dc.onError}" in constraint "${dc.id}" (${filePath}): expected block, warn or allow`
+      );
+    }
+    if (dc.timeoutMs !== undefined && !(typeof dc.timeoutMs === "number" && dc.timeoutMs >= 0)) {
+      throw new Error(
+        `Invalid timeoutMs in constraint "${dc.id}" (${filePath}): expected a non-negative number`
+      );
+    }
+    const root = toConditionRoot(dc.conditions);
+
     const severity = SEVERITY_MAP[dc.severity] || ConstraintSeverity.WARN;
 
     const status = STATUS_MAP[dc.status || "promoted"] || ConstraintStatus.PROMOTED;
@@ -124,20 +175,71 @@ export function loadConstraintsFromYaml(
       severity,
       status,
       description: dc.description.trim(),
+      ...(dc.onError ? { onError: dc.onError } : {}),
+      ...(dc.timeoutMs !== undefined ? { timeoutMs: dc.timeoutMs } : {}),
       evaluate: async (context: ConstraintContext): Promise<ConstraintResult> => {
-        const metadata = context.metadata as Record<string, unknown>;
-        const triggered = evaluateAllConditions(dc.conditions, metadata);
+        const metadata = ruleScope(context);
+        const conditionResult = evaluateConditionTree(root, metadata, {
+          now: context.timestamp,
+        });
+        const triggered = conditionResult.matched;
+        const message = triggered ? dc.violationMessage : dc.satisfiedMessage;
 
         return {
           constraintId: dc.id,
           satisfied: !triggered,
           severity,
-          explanation: triggered
-            ? dc.violationMessage.trim()
-            : dc.satisfiedMessage.trim(),
+          explanation: renderTemplate(message.trim(), metadata),
           involvedEntities: [context.targetEntity],
+          conditionResult,
+          conditionTrace: traceConditions(conditionResult),
         };
       },
     };
   });
 }
+
+// ── Action Mapping Loader ─────────────────────────────────────
+
+/**
+ * Load a domain's tool-to-action mapping. Structural problems (missing
+ * action, bad regex, unknown policy) fail fast with the file path.
+ */
+export function loadActionMappingFromYaml(filePath: string): ActionMappingFile {
+  const raw = yamlLoad(readFileSync(filePath, "utf-8"));
+  const errors = validateActionMapping(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid action mapping (${filePath}): ${errors.join("; ")}`);
+  }
+  return raw as ActionMappingFile;
+}
+
+// ── Upstreams Loader ──────────────────────────────────────────
+
+/**
+ * Load the upstream MCP servers to front from upstreams.yaml.
+ * Throws if the file is malformed.
+ */
+export function loadUpstreamsFromYaml(filePath: string): UpstreamConfig[] {
+  const raw = yamlLoad(readFileSync(filePath, "utf-8"));
+  const errors = validateUpstreams(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid upstreams file (${filePath}): ${errors.join("; ")}`);
+  }
+  return (raw as UpstreamsFile).upstreams;
+}
+
+// ── Tool Policies Loader ──────────────────────────────────────
+
+/**
+ * Load a domain's tool policies from policies.yaml.
+ * Throws if the file is malformed.
+ */
+export function loadPoliciesFromYaml(filePath: string): PolicyFile {
+  const raw = yamlLoad(readFileSync(filePath, "utf-8"));
+  const errors = validatePolicies(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid tool policies (${filePath}): ${errors.join("; ")}`);
+  }
+  return raw as PolicyFile;
+}
@@ -6,17 +6,101 @@
  * rather than querying flat tables.
  */
 
+import { compareValues, evaluateConditionTree, resolvePath, toConditionRoot } from "../constraints/rule-evaluator.js";
+import type { EntityPage, EntityQuery, RelatedEntityFilter } from "./query.js";
+import type { PathOptions, TraversalNode, TraversalOptions, TraversalStep } from "./traversal.js";
+import type { EntityIssueCode, EntityValidationIssue, EntityValidationMode, EntityValidationReport } from "./schema.js";
+import { EntityValidationError, createValidationReport, recordValidation } from "./schema.js";
+import type { EntityStore } from "./entity-store.js";
+import { Cardinality } from "./types.js";
 import type {
   DomainSchema,
   Entity,
   EntityId,
+  EntityScope,
   EntityTypeSchema,
+  PropertySchema,
+  PropertyValue,
   RelationshipSchema,
 } from "./types.js";
 
+/** Fields every entity exposes to query conditions */
+const ENTITY_FIELDS = new Set(["id", "type", "domain"]);
+
+/**
+ * Normalize a property value into an index key. Values that compare
+ * equal in conditions (1 and "1", true and "true") share a key; dates,
+ * arrays and objects are not indexed.
+ */
+function indexKey(value: unknown): string | undefined {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return `b:${value}`;
+  if (typeof value === "number") return Number.isFinite(value) ? `n:${value}` : undefined;
+  if (typeof value !== "string") return undefined;
+  if (value === "true" || value === "false") return `b:${value}`;
+  const n = value.trim() === "" ? NaN : Number(value);
+  return Number.isFinite(n) ? `n:${n}` : `s:${value}`;
+}
+
+function indexKeys(value: PropertyValue): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(indexKey).filter((k): k is string => k !== undefined);
+}
+
+/**
+ * Check a present property value against its schema. Numbers, booleans
+ * and dates may arrive as strings (as entity sync stores them).
+ */
+function propertyProblem(
+  prop: PropertySchema,
+  value: PropertyValue
+): { code: EntityIssueCode; message: string } | undefined {
+  const wrong = (expected: string) => ({
+    code: "wrong_type" as const,
+    message: `Property "${prop.name}" should be ${expected}, got ${JSON.stringify(value)}`,
+  });
+  if (Array.isArray(value)) return wrong(`a single ${prop.type} value`);
+  switch (prop.type) {
+    case "string":
+    case "reference":
+      return typeof value === "string" ? undefined : wrong("a string");
+    case "number":
+      return typeof value === "number" || (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)))
+        ? undefined
+        : wrong("a number");
+    case "boolean":
+      return typeof value === "boolean" || value === "true" || value === "false" ? undefined : wrong("a boolean");
+    case "date":
+      return value instanceof Date || (typeof value === "string" && !Number.isNaN(Date.parse(value)))
+        ? undefined
+        : wrong("a date");
+    case "enum":
+      return prop.enumValues?.includes(String(value))
+        ? undefined
+        : {
+          code: "invalid_enum",
+          message: `Property "${prop.name}" value ${JSON.stringify(value)} is not one of: ${(prop.enumValues ?? []).join(", ")}`,
+        };
+  }
+}
+
+function intersect(a: Set<EntityId> | undefined, b: Set<EntityId>): Set<EntityId> {
+  if (!a) return b;
+  return new Set([...a].filter((id) => b.has(id)));
+}
+
 export class OntologyEngine {
   private domains: Map<string, DomainSchema> = new Map();
   private entities: Map<EntityId, Entity> = new Map();
+  /** domain:type -> entity IDs */
+  private typeIndex: Map<string, Set<EntityId>> = new Map();
+  /** property -> index key -> entity IDs */
+  private propertyIndex: Map<string, Map<string, Set<EntityId>>> = new Map();
+  /** target -> relationship -> source entity IDs */
+  private reverseIndex: Map<EntityId, Map<string, Set<EntityId>>> = new Map();
+  private store: EntityStore | undefined;
+  /** Store revision the in-memory entities were last loaded from or saved as */
+  private storeRevision: string | undefined;
 
   /**
    * Register a domain schema with the engine.
@@ -51,6 +135,57 @@ export class OntologyEngine {
     return domainSchema.entityTypes.find((et) => et.name === typeName);
   }
 
+  /**
+   * Get the lineage of an entity type: the type itself followed by its
+   * ancestors. Ancestors come from `parentType` declarations and from the
+   * ServiceNow convention that every cmdb_ci_* class extends cmdb_ci.
+   */
+  getTypeLineage(domain: string, typeName: string): string[] {
+    const lineage: string[] = [];
+    let current: string | undefined = typeName;
+    while (current && !lineage.includes(current)) {
+      lineage.push(current);
+      current = this.getEntityType(domain, current)?.parentType;
+    }
+    if (lineage.some((t) => t.startsWith("cmdb_ci_")) && !lineage.includes("cmdb_ci")) {
+      lineage.push("cmdb_ci");
+    }
+    return lineage;
+  }
+
+  /**
+   * Check whether an entity type is, or specializes, another type.
+   */
+  isSubtypeOf(domain: string, typeName: string, ancestor: string): boolean {
+    return this.getTypeLineage(domain, typeName).includes(ancestor);
+  }
+
+  /**
+   * Resolve the domain and type lineage of an entity. Stored entities
+   * are used when available; a CI's `ci_class` property is treated as its
+   * most specific subtype. Otherwise the scope is parsed from the
+   * domain:type:id format. Returns undefined when the domain or type is
+   * not registered.
+   */
+  resolveEntityScope(id: EntityId): EntityScope | undefined {
+    const entity = this.entities.get(id);
+    if (entity) {
+      const types = this.getTypeLineage(entity.domain, entity.type);
+      const ciClass = entity.properties["ci_class"];
+      if (typeof ciClass === "string" && ciClass !== "") {
+        const classLineage = this.getTypeLineage(entity.domain, ciClass);
+        types.unshift(...classLineage.filter((t) => !types.includes(t)));
+      }
+      return { domain: entity.domain, types };
+    }
+
+    const parts = id.split(":");
+    if (parts.length < 3) return undefined;
+    const [domain, type] = parts;
+    if (!type || type === "unknown" || !this.getEntityType(domain, type)) return undefined;
+    return { domain, types: this.getTypeLineage(domain, type) };
+  }
+
   /**
    * Get all relationships for an entity type, including inverse
    * relationships from other entity types that target it.
@@ -87,10 +222,82 @@ export class OntologyEngine {
   }
 
   /**
-   * Store an entity instance in the engine.
+   * Store an entity instance in the engine. With validation the entity
+   * is first checked against its schema: strict mode throws an
+   * EntityValidationError instead of storing it, lenient mode stores it
+   * anyway. Returns the issues found.
    */
-  addEntity(entity: Entity): void {
+  addEntity(entity: Entity, options: { validation?: EntityValidationMode } = {}): EntityValidationIssue[] {
+    const mode = options.validation ?? "off";
+    const issues = mode === "off" ? [] : this.validateEntity(entity);
+    if (mode === "strict" && issues.length > 0) throw new EntityValidationError(entity.id, issues);
+
+    const existing = this.entities.get(entity.id);
+    if (existing) this.unindexEntity(existing);
     this.entities.set(entity.id, entity);
+    this.indexEntity(entity);
+    return issues;
+  }
+
+  /**
+   * Check an entity against its type schema and the types it extends:
+   * required properties, property types, enum values, relationship
+   * names, relationship target types and cardinality.
+   */
+  validateEntity(entity: Entity): EntityValidationIssue[] {
+    const issues: EntityValidationIssue[] = [];
+    const report = (code: EntityIssueCode, message: string, field?: string) =>
+      issues.push({ entityId: entity.id, code, ...(field ? { field } : {}), message });
+
+    if (!this.getEntityType(entity.domain, entity.type)) {
+      report("unknown_type", `Unknown entity type "${entity.type}" in domain "${entity.domain}"`);
+      return issues;
+    }
+
+    // The most specific definition of a property or relationship wins
+    const lineage = this.getTypeLineage(entity.domain, entity.type)
+      .map((type) => this.getEntityType(entity.domain, type))
+      .filter((type): type is EntityTypeSchema => type !== undefined);
+    const properties = new Map<string, PropertySchema>();
+    const relationships = new Map<string, RelationshipSchema>();
+    for (const type of lineage) {
+      for (const prop of type.properties) if (!properties.has(prop.name)) properties.set(prop.name, prop);
+      for (const rel of type.relationships) if (!relationships.has(rel.name)) relationships.set(rel.name, rel);
+    }
+
+    for (const prop of properties.values()) {
+      const value = entity.properties[prop.name];
+      if (value === undefined || value === null || value === "") {
+        if (prop.required) report("missing_required", `Missing required property "${prop.name}"`, prop.name);
+        continue;
+      }
+      const problem = propertyProblem(prop, value);
+      if (problem) report(problem.code, problem.message, prop.name);
+    }
+
+    for (const [name, targets] of Object.entries(entity.relationships)) {
+      const rel = relationships.get(name);
+      if (!rel) {
+        report("unknown_relationship", `Relationship "${name}" is not defined for "${entity.type}"`, name);
+        continue;
+      }
+      const singleTarget = rel.cardinality === Cardinality.ONE_TO_ONE || rel.cardinality === Cardinality.MANY_TO_ONE;
+      const singleSource = rel.cardinality === Cardinality.ONE_TO_ONE || rel.cardinality === Cardinality.ONE_TO_MANY;
+      if (singleTarget && targets.length > 1) {
+        report("cardinality", `Relationship "${name}" is ${rel.cardinality} but has ${targets.length} targets`, name);
+      }
+      for (const target of targets) {
+        if (this.resolveEntityScope(target)?.types.includes(rel.targetType) !== true) {
+          report("invalid_target", `Relationship "${name}" target ${target} is not a "${rel.targetType}"`, name);
+        }
+        const others = [...(this.reverseIndex.get(target)?.get(name) ?? [])].filter((id) => id !== entity.id);
+        if (singleSource && others.length > 0) {
+          report("cardinality", `Relationship "${name}" is ${rel.cardinality} but ${target} is already linked from ${others[0]}`, name);
+        }
+      }
+    }
+
+    return issues;
   }
 
   /**
@@ -108,7 +315,112 @@ export class OntologyEngine {
   }
 
   /**
-   * Traverse relationships from a given entity, returning
+   * Replace every stored entity, e.g. when restoring a snapshot. The
+   * attached store is not written.
+   *
+   * With validation each entity is checked once the whole set is in
+   * place, so relationships to entities later in the list resolve:
+   * strict mode leaves out entities with issues, lenient mode keeps
+   * them. Returns the validation report.
+   */
+  replaceEntities(entities: Entity[], options: { validation?: EntityValidationMode } = {}): EntityValidationReport {
+    const report = createValidationReport(options.validation ?? "off");
+    this.entities.clear();
+    this.typeIndex.clear();
+    this.propertyIndex.clear();
+    this.reverseIndex.clear();
+    for (const entity of entities) this.addEntity(entity);
+    if (report.mode === "off") return report;
+
+    const rejected: Entity[] = [];
+    for (const entity of this.entities.values()) {
+      const issues = this.validateEntity(entity);
+      const reject = report.mode === "strict" && issues.length > 0;
+      recordValidation(report, issues, reject);
+      if (reject) rejected.push(entity);
+    }
+    for (const entity of rejected) {
+      this.unindexEntity(entity);
+      this.entities.delete(entity.id);
+    }
+    return report;
+  }
+
+  /**
+   * Back the engine with a persistent store and load the entities it
+   * holds, replacing any in memory. Returns the number loaded.
+   */
+  attachStore(store: EntityStore): number {
+    this.store = store;
+    this.storeRevision = store.revision();
+    this.replaceEntities(store.load());
+    return this.entities.size;
+  }
+
+  getStore(): EntityStore | undefined {
+    return this.store;
+  }
+
+  /**
+   * Write every entity to the attached store, e.g. after a sync.
+   * Does nothing without a store.
+   */
+  persist(): void {
+    if (!this.store) return;
+    this.store.save(this.getAllEntities());
+    this.storeRevision = this.store.revision();
+  }
+
+  /**
+   * Reload from the attached store if it changed since the last load
+   * or persist, e.g. because another process synced. Returns true when
+   * entities were reloaded. Throws when the store cannot be read; the
+   * entities already loaded are kept, and the same unreadable revision
+   * is not retried.
+   */
+  refresh(): boolean {
+    if (!this.store) return false;
+    const revision = this.store.revision();
+    if (revision === this.storeRevision) return false;
+    this.storeRevision = revision;
+    this.replaceEntities(this.store.load());
+    return true;
+  }
+
+  /**
+   * Find stored entities by domain, type, property conditions and
+   * conditions on related entities, sorted and paged. Conditions use
+   * the rule-evaluator operators; check a query with
+   * `validateEntityQuery` first.
+   */
+  queryEntities(query: EntityQuery): EntityPage {
+    const now = new Date();
+    const root = toConditionRoot(query.where);
+    const matches = [...this.candidatesFor(query)]
+      .map((id) => this.entities.get(id)!)
+      .filter((entity) =>
+        (!query.domain || entity.domain === query.domain) &&
+        (!query.type || this.resolveEntityScope(entity.id)?.types.includes(query.type) === true) &&
+        evaluateConditionTree(root, this.conditionScope(entity), { now }).matched &&
+        (query.related ?? []).every((filter) => this.matchesRelated(entity, filter, now))
+      );
+
+    const sort = query.sort ?? [];
+    matches.sort((a, b) => {
+      for (const key of sort) {
+        const cmp = this.compareField(a, b, key.field, key.order === "desc", now);
+        if (cmp !== 0) return cmp;
+      }
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    });
+
+    const offset = query.offset ?? 0;
+    const end = query.limit === undefined ? undefined : offset + query.limit;
+    return { total: matches.length, offset, entities: matches.slice(offset, end) };
+  }
+
+  /**
+   * Traverse outgoing relationships from a given entity, returning
    * connected entities up to a specified depth.
    */
   traverse(
@@ -116,31 +428,83 @@ export class OntologyEngine {
     maxDepth: number = 2
   ): Map<EntityId, { entity: Entity; depth: number }> {
     const visited = new Map<EntityId, { entity: Entity; depth: number }>();
-    const queue: Array<{ id: EntityId; depth: number }> = [
-      { id: startId, depth: 0 },
-    ];
+    const start = this.entities.get(startId);
+    if (!start) return visited;
+
+    visited.set(startId, { entity: start, depth: 0 });
+    for (const node of this.traversePaths(startId, { maxDepth })) {
+      visited.set(node.entity.id, { entity: node.entity, depth: node.depth });
+    }
+    return visited;
+  }
 
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      if (visited.has(current.id) || current.depth > maxDepth) continue;
+  /**
+   * Walk the graph breadth-first from an entity, following the chosen
+   * relationships in the chosen direction, and return every entity
+   * reached (the start excluded) with its shortest path. `types` and
+   * `where` filter the results; the walk still passes through entities
+   * they leave out.
+   */
+  traversePaths(startId: EntityId, options: TraversalOptions = {}): TraversalNode[] {
+    const start = this.entities.get(startId);
+    if (!start) return [];
+    const maxDepth = options.maxDepth ?? 2;
+    const root = toConditionRoot(options.where);
+    const now = new Date();
 
-      const entity = this.entities.get(current.id);
-      if (!entity) continue;
+    const seen = new Set<EntityId>([startId]);
+    const queue: TraversalNode[] = [{ entity: start, depth: 0, path: [] }];
+    const results: TraversalNode[] = [];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      if (current.depth >= maxDepth) continue;
+      for (const step of this.edgesFrom(current.entity.id, options)) {
+        const next = this.entities.get(step.to);
+        if (!next || seen.has(step.to)) continue;
+        seen.add(step.to);
+        const node = { entity: next, depth: current.depth + 1, path: [...current.path, step] };
+        queue.push(node);
+        const typeMatches = !options.types?.length ||
+          options.types.some((t) => this.resolveEntityScope(next.id)?.types.includes(t));
+        if (typeMatches && evaluateConditionTree(root, this.conditionScope(next), { now }).matched) {
+          results.push(node);
+        }
+      }
+    }
+    return results;
+  }
 
-      visited.set(current.id, { entity, depth: current.depth });
+  /**
+   * Find a shortest path between two entities, following relationships
+   * both ways unless told otherwise. Returns the hops in order (empty
+   * when both IDs are the same), or undefined when no path exists
+   * within `maxDepth` hops.
+   */
+  findPath(fromId: EntityId, toId: EntityId, options: PathOptions = {}): TraversalStep[] | undefined {
+    if (!this.entities.has(fromId)) return undefined;
+    if (fromId === toId) return [];
+    const maxDepth = options.maxDepth ?? 6;
+    const direction = options.direction ?? "both";
 
-      if (current.depth < maxDepth) {
-        for (const relatedIds of Object.values(entity.relationships)) {
-          for (const relatedId of relatedIds) {
-            if (!visited.has(relatedId)) {
-              queue.push({ id: relatedId, depth: current.depth + 1 });
-            }
+    const reachedBy = new Map<EntityId, TraversalStep | null>([[fromId, null]]);
+    let frontier: EntityId[] = [fromId];
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const next: EntityId[] = [];
+      for (const id of frontier) {
+        for (const step of this.edgesFrom(id, { ...options, direction })) {
+          if (reachedBy.has(step.to)) continue;
+          reachedBy.set(step.to, step);
+          if (step.to === toId) {
+            const path: TraversalStep[] = [];
+            for (let hop = reachedBy.get(toId); hop; hop = reachedBy.get(hop.from)) path.unshift(hop);
+            return path;
           }
+          if (this.entities.has(step.to)) next.push(step.to);
         }
       }
+      frontier = next;
     }
-
-    return visited;
+    return undefined;
   }
 
   /**
@@ -179,4 +543,160 @@ export class OntologyEngine {
 
     return lines.join("\n");
   }
+
+  // ── Query internals ───────────────────────────────────────────
+
+  private indexEntity(entity: Entity): void {
+    const typeKey = `${entity.domain}:${entity.type}`;
+    if (!this.typeIndex.has(typeKey)) this.typeIndex.set(typeKey, new Set());
+    this.typeIndex.get(typeKey)!.add(entity.id);
+
+    for (const [name, value] of Object.entries(entity.properties)) {
+      let byValue = this.propertyIndex.get(name);
+      if (!byValue) {
+        byValue = new Map();
+        this.propertyIndex.set(name, byValue);
+      }
+      for (const key of indexKeys(value)) {
+        if (!byValue.has(key)) byValue.set(key, new Set());
+        byValue.get(key)!.add(entity.id);
+      }
+    }
+
+    for (const [relationship, targets] of Object.entries(entity.relationships)) {
+      for (const target of targets) {
+        let byRelationship = this.reverseIndex.get(target);
+        if (!byRelationship) {
+          byRelationship = new Map();
+          this.reverseIndex.set(target, byRelationship);
+        }
+        if (!byRelationship.has(relationship)) byRelationship.set(relationship, new Set());
+        byRelationship.get(relationship)!.add(entity.id);
+      }
+    }
+  }
+
+  private unindexEntity(entity: Entity): void {
+    this.typeIndex.get(`${entity.domain}:${entity.type}`)?.delete(entity.id);
+    for (const [name, value] of Object.entries(entity.properties)) {
+      const byValue = this.propertyIndex.get(name);
+      for (const key of indexKeys(value)) byValue?.get(key)?.delete(entity.id);
+    }
+    for (const [relationship, targets] of Object.entries(entity.relationships)) {
+      for (const target of targets) this.reverseIndex.get(target)?.get(relationship)?.delete(entity.id);
+    }
+  }
+
+  /**
+   * Narrow a query to a superset of its matches using the indexes:
+   * the type (with subtypes and CI classes), then any top-level `eq` or
+   * `in` conditions on plain properties.
+   */
+  private candidatesFor(query: EntityQuery): Set<EntityId> {
+    let candidates: Set<EntityId> | undefined;
+
+    if (query.type) {
+      const typed = new Set<EntityId>();
+      for (const [typeKey, ids] of this.typeIndex) {
+        const [domain, type] = typeKey.split(":");
+        if (query.domain && domain !== query.domain) continue;
+        if (this.isSubtypeOf(domain, type, query.type)) ids.forEach((id) => typed.add(id));
+      }
+      for (const [key, ids] of this.propertyIndex.get("ci_class") ?? []) {
+        if (!key.startsWith("s:")) continue;
+        for (const id of ids) {
+          const entity = this.entities.get(id)!;
+          if (this.isSubtypeOf(entity.domain, key.slice(2), query.type)) typed.add(id);
+        }
+      }
+      candidates = typed;
+    }
+
+    const root = toConditionRoot(query.where);
+    for (const node of "all" in root ? root.all : []) {
+      if (!("field" in node) || ENTITY_FIELDS.has(node.field) || !/^[\w-]+$/.test(node.field)) continue;
+      const expected = node.operator === "eq" ? [node.value] : node.operator === "in" ? node.value : undefined;
+      if (!Array.isArray(expected)) continue;
+      const keys = expected.map(indexKey);
+      if (keys.some((k) => k === undefined)) continue;
+      const byValue = this.propertyIndex.get(node.field);
+      const ids = new Set<EntityId>();
+      for (const key of keys) byValue?.get(key!)?.forEach((id) => ids.add(id));
+      candidates = intersect(candidates, ids);
+    }
+
+    return candidates ?? new Set(this.entities.keys());
+  }
+
+  private conditionScope(entity: Entity): Record<string, unknown> {
+    return { ...entity.properties, id: entity.id, type: entity.type, domain: entity.domain };
+  }
+
+  private matchesRelated(entity: Entity, filter: RelatedEntityFilter, now: Date): boolean {
+    const root = toConditionRoot(filter.where);
+    return (entity.relationships[filter.relationship] ?? []).some((id) => {
+      const related = this.entities.get(id);
+      return related !== undefined &&
+        evaluateConditionTree(root, this.conditionScope(related), { now }).matched &&
+        (filter.related ?? []).every((next) => this.matchesRelated(related, next, now));
+    });
+  }
+
+  /**
+   * Compare two entities on a field. Missing values sort last in either
+   * order; values that are not numbers or dates compare as strings.
+   */
+  private compareField(a: Entity, b: Entity, field: string, descending: boolean, now: Date): number {
+    const va = resolvePath(this.conditionScope(a), field);
+    const vb = resolvePath(this.conditionScope(b), field);
+    const missingA = va === undefined || va === null;
+    const missingB = vb === undefined || vb === null;
+    if (missingA || missingB) return missingA === missingB ? 0 : missingA ? 1 : -1;
+    const cmp = compareValues(va, vb, now) ?? String(va).localeCompare(String(vb));
+    return descending ? -cmp : cmp;
+  }
+
+  // ── Traversal internals ───────────────────────────────────────
+
+  /**
+   * The schema's inverse name for a relationship held by an entity,
+   * looked up along the entity's type lineage.
+   */
+  private inverseNameOf(sourceId: EntityId, relationship: string): string | undefined {
+    const scope = this.resolveEntityScope(sourceId);
+    if (!scope) return undefined;
+    for (const type of scope.types) {
+      const rel = this.getEntityType(scope.domain, type)?.relationships.find((r) => r.name === relationship);
+      if (rel?.inverseName) return rel.inverseName;
+    }
+    return undefined;
+  }
+
+  /**
+   * The hops available from an entity for the given direction and
+   * relationship names.
+   */
+  private edgesFrom(id: EntityId, options: PathOptions): TraversalStep[] {
+    const direction = options.direction ?? "outgoing";
+    const follows = (...names: Array<string | undefined>) =>
+      !options.relationships?.length || names.some((n) => n !== undefined && options.relationships!.includes(n));
+    const steps: TraversalStep[] = [];
+
+    if (direction !== "incoming") {
+      for (const [relationship, targets] of Object.entries(this.entities.get(id)?.relationships ?? {})) {
+        if (!follows(relationship)) continue;
+        for (const to of targets) steps.push({ from: id, to, relationship, direction: "outgoing" });
+      }
+    }
+    if (direction !== "outgoing") {
+      for (const [relationship, sources] of this.reverseIndex.get(id) ?? []) {
+        for (const to of sources) {
+          const inverseName = this.inverseNameOf(to, relationship);
+          if (!follows(relationship, inverseName)) continue;
+          steps.push({ from: id, to, relationship, direction: "incoming", ...(inverseName ? { inverseName } : {}) });
+        }
+      }
+    }
+    return steps;
+  }
 }
@@ -0,0 +1,322 @@
+/**
+ * Entity Store — persistence for the ontology's entity graph.
+ *
+ * The OntologyEngine keeps entities in memory for its indexes; a store
+ * lets synced entities outlive the process. Two backends:
+ *
+ *   - InMemoryEntityStore: nothing survives a restart
+ *   - FileEntityStore: the graph as one JSON file, rewritten atomically
+ *     (temp file + rename) on every save, with snapshots alongside
+ *
+ * The file store's revision changes whenever the file is rewritten, by
+ * this process or another, so the MCP server can pick up a graph the
+ * dashboard or CLI synced.
+ *
+ * Named snapshots are point-in-time copies of the graph. A snapshot is
+ * plain JSON: the file written by `FileEntityStore.saveSnapshot` can be
+ * imported into any other store.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { dirname, resolve } from "path";
+import type { Entity } from "./types.js";
+
+/**
+ * A named, point-in-time copy of the entity graph.
+ */
+export interface EntitySnapshot {
+  name: string;
+  /** ISO timestamp the snapshot was taken */
+  createdAt: string;
+  /** Domains the entities belong to */
+  domains: string[];
+  entities: Entity[];
+}
+
+/**
+ * A snapshot without its entities, for listings.
+ */
+export interface SnapshotInfo {
+  name: string;
+  createdAt: string;
+  domains: string[];
+  entityCount: number;
+}
+
+/**
+ * Storage backend for the ontology's entities and their snapshots.
+ */
+export interface EntityStore {
+  /** All persisted entities */
+  load(): Entity[];
+  /** Replace the persisted entities */
+  save(entities: Entity[]): void;
+  /** Changes whenever the persisted entities change, including from other processes */
+  revision(): string;
+  /** Store a snapshot, replacing one with the same name */
+  saveSnapshot(snapshot: EntitySnapshot): void;
+  getSnapshot(name: string): EntitySnapshot | undefined;
+  /** Stored snapshots, newest first */
+  listSnapshots(): SnapshotInfo[];
+  /** Returns false when there was no such snapshot */
+  deleteSnapshot(name: string): boolean;
+}
+
+// ── Snapshots ─────────────────────────────────────────────────
+
+const SNAPSHOT_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+/**
+ * Snapshot names double as file names: letters, digits, '.', '_' and
+ * '-', starting with a letter or digit, at most 64 characters.
+ */
+export function isValidSnapshotName(name: string): boolean {
+  return SNAPSHOT_NAME.test(name);
+}
+
+/**
+ * Take a snapshot of a set of entities.
+ */
+export function createSnapshot(name: string, entities: Entity[]): EntitySnapshot {
+  return { name, createdAt: new Date().toISOString(), domains: domainsOf(entities), entities };
+}
+
+function domainsOf(entities: Entity[]): string[] {
+  return [...new Set(entities.map((e) => e.domain))].sort();
+}
+
+export function snapshotInfo(snapshot: EntitySnapshot): SnapshotInfo {
+  return {
+    name: snapshot.name,
+    createdAt: snapshot.createdAt,
+    domains: snapshot.domains,
+    entityCount: snapshot.entities.length,
+  };
+}
+
+/**
+ * Check that a parsed JSON value is a snapshot that can be imported.
+ * Returns a list of problems (empty when valid).
+ */
+export function validateSnapshot(value: unknown): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["Snapshot must be a JSON object"];
+  }
+  const snapshot = value as Partial<EntitySnapshot>;
+  const errors: string[] = [];
+  if (typeof snapshot.name !== "string" || !isValidSnapshotName(snapshot.name)) {
+    errors.push(`Invalid snapshot name: ${JSON.stringify(snapshot.name)}`);
+  }
+  if (typeof snapshot.createdAt !== "string" || Number.isNaN(new Date(snapshot.createdAt).getTime())) {
+    errors.push("Snapshot createdAt must be an ISO timestamp");
+  }
+  if (!Array.isArray(snapshot.entities)) {
+    errors.push("Snapshot entities must be a list");
+    return errors;
+  }
+  snapshot.entities.forEach((entity: Partial<Entity>, i) => {
+    const label = typeof entity?.id === "string" ? entity.id : `#${i}`;
+    if (typeof entity !== "object" || entity === null) {
+      errors.push(`Entity ${label} must be an object`);
+      return;
+    }
+    for (const field of ["id", "type", "domain"] as const) {
+      if (typeof entity[field] !== "string" || entity[field] === "") errors.push(`Entity ${label} is missing "${field}"`);
+    }
+    if (typeof entity.properties !== "object" || entity.properties === null || Array.isArray(entity.properties)) {
+      errors.push(`Entity ${label} properties must be an object`);
+    }
+    const relationships = entity.relationships;
+    if (typeof relationships !== "object" || relationships === null || Array.isArray(relationships)) {
+      errors.push(`Entity ${label} relationships must be an object`);
+    } else if (!Object.values(relationships).every((t) => Array.isArray(t) && t.every((id) => typeof id === "string"))) {
+      errors.push(`Entity ${label} relationship targets must be lists of entity IDs`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Fill in `domains` for snapshots written by hand or by other tools.
+ */
+function normalizeSnapshot(snapshot: EntitySnapshot): EntitySnapshot {
+  return Array.isArray(snapshot.domains) ? snapshot : { ...snapshot, domains: domainsOf(snapshot.entities) };
+}
+
+function newestFirst(a: SnapshotInfo, b: SnapshotInfo): number {
+  return b.createdAt.localeCompare(a.createdAt) || a.name.localeCompare(b.name);
+}
+
+// ── In-Memory Store ───────────────────────────────────────────
+
+/**
+ * Entity store held in process memory. Resets on restart.
+ */
+export class InMemoryEntityStore implements EntityStore {
+  private entities: Entity[] = [];
+  private snapshots: Map<string, EntitySnapshot> = new Map();
+  private saves: number = 0;
+
+  load(): Entity[] {
+    return [...this.entities];
+  }
+
+  save(entities: Entity[]): void {
+    this.entities = [...entities];
+    this.saves++;
+  }
+
+  revision(): string {
+    return String(this.saves);
+  }
+
+  saveSnapshot(snapshot: EntitySnapshot): void {
+    if (!isValidSnapshotName(snapshot.name)) throw new Error(`Invalid snapshot name: ${snapshot.name}`);
+    this.snapshots.set(snapshot.name, normalizeSnapshot(snapshot));
+  }
+
+  getSnapshot(name: string): EntitySnapshot | undefined {
+    return this.snapshots.get(name);
+  }
+
+  listSnapshots(): SnapshotInfo[] {
+    return [...this.snapshots.values()].map(snapshotInfo).sort(newestFirst);
+  }
+
+  deleteSnapshot(name: string): boolean {
+    return this.snapshots.delete(name);
+  }
+}
+
+// ── File Store ────────────────────────────────────────────────
+
+export interface FileEntityStoreOptions {
+  /** Path of the entity file, e.g. .basanos/entities/entities.json */
+  path: string;
+  /** Directory holding one <name>.json file per snapshot (default: snapshots/ next to the entity file) */
+  snapshotDir?: string;
+}
+
+/**
+ * Entity store backed by a JSON file of the form
+ * `{ "savedAt": "...", "entities": [...] }`.
+ *
+ * Writes go to a temporary file that is then renamed over the old one,
+ * so a reader in another process sees either the old graph or the new
+ * one, never half of it.
+ */
+export class FileEntityStore implements EntityStore {
+  private readonly path: string;
+  private readonly snapshotDir: string;
+
+  constructor(options: FileEntityStoreOptions) {
+    this.path = resolve(options.path);
+    this.snapshotDir = resolve(options.snapshotDir ?? resolve(dirname(this.path), "snapshots"));
+    mkdirSync(dirname(this.path), { recursive: true });
+  }
+
+  /**
+   * Throws when the file is not an entity store, e.g. after a bad hand
+   * edit; a missing file loads as empty.
+   */
+  load(): Entity[] {
+    if (!existsSync(this.path)) return [];
+    const raw = readJson(this.path) as { entities?: Entity[] } | null;
+    if (!Array.isArray(raw?.entities)) throw new Error(`Entity store ${this.path} has no "entities" list`);
+    return raw.entities;
+  }
+
+  save(entities: Entity[]): void {
+    writeAtomically(this.path, { savedAt: new Date().toISOString(), entities });
+  }
+
+  revision(): string {
+    if (!existsSync(this.path)) return "none";
+    const stat = statSync(this.path);
+    return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+  }
+
+  saveSnapshot(snapshot: EntitySnapshot): void {
+    writeAtomically(this.snapshotPath(snapshot.name), normalizeSnapshot(snapshot));
+  }
+
+  /**
+   * Throws when the snapshot file is not valid JSON. Check the result
+   * with `validateSnapshot` before using its entities.
+   */
+  getSnapshot(name: string): EntitySnapshot | undefined {
+    if (!isValidSnapshotName(name)) return undefined;
+    const path = this.snapshotPath(name);
+    if (!existsSync(path)) return undefined;
+    return readJson(path) as EntitySnapshot;
+  }
+
+  listSnapshots(): SnapshotInfo[] {
+    if (!existsSync(this.snapshotDir)) return [];
+    const infos: SnapshotInfo[] = [];
+    for (const file of readdirSync(this.snapshotDir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const snapshot = normalizeSnapshot(JSON.parse(readFileSync(resolve(this.snapshotDir, file), "utf-8")));
+        infos.push(snapshotInfo(snapshot));
+      } catch {
+        // Not a snapshot, or partially written; skip it.
+      }
+    }
+    return infos.sort(newestFirst);
+  }
+
+  deleteSnapshot(name: string): boolean {
+    if (!isValidSnapshotName(name)) return false;
+    const path = this.snapshotPath(name);
+    if (!existsSync(path)) return false;
+    unlinkSync(path);
+    return true;
+  }
+
+  private snapshotPath(name: string): string {
+    if (!isValidSnapshotName(name)) throw new Error(`Invalid snapshot name: ${name}`);
+    return resolve(this.snapshotDir, `${name}.json`);
+  }
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Cannot read ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function writeAtomically(path: string, value: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const temp = `${path}.${process.pid}.tmp`;
+  writeFileSync(temp, JSON.stringify(value), "utf-8");
+  renameSync(temp, path);
+}
+
+// ── Configuration ─────────────────────────────────────────────
+
+/**
+ * Create the entity store described by BASANOS_ENTITY_* environment
+ * variables. Defaults to a JSON file under .basanos/entities/ in the
+ * project root; BASANOS_ENTITY_STORE=memory keeps entities in memory only.
+ */
+export function createEntityStoreFromEnv(projectRoot: string): EntityStore {
+  if (process.env.BASANOS_ENTITY_STORE === "memory") {
+    return new InMemoryEntityStore();
+  }
+  return new FileEntityStore({
+    path: resolve(projectRoot, process.env.BASANOS_ENTITY_STORE_PATH || ".basanos/entities/entities.json"),
+    snapshotDir: process.env.BASANOS_SNAPSHOT_DIR ? resolve(projectRoot, process.env.BASANOS_SNAPSHOT_DIR) : undefined,
+  });
+}
@@ -0,0 +1,276 @@
+/**
+ * Impact Analysis — the blast radius of a CI or business service.
+ *
+ * Walks the ITSM graph upstream from the entity: CIs that depend on it
+ * (`depends_on`, transitively), the business services that depend on
+ * any of those, and the SLAs governing them (`governed_by_sla`). Open
+ * incidents and active changes on the affected CIs and services
+ * (`affects_ci`, `affects_service`) are collected along the way.
+ *
+ * The result is scored so rules and agents can compare blast radii:
+ *
+ *   score = Σ criticality weight of each affected service
+ *         + SLA penalty weight × services with a penalty-bearing SLA
+ *         + incident weight × open incidents (doubled for P1)
+ *         + change weight × active changes
+ *         + CI weight × dependent CIs
+ *
+ * capped at 100. Values synced from ServiceNow display values
+ * ("1 - most critical", "1 - Critical", "Closed") are understood as
+ * well as the ontology's enum values.
+ */
+
+import type { EnrichmentSource } from "../connectors/enrichment.js";
+import type { OntologyEngine } from "./engine.js";
+import type { TraversalStep } from "./traversal.js";
+import type { Entity, EntityId, PropertyValue } from "./types.js";
+
+/** Business service criticality, most critical first */
+export const CRITICALITY_LEVELS = ["critical", "high", "medium", "low"] as const;
+
+export type Criticality = (typeof CRITICALITY_LEVELS)[number];
+
+/**
+ * Weights used by the impact score.
+ */
+export const IMPACT_WEIGHTS = {
+  criticality: { critical: 25, high: 15, medium: 8, low: 3, unknown: 5 },
+  slaPenalty: 15,
+  openIncident: 5,
+  activeChange: 5,
+  dependentCi: 2,
+  maxScore: 100,
+};
+
+const CLOSED_INCIDENT_STATES = ["resolved", "closed", "cancelled", "canceled", "6", "7", "8"];
+const INACTIVE_CHANGE_STATES = ["closed", "cancelled", "canceled", "3", "4"];
+
+export interface ImpactedSla {
+  id: EntityId;
+  name?: string;
+  hasPenalty: boolean;
+}
+
+export interface ImpactedService {
+  id: EntityId;
+  name?: string;
+  criticality?: Criticality;
+  operationalStatus?: string;
+  /** SLAs governing the service */
+  slas: ImpactedSla[];
+  /** How the service depends on the analyzed entity (empty for the entity itself) */
+  path: TraversalStep[];
+}
+
+export interface ImpactedRecord {
+  id: EntityId;
+  number?: string;
+  state?: string;
+  /** Incidents only */
+  priority?: string;
+  /** Changes only */
+  risk?: string;
+  /** The CI or service it is recorded against */
+  on: EntityId;
+}
+
+export interface ImpactAnalysis {
+  entityId: EntityId;
+  /** ISO timestamp of the analysis */
+  analyzedAt: string;
+  /** CIs that depend on the entity, directly or transitively */
+  dependentCis: EntityId[];
+  /** Upstream business services, most critical first */
+  services: ImpactedService[];
+  /** Highest criticality among the services, if any is known */
+  maxCriticality?: Criticality;
+  /** Services governed by an SLA with penalties */
+  slaPenaltyServices: EntityId[];
+  openIncidents: ImpactedRecord[];
+  activeChanges: ImpactedRecord[];
+  /** Weighted blast-radius score, 0-100 */
+  score: number;
+}
+
+export interface ImpactOptions {
+  /** Maximum dependency hops to follow upstream (default 5) */
+  maxDepth?: number;
+}
+
+function text(value: PropertyValue | undefined): string | undefined {
+  if (value === undefined || value === null || Array.isArray(value)) return undefined;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Normalize a criticality value: an enum value, or a ServiceNow value
+ * whose leading digit ranks it ("1 - most critical" is critical).
+ */
+export function normalizeCriticality(value: PropertyValue | undefined): Criticality | undefined {
+  const raw = text(value)?.trim().toLowerCase();
+  if (!raw) return undefined;
+  const level = CRITICALITY_LEVELS.find((c) => c === raw);
+  if (level) return level;
+  const rank = /^(\d)/.exec(raw);
+  return rank ? CRITICALITY_LEVELS[Number(rank[1]) - 1] : undefined;
+}
+
+function isP1(value: PropertyValue | undefined): boolean {
+  return /^p?1\b/i.test(text(value)?.trim() ?? "");
+}
+
+function stateIn(value: PropertyValue | undefined, states: string[]): boolean {
+  const raw = text(value)?.trim().toLowerCase();
+  return raw !== undefined && states.includes(raw);
+}
+
+function isA(ontology: OntologyEngine, entity: Entity, type: string): boolean {
+  return ontology.resolveEntityScope(entity.id)?.types.includes(type) === true;
+}
+
+/**
+ * Compute the blast radius of a CI or business service. Returns
+ * undefined when the entity is not in the ontology store.
+ */
+export function analyzeImpact(
+  ontology: OntologyEngine,
+  entityId: EntityId,
+  options: ImpactOptions = {}
+): ImpactAnalysis | undefined {
+  const root = ontology.getEntity(entityId);
+  if (!root) return undefined;
+
+  // Everything upstream along depends_on: CIs first, then services
+  const upstream = ontology.traversePaths(entityId, {
+    direction: "incoming",
+    relationships: ["depends_on"],
+    maxDepth: options.maxDepth ?? 5,
+  });
+  const dependentCis = upstream.filter((n) => isA(ontology, n.entity, "configuration_item"));
+  const serviceNodes = upstream.filter((n) => isA(ontology, n.entity, "business_service"));
+  if (isA(ontology, root, "business_service")) serviceNodes.unshift({ entity: root, depth: 0, path: [] });
+
+  const services: ImpactedService[] = serviceNodes.map(({ entity, path }) => ({
+    id: entity.id,
+    name: text(entity.properties.name),
+    criticality: normalizeCriticality(entity.properties.criticality),
+    operationalStatus: text(entity.properties.operational_status),
+    slas: (entity.relationships.governed_by_sla ?? []).map((id) => {
+      const sla = ontology.getEntity(id);
+      const penalty = sla?.properties.has_penalty;
+      return { id, name: text(sla?.properties.name), hasPenalty: penalty === true || penalty === "true" };
+    }),
+    path,
+  }));
+  const rank = (s: ImpactedService) => (s.criticality ? CRITICALITY_LEVELS.indexOf(s.criticality) : CRITICALITY_LEVELS.length);
+  services.sort((a, b) => rank(a) - rank(b));
+
+  // Incidents and changes recorded against any affected CI or service
+  const ciIds = [
+    ...(isA(ontology, root, "configuration_item") ? [root.id] : []),
+    ...dependentCis.map((n) => n.entity.id),
+  ];
+  const openIncidents: ImpactedRecord[] = [];
+  const activeChanges: ImpactedRecord[] = [];
+  const seen = new Set<EntityId>();
+  const collect = (on: EntityId, relationship: string) => {
+    for (const node of ontology.traversePaths(on, { direction: "incoming", relationships: [relationship], maxDepth: 1 })) {
+      const record = node.entity;
+      if (seen.has(record.id)) continue;
+      if (isA(ontology, record, "incident") && !stateIn(record.properties.state, CLOSED_INCIDENT_STATES)) {
+        seen.add(record.id);
+        openIncidents.push({
+          id: record.id,
+          number: text(record.properties.number),
+          state: text(record.properties.state),
+          priority: text(record.properties.priority),
+          on,
+        });
+      } else if (isA(ontology, record, "change_request") && !stateIn(record.properties.state, INACTIVE_CHANGE_STATES)) {
+        seen.add(record.id);
+        activeChanges.push({
+          id: record.id,
+          number: text(record.properties.number),
+          state: text(record.properties.state),
+          risk: text(record.properties.risk),
+          on,
+        });
+      }
+    }
+  };
+  for (const id of ciIds) collect(id, "affects_ci");
+  for (const service of services) collect(service.id, "affects_service");
+
+  const slaPenaltyServices = services.filter((s) => s.slas.some((sla) => sla.hasPenalty)).map((s) => s.id);
+  const w = IMPACT_WEIGHTS;
+  const raw =
+    services.reduce((sum, s) => sum + w.criticality[s.criticality ?? "unknown"], 0) +
+    w.slaPenalty * slaPenaltyServices.length +
+    openIncidents.reduce((sum, i) => sum + w.openIncident * (isP1(i.priority) ? 2 : 1), 0) +
+    w.activeChange * activeChanges.length +
+    w.dependentCi * dependentCis.length;
+
+  return {
+    entityId,
+    analyzedAt: new Date().toISOString(),
+    dependentCis: dependentCis.map((n) => n.entity.id),
+    services,
+    maxCriticality: services.find((s) => s.criticality)?.criticality,
+    slaPenaltyServices,
+    openIncidents,
+    activeChanges,
+    score: Math.min(w.maxScore, raw),
+  };
+}
+
+/**
+ * The `impact` metadata object constraints see, e.g.
+ * `impact.services_affected` and `impact.max_criticality`.
+ */
+export function impactMetadata(analysis: ImpactAnalysis): Record<string, unknown> {
+  return {
+    entity: analysis.entityId,
+    services_affected: analysis.services.length,
+    service_names: analysis.services.map((s) => s.name ?? s.id),
+    max_criticality: analysis.maxCriticality ?? null,
+    sla_penalty_services: analysis.slaPenaltyServices.length,
+    dependent_cis: analysis.dependentCis.length,
+    open_incidents: analysis.openIncidents.length,
+    active_changes: analysis.activeChanges.length,
+    score: analysis.score,
+  };
+}
+
+/**
+ * Enrichment source adding `impact` metadata from the ontology store.
+ * The analyzed entity is the CI reported by earlier connectors
+ * (`ci_sys_id`), else the stored entity matching the reference by ID
+ * or number; for an incident or change, the CI or service it affects.
+ */
+export function impactSource(ontology: OntologyEngine, domain = "itsm"): EnrichmentSource {
+  return {
+    id: "ontology",
+    enrich: async (entityRef, _action, priorMetadata) => {
+      const ciSysId = priorMetadata.ci_sys_id;
+      let entity = typeof ciSysId === "string" && ciSysId
+        ? ontology.getEntity(`${domain}:configuration_item:${ciSysId}`)
+        : undefined;
+      entity ??= ontology.queryEntities({
+        domain,
+        where: { any: [
+          { field: "id", operator: "matches", value: `:${entityRef.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$` },
+          { field: "number", operator: "eq", value: entityRef },
+        ] },
+        limit: 1,
+      }).entities[0];
+      if (entity && !isA(ontology, entity, "configuration_item") && !isA(ontology, entity, "business_service")) {
+        const target = entity.relationships.affects_ci?.[0] ?? entity.relationships.affects_service?.[0];
+        entity = target ? ontology.getEntity(target) : undefined;
+      }
+      if (!entity) return {};
+
+      const analysis = analyzeImpact(ontology, entity.id);
+      return analysis ? { impact: impactMetadata(analysis) } : {};
+    },
+  };
+}
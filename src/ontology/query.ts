@@ -0,0 +1,132 @@
+/**
+ * Entity Query — typed filters over the entities stored in the
+ * ontology engine.
+ *
+ * A query narrows entities by domain and type (subtypes included),
+ * by conditions on their properties, and by conditions on the
+ * entities they link to, then sorts and pages the result:
+ *
+ *   {
+ *     type: "incident",
+ *     where: [{ field: "priority", operator: "eq", value: 1 }],
+ *     related: [{
+ *       relationship: "affects_ci",
+ *       where: [{ field: "environment", operator: "eq", value: "production" }],
+ *       related: [{ relationship: "owned_by", where: [{ field: "name", operator: "eq", value: "Database Team" }] }],
+ *     }],
+ *     sort: [{ field: "opened_at", order: "desc" }],
+ *     limit: 20,
+ *   }
+ *
+ * Conditions are the same as in declarative constraints (operators,
+ * field paths, all/any/not groups); they see an entity's properties
+ * plus its `id`, `type` and `domain`.
+ */
+
+import type { ConditionGroup, ConditionNode } from "../constraints/rule-evaluator.js";
+import { validateConditionTree } from "../constraints/rule-evaluator.js";
+import type { Entity } from "./types.js";
+
+/**
+ * Entities reached through a relationship, at least one of which must
+ * match.
+ */
+export interface RelatedEntityFilter {
+  /** Relationship name on the entity (e.g. affects_ci) */
+  relationship: string;
+  /** Conditions on the related entity; a list is an implicit `all` */
+  where?: ConditionNode[] | ConditionGroup;
+  /** Further hops from the related entity */
+  related?: RelatedEntityFilter[];
+}
+
+/**
+ * Sort key. Values compare as numbers or dates where both sides allow
+ * it, and as strings otherwise; missing values sort last.
+ */
+export interface EntitySort {
+  field: string;
+  order?: "asc" | "desc";
+}
+
+export interface EntityQuery {
+  /** Only entities in this domain */
+  domain?: string;
+  /** Only entities of this type or one of its subtypes */
+  type?: string;
+  /** Conditions on properties; a list is an implicit `all` */
+  where?: ConditionNode[] | ConditionGroup;
+  /** Conditions on linked entities; every filter must match */
+  related?: RelatedEntityFilter[];
+  /** Sort keys, most significant first (default: by ID) */
+  sort?: EntitySort[];
+  /** Number of matching entities to skip */
+  offset?: number;
+  /** Maximum entities to return; omit for all */
+  limit?: number;
+}
+
+/**
+ * One page of query results.
+ */
+export interface EntityPage {
+  /** Matching entities before pagination */
+  total: number;
+  /** Offset applied */
+  offset: number;
+  /** Entities in this page */
+  entities: Entity[];
+}
+
+/**
+ * Parse a sort expression such as `priority,-opened_at` (a leading `-`
+ * sorts descending).
+ */
+export function parseEntitySort(expression: string): EntitySort[] {
+  return expression
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => (part.startsWith("-")
+      ? { field: part.slice(1), order: "desc" as const }
+      : { field: part, order: "asc" as const }));
+}
+
+function validateRelated(filters: unknown, path: string): string[] {
+  if (!Array.isArray(filters)) return [`${path}: expected a list`];
+  return filters.flatMap((f, i) => {
+    const at = `${path}[${i}]`;
+    if (!f || typeof f !== "object") return [`${at}: expected an object`];
+    const filter = f as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof filter.relationship !== "string" || filter.relationship === "") {
+      errors.push(`${at}: missing 'relationship'`);
+    }
+    if (filter.where !== undefined) errors.push(...validateConditionTree(filter.where, `${at}.where`));
+    if (filter.related !== undefined) errors.push(...validateRelated(filter.related, `${at}.related`));
+    return errors;
+  });
+}
+
+/**
+ * Validate a query. Returns a list of problems; an empty list means the
+ * query can run.
+ */
+export function validateEntityQuery(query: EntityQuery): string[] {
+  const errors: string[] = [];
+  if (query.where !== undefined) errors.push(...validateConditionTree(query.where, "where"));
+  if (query.related !== undefined) errors.push(...validateRelated(query.related, "related"));
+  for (const [i, key] of (query.sort ?? []).entries()) {
+    if (!key || typeof key.field !== "string" || key.field === "") errors.push(`sort[${i}]: missing 'field'`);
+    else if (key.order !== undefined && key.order !== "asc" && key.order !== "desc") {
+      errors.push(`sort[${i}]: order must be asc or desc`);
+    }
+  }
+  if (query.offset !== undefined && (!Number.isInteger(query.offset) || query.offset < 0)) {
+    errors.push("offset: expected a non-negative integer");
+  }
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 0)) {
+    errors.push("limit: expected a non-negative integer");
+  }
+  return errors;
+}
@@ -1,15 +1,130 @@
 /**
  * Schema loading and validation.
  *
- * Validates domain schemas against the type system
- * and provides utilities for schema introspection.
+ * Validates domain schemas against the type system, defines how
+ * entity instances are checked against their schema on ingest, and
+ * provides utilities for schema introspection.
  */
 
-import type { DomainSchema, EntityTypeSchema } from "./types.js";
+import type { DomainSchema, EntityId, EntityTypeSchema } from "./types.js";
+
+// ── Entity validation ─────────────────────────────────────────
+
+/**
+ * How entities are checked when they are added:
+ *   strict   entities with any issue are rejected
+ *   lenient  entities are stored and their issues reported
+ *   off      entities are stored unchecked
+ */
+export type EntityValidationMode = "strict" | "lenient" | "off";
+
+export const ENTITY_VALIDATION_MODES: EntityValidationMode[] = ["strict", "lenient", "off"];
+
+export type EntityIssueCode =
+  | "unknown_type"
+  | "missing_required"
+  | "wrong_type"
+  | "invalid_enum"
+  | "unknown_relationship"
+  | "invalid_target"
+  | "cardinality";
+
+/**
+ * One way an entity does not match its type schema.
+ */
+export interface EntityValidationIssue {
+  entityId: EntityId;
+  code: EntityIssueCode;
+  /** Property or relationship name */
+  field?: string;
+  message: string;
+}
+
+/**
+ * Outcome of validating a batch of entities, e.g. one sync run.
+ */
+export interface EntityValidationReport {
+  mode: EntityValidationMode;
+  /** Entities checked */
+  checked: number;
+  /** Entities with at least one issue */
+  invalid: number;
+  /** Entities not stored because of their issues (strict mode) */
+  rejected: number;
+  /** Issue counts by code */
+  byCode: Partial<Record<EntityIssueCode, number>>;
+  issues: EntityValidationIssue[];
+}
+
+/**
+ * Thrown by `OntologyEngine.addEntity` in strict mode.
+ */
+export class EntityValidationError extends Error {
+  readonly issues: EntityValidationIssue[];
+
+  constructor(entityId: EntityId, issues: EntityValidationIssue[]) {
+    super(`Invalid entity ${entityId}: ${issues.map((i) => i.message).join("; ")}`);
+    this.name = "EntityValidationError";
+    this.issues = issues;
+  }
+}
+
+export function isEntityValidationMode(value: unknown): value is EntityValidationMode {
+  return ENTITY_VALIDATION_MODES.includes(value as EntityValidationMode);
+}
+
+/**
+ * Read the entity validation mode for syncs from
+ * BASANOS_ENTITY_VALIDATION. Unset or invalid values give lenient.
+ */
+export function entityValidationModeFromEnv(env: NodeJS.ProcessEnv = process.env): EntityValidationMode {
+  return isEntityValidationMode(env.BASANOS_ENTITY_VALIDATION) ? env.BASANOS_ENTITY_VALIDATION : "lenient";
+}
+
+/**
+ * Start an empty report for a batch.
+ */
+export function createValidationReport(mode: EntityValidationMode): EntityValidationReport {
+  return { mode, checked: 0, invalid: 0, rejected: 0, byCode: {}, issues: [] };
+}
+
+/**
+ * Add one entity's outcome to a report.
+ */
+export function recordValidation(
+  report: EntityValidationReport,
+  issues: EntityValidationIssue[],
+  rejected: boolean
+): void {
+  report.checked++;
+  if (issues.length > 0) report.invalid++;
+  if (rejected) report.rejected++;
+  for (const issue of issues) {
+    report.byCode[issue.code] = (report.byCode[issue.code] ?? 0) + 1;
+    report.issues.push(issue);
+  }
+}
+
+/**
+ * Fold one batch's report into another, e.g. per-table syncs into the
+ * report for the whole run.
+ */
+export function mergeValidationReport(into: EntityValidationReport, from: EntityValidationReport): void {
+  into.checked += from.checked;
+  into.invalid += from.invalid;
+  into.rejected += from.rejected;
+  for (const issue of from.issues) {
+    into.byCode[issue.code] = (into.byCode[issue.code] ?? 0) + 1;
+    into.issues.push(issue);
+  }
+}
+
+// ── Domain schema validation ──────────────────────────────────
 
 /**
  * Validate that a domain schema is internally consistent:
  * - All relationship targets reference existing entity types
+ * - Parent types exist and the type hierarchy has no cycles
  * - All required fields are present
  * - No duplicate entity type names
  */
@@ -43,6 +158,26 @@ export function validateDomainSchema(schema: DomainSchema): string[] {
       }
     }
 
+    // Validate parent types exist and do not form a cycle
+    if (entityType.parentType) {
+      if (!entityTypeNames.has(entityType.parentType)) {
+        errors.push(
+          `Entity "${entityType.name}" extends unknown type "${entityType.parentType}"`
+        );
+      } else {
+        const seen = new Set<string>([entityType.name]);
+        let parent: string | undefined = entityType.parentType;
+        while (parent) {
+          if (seen.has(parent)) {
+            errors.push(`Entity "${entityType.name}" has a cyclic type hierarchy`);
+            break;
+          }
+          seen.add(parent);
+          parent = schema.entityTypes.find((et) => et.name === parent)?.parentType;
+        }
+      }
+    }
+
     // Validate enum properties have values
     for (const prop of entityType.properties) {
       if (
@@ -0,0 +1,81 @@
+/**
+ * Traversal — walking the entity graph along named relationships.
+ *
+ * Relationships are stored on their source entity (an incident's
+ * `affects_ci`). Following one from its target (everything that
+ * affects a CI) uses the engine's reverse index; such steps are
+ * `incoming` and carry the schema's inverse name (`has_incidents`)
+ * when the relationship declares one.
+ *
+ * Traversal is breadth-first, so every entity is reached by one of its
+ * shortest paths, and each result carries that path hop by hop.
+ */
+
+import type { ConditionGroup, ConditionNode } from "../constraints/rule-evaluator.js";
+import { validateConditionTree } from "../constraints/rule-evaluator.js";
+import type { Entity, EntityId } from "./types.js";
+
+/**
+ * Which way to follow relationships: as stored on the entity, from the
+ * target back to its sources, or both.
+ */
+export type TraversalDirection = "outgoing" | "incoming" | "both";
+
+export const TRAVERSAL_DIRECTIONS: TraversalDirection[] = ["outgoing", "incoming", "both"];
+
+/**
+ * One hop along a relationship.
+ */
+export interface TraversalStep {
+  from: EntityId;
+  to: EntityId;
+  /** Relationship name as stored on its source entity */
+  relationship: string;
+  /** outgoing: `from` holds the relationship; incoming: `to` holds it */
+  direction: "outgoing" | "incoming";
+  /** Schema inverse name of the relationship, on incoming steps */
+  inverseName?: string;
+}
+
+export interface PathOptions {
+  /** Default: outgoing for traversal, both for path finding */
+  direction?: TraversalDirection;
+  /** Relationship names to follow; inverse names select incoming edges */
+  relationships?: string[];
+  /** Maximum hops (default: 2 for traversal, 6 for path finding) */
+  maxDepth?: number;
+}
+
+export interface TraversalOptions extends PathOptions {
+  /** Only return entities of these types or their subtypes */
+  types?: string[];
+  /** Only return entities matching these conditions; a list is an implicit `all` */
+  where?: ConditionNode[] | ConditionGroup;
+}
+
+/**
+ * An entity reached by traversal and the path that reached it.
+ */
+export interface TraversalNode {
+  entity: Entity;
+  /** Number of hops from the start */
+  depth: number;
+  /** Hops from the start entity, in order */
+  path: TraversalStep[];
+}
+
+/**
+ * Validate traversal options. Returns a list of problems; an empty list
+ * means the options can be used.
+ */
+export function validateTraversalOptions(options: TraversalOptions): string[] {
+  const errors: string[] = [];
+  if (options.direction !== undefined && !TRAVERSAL_DIRECTIONS.includes(options.direction)) {
+    errors.push(`direction: expected one of ${TRAVERSAL_DIRECTIONS.join(", ")}`);
+  }
+  if (options.maxDepth !== undefined && (!Number.isInteger(options.maxDepth) || options.maxDepth < 0)) {
+    errors.push("maxDepth: expected a non-negative integer");
+  }
+  if (options.where !== undefined) errors.push(...validateConditionTree(options.where, "where"));
+  return errors;
+}
@@ -89,6 +89,8 @@ export interface EntityTypeSchema {
   relationships: RelationshipSchema[];
   /** Semantic description for agent reasoning */
   description: string;
+  /** Parent entity type this type specializes (e.g., a CMDB class hierarchy) */
+  parentType?: string;
 }
 
 /**
@@ -107,6 +109,17 @@ export interface Entity {
   relationships: Record<string, EntityId[]>;
 }
 
+/**
+ * The resolved scope of an entity: its domain and type lineage,
+ * most specific type first.
+ */
+export interface EntityScope {
+  /** Domain the entity belongs to */
+  domain: string;
+  /** The entity's type followed by its ancestor types */
+  types: string[];
+}
+
 /**
  * A domain schema is a complete ontology definition for a specific domain.
  */
@@ -0,0 +1,154 @@
+/**
+ * Allowed Actions — what may be done to an entity right now.
+ *
+ * `basanos_check_constraints` answers one action at a time, so a
+ * planner has to guess actions and ask repeatedly. This gathers live
+ * context for the entity once, evaluates every action that promoted
+ * constraints in scope for it care about, and returns an
+ * allow / warn / approval / block matrix with the reasons.
+ *
+ * Each action is evaluated as a dry run: audited for the caller, but
+ * left out of the audit summary, shadow statistics and replay, since
+ * nothing was attempted. The actions come from the constraints, so an
+ * action no constraint names is not listed, and is unconstrained.
+ */
+
+import type { ConstraintEngine, ConstraintVerdict, EnrichmentStep } from "../constraints/engine.js";
+import type { Principal } from "../constraints/types.js";
+import { ConstraintSeverity } from "../constraints/types.js";
+import type { EnrichmentSource } from "../connectors/enrichment.js";
+import { enrichContext, resolveTarget } from "../connectors/enrichment.js";
+
+/**
+ * How an action would fare: allowed, allowed with warnings, held for
+ * human approval, or blocked.
+ */
+export type ActionOutcome = "allow" | "warn" | "require_approval" | "block";
+
+/**
+ * A constraint that stands in the way of, or warns about, an action.
+ */
+export interface ActionReason {
+  constraintId: string;
+  severity: ConstraintSeverity;
+  explanation: string;
+}
+
+/**
+ * One row of the matrix.
+ */
+export interface ActionAssessment {
+  action: string;
+  outcome: ActionOutcome;
+  /** The verdict summary for this action */
+  summary: string;
+  /** Unsatisfied constraints, most severe first */
+  reasons: ActionReason[];
+}
+
+export interface AllowedActions {
+  targetEntity: string;
+  /** ISO timestamp of the evaluation */
+  evaluatedAt: string;
+  /** One row per action, in action order */
+  actions: ActionAssessment[];
+  /** Action names by outcome, for a quick read */
+  allowed: string[];
+  warned: string[];
+  requiresApproval: string[];
+  blocked: string[];
+  /** Connectors consulted for live context */
+  enrichment: EnrichmentStep[];
+}
+
+export interface AllowedActionsRequest {
+  /** Entity ID (domain:type:id) */
+  targetEntity: string;
+  /** Extra context, overridden by enriched values */
+  metadata?: Record<string, unknown>;
+  /** The caller, recorded in every verdict */
+  principal?: Principal;
+  /** Actions to check; defaults to every action in scope */
+  actions?: string[];
+}
+
+const SEVERITY_ORDER = [
+  ConstraintSeverity.BLOCK,
+  ConstraintSeverity.REQUIRE_APPROVAL,
+  ConstraintSeverity.WARN,
+  ConstraintSeverity.INFO,
+];
+
+/**
+ * Parse caller metadata passed as a JSON string. Throws if it is not
+ * a JSON object.
+ */
+export function parseMetadataJson(json: string | undefined): Record<string, unknown> {
+  if (!json) return {};
+  const parsed: unknown = JSON.parse(json);
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("metadata_json must be a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Classify a verdict for the matrix.
+ */
+export function actionOutcome(verdict: ConstraintVerdict): ActionOutcome {
+  if (verdict.requiresApproval) return "require_approval";
+  if (!verdict.allowed) return "block";
+  return verdict.results.some((r) => !r.satisfied && r.severity === ConstraintSeverity.WARN) ? "warn" : "allow";
+}
+
+/**
+ * Enrich the entity once and evaluate each action against the same
+ * context.
+ */
+export async function assessAllowedActions(
+  engine: ConstraintEngine,
+  sources: EnrichmentSource[],
+  request: AllowedActionsRequest
+): Promise<AllowedActions> {
+  const { targetEntity } = request;
+  const actions = request.actions ?? engine.actionsInScope(targetEntity);
+  const { entityRef } = resolveTarget({ _target_entity: targetEntity });
+  const { metadata, trace } = await enrichContext(sources, entityRef, "*", { ...request.metadata });
+  const relatedEntities = typeof metadata.ci_sys_id === "string" && metadata.ci_sys_id
+    ? [`itsm:cmdb_ci:${metadata.ci_sys_id}`]
+    : [];
+  const timestamp = new Date();
+
+  const rows: ActionAssessment[] = [];
+  for (const action of actions) {
+    const verdict = await engine.evaluate({
+      intendedAction: action,
+      targetEntity,
+      relatedEntities,
+      timestamp,
+      metadata,
+      principal: request.principal,
+    }, { enrichment: trace, dryRun: true });
+    rows.push({
+      action,
+      outcome: actionOutcome(verdict),
+      summary: verdict.summary,
+      reasons: verdict.results
+        .filter((r) => !r.satisfied)
+        .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+        .map((r) => ({ constraintId: r.constraintId, severity: r.severity, explanation: r.explanation })),
+    });
+  }
+
+  const named = (outcome: ActionOutcome) => rows.filter((r) => r.outcome === outcome).map((r) => r.action);
+  return {
+    targetEntity,
+    evaluatedAt: timestamp.toISOString(),
+    actions: rows,
+    allowed: named("allow"),
+    warned: named("warn"),
+    requiresApproval: named("require_approval"),
+    blocked: named("block"),
+    enrichment: trace,
+  };
+}
@@ -0,0 +1,362 @@
+/**
+ * Caller Authentication — resolves who is behind a request.
+ *
+ * The HTTP transport and the dashboard APIs accept either an API key
+ * (`Authorization: Bearer <key>` or `X-API-Key`) or a JWT verified
+ * locally with a shared HMAC secret (HS256/384/512) or an RSA public
+ * key (RS256/384/512). Either way the result is a Principal - agent
+ * ID, roles and owning team - that is attached to every constraint
+ * context and recorded in the audit trail.
+ *
+ * API keys live in a YAML file (default .basanos/api-keys.yaml):
+ *
+ *   keys:
+ *     - id: triage-bot
+ *       sha256: 9f86d081884c7d65...   # hex SHA-256 of the key
+ *       roles: [triage]
+ *       team: service-desk
+ *     - id: sre-agent
+ *       key: ${SRE_AGENT_KEY}        # or the key itself, from .env
+ *       roles: [sre, senior]
+ */
+
+import { createHash, createHmac, createPublicKey, createVerify, timingSafeEqual } from "crypto";
+import type { KeyObject } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import { load as yamlLoad } from "js-yaml";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+import type { Principal } from "../constraints/types.js";
+import { expandEnv } from "../connectors/upstream.js";
+
+/**
+ * When credentials are required.
+ *   - off:      ignore credentials; every caller is anonymous
+ *   - optional: anonymous callers allowed, bad credentials rejected
+ *   - required: every request must authenticate
+ */
+export type AuthMode = "off" | "optional" | "required";
+
+const AUTH_MODES: AuthMode[] = ["off", "optional", "required"];
+
+/**
+ * One entry in the API keys file. Set exactly one of key or sha256.
+ */
+export interface ApiKeyEntry {
+  /** Principal ID the key authenticates as */
+  id: string;
+  /** The key itself; `${VAR}` is expanded */
+  key?: string;
+  /** Hex SHA-256 of the key */
+  sha256?: string;
+  roles?: string[];
+  team?: string;
+}
+
+export interface JwtOptions {
+  /** Shared secret for HS256/384/512 */
+  secret?: string;
+  /** RSA public key (PEM) for RS256/384/512 */
+  publicKey?: string;
+  /** Required `iss` claim, if set */
+  issuer?: string;
+  /** Required `aud` claim, if set */
+  audience?: string;
+  /** Allowed clock skew in seconds (default 30) */
+  clockToleranceSec?: number;
+  /**
+   * Reject tokens issued (`iat`) longer ago than this. Without it every
+   * token must carry `exp`; with it, `iat` is required instead.
+   */
+  maxAgeSec?: number;
+}
+
+export interface AuthenticatorOptions {
+  mode?: AuthMode;
+  apiKeys?: ApiKeyEntry[];
+  jwt?: JwtOptions;
+}
+
+/**
+ * Credentials were missing or invalid. Maps to HTTP 401.
+ */
+export class AuthenticationError extends Error {
+  readonly status = 401;
+}
+
+/**
+ * Check that a value is a valid auth mode.
+ */
+export function isAuthMode(value: unknown): value is AuthMode {
+  return AUTH_MODES.includes(value as AuthMode);
+}
+
+/**
+ * Check the structure of a parsed API keys file. Returns a list of
+ * problems; empty means valid.
+ */
+export function validateApiKeys(raw: unknown): string[] {
+  if (!raw || typeof raw !== "object") return ["API keys file must be a YAML object"];
+  const file = raw as Record<string, unknown>;
+  if (!Array.isArray(file.keys)) return ["Missing keys list"];
+
+  const errors: string[] = [];
+  file.keys.forEach((entry: unknown, i: number) => {
+    const where = `keys[${i}]`;
+    if (!entry || typeof entry !== "object") {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    const k = entry as Record<string, unknown>;
+    const label = typeof k.id === "string" ? `${where} ("${k.id}")` : where;
+    if (typeof k.id !== "string" || k.id === "") errors.push(`${label}: missing id`);
+    if ((k.key === undefined) === (k.sha256 === undefined)) {
+      errors.push(`${label}: set exactly one of key or sha256`);
+    }
+    if (k.key !== undefined && typeof k.key !== "string") errors.push(`${label}: key must be a string`);
+    if (k.sha256 !== undefined && !(typeof k.sha256 === "string" && /^[0-9a-f]{64}$/i.test(k.sha256))) {
+      errors.push(`${label}: sha256 must be 64 hex characters`);
+    }
+    if (k.roles !== undefined && !(Array.isArray(k.roles) && k.roles.every((r) => typeof r === "string"))) {
+      errors.push(`${label}: roles must be a list of strings`);
+    }
+    if (k.team !== undefined && typeof k.team !== "string") errors.push(`${label}: team must be a string`);
+  });
+  return errors;
+}
+
+/**
+ * Load and validate an API keys file. Throws if it is malformed.
+ */
+export function loadApiKeys(filePath: string): ApiKeyEntry[] {
+  const raw = yamlLoad(readFileSync(filePath, "utf-8"));
+  const errors = validateApiKeys(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid API keys file (${filePath}): ${errors.join("; ")}`);
+  }
+  return (raw as { keys: ApiKeyEntry[] }).keys;
+}
+
+// ── JWT ───────────────────────────────────────────────────────
+
+const JWT_HASHES: Record<string, string> = {
+  HS256: "sha256", HS384: "sha384", HS512: "sha512",
+  RS256: "RSA-SHA256", RS384: "RSA-SHA384", RS512: "RSA-SHA512",
+};
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf-8")) as unknown;
+  if (!value || typeof value !== "object" || Array.isArray(value)) throw new Error("not a JSON object");
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Verify a compact JWT and return its claims. Checks the signature
+ * against the configured secret or public key, then `exp`, `nbf`,
+ * the token's age, `iss` and `aud`. A token that never expires - no
+ * `exp`, and no `iat` checked against a configured max age - is
+ * refused. Throws AuthenticationError on any failure.
+ */
+export function verifyJwt(token: string, options: JwtOptions, now = new Date()): Record<string, unknown> {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new AuthenticationError("Malformed JWT");
+  const [headerPart, payloadPart, signaturePart] = parts;
+
+  let header: Record<string, unknown>;
+  let claims: Record<string, unknown>;
+  try {
+    header = decodeSegment(headerPart);
+    claims = decodeSegment(payloadPart);
+  } catch {
+    throw new AuthenticationError("Malformed JWT");
+  }
+
+  const alg = String(header.alg);
+  const hash = JWT_HASHES[alg];
+  if (!hash) throw new AuthenticationError(`Unsupported JWT algorithm "${alg}"`);
+
+  const signed = `${headerPart}.${payloadPart}`;
+  const signature = Buffer.from(signaturePart, "base64url");
+  let valid = false;
+  if (alg.startsWith("HS")) {
+    if (!options.secret) throw new AuthenticationError(`No secret configured for ${alg}`);
+    const expected = createHmac(hash, options.secret).update(signed).digest();
+    valid = expected.length === signature.length && timingSafeEqual(expected, signature);
+  } else {
+    if (!options.publicKey) throw new AuthenticationError(`No public key configured for ${alg}`);
+    const key: KeyObject = createPublicKey(options.publicKey);
+    valid = createVerify(hash).update(signed).verify(key, signature);
+  }
+  if (!valid) throw new AuthenticationError("Invalid JWT signature");
+
+  const nowSec = Math.floor(now.getTime() / 1000);
+  const skew = options.clockToleranceSec ?? 30;
+  if (typeof claims.exp === "number" && nowSec > claims.exp + skew) {
+    throw new AuthenticationError("JWT has expired");
+  }
+  if (options.maxAgeSec !== undefined) {
+    if (typeof claims.iat !== "number") throw new AuthenticationError("JWT has no issue time");
+    if (nowSec > claims.iat + options.maxAgeSec + skew) throw new AuthenticationError("JWT is too old");
+  } else if (typeof claims.exp !== "number") {
+    throw new AuthenticationError("JWT has no expiry");
+  }
+  if (typeof claims.nbf === "number" && nowSec + skew < claims.nbf) {
+    throw new AuthenticationError("JWT is not yet valid");
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new AuthenticationError("JWT issuer mismatch");
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) throw new AuthenticationError("JWT audience mismatch");
+  }
+  return claims;
+}
+
+/**
+ * Build a principal from JWT claims: `sub` is the ID, `roles` (a list
+ * or space-separated string, falling back to `scope`) the roles, and
+ * `team` the owning team.
+ */
+export function principalFromClaims(claims: Record<string, unknown>): Principal {
+  if (typeof claims.sub !== "string" || claims.sub === "") {
+    throw new AuthenticationError("JWT has no subject");
+  }
+  const rawRoles = claims.roles ?? claims.scope;
+  const roles = Array.isArray(rawRoles)
+    ? rawRoles.filter((r): r is string => typeof r === "string")
+    : typeof rawRoles === "string" ? rawRoles.split(/\s+/).filter(Boolean) : [];
+  return {
+    id: claims.sub,
+    roles,
+    ...(typeof claims.team === "string" ? { team: claims.team } : {}),
+    method: "jwt",
+  };
+}
+
+// ── Authenticator ─────────────────────────────────────────────
+
+/**
+ * Request headers the authenticator reads.
+ */
+export interface AuthHeaders {
+  authorization?: string | string[];
+  "x-api-key"?: string | string[];
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Resolves request credentials to a principal.
+ */
+export class Authenticator {
+  private mode: AuthMode;
+  private keys: Array<{ digest: Buffer; entry: ApiKeyEntry }>;
+  private jwt: JwtOptions | undefined;
+
+  constructor(options: AuthenticatorOptions = {}) {
+    this.keys = (options.apiKeys ?? []).map((entry) => ({
+      digest: entry.sha256 ? Buffer.from(entry.sha256, "hex") : sha256(expandEnv(entry.key ?? "")),
+      entry,
+    }));
+    this.jwt = options.jwt?.secret || options.jwt?.publicKey ? options.jwt : undefined;
+    const configured = this.keys.length > 0 || this.jwt !== undefined;
+    this.mode = options.mode ?? (configured ? "required" : "off");
+  }
+
+  getMode(): AuthMode {
+    return this.mode;
+  }
+
+  /** Whether requests are checked at all */
+  isEnabled(): boolean {
+    return this.mode !== "off";
+  }
+
+  /**
+   * Resolve the caller. Returns undefined for anonymous callers when
+   * the mode allows them; throws AuthenticationError otherwise.
+   */
+  authenticate(headers: AuthHeaders): Principal | undefined {
+    if (this.mode === "off") return undefined;
+
+    const authorization = headerValue(headers.authorization);
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+    const credential = bearer ?? headerValue(headers["x-api-key"])?.trim();
+    if (!credential) {
+      if (this.mode === "optional") return undefined;
+      throw new AuthenticationError("Missing credentials: send Authorization: Bearer <token> or X-API-Key");
+    }
+
+    // An API key may itself contain dots, so match keys first; only an
+    // unknown credential of three dot-separated segments is a JWT
+    const digest = sha256(credential);
+    const match = this.keys.find((k) => k.digest.length === digest.length && timingSafeEqual(k.digest, digest));
+    if (!match) {
+      if (this.jwt && credential.split(".").length === 3) {
+        return principalFromClaims(verifyJwt(credential, this.jwt));
+      }
+      throw new AuthenticationError("Invalid API key");
+    }
+    return {
+      id: match.entry.id,
+      roles: match.entry.roles ?? [],
+      ...(match.entry.team ? { team: match.entry.team } : {}),
+      method: "api_key",
+    };
+  }
+}
+
+/**
+ * Create the authenticator described by BASANOS_AUTH* and BASANOS_JWT_*
+ * environment variables. Throws if the configuration is invalid.
+ */
+export function createAuthenticatorFromEnv(projectRoot: string): Authenticator {
+  const mode = process.env.BASANOS_AUTH;
+  if (mode !== undefined && mode !== "" && !isAuthMode(mode)) {
+    throw new Error(`Invalid BASANOS_AUTH "${mode}" (expected off, optional or required)`);
+  }
+
+  const keysPath = resolve(projectRoot, process.env.BASANOS_API_KEYS_FILE || ".basanos/api-keys.yaml");
+  const apiKeys = existsSync(keysPath) ? loadApiKeys(keysPath) : [];
+
+  const publicKeyFile = process.env.BASANOS_JWT_PUBLIC_KEY_FILE;
+  const maxAge = process.env.BASANOS_JWT_MAX_AGE_SECONDS;
+  const maxAgeSec = maxAge ? Number(maxAge) : undefined;
+  if (maxAgeSec !== undefined && !(Number.isInteger(maxAgeSec) && maxAgeSec > 0)) {
+    throw new Error(`Invalid BASANOS_JWT_MAX_AGE_SECONDS "${maxAge}" (expected a positive whole number)`);
+  }
+  const jwt: JwtOptions = {
+    secret: process.env.BASANOS_JWT_SECRET || undefined,
+    publicKey: publicKeyFile ? readFileSync(resolve(projectRoot, publicKeyFile), "utf-8") : undefined,
+    issuer: process.env.BASANOS_JWT_ISSUER || undefined,
+    audience: process.env.BASANOS_JWT_AUDIENCE || undefined,
+    maxAgeSec,
+  };
+
+  return new Authenticator({ mode: mode ? mode : undefined, apiKeys, jwt });
+}
+
+// ── MCP auth info ─────────────────────────────────────────────
+
+/**
+ * Wrap a principal as MCP AuthInfo, so the SDK hands it to tool
+ * handlers as `extra.authInfo`.
+ */
+export function toAuthInfo(principal: Principal, token: string): AuthInfo {
+  return { token, clientId: principal.id, scopes: principal.roles, extra: { principal } };
+}
+
+/**
+ * The principal attached by the HTTP transport, if any.
+ */
+export function principalFromAuthInfo(authInfo: AuthInfo | undefined): Principal | undefined {
+  return authInfo?.extra?.principal as Principal | undefined;
+}
@@ -0,0 +1,223 @@
+/**
+ * HTTP Transport — serves Basanos over MCP streamable HTTP.
+ *
+ * In stdio mode every agent spawns its own Basanos process, each with
+ * its own audit log and overrides. In HTTP mode one process serves many
+ * agents at /mcp: each client gets a session (the Mcp-Session-Id header)
+ * with its own McpServer, while all sessions share the same engines,
+ * so there is one enforcement point and one audit trail.
+ *
+ * With an authenticator, every request must carry valid credentials,
+ * and a session can only be used by the principal that opened it. The
+ * session's server is built for that principal, so tool policies decide
+ * which tools it lists.
+ *
+ * Sessions a client abandons without a DELETE are closed after an idle
+ * timeout, and the least recently used one is closed when a new session
+ * would exceed the session limit.
+ */
+
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import type { Request, Response } from "express";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+import type { Principal } from "../constraints/types.js";
+import type { Authenticator } from "./auth.js";
+import { AuthenticationError, principalFromAuthInfo, toAuthInfo } from "./auth.js";
+
+export interface HttpServerOptions {
+  /** Interface to bind (default 127.0.0.1) */
+  host?: string;
+  /** Port to listen on; 0 picks a free one */
+  port: number;
+  /** Host headers to accept, for DNS rebinding protection off localhost */
+  allowedHosts?: string[];
+  /** Build a fresh MCP server for each new session, for its caller */
+  createServer: (principal?: Principal) => McpServer;
+  /** Resolves callers; without one every caller is anonymous */
+  authenticator?: Authenticator;
+  /** Close sessions with no request for this long; 0 never does (default 30 minutes) */
+  sessionIdleMs?: number;
+  /** Most sessions open at once; the least recently used is closed to make room (default 100) */
+  maxSessions?: number;
+  /** Log sink for session events (default: console.error) */
+  log?: (message: string) => void;
+}
+
+/**
+ * A running HTTP server.
+ */
+export interface HttpServerHandle {
+  /** Port actually bound */
+  port: number;
+  /** Number of open sessions */
+  sessionCount(): number;
+  /** Close every session and stop listening */
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Principal that opened the session, if any */
+  principalId?: string;
+  /** Time of the latest request, in ms */
+  lastSeen: number;
+}
+
+type AuthenticatedRequest = Request & { auth?: AuthInfo };
+
+function jsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({ jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Start serving MCP over streamable HTTP at /mcp. A POST carrying an
+ * initialize request opens a session; later requests must send its
+ * Mcp-Session-Id. DELETE /mcp ends a session. GET /health reports the
+ * number of open sessions.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const log = options.log ?? ((message: string) => console.error(message));
+  const host = options.host ?? "127.0.0.1";
+  const sessionIdleMs = options.sessionIdleMs ?? 30 * 60_000;
+  const maxSessions = Math.max(1, options.maxSessions ?? 100);
+  const sessions = new Map<string, Session>();
+  const app = createMcpExpressApp({ host, allowedHosts: options.allowedHosts });
+
+  const existing = (req: Request): Session | undefined => {
+    const id = req.headers["mcp-session-id"];
+    const session = typeof id === "string" ? sessions.get(id) : undefined;
+    if (session) session.lastSeen = Date.now();
+    return session;
+  };
+
+  const closeSession = async (id: string, reason: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    log(`MCP session closed: ${id}, ${reason} (${sessions.size} active)`);
+    await session.transport.close().catch(() => undefined);
+    await session.server.close().catch(() => undefined);
+  };
+
+  const sweep = sessionIdleMs > 0
+    ? setInterval(() => {
+      const cutoff = Date.now() - sessionIdleMs;
+      for (const [id, session] of sessions) {
+        if (session.lastSeen < cutoff) void closeSession(id, "idle");
+      }
+    }, Math.min(sessionIdleMs, 60_000))
+    : undefined;
+  sweep?.unref();
+
+  // Resolve the caller and hand it to the SDK as req.auth, which tool
+  // handlers receive as extra.authInfo.
+  app.use("/mcp", (req: AuthenticatedRequest, res: Response, next: () => void) => {
+    if (!options.authenticator?.isEnabled()) return next();
+    let principal: Principal | undefined;
+    try {
+      principal = options.authenticator.authenticate(req.headers);
+    } catch (err) {
+      if (!(err instanceof AuthenticationError)) throw err;
+      res.setHeader("WWW-Authenticate", 'Bearer realm="basanos"');
+      jsonRpcError(res, 401, err.message);
+      return;
+    }
+    if (principal) {
+      const token = String(req.headers.authorization ?? req.headers["x-api-key"] ?? "");
+      req.auth = toAuthInfo(principal, token.replace(/^Bearer\s+/i, ""));
+    }
+    const session = existing(req);
+    if (session && session.principalId !== principal?.id) {
+      jsonRpcError(res, 403, "Session belongs to another principal");
+      return;
+    }
+    next();
+  });
+
+  app.post("/mcp", async (req: AuthenticatedRequest, res: Response) => {
+    const session = existing(req);
+    if (session) {
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+    if (req.headers["mcp-session-id"] !== undefined) {
+      jsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    if (!isInitializeRequest(req.body)) {
+      jsonRpcError(res, 400, "Bad Request: no session ID and not an initialize request");
+      return;
+    }
+
+    // Make room by closing the least recently used sessions
+    while (sessions.size >= maxSessions) {
+      const [oldest] = [...sessions.entries()].sort(([, a], [, b]) => a.lastSeen - b.lastSeen);
+      await closeSession(oldest[0], "session limit reached");
+    }
+
+    const server = options.createServer(principalFromAuthInfo(req.auth));
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, principalId: req.auth?.clientId, lastSeen: Date.now() });
+        log(`MCP session opened: ${id} (${sessions.size} active)`);
+      },
+    });
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && sessions.delete(id)) {
+        log(`MCP session closed: ${id} (${sessions.size} active)`);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (err) {
+      log(`MCP request failed: ${String(err)}`);
+      if (!res.headersSent) jsonRpcError(res, 500, "Internal server error");
+    }
+  });
+
+  // Server-sent event stream and session termination
+  const handleSessionRequest = async (req: AuthenticatedRequest, res: Response) => {
+    const session = existing(req);
+    if (!session) {
+      jsonRpcError(res, req.headers["mcp-session-id"] ? 404 : 400, "Invalid or missing session ID");
+      return;
+    }
+    await session.transport.handleRequest(req, res);
+  };
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  app.get("/health", (_req: Request, res: Response) => {
+    res.json({ status: "ok", sessions: sessions.size });
+  });
+
+  const httpServer = await new Promise<Server>((resolvePromise, reject) => {
+    const listener = app.listen(options.port, host, (err) => (err ? reject(err) : resolvePromise(listener)));
+  });
+
+  return {
+    port: (httpServer.address() as AddressInfo).port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      for (const { transport, server } of [...sessions.values()]) {
+        await transport.close().catch(() => undefined);
+        await server.close().catch(() => undefined);
+      }
+      sessions.clear();
+      await new Promise<void>((done) => httpServer.close(() => done()));
+    },
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Tool Policies — which callers may see and call which proxied tools.
+ *
+ * Constraints decide whether an action may proceed given live state.
+ * Policies come first and are coarser: a triage bot should not even be
+ * offered the approve-change tool. Each domain can ship a policies.yaml
+ * next to its constraints:
+ *
+ *   domain: itsm
+ *   default: deny               # callers no policy covers (default: deny)
+ *   policies:
+ *     - id: triage
+ *       roles: [triage]
+ *       allow: { actions: [lookup, summarize] }
+ *     - id: sre
+ *       roles: [sre]
+ *       allow: { tools: ["sn_*"] }
+ *       deny: { actions: [approve] }
+ *
+ * A policy applies to a caller matching any of its principals, roles or
+ * teams ("*" matches any authenticated caller), or to anonymous callers
+ * with `anonymous: true`. A caller covered by policies may use a tool
+ * when one of them allows it and none denies it; anything else is
+ * denied. Callers no policy covers get the file's default. Tools are
+ * matched by exposed name (globs) or by the action the action mapping
+ * resolves them to.
+ *
+ * Without any policies.yaml, every caller may use every tool.
+ */
+
+import type { Principal } from "../constraints/types.js";
+
+export type PolicyEffect = "allow" | "deny";
+
+const EFFECTS: PolicyEffect[] = ["allow", "deny"];
+
+/**
+ * Tools selected by a policy's allow or deny list.
+ */
+export interface ToolSelector {
+  /** Exposed tool names; `*` matches any run of characters */
+  tools?: string[];
+  /** Actions from the action mapping (e.g. resolve, lookup) */
+  actions?: string[];
+}
+
+/**
+ * One entry in a policies.yaml file.
+ */
+export interface ToolPolicy {
+  id: string;
+  description?: string;
+  /** Principal IDs the policy applies to */
+  principals?: string[];
+  /** Roles the policy applies to */
+  roles?: string[];
+  /** Teams the policy applies to */
+  teams?: string[];
+  /** Whether the policy applies to unauthenticated callers */
+  anonymous?: boolean;
+  allow?: ToolSelector;
+  deny?: ToolSelector;
+}
+
+/**
+ * The contents of one domain's policies.yaml.
+ */
+export interface PolicyFile {
+  domain: string;
+  /** Access for callers no policy applies to (default: deny) */
+  default?: PolicyEffect;
+  policies: ToolPolicy[];
+}
+
+/**
+ * A proxied tool as seen by the policy layer.
+ */
+export interface PolicyTool {
+  /** Name the tool is exposed under */
+  name: string;
+  /** Action the tool resolves to */
+  action: string;
+}
+
+/**
+ * Outcome of a policy check.
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  /** Policy that allowed or denied the tool; absent for the default */
+  policyId?: string;
+  /** Human-readable reason */
+  reason: string;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function validateSelector(value: unknown, label: string): string[] {
+  if (value === undefined) return [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) return [`${label}: must be an object`];
+  const selector = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(selector)) {
+    if (key !== "tools" && key !== "actions") errors.push(`${label}: unknown key "${key}"`);
+  }
+  if (selector.tools !== undefined && !isStringList(selector.tools)) errors.push(`${label}.tools: must be a list of strings`);
+  if (selector.actions !== undefined && !isStringList(selector.actions)) errors.push(`${label}.actions: must be a list of strings`);
+  return errors;
+}
+
+/**
+ * Check the structure of a parsed policies file. Returns a list of
+ * problems; empty means valid.
+ */
+export function validatePolicies(raw: unknown): string[] {
+  if (!raw || typeof raw !== "object") return ["Policies file must be a YAML object"];
+  const file = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof file.domain !== "string" || file.domain === "") errors.push("Missing domain");
+  if (file.default !== undefined && !EFFECTS.includes(file.default as PolicyEffect)) {
+    errors.push(`Invalid default "${String(file.default)}" (expected allow or deny)`);
+  }
+  if (!Array.isArray(file.policies)) {
+    errors.push("Missing policies list");
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  file.policies.forEach((entry: unknown, i: number) => {
+    const where = `policies[${i}]`;
+    if (!entry || typeof entry !== "object") {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    const p = entry as Record<string, unknown>;
+    const label = typeof p.id === "string" ? `${where} ("${p.id}")` : where;
+
+    if (typeof p.id !== "string" || p.id === "") {
+      errors.push(`${label}: missing id`);
+    } else if (seen.has(p.id)) {
+      errors.push(`${label}: duplicate id`);
+    } else {
+      seen.add(p.id);
+    }
+    for (const key of ["principals", "roles", "teams"]) {
+      if (p[key] !== undefined && !isStringList(p[key])) errors.push(`${label}: ${key} must be a list of strings`);
+    }
+    if (p.anonymous !== undefined && typeof p.anonymous !== "boolean") {
+      errors.push(`${label}: anonymous must be true or false`);
+    }
+    if (p.principals === undefined && p.roles === undefined && p.teams === undefined && p.anonymous !== true) {
+      errors.push(`${label}: set principals, roles, teams or anonymous`);
+    }
+    if (p.allow === undefined && p.deny === undefined) {
+      errors.push(`${label}: set allow or deny`);
+    }
+    errors.push(...validateSelector(p.allow, `${label}.allow`));
+    errors.push(...validateSelector(p.deny, `${label}.deny`));
+  });
+
+  return errors;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function listMatches(list: string[] | undefined, value: string | undefined): boolean {
+  if (!list || value === undefined) return false;
+  return list.some((entry) => entry === "*" || entry === value);
+}
+
+function selects(selector: ToolSelector | undefined, tool: PolicyTool): boolean {
+  if (!selector) return false;
+  if (selector.tools?.some((glob) => globToRegExp(glob).test(tool.name))) return true;
+  return selector.actions?.includes(tool.action) ?? false;
+}
+
+/**
+ * Decides tool access from every loaded policies file.
+ */
+export class ToolPolicySet {
+  private files: PolicyFile[] = [];
+
+  /**
+   * Add a domain's policies.
+   */
+  add(file: PolicyFile): void {
+    this.files.push(file);
+  }
+
+  getFiles(): PolicyFile[] {
+    return this.files;
+  }
+
+  /** Whether any policies are loaded; without them every tool is open */
+  isEnabled(): boolean {
+    return this.files.length > 0;
+  }
+
+  /**
+   * Access for callers no policy covers: deny if any file says so.
+   */
+  getDefault(): PolicyEffect {
+    return this.files.some((f) => (f.default ?? "deny") === "deny") ? "deny" : "allow";
+  }
+
+  /**
+   * Policies that apply to a caller.
+   */
+  policiesFor(principal: Principal | undefined): ToolPolicy[] {
+    return this.files.flatMap((f) => f.policies).filter((p) =>
+      principal
+        ? listMatches(p.principals, principal.id) ||
+          principal.roles.some((role) => listMatches(p.roles, role)) ||
+          listMatches(p.teams, principal.team)
+        : p.anonymous === true
+    );
+  }
+
+  /**
+   * Whether a caller may see and call a tool. A deny in any applicable
+   * policy wins over an allow.
+   */
+  check(principal: Principal | undefined, tool: PolicyTool): PolicyDecision {
+    if (!this.isEnabled()) return { allowed: true, reason: "No tool policies configured" };
+    const caller = principal ? `"${principal.id}"` : "anonymous callers";
+    const applicable = this.policiesFor(principal);
+
+    if (applicable.length === 0) {
+      return this.getDefault() === "allow"
+        ? { allowed: true, reason: `No policy covers ${caller}; default is allow` }
+        : { allowed: false, reason: `No policy covers ${caller}; default is deny` };
+    }
+    const denying = applicable.find((p) => selects(p.deny, tool));
+    if (denying) {
+      return { allowed: false, policyId: denying.id, reason: `Policy "${denying.id}" denies ${tool.name} to ${caller}` };
+    }
+    const allowing = applicable.find((p) => selects(p.allow, tool));
+    if (allowing) {
+      return { allowed: true, policyId: allowing.id, reason: `Policy "${allowing.id}" allows ${tool.name}` };
+    }
+    const ids = applicable.map((p) => p.id).join(", ");
+    return { allowed: false, reason: `${tool.name} is not allowed for ${caller} by policies ${ids}` };
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Guarded Tools — mounts upstream tools on the Basanos MCP server with
+ * constraint enforcement in front of them.
+ *
+ * Every proxied call goes through the same steps, whatever the
+ * upstream: resolve the action and target from the action mapping,
+ * check the caller against tool policies, enrich the context, evaluate
+ * constraints, and only then forward. A blocked call never reaches the
+ * upstream; a call held by a require_approval constraint is parked in
+ * the approval queue and forwarded once a reviewer approves it, and a
+ * blocked call sent with `_execute_when_allowed` is retried until its
+ * constraints clear. A call sent with `_dry_run` stops after evaluation
+ * and returns the request that would have been sent.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+
+import type { ConstraintEngine, ConstraintVerdict } from "../constraints/engine.js";
+import type { ApprovalQueue } from "../constraints/approvals.js";
+import type { ActionMapper, ResolvedToolMapping } from "../connectors/action-mapping.js";
+import type { EnrichmentSource, ResolvedTarget } from "../connectors/enrichment.js";
+import type { EnrichmentStep } from "../constraints/engine.js";
+import { UNKNOWN_TARGET, enrichContext, resolveTarget } from "../connectors/enrichment.js";
+import type { Principal } from "../constraints/types.js";
+import { principalFromAuthInfo } from "./auth.js";
+import type { PolicyDecision, ToolPolicySet } from "./policy.js";
+import type { QueuedAction, RetryAttempt, RetryScheduler } from "./retry-queue.js";
+import { summarizeVerdict } from "./retry-queue.js";
+
+/**
+ * Engines shared by every guarded tool.
+ */
+export interface ProxyDependencies {
+  constraintEngine: ConstraintEngine;
+  actionMapper: ActionMapper;
+  /** All configured enrichment sources; mappings may narrow them per tool */
+  enrichmentSources: EnrichmentSource[];
+  /** Which callers may use which tools; absent means every caller */
+  policy?: ToolPolicySet;
+  /** Where calls needing human approval are parked */
+  approvals?: ApprovalQueue;
+  /** Retries blocked calls sent with `_execute_when_allowed` */
+  retry?: RetryScheduler;
+}
+
+/**
+ * One upstream tool to expose through Basanos.
+ */
+export interface GuardedToolSpec {
+  /** Name the tool is exposed under on the Basanos server */
+  exposedName: string;
+  /** Tool name on the upstream server */
+  upstreamName: string;
+  /** Upstream ID, matched against `upstream` in action mappings */
+  upstream: string;
+  /** Upstream name for descriptions and messages (e.g. "ServiceNow") */
+  upstreamLabel: string;
+  /** The upstream tool's own description */
+  description: string;
+  /** Input schema as a zod raw shape */
+  inputShape: Record<string, z.ZodTypeAny>;
+  /** Extra metadata for evaluation (e.g. tool_type) */
+  metadata?: Record<string, unknown>;
+  /**
+   * Whether a held call can be forwarded later by the dashboard; calls
+   * to other tools needing approval are blocked instead
+   */
+  deferrable?: boolean;
+  /**
+   * The request `forward` would send upstream, for dry runs; defaults to
+   * the MCP tools/call request for the upstream tool
+   */
+  preview?(args: Record<string, unknown>): Promise<unknown>;
+  /** Send the call upstream once constraints allow it */
+  forward(args: Record<string, unknown>, verdict: ConstraintVerdict): Promise<CallToolResult>;
+}
+
+/**
+ * Make an upstream tool name safe to expose: letters, digits, `_` and
+ * `-` only, at most 64 characters, with the mount prefix in front.
+ */
+export function exposedToolName(prefix: string, toolName: string): string {
+  return (prefix + toolName).replace(/[^A-Za-z0-9_-]+/g, "_").replace(/_+$/, "").slice(0, 64);
+}
+
+/**
+ * Wrap a tool result in a single JSON text block.
+ */
+export function jsonResult(value: unknown): CallToolResult {
+  return { content: [{ type: "text" as const, text: JSON.stringify(value, null, 2) }] };
+}
+
+/** Basanos arguments that are never forwarded upstream */
+const INTERNAL_ARGS = ["_target_entity", "_dry_run", "_execute_when_allowed", "_retry_deadline_minutes"];
+
+/**
+ * A proxied call after enrichment and evaluation.
+ */
+interface GuardedEvaluation {
+  verdict: ConstraintVerdict;
+  trace: EnrichmentStep[];
+  /** Arguments to forward, without Basanos' own fields */
+  upstreamArgs: Record<string, unknown>;
+}
+
+/**
+ * Which entity a guarded call targets. The mapping's targetArg wins.
+ * Otherwise an explicit `_target_entity` counts only for a mapped tool,
+ * and only if it is an entity of the mapping's type; anything else,
+ * including any explicit target on an unmapped tool, is an unknown
+ * target, to which every constraint applies. An agent cannot name an
+ * unrelated entity to step out of a rule's scope.
+ */
+function guardedTarget(
+  deps: ProxyDependencies,
+  resolved: ResolvedToolMapping,
+  args: Record<string, unknown>
+): ResolvedTarget {
+  const mapped = deps.actionMapper.targetFor(resolved, args);
+  if (mapped) return mapped;
+  const target = resolveTarget(args);
+  const explicit = typeof args._target_entity === "string" && args._target_entity.trim() !== "";
+  if (!explicit) return target;
+  const entityType = resolved.mapping?.entityType;
+  if (!resolved.mapping) return { targetEntity: UNKNOWN_TARGET };
+
+  const scope = deps.constraintEngine.getOntology().resolveEntityScope(target.targetEntity);
+  const ofType = entityType !== undefined && scope !== undefined &&
+    scope.domain === resolved.domain && scope.types.includes(entityType);
+  return ofType ? target : { targetEntity: UNKNOWN_TARGET };
+}
+
+/**
+ * Enrich and evaluate one call to a guarded tool.
+ */
+async function evaluateGuardedCall(
+  deps: ProxyDependencies,
+  spec: GuardedToolSpec,
+  resolved: ResolvedToolMapping,
+  args: Record<string, unknown>,
+  principal: Principal | undefined,
+  dryRun = false
+): Promise<GuardedEvaluation> {
+  const action = resolved.action;
+  const sources = resolved.mapping?.enrich
+    ? deps.enrichmentSources.filter((s) => resolved.mapping!.enrich!.includes(s.id))
+    : deps.enrichmentSources;
+
+  const { targetEntity, entityRef } = guardedTarget(deps, resolved, args);
+  // Remove internal fields before forwarding
+  const upstreamArgs = { ...args };
+  for (const key of INTERNAL_ARGS) delete upstreamArgs[key];
+
+  // Gather live context (change freeze, SLA, deploys) for the target
+  const { metadata, trace } = await enrichContext(sources, entityRef, action, {
+    ...upstreamArgs,
+    ...spec.metadata,
+    upstream: spec.upstream,
+    tool_name: spec.upstreamName,
+    tool_mapped: resolved.mapped,
+    tool_write_like: resolved.writeLike,
+  });
+  const relatedEntities = typeof metadata.ci_sys_id === "string" && metadata.ci_sys_id
+    ? [`itsm:cmdb_ci:${metadata.ci_sys_id}`]
+    : [];
+
+  const verdict = await deps.constraintEngine.evaluate({
+    intendedAction: action,
+    targetEntity,
+    relatedEntities,
+    timestamp: new Date(),
+    metadata,
+    principal,
+  }, { enrichment: trace, dryRun });
+
+  return { verdict, trace, upstreamArgs };
+}
+
+/**
+ * Re-run enrichment and evaluation for a queued call, as its caller,
+ * and forward it if it is now allowed and `claim` secures it for this
+ * process: it was not cancelled, or claimed by another, meanwhile.
+ * Throws if the caller lost access to the tool or the upstream call
+ * fails.
+ */
+export async function retryGuardedCall(
+  deps: ProxyDependencies,
+  spec: GuardedToolSpec,
+  queued: QueuedAction,
+  claim: () => Promise<boolean> = async () => true
+): Promise<RetryAttempt> {
+  const resolved = deps.actionMapper.resolve(spec.upstreamName, spec.description, spec.upstream);
+  const decision = deps.policy?.check(queued.principal, { name: spec.exposedName, action: resolved.action });
+  if (decision && !decision.allowed) throw new Error(decision.reason);
+
+  const { verdict, upstreamArgs } = await evaluateGuardedCall(deps, spec, resolved, queued.args, queued.principal);
+  if (!verdict.allowed || !(await claim())) return { forwarded: false, verdict: summarizeVerdict(verdict) };
+  const result = await spec.forward(upstreamArgs, verdict);
+  return { forwarded: true, verdict: summarizeVerdict(verdict), result };
+}
+
+/**
+ * Whether a caller may see and call a guarded tool.
+ */
+export function checkToolPolicy(
+  deps: ProxyDependencies,
+  spec: GuardedToolSpec,
+  principal: Principal | undefined
+): PolicyDecision {
+  if (!deps.policy) return { allowed: true, reason: "No tool policies configured" };
+  const { action } = deps.actionMapper.resolve(spec.upstreamName, spec.description, spec.upstream);
+  return deps.policy.check(principal, { name: spec.exposedName, action });
+}
+
+/**
+ * Register an upstream tool on the server behind constraint evaluation.
+ * Returns how the tool was mapped, for startup logging.
+ */
+export function registerGuardedTool(
+  server: McpServer,
+  deps: ProxyDependencies,
+  spec: GuardedToolSpec
+): ResolvedToolMapping {
+  const resolved = deps.actionMapper.resolve(spec.upstreamName, spec.description, spec.upstream);
+  const action = resolved.action;
+
+  const inputShape: Record<string, z.ZodTypeAny> = {
+    ...spec.inputShape,
+    _target_entity: z.string().optional().describe(
+      "Target entity ID for constraint checking (e.g., itsm:incident:INC001). " +
+      "Defaults to the target named in the arguments."
+    ),
+    _dry_run: z.boolean().optional().describe(
+      "Check constraints and return the verdict and the request that would be sent, without sending it."
+    ),
+  };
+  if (deps.retry) {
+    inputShape._execute_when_allowed = z.boolean().optional().describe(
+      "If constraints block the call, queue it and forward it automatically once they clear."
+    );
+    inputShape._retry_deadline_minutes = z.number().int().positive().optional().describe(
+      "With _execute_when_allowed: give up after this many minutes."
+    );
+  }
+
+  const description =
+    `[Proxied from ${spec.upstreamLabel}] ${spec.description || spec.upstreamName}\n\n` +
+    `Basanos enforces promoted constraints before forwarding this call to ${spec.upstreamLabel}. ` +
+    `If a constraint blocks the action, the call will NOT reach ${spec.upstreamLabel}.`;
+
+  server.tool(
+    spec.exposedName,
+    description.substring(0, 1024),
+    inputShape,
+    async (args: Record<string, unknown>, extra: { authInfo?: AuthInfo }) => {
+      const principal = principalFromAuthInfo(extra.authInfo);
+
+      // Tools outside the caller's allowlist stop here, before any lookups
+      const decision = deps.policy?.check(principal, { name: spec.exposedName, action });
+      if (decision && !decision.allowed) {
+        return jsonResult({
+          blocked: true,
+          tool: spec.upstreamName,
+          action,
+          policy: decision,
+          message: `This tool is not available to this caller under Basanos tool policies. The call was NOT forwarded to ${spec.upstreamLabel}.`,
+        });
+      }
+
+      // Check constraints before forwarding
+      const dryRun = args._dry_run === true;
+      const { verdict, trace, upstreamArgs } = await evaluateGuardedCall(deps, spec, resolved, args, principal, dryRun);
+
+      if (dryRun) {
+        let upstreamRequest: unknown;
+        let previewError: string | undefined;
+        try {
+          upstreamRequest = spec.preview
+            ? await spec.preview(upstreamArgs)
+            : { method: "tools/call", params: { name: spec.upstreamName, arguments: upstreamArgs } };
+        } catch (err) {
+          previewError = String(err);
+        }
+        const outcome = verdict.allowed
+          ? "Constraints allow this action."
+          : verdict.requiresApproval
+            ? "This action would need human approval."
+            : "This action would be BLOCKED by Basanos constraints.";
+        return jsonResult({
+          dryRun: true,
+          wouldForward: verdict.allowed,
+          tool: spec.upstreamName,
+          action,
+          verdict: {
+            allowed: verdict.allowed,
+            requiresApproval: verdict.requiresApproval,
+            summary: verdict.summary,
+            results: verdict.results,
+            evaluatedAt: verdict.evaluatedAt,
+          },
+          enrichment: trace,
+          upstreamRequest,
+          ...(previewError ? { previewError } : {}),
+          message: `Dry run: ${outcome} The call was NOT forwarded to ${spec.upstreamLabel}; call again without _dry_run to perform it.`,
+        });
+      }
+
+      if (verdict.requiresApproval && deps.approvals && spec.deferrable) {
+        const request = await deps.approvals.submit({
+          upstream: spec.upstream,
+          tool: spec.upstreamName,
+          exposedName: spec.exposedName,
+          args: upstreamArgs,
+          verdict,
+        });
+        return jsonResult({
+          blocked: true,
+          pendingApproval: true,
+          approvalId: request.id,
+          expiresAt: request.expiresAt,
+          tool: spec.upstreamName,
+          action,
+          verdict: { allowed: false, summary: verdict.summary, evaluatedAt: verdict.evaluatedAt },
+          message: `This action needs human approval. The call was parked and will be forwarded to ${spec.upstreamLabel} if approved. ` +
+            `Poll basanos_approval_status with approval_id "${request.id}" for the decision.`,
+        });
+      }
+
+      if (!verdict.allowed && args._execute_when_allowed === true && deps.retry) {
+        const queuedArgs = { ...args };
+        delete queuedArgs._execute_when_allowed;
+        delete queuedArgs._retry_deadline_minutes;
+        const queued = await deps.retry.enqueue({
+          upstream: spec.upstream,
+          tool: spec.upstreamName,
+          exposedName: spec.exposedName,
+          args: queuedArgs,
+          principal,
+          deadline: deps.retry.deadlineFor(args._retry_deadline_minutes as number | undefined),
+          verdict,
+        }, (settled) => {
+          // Tell the agent how it ended, if its session is still open
+          if (!server.isConnected()) return;
+          server.sendLoggingMessage({
+            level: settled.status === "executed" ? "info" : "warning",
+            logger: "basanos",
+            data: { retryId: settled.id, status: settled.status, tool: settled.tool, outcome: settled.outcome },
+          }).catch(() => undefined);
+        });
+        return jsonResult({
+          blocked: true,
+          queued: true,
+          retryId: queued.id,
+          deadline: queued.deadline,
+          tool: spec.upstreamName,
+          action,
+          verdict: { allowed: false, summary: verdict.summary, evaluatedAt: verdict.evaluatedAt },
+          message: `This action is blocked for now. Basanos will re-check it and forward it to ${spec.upstreamLabel} once the constraints clear, ` +
+            `or give up at ${queued.deadline}. Poll basanos_retry_status with retry_id "${queued.id}".`,
+        });
+      }
+
+      if (!verdict.allowed) {
+        return jsonResult({
+          blocked: true,
+          tool: spec.upstreamName,
+          action,
+          verdict: {
+            allowed: false,
+            summary: verdict.summary,
+            results: verdict.results,
+            evaluatedAt: verdict.evaluatedAt,
+          },
+          enrichment: trace,
+          message: verdict.requiresApproval
+            ? `This action needs human approval, which Basanos cannot hold for this tool. The call was NOT forwarded to ${spec.upstreamLabel}.`
+            : `This action was BLOCKED by Basanos constraints. The call was NOT forwarded to ${spec.upstreamLabel}.`,
+        });
+      }
+
+      try {
+        return await spec.forward(upstreamArgs, verdict);
+      } catch (err) {
+        return jsonResult({
+          error: true,
+          tool: spec.upstreamName,
+          message: `${spec.upstreamLabel} MCP call failed: ${String(err)}`,
+          constraintVerdict: { allowed: true, summary: verdict.summary },
+        });
+      }
+    }
+  );
+
+  return resolved;
+}
+
+/**
+ * One-line description of a tool's mapping, for startup logs.
+ */
+export function describeMapping(resolved: ResolvedToolMapping): string {
+  if (resolved.mapped) return `action: ${resolved.action}, mapped`;
+  if (resolved.unmappedPolicy) return `action: ${resolved.action}, unmapped write, ${resolved.unmappedPolicy}`;
+  return `action: ${resolved.action}, unmapped`;
+}
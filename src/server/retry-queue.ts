@@ -0,0 +1,408 @@
+/**
+ * Retry Queue — blocked calls that run once their constraints clear.
+ *
+ * Many blocks are temporary: a change freeze ends, a deploy finishes.
+ * An agent can hand a blocked call to Basanos with
+ * `_execute_when_allowed: true` instead of polling itself. The call is
+ * queued here, and the scheduler re-runs enrichment and evaluation for
+ * it on an interval until the verdict flips (the call is forwarded) or
+ * its deadline passes (it expires).
+ *
+ * The queue is a JSON file, so queued calls survive a restart. Every
+ * Basanos process runs a scheduler over the same file, so each change
+ * is made under a lock file, and a process claims a call (in_flight)
+ * before forwarding it: only one of them ever sends it. Outcomes are
+ * posted to an optional webhook and, while the agent's session is
+ * still open, sent to it as an MCP logging notification.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { randomUUID } from "crypto";
+
+import { withFileLock } from "../constraints/file-lock.js";
+import type { Principal } from "../constraints/types.js";
+import type { ConstraintVerdict } from "../constraints/engine.js";
+
+/**
+ * Lifecycle of a queued call: waiting until claimed for forwarding
+ * (in_flight) and forwarded (executed or failed), expired at its
+ * deadline, or cancelled.
+ */
+export type RetryStatus = "waiting" | "in_flight" | "executed" | "failed" | "expired" | "cancelled";
+
+/**
+ * The latest verdict for a queued call, without its full context.
+ */
+export interface RetryVerdictSummary {
+  allowed: boolean;
+  summary: string;
+  evaluatedAt: string;
+}
+
+/**
+ * A blocked call waiting for its constraints to clear.
+ */
+export interface QueuedAction {
+  /** Retry ID agents poll with */
+  id: string;
+  status: RetryStatus;
+  /** ISO timestamp the call was queued */
+  createdAt: string;
+  /** ISO timestamp after which the call expires unforwarded */
+  deadline: string;
+  /** Upstream the call is meant for */
+  upstream: string;
+  /** Tool name on the upstream */
+  tool: string;
+  /** Name the tool is exposed under on Basanos */
+  exposedName: string;
+  /** Arguments as the agent sent them, minus retry options */
+  args: Record<string, unknown>;
+  /** The caller, re-used for every evaluation */
+  principal?: Principal;
+  /** Evaluations since the call was queued, including the first */
+  attempts: number;
+  /** ISO timestamp of the latest evaluation */
+  lastAttemptAt: string;
+  lastVerdict: RetryVerdictSummary;
+  /** Scheduler that claimed the call for forwarding */
+  claimedBy?: string;
+  /** Set once the call was forwarded, or could not be */
+  outcome?: { at: string; result?: unknown; error?: string };
+}
+
+/**
+ * What the proxy supplies when it queues a blocked call.
+ */
+export type QueuedActionInput = Pick<QueuedAction, "upstream" | "tool" | "exposedName" | "args" | "principal" | "deadline"> & {
+  verdict: ConstraintVerdict;
+};
+
+/**
+ * Result of re-trying a queued call: still blocked, or forwarded with
+ * the upstream result. A failed forward throws.
+ */
+export type RetryAttempt =
+  | { forwarded: false; verdict: RetryVerdictSummary }
+  | { forwarded: true; verdict: RetryVerdictSummary; result: unknown };
+
+/**
+ * Reduce a verdict to what a queued call keeps of it.
+ */
+export function summarizeVerdict(verdict: ConstraintVerdict): RetryVerdictSummary {
+  return { allowed: verdict.allowed, summary: verdict.summary, evaluatedAt: verdict.evaluatedAt };
+}
+
+export class RetryQueue {
+  private readonly path: string | undefined;
+  private actions: QueuedAction[] = [];
+
+  /**
+   * @param path - JSON file the queue lives in; omit to keep it in memory
+   */
+  constructor(path?: string) {
+    this.path = path ? resolve(path) : undefined;
+    if (this.path) mkdirSync(dirname(this.path), { recursive: true });
+  }
+
+  /**
+   * Queue a blocked call. Returns the waiting entry.
+   */
+  async enqueue(input: QueuedActionInput): Promise<QueuedAction> {
+    const { verdict, ...call } = input;
+    const action: QueuedAction = {
+      id: randomUUID(),
+      status: "waiting",
+      createdAt: new Date().toISOString(),
+      ...call,
+      attempts: 1,
+      lastAttemptAt: verdict.evaluatedAt,
+      lastVerdict: summarizeVerdict(verdict),
+    };
+    return this.locked(() => {
+      const actions = this.load();
+      actions.push(action);
+      this.save(actions);
+      return action;
+    });
+  }
+
+  get(id: string): QueuedAction | undefined {
+    return this.load().find((a) => a.id === id);
+  }
+
+  /**
+   * List queued calls, newest first, optionally by status.
+   */
+  list(status?: RetryStatus): QueuedAction[] {
+    return this.load().filter((a) => !status || a.status === status).reverse();
+  }
+
+  /**
+   * Apply a change to a queued call and persist it, holding the queue's
+   * lock throughout. Returns undefined for an unknown ID.
+   */
+  update(id: string, change: (action: QueuedAction) => void): Promise<QueuedAction | undefined> {
+    return this.locked(() => {
+      const actions = this.load();
+      const action = actions.find((a) => a.id === id);
+      if (!action) return undefined;
+      change(action);
+      this.save(actions);
+      return action;
+    });
+  }
+
+  private async locked<T>(fn: () => T): Promise<T> {
+    return this.path ? withFileLock(`${this.path}.lock`, fn) : fn();
+  }
+
+  private load(): QueuedAction[] {
+    if (this.path) {
+      this.actions = existsSync(this.path)
+        ? (JSON.parse(readFileSync(this.path, "utf-8")) as QueuedAction[])
+        : [];
+    }
+    return this.actions;
+  }
+
+  private save(actions: QueuedAction[]): void {
+    this.actions = actions;
+    if (!this.path) return;
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(actions, null, 2), "utf-8");
+    renameSync(tmp, this.path);
+  }
+}
+
+// ── Scheduler ─────────────────────────────────────────────────
+
+export interface RetrySchedulerOptions {
+  queue: RetryQueue;
+  /**
+   * Re-evaluate a queued call and forward it if now allowed. Call
+   * `claim` right before forwarding: false means the call was cancelled
+   * or claimed by another process meanwhile and must not be sent.
+   */
+  attempt: (action: QueuedAction, claim: () => Promise<boolean>) => Promise<RetryAttempt>;
+  /** Time between evaluations of a waiting call (default: 60s) */
+  intervalMs?: number;
+  /** URL that receives a POST for every executed, failed or expired call */
+  webhookUrl?: string;
+  /** Deadline for calls that do not ask for one (default: 60 minutes) */
+  defaultDeadlineMinutes?: number;
+  /** Longest deadline a call may ask for (default: 1440 minutes) */
+  maxDeadlineMinutes?: number;
+  /** Log sink (default: console.error) */
+  log?: (message: string) => void;
+}
+
+/**
+ * Re-evaluates waiting calls on an interval and reports how each ends.
+ */
+export class RetryScheduler {
+  private readonly queue: RetryQueue;
+  private readonly attempt: RetrySchedulerOptions["attempt"];
+  private readonly intervalMs: number;
+  private readonly webhookUrl: string | undefined;
+  private readonly defaultDeadlineMinutes: number;
+  private readonly maxDeadlineMinutes: number;
+  private readonly log: (message: string) => void;
+  private readonly watchers = new Map<string, (action: QueuedAction) => void>();
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  /** Marks the calls this scheduler claims */
+  private readonly claimId = `${process.pid}:${randomUUID()}`;
+
+  constructor(options: RetrySchedulerOptions) {
+    this.queue = options.queue;
+    this.attempt = options.attempt;
+    this.intervalMs = options.intervalMs ?? 60_000;
+    this.webhookUrl = options.webhookUrl;
+    this.defaultDeadlineMinutes = options.defaultDeadlineMinutes ?? 60;
+    this.maxDeadlineMinutes = options.maxDeadlineMinutes ?? 1440;
+    this.log = options.log ?? ((message: string) => console.error(message));
+  }
+
+  getQueue(): RetryQueue {
+    return this.queue;
+  }
+
+  /**
+   * Deadline for a call queued now, capped at the maximum.
+   */
+  deadlineFor(requestedMinutes?: number, now: Date = new Date()): string {
+    const minutes = Math.min(requestedMinutes ?? this.defaultDeadlineMinutes, this.maxDeadlineMinutes);
+    return new Date(now.getTime() + minutes * 60_000).toISOString();
+  }
+
+  /**
+   * Queue a blocked call. `onSettled` is told how it ends, as long as
+   * this process is still running.
+   */
+  async enqueue(input: QueuedActionInput, onSettled?: (action: QueuedAction) => void): Promise<QueuedAction> {
+    const action = await this.queue.enqueue(input);
+    if (onSettled) this.watchers.set(action.id, onSettled);
+    return action;
+  }
+
+  /**
+   * Stop retrying a waiting call. A call already being forwarded can no
+   * longer be cancelled.
+   */
+  async cancel(id: string): Promise<QueuedAction | undefined> {
+    const action = await this.queue.update(id, (a) => {
+      if (a.status === "waiting") a.status = "cancelled";
+    });
+    this.watchers.delete(id);
+    return action;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Evaluate every waiting call once: expire those past their deadline,
+   * forward those now allowed. Overlapping ticks are skipped.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      for (const waiting of this.queue.list("waiting").reverse()) {
+        if (new Date(waiting.deadline) <= now) {
+          await this.settle(waiting.id, (a) => {
+            a.status = "expired";
+          });
+          continue;
+        }
+        await this.retry(waiting);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async retry(waiting: QueuedAction): Promise<void> {
+    const claim = async () => {
+      let claimed = false;
+      await this.queue.update(waiting.id, (a) => {
+        if (a.status !== "waiting") return;
+        a.status = "in_flight";
+        a.claimedBy = this.claimId;
+        claimed = true;
+      });
+      return claimed;
+    };
+    let attempt: RetryAttempt;
+    try {
+      attempt = await this.attempt(waiting, claim);
+    } catch (err) {
+      await this.settle(waiting.id, (a) => {
+        a.attempts++;
+        a.lastAttemptAt = new Date().toISOString();
+        a.status = "failed";
+        a.outcome = { at: a.lastAttemptAt, error: err instanceof Error ? err.message : String(err) };
+      });
+      return;
+    }
+
+    const record = (a: QueuedAction) => {
+      a.attempts++;
+      a.lastAttemptAt = attempt.verdict.evaluatedAt;
+      a.lastVerdict = attempt.verdict;
+    };
+    if (!attempt.forwarded) {
+      await this.queue.update(waiting.id, (a) => {
+        if (a.status === "waiting") record(a);
+      });
+      return;
+    }
+    const settled = await this.settle(waiting.id, (a) => {
+      record(a);
+      a.status = "executed";
+      a.outcome = { at: new Date().toISOString(), result: attempt.result };
+    });
+    if (!settled) {
+      this.log(`Queued call ${waiting.id} (${waiting.exposedName}) was forwarded but was settled elsewhere meanwhile`);
+    }
+  }
+
+  /**
+   * Finish a call that is still waiting, or that this scheduler claimed.
+   * The status is checked under the queue's lock, in the same
+   * read-modify-write that applies the change, so a call cancelled or
+   * settled elsewhere during an attempt stays as it is. Returns false
+   * if the call was not this scheduler's to settle.
+   */
+  private async settle(id: string, change: (action: QueuedAction) => void): Promise<boolean> {
+    let settled = false;
+    const action = await this.queue.update(id, (a) => {
+      const ours = a.status === "waiting" || (a.status === "in_flight" && a.claimedBy === this.claimId);
+      if (!ours) return;
+      change(a);
+      settled = true;
+    });
+    if (!action || !settled) return false;
+    this.log(`Queued call ${id} (${action.exposedName}) ${action.status} after ${action.attempts} attempt(s)`);
+
+    this.watchers.get(id)?.(action);
+    this.watchers.delete(id);
+
+    if (!this.webhookUrl) return true;
+    try {
+      await fetch(this.webhookUrl, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ event: `retry.${action.status}`, action }),
+        signal: AbortSignal.timeout(5000),
+      });
+    } catch (err) {
+      this.log(`Retry webhook failed for ${id}: ${String(err)}`);
+    }
+    return true;
+  }
+}
+
+// ── Configuration ─────────────────────────────────────────────
+
+/**
+ * Create the retry queue described by BASANOS_RETRY_QUEUE_PATH (default
+ * .basanos/retry-queue.json), or memory with BASANOS_RETRY_QUEUE=memory.
+ */
+export function createRetryQueueFromEnv(projectRoot: string): RetryQueue {
+  if (process.env.BASANOS_RETRY_QUEUE === "memory") return new RetryQueue();
+  return new RetryQueue(resolve(projectRoot, process.env.BASANOS_RETRY_QUEUE_PATH || ".basanos/retry-queue.json"));
+}
+
+/**
+ * Read scheduler settings from the environment:
+ * BASANOS_RETRY_INTERVAL_SECONDS, BASANOS_RETRY_WEBHOOK_URL,
+ * BASANOS_RETRY_DEFAULT_DEADLINE_MINUTES and
+ * BASANOS_RETRY_MAX_DEADLINE_MINUTES. Unset or invalid values keep the
+ * defaults.
+ */
+export function retrySettingsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Pick<RetrySchedulerOptions, "intervalMs" | "webhookUrl" | "defaultDeadlineMinutes" | "maxDeadlineMinutes"> {
+  const positive = (value: string | undefined) => {
+    const n = Number(value);
+    return value !== undefined && value !== "" && Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+  const seconds = positive(env.BASANOS_RETRY_INTERVAL_SECONDS);
+  return {
+    intervalMs: seconds === undefined ? undefined : seconds * 1000,
+    webhookUrl: env.BASANOS_RETRY_WEBHOOK_URL || undefined,
+    defaultDeadlineMinutes: positive(env.BASANOS_RETRY_DEFAULT_DEADLINE_MINUTES),
+    maxDeadlineMinutes: positive(env.BASANOS_RETRY_MAX_DEADLINE_MINUTES),
+  };
+}
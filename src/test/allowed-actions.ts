@@ -0,0 +1,193 @@
+/**
+ * Test: permissible-actions matrix.
+ * One enrichment per query, every in-scope action evaluated against the
+ * same context, and each classified as allow, warn, require_approval
+ * or block with its reasons.
+ *
+ * Run: npm run build && node dist/test/allowed-actions.js
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { ConstraintEngine } from "../constraints/engine.js";
+import { itsmDomain } from "../domains/itsm/ontology.js";
+import { loadConstraintsFromYaml } from "../loader.js";
+import { OntologyEngine } from "../ontology/engine.js";
+import { assessAllowedActions, parseMetadataJson } from "../server/allowed-actions.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+const dir = mkdtempSync(join(tmpdir(), "basanos-allowed-actions-"));
+const rulesPath = join(dir, "constraints.yaml");
+writeFileSync(rulesPath, `
+constraints:
+  - id: test:no_resolve_in_freeze
+    name: No Resolve In Freeze
+    domain: itsm
+    appliesTo: [incident]
+    relevantActions: [resolve, close]
+    severity: block
+    status: promoted
+    description: Nothing is resolved during a freeze.
+    conditions:
+      - { field: freeze, operator: eq, value: true }
+    violationMessage: Change freeze in effect.
+    satisfiedMessage: No freeze.
+  - id: test:reassign_p1_needs_approval
+    name: Reassigning A P1 Needs Approval
+    domain: itsm
+    appliesTo: [incident]
+    relevantActions: [reassign]
+    severity: require_approval
+    status: promoted
+    description: A lead signs off on moving a P1.
+    conditions:
+      - { field: priority, operator: eq, value: 1 }
+    violationMessage: Reassigning a P1 needs a lead.
+    satisfiedMessage: Not a P1.
+  - id: test:comment_on_p1
+    name: Comment On P1
+    domain: itsm
+    appliesTo: [incident]
+    relevantActions: [comment, close]
+    severity: warn
+    status: promoted
+    description: Comments on a P1 are visible to the customer.
+    conditions:
+      - { field: priority, operator: eq, value: 1 }
+    violationMessage: The customer sees comments on P1s.
+    satisfiedMessage: Not a P1.
+  - id: test:approve_change
+    name: Approve Change
+    domain: itsm
+    appliesTo: [change_request]
+    relevantActions: [approve]
+    severity: block
+    status: promoted
+    description: Changes only.
+    conditions:
+      - { field: freeze, operator: eq, value: true }
+    violationMessage: Freeze.
+    satisfiedMessage: No freeze.
+  - id: test:escalate_candidate
+    name: Escalate Candidate
+    domain: itsm
+    appliesTo: [incident]
+    relevantActions: [escalate]
+    severity: block
+    status: candidate
+    description: Not promoted yet.
+    conditions:
+      - { field: priority, operator: eq, value: 1 }
+    violationMessage: No.
+    satisfiedMessage: Yes.
+  - id: test:audit_everything
+    name: Audit Everything
+    domain: itsm
+    appliesTo: ["*"]
+    relevantActions: ["*"]
+    severity: info
+    status: promoted
+    description: Applies to every action.
+    conditions:
+      - { field: priority, operator: eq, value: 99 }
+    violationMessage: Never.
+    satisfiedMessage: Fine.
+`);
+const ontology = new OntologyEngine();
+ontology.registerDomain(itsmDomain);
+const engine = new ConstraintEngine({ ontology });
+for (const c of loadConstraintsFromYaml(rulesPath)) engine.register(c);
+
+// ── Actions in scope ──────────────────────────────────────────
+
+console.log("\n🔍 Actions In Scope");
+
+const inScope = engine.actionsInScope("itsm:incident:INC001");
+assert("Actions come from promoted constraints in scope",
+  inScope.join() === "close,comment,reassign,resolve", inScope.join());
+assert("Other entity types have their own actions",
+  engine.actionsInScope("itsm:change_request:CHG001").join() === "approve");
+
+// ── Matrix ────────────────────────────────────────────────────
+
+console.log("\n🔍 Allowed Actions Matrix");
+
+const lookups: string[] = [];
+const sources = [{
+  id: "servicenow",
+  enrich: async (entityRef: string) => {
+    lookups.push(entityRef);
+    return { priority: 1, freeze: true };
+  },
+}];
+const principal = { id: "planner", roles: ["sre"], method: "api_key" as const };
+
+const matrix = await assessAllowedActions(engine, sources, { targetEntity: "itsm:incident:INC001", principal });
+const outcome = (action: string) => matrix.actions.find((a) => a.action === action)?.outcome;
+
+assert("Entity is enriched once", lookups.join() === "INC001", lookups.join());
+assert("Every action in scope is listed", matrix.actions.map((a) => a.action).join() === "close,comment,reassign,resolve");
+assert("Blocked action", outcome("resolve") === "block");
+assert("Action needing approval", outcome("reassign") === "require_approval");
+assert("Allowed action with a warning", outcome("comment") === "warn");
+assert("Outcome lists match the rows",
+  matrix.blocked.join() === "close,resolve" && matrix.requiresApproval.join() === "reassign" &&
+  matrix.warned.join() === "comment" && matrix.allowed.length === 0);
+
+const close = matrix.actions.find((a) => a.action === "close");
+assert("Reasons are most severe first",
+  close?.reasons.map((r) => r.constraintId).join() === "test:no_resolve_in_freeze,test:comment_on_p1",
+  close?.reasons.map((r) => r.constraintId).join());
+assert("Reasons carry the explanation", close?.reasons[0].explanation === "Change freeze in effect.");
+assert("Enrichment trace is returned", matrix.enrichment.length === 1 && matrix.enrichment[0].connector === "servicenow");
+
+const audited = engine.queryAuditLog({ entityId: "itsm:incident:INC001" });
+assert("Each action is audited for the caller",
+  audited.total === 4 && audited.entries.every((e) => e.principal?.id === "planner" && e.enrichment?.length === 1));
+assert("Assessments are dry runs, left out of the summary",
+  audited.entries.every((e) => e.dryRun === true) && engine.getAuditSummary().total === 0);
+
+const chosen = await assessAllowedActions(engine, [], {
+  targetEntity: "itsm:incident:INC002",
+  actions: ["comment", "archive"],
+  metadata: { priority: 3 },
+});
+assert("Requested actions only", chosen.actions.map((a) => a.action).join() === "comment,archive");
+assert("Unconstrained and passing actions are allowed", chosen.allowed.join() === "comment,archive");
+assert("Caller metadata is used without sources", chosen.enrichment.length === 0);
+
+const parseError = (json: string) => {
+  try {
+    parseMetadataJson(json);
+    return "";
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+assert("Metadata JSON is parsed", parseMetadataJson('{"priority":1}').priority === 1);
+assert("Missing metadata is empty", Object.keys(parseMetadataJson(undefined)).length === 0);
+assert("Invalid metadata JSON is reported", parseError("{priority:") !== "");
+assert("Metadata must be an object", parseError("[1]") === "metadata_json must be a JSON object");
+
+rmSync(dir, { recursive: true, force: true });
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All allowed-actions tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
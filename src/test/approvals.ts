@@ -0,0 +1,265 @@
+/**
+ * Test: human approval for held actions.
+ * A require_approval constraint parks a proxied call instead of
+ * dropping it; a reviewer approves (forwarding the original call) or
+ * rejects it, and the queue is shared through its file.
+ *
+ * Run: npm run build && node dist/test/approvals.js
+ */
+
+import { spawn } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod";
+
+import { ConstraintEngine } from "../constraints/engine.js";
+import { ApprovalError, ApprovalQueue, createApprovalQueueFromEnv } from "../constraints/approvals.js";
+import { ActionMapper } from "../connectors/action-mapping.js";
+import { loadConstraintsFromYaml } from "../loader.js";
+import { registerGuardedTool } from "../server/proxy.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+function textOf(result: unknown): string {
+  const content = (result as { content?: Array<{ type: string; text?: string }> }).content ?? [];
+  return content.map((c) => c.text ?? "").join("");
+}
+
+async function rejects(fn: () => unknown, status: number): Promise<boolean> {
+  try {
+    await fn();
+    return false;
+  } catch (err) {
+    return err instanceof ApprovalError && err.status === status;
+  }
+}
+
+const dir = mkdtempSync(join(tmpdir(), "basanos-approvals-"));
+
+// ── Verdicts ──────────────────────────────────────────────────
+
+console.log("\n🔍 Require-Approval Verdicts");
+
+const rulesPath = join(dir, "constraints.yaml");
+writeFileSync(rulesPath, `
+constraints:
+  - id: test:p1_resolve_needs_approval
+    name: P1 Resolve Needs Approval
+    domain: itsm
+    appliesTo: ["*"]
+    relevantActions: [resolve]
+    severity: require_approval
+    status: promoted
+    description: A human signs off on resolving a P1.
+    conditions:
+      - { field: priority, operator: eq, value: 1 }
+    violationMessage: Resolving a P1 needs a human sign-off.
+    satisfiedMessage: Not a P1.
+  - id: test:no_resolve_in_freeze
+    name: No Resolve In Freeze
+    domain: itsm
+    appliesTo: ["*"]
+    relevantActions: [resolve]
+    severity: block
+    status: promoted
+    description: Nothing is resolved during a freeze.
+    conditions:
+      - { field: freeze, operator: eq, value: true }
+    violationMessage: Change freeze in effect.
+    satisfiedMessage: No freeze.
+`);
+const engine = new ConstraintEngine();
+for (const c of loadConstraintsFromYaml(rulesPath)) engine.register(c);
+
+const context = (metadata: Record<string, unknown>) => ({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata,
+});
+
+const held = await engine.evaluate(context({ priority: 1 }));
+assert("Held action is not allowed", !held.allowed);
+assert("Held action requires approval", held.requiresApproval === true);
+assert("Summary says approval is required", held.summary.startsWith("APPROVAL REQUIRED"), held.summary);
+
+const frozen = await engine.evaluate(context({ priority: 1, freeze: true }));
+assert("A block overrides approval", !frozen.allowed && frozen.requiresApproval === undefined);
+assert("Unaffected action is allowed", (await engine.evaluate(context({ priority: 3 }))).allowed);
+
+// ── Queue ─────────────────────────────────────────────────────
+
+console.log("\n🔍 Approval Queue");
+
+const queuePath = join(dir, "approvals.json");
+const queue = new ApprovalQueue({ path: queuePath, reviewerRoles: ["approver"] });
+const cabLead = { id: "cab-lead", roles: ["approver"] };
+const input = { upstream: "servicenow", tool: "Resolve incident", exposedName: "sn_resolve_incident", args: { incident_number: "INC001" }, verdict: held };
+
+const first = await queue.submit(input);
+assert("Submitted request is pending", first.status === "pending" && !!first.expiresAt);
+
+const dashboard = new ApprovalQueue({ path: queuePath, reviewerRoles: ["approver"] });
+assert("Another process sees the request", dashboard.get(first.id)?.status === "pending");
+
+const forwardedArgs: unknown[] = [];
+const executed = await dashboard.approve(first.id, cabLead, "Customer confirmed fix", async (r) => {
+  forwardedArgs.push(r.args);
+  return { sys_id: "abc" };
+});
+assert("Approval forwards the original arguments", JSON.stringify(forwardedArgs) === '[{"incident_number":"INC001"}]');
+assert("Approved request records outcome",
+  executed.status === "executed" && executed.decision?.by === "cab-lead" && (executed.outcome?.result as { sys_id?: string })?.sys_id === "abc");
+assert("Outcome is visible to the parking process", queue.get(first.id)?.status === "executed");
+assert("Decided request cannot be decided again", await rejects(() => queue.reject(first.id, cabLead, "late"), 409));
+assert("Unknown ID is reported", await rejects(() => queue.reject("nope", cabLead, "y"), 404));
+
+const second = await queue.submit(input);
+const rejected = await queue.reject(second.id, cabLead, "Wait for the postmortem");
+assert("Rejected request keeps the reason", rejected.status === "rejected" && rejected.decision?.reason === "Wait for the postmortem");
+
+const third = await queue.submit(input);
+const failedRun = await queue.approve(third.id, cabLead, "ok", async () => { throw new Error("upstream down"); });
+assert("Failed forward is recorded", failedRun.status === "failed" && failedRun.outcome?.error === "upstream down");
+
+const requester = { id: "planner-agent", roles: ["sre", "approver"], method: "api_key" as const };
+const own = await queue.submit({ ...input, verdict: { ...held, context: { ...held.context, principal: requester } } });
+assert("Requester cannot approve their own request",
+  await rejects(() => queue.approve(own.id, requester, "looks fine to me", async () => "forwarded"), 403));
+assert("Requester cannot reject their own request", await rejects(() => queue.reject(own.id, requester, "never mind"), 403));
+assert("Reviewer without a reviewer role is refused",
+  await rejects(() => queue.approve(own.id, { id: "triage-bot", roles: ["triage"] }, "ok", async () => "forwarded"), 403));
+assert("Refused decisions leave the request pending", queue.get(own.id)?.status === "pending");
+assert("Another reviewer can decide it", (await queue.reject(own.id, cabLead, "Not during the incident")).status === "rejected");
+
+const shortLived = new ApprovalQueue({ ttlMs: 1 });
+const stale = await shortLived.submit(input);
+await new Promise((r) => setTimeout(r, 5));
+assert("Undecided request expires", shortLived.get(stale.id)?.status === "expired");
+assert("Pending list is newest first", queue.list().map((r) => r.id).join() === [own.id, third.id, second.id, first.id].join());
+
+// Two dashboards approving the same request at once
+const contested = await queue.submit(input);
+const executions: string[] = [];
+const racing = [queue, dashboard].map((q) => q.approve(contested.id, cabLead, "ok", async (r) => {
+  executions.push(r.id);
+  return "forwarded";
+}).then(() => 200, (err) => (err instanceof ApprovalError ? err.status : 500)));
+const raceStatuses = (await Promise.all(racing)).sort().join();
+assert("A request approved twice at once is forwarded once", executions.length === 1 && raceStatuses === "200,409", raceStatuses);
+
+// Separate processes parking calls at once
+const submitScript = join(dir, "submit.mjs");
+writeFileSync(submitScript, `
+const { ApprovalQueue } = await import(process.env.QUEUE_MODULE);
+const queue = new ApprovalQueue({ path: process.env.QUEUE_PATH });
+const input = JSON.parse(process.env.INPUT);
+for (let i = 0; i < 20; i++) await queue.submit(input);
+`);
+const sharedQueuePath = join(dir, "shared-approvals.json");
+const submitters = [1, 2, 3].map(() => new Promise<number | null>((done) => {
+  spawn(process.execPath, [submitScript], {
+    env: {
+      ...process.env,
+      QUEUE_MODULE: new URL("../constraints/approvals.js", import.meta.url).href,
+      QUEUE_PATH: sharedQueuePath,
+      INPUT: JSON.stringify(input),
+    },
+    stdio: "inherit",
+  }).on("exit", done);
+}));
+const submitExits = await Promise.all(submitters);
+assert("No process's parked calls are lost",
+  submitExits.every((c) => c === 0) && new ApprovalQueue({ path: sharedQueuePath }).list().length === 60);
+
+// Reviewer roles from the environment
+process.env.BASANOS_APPROVALS_STORE = "memory";
+const anonymous = { id: "dashboard", roles: [] };
+const unauthenticated = createApprovalQueueFromEnv(dir, false);
+const openRequest = await unauthenticated.submit(input);
+assert("Without authentication anyone may decide",
+  unauthenticated.getReviewerRoles().length === 0 &&
+  (await unauthenticated.reject(openRequest.id, anonymous, "not now")).status === "rejected");
+const authenticated = createApprovalQueueFromEnv(dir);
+const guardedRequest = await authenticated.submit(input);
+assert("With authentication the approver role is required",
+  authenticated.getReviewerRoles().join() === "approver" &&
+  await rejects(() => authenticated.reject(guardedRequest.id, anonymous, "not now"), 403));
+delete process.env.BASANOS_APPROVALS_STORE;
+
+// ── Proxy ─────────────────────────────────────────────────────
+
+console.log("\n🔍 Parking Proxied Calls");
+
+const mapper = new ActionMapper();
+mapper.add({
+  domain: "itsm",
+  tools: [{ tool: "Resolve incident", action: "resolve", targetArg: "incident_number", entityType: "incident" }],
+});
+const parked = new ApprovalQueue();
+const upstreamCalls: unknown[] = [];
+const gateway = new McpServer({ name: "basanos", version: "0.1.0" });
+const spec = (exposedName: string, deferrable: boolean) => ({
+  exposedName,
+  upstreamName: "Resolve incident",
+  upstream: "servicenow",
+  upstreamLabel: "ServiceNow",
+  description: "Resolve an incident",
+  inputShape: { incident_number: z.string(), priority: z.number() },
+  deferrable,
+  forward: async (args: Record<string, unknown>) => {
+    upstreamCalls.push(args);
+    return { content: [{ type: "text" as const, text: "resolved" }] };
+  },
+});
+const deps = { constraintEngine: engine, actionMapper: mapper, enrichmentSources: [], approvals: parked };
+registerGuardedTool(gateway, deps, spec("sn_resolve_incident", true));
+registerGuardedTool(gateway, deps, spec("other_resolve_incident", false));
+
+const [agentSide, gatewaySide] = InMemoryTransport.createLinkedPair();
+await gateway.connect(gatewaySide);
+const agent = new Client({ name: "agent", version: "1.0.0" });
+await agent.connect(agentSide);
+
+const response = JSON.parse(textOf(await agent.callTool({
+  name: "sn_resolve_incident",
+  arguments: { incident_number: "INC001", priority: 1 },
+})));
+assert("Held call returns an approval ID", response.pendingApproval === true && typeof response.approvalId === "string");
+assert("Held call is not forwarded", upstreamCalls.length === 0);
+const request = parked.get(response.approvalId);
+assert("Parked request carries args and verdict",
+  request?.args.incident_number === "INC001" && request.verdict.requiresApproval === true && request.tool === "Resolve incident");
+
+const blocked = JSON.parse(textOf(await agent.callTool({
+  name: "other_resolve_incident",
+  arguments: { incident_number: "INC002", priority: 1 },
+})));
+assert("Non-deferrable tool is blocked instead", blocked.blocked === true && blocked.pendingApproval === undefined);
+assert("Only one request was parked", parked.list().length === 1);
+
+await agent.close();
+rmSync(dir, { recursive: true, force: true });
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All approval tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
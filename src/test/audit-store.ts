@@ -0,0 +1,362 @@
+/**
+ * Test: persistent audit store — JSONL persistence, rotation,
+ * cross-process visibility, filters, pagination, and the
+ * tamper-evident hash chain, and SIEM exporters.
+ *
+ * Run: npm run build && node dist/test/audit-store.js
+ */
+
+import { existsSync, mkdtempSync, rmSync, appendFileSync, readFileSync, unlinkSync, utimesSync, writeFileSync } from "fs";
+import { spawn } from "child_process";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConstraintEngine } from "../constraints/engine.js";
+import { JsonlAuditStore, InMemoryAuditStore } from "../constraints/audit-store.js";
+import {
+  AuditCheckpointer,
+  GENESIS_HASH,
+  computeEntryHash,
+  verifyChain,
+  verifyCheckpoint,
+} from "../constraints/audit-chain.js";
+import {
+  FileAuditSink,
+  SyslogAuditSink,
+  formatAuditEntries,
+  toCef,
+  toOcsf,
+  toSyslog,
+} from "../constraints/audit-export.js";
+import { itsmConstraints } from "../domains/itsm/constraints.js";
+import { createPublicKey } from "crypto";
+import { createSocket } from "dgram";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+const tmp = mkdtempSync(join(tmpdir(), "basanos-audit-"));
+const auditPath = join(tmp, "audit.jsonl");
+
+function engineWith(store: JsonlAuditStore | InMemoryAuditStore): ConstraintEngine {
+  const engine = new ConstraintEngine({ auditStore: store });
+  for (const c of itsmConstraints) engine.register({ ...c });
+  return engine;
+}
+
+// ── Persistence ───────────────────────────────────────────────
+
+console.log("\n🔍 JSONL Persistence");
+
+const first = engineWith(new JsonlAuditStore({ path: auditPath }));
+await first.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date("2026-01-01T10:00:00Z"),
+  metadata: { change_freeze_active: true },
+});
+await first.evaluate({
+  intendedAction: "reassign",
+  targetEntity: "itsm:incident:INC002",
+  relatedEntities: [],
+  timestamp: new Date("2026-01-01T11:00:00Z"),
+  metadata: { priority: "P1" },
+});
+assert("Audit file is written", existsSync(auditPath));
+
+// A second store on the same file models a restart or another process
+const secondStore = new JsonlAuditStore({ path: auditPath });
+assert("Entries survive a restart", secondStore.list().length === 2);
+assert("Summary counts survive", secondStore.summary().blocked === 1);
+
+await first.evaluate({
+  intendedAction: "close",
+  targetEntity: "itsm:incident:INC003",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { sla_breached: true, sla_has_penalty: true },
+});
+assert("Other process sees new entries", secondStore.list().length === 3);
+
+const second = engineWith(secondStore);
+await second.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC004",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: {},
+});
+const ids = first.getAuditLog().map((e) => e.id);
+assert("IDs stay sequential across processes", ids.join(",") === "1,2,3,4", ids.join(","));
+
+appendFileSync(auditPath, "{not json\n");
+assert("Corrupt lines are skipped", new JsonlAuditStore({ path: auditPath }).list().length === 4);
+
+// ── Queries ───────────────────────────────────────────────────
+
+console.log("\n🔍 Filters and Pagination");
+
+const blocked = first.queryAuditLog({ verdict: "blocked" });
+assert("Verdict filter: blocked", blocked.total === 1 && blocked.entries[0].verdict.context.targetEntity === "itsm:incident:INC001");
+assert("Verdict filter: warned", first.queryAuditLog({ verdict: "warned" }).total === 2);
+assert("Action filter", first.queryAuditLog({ action: "resolve" }).total === 2);
+assert("Entity filter", first.queryAuditLog({ entityId: "itsm:incident:INC002" }).total === 1);
+assert(
+  "Constraint filter",
+  first.queryAuditLog({ constraintId: "itsm:sla_breach_review" }).total === 1
+);
+
+const page = first.queryAuditLog({ offset: 1, limit: 2 });
+assert("Pages are newest first", page.entries[0].id === 3 && page.entries[1].id === 2);
+assert("Total ignores pagination", page.total === 4);
+
+// Evaluation time is the recorded timestamp, not the context timestamp
+const now = Date.now();
+assert(
+  "Time range filter",
+  first.queryAuditLog({ since: new Date(now - 60_000), until: new Date(now + 60_000) }).total === 4 &&
+    first.queryAuditLog({ until: "2000-01-01T00:00:00Z" }).total === 0
+);
+
+// ── Rotation and Retention ───────────────────────────────────
+
+console.log("\n🔍 Rotation and Retention");
+
+const rotatingPath = join(tmp, "rotating", "audit.jsonl");
+const rotatingStore = new JsonlAuditStore({ path: rotatingPath, maxBytes: 1500, maxFiles: 2 });
+const follower = new JsonlAuditStore({ path: rotatingPath, maxBytes: 1500, maxFiles: 2 });
+const rotating = engineWith(rotatingStore);
+for (let i = 0; i < 12; i++) {
+  await rotating.evaluate({
+    intendedAction: "resolve",
+    targetEntity: `itsm:incident:INC1${i}`,
+    relatedEntities: [],
+    timestamp: new Date(),
+    metadata: { change_freeze_active: i % 2 === 0 },
+  });
+  if (i % 3 === 0) follower.list();
+}
+assert("Rotated file is created", existsSync(join(tmp, "rotating", "audit.1.jsonl")));
+assert("Files beyond maxFiles are dropped", !existsSync(join(tmp, "rotating", "audit.3.jsonl")));
+const kept = new JsonlAuditStore({ path: rotatingPath, maxBytes: 1500, maxFiles: 2 }).list();
+assert("Oldest entries are rotated away", kept.length < 12 && kept[kept.length - 1].id === 12, `kept ${kept.length}`);
+const idList = (entries: Array<{ id: number }>) => entries.map((e) => e.id).join();
+assert("The rotating store's cache matches the files", idList(rotatingStore.list()) === idList(kept), idList(rotatingStore.list()));
+assert("Another process follows the rotation", idList(follower.list()) === idList(kept), idList(follower.list()));
+
+const retention = new JsonlAuditStore({ path: join(tmp, "retention.jsonl"), retentionDays: 1 });
+await retention.append({
+  timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+  verdict: first.getAuditLog()[0].verdict,
+  shadowResults: [],
+});
+await retention.append({ timestamp: new Date().toISOString(), verdict: first.getAuditLog()[1].verdict, shadowResults: [] });
+assert("Entries past retention are hidden", retention.list().length === 1 && retention.summary().total === 1);
+assert("An active file holding expired entries is rotated",
+  existsSync(join(tmp, "retention.1.jsonl")) &&
+  readFileSync(join(tmp, "retention.jsonl"), "utf-8").trim().split("\n").length === 1);
+const threeDaysAgo = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+utimesSync(join(tmp, "retention.1.jsonl"), threeDaysAgo, threeDaysAgo);
+await retention.append({ timestamp: new Date().toISOString(), verdict: first.getAuditLog()[1].verdict, shadowResults: [] });
+assert("Rotated files past retention are deleted",
+  !existsSync(join(tmp, "retention.1.jsonl")) && retention.list().length === 2);
+
+const capped = new JsonlAuditStore({ path: join(tmp, "capped.jsonl"), maxEntries: 3 });
+for (let i = 0; i < 5; i++) {
+  await capped.append({ timestamp: new Date().toISOString(), verdict: first.getAuditLog()[0].verdict, shadowResults: [] });
+}
+assert("The cache keeps only the newest entries",
+  capped.list().map((e) => e.id).join() === "3,4,5" &&
+  new JsonlAuditStore({ path: join(tmp, "capped.jsonl"), maxEntries: 3 }).list().length === 3);
+
+// ── Concurrent Appends ───────────────────────────────────────
+
+console.log("\n🔍 Concurrent Appends");
+
+// Separate processes appending to one file at once
+const sharedPath = join(tmp, "shared", "audit.jsonl");
+const writerScript = join(tmp, "writer.mjs");
+writeFileSync(writerScript, `
+const { JsonlAuditStore } = await import(process.env.STORE_MODULE);
+const store = new JsonlAuditStore({ path: process.env.AUDIT_PATH });
+const verdict = JSON.parse(process.env.VERDICT);
+for (let i = 0; i < 40; i++) {
+  await store.append({ timestamp: new Date().toISOString(), verdict, shadowResults: [] });
+}
+`);
+const writers = [1, 2, 3].map(() => new Promise<number | null>((done) => {
+  const child = spawn(process.execPath, [writerScript], {
+    env: {
+      ...process.env,
+      STORE_MODULE: new URL("../constraints/audit-store.js", import.meta.url).href,
+      AUDIT_PATH: sharedPath,
+      VERDICT: JSON.stringify(first.getAuditLog()[0].verdict),
+    },
+    stdio: "inherit",
+  });
+  child.on("exit", done);
+}));
+const exitCodes = await Promise.all(writers);
+const shared = new JsonlAuditStore({ path: sharedPath }).list();
+assert("Every process's entries are kept", exitCodes.every((c) => c === 0) && shared.length === 120, `${shared.length} entries`);
+assert("IDs are unique and sequential", shared.every((e, i) => e.id === i + 1));
+assert("The hash chain does not fork", verifyChain(shared).valid);
+assert("The lock file is released", !existsSync(`${sharedPath}.lock`));
+
+writeFileSync(`${sharedPath}.lock`, "999999999");
+await new JsonlAuditStore({ path: sharedPath }).append({
+  timestamp: new Date().toISOString(),
+  verdict: first.getAuditLog()[0].verdict,
+  shadowResults: [],
+});
+assert("A lock left by a dead process is taken over", !existsSync(`${sharedPath}.lock`));
+
+writeFileSync(`${sharedPath}.lock`, String(process.pid));
+let ticked = false;
+setTimeout(() => (ticked = true), 10);
+setTimeout(() => unlinkSync(`${sharedPath}.lock`), 60);
+const waited = await new JsonlAuditStore({ path: sharedPath }).append({
+  timestamp: new Date().toISOString(),
+  verdict: first.getAuditLog()[0].verdict,
+  shadowResults: [],
+});
+assert("Waiting for a held lock does not block the event loop", ticked && waited.id === 122, `id ${waited.id}`);
+
+// ── In-Memory Default ─────────────────────────────────────────
+
+console.log("\n🔍 In-Memory Store");
+
+const memory = engineWith(new InMemoryAuditStore());
+await memory.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { change_freeze_active: true },
+});
+assert("In-memory store assigns IDs", memory.getAuditLog()[0].id === 1);
+assert("In-memory store supports queries", memory.queryAuditLog({ verdict: "blocked" }).total === 1);
+
+// ── Hash Chain ────────────────────────────────────────────────
+
+console.log("\n🔍 Hash Chain and Checkpoints");
+
+const chained = first.getAuditLog();
+assert("Entries carry hashes", chained.every((e) => typeof e.hash === "string" && e.hash.length === 64));
+assert("First entry links to genesis", chained[0].prevHash === GENESIS_HASH);
+assert("Entries link to their predecessor", chained[2].prevHash === chained[1].hash);
+assert("Intact chain verifies", verifyChain(chained).valid);
+
+const tampered = JSON.parse(JSON.stringify(chained));
+tampered[1].verdict.allowed = !tampered[1].verdict.allowed;
+const tamperedResult = verifyChain(tampered);
+assert(
+  "Edited entry is detected",
+  !tamperedResult.valid && tamperedResult.breaks[0].entryId === 2 && tamperedResult.breaks[0].reason === "hash_mismatch"
+);
+
+const removed = chained.filter((e) => e.id !== 3);
+const removedResult = verifyChain(removed);
+assert("Removed entry is detected", removedResult.breaks.some((b) => b.reason === "prev_hash_mismatch" && b.entryId === 4));
+
+const rehashed = JSON.parse(JSON.stringify(chained));
+rehashed[1].verdict.summary = "rewritten";
+rehashed[1].hash = computeEntryHash(rehashed[1]);
+assert("Recomputed hash still breaks the next link", !verifyChain(rehashed).valid);
+
+const checkpointer = new AuditCheckpointer({
+  keyPath: join(tmp, "keys", "signing-key.pem"),
+  checkpointPath: join(tmp, "checkpoints.jsonl"),
+  every: 2,
+});
+const signedStore = new JsonlAuditStore({ path: join(tmp, "signed.jsonl"), checkpointer });
+for (let i = 0; i < 4; i++) {
+  await signedStore.append({ timestamp: new Date().toISOString(), verdict: chained[i].verdict, shadowResults: [] });
+}
+const checkpoints = checkpointer.list();
+assert("Checkpoints are taken every N entries", checkpoints.map((c) => c.entryId).join(",") === "2,4");
+
+const bundle = checkpointer.export();
+const publicKey = createPublicKey(bundle.publicKey);
+const signedEntries = signedStore.list();
+assert(
+  "Exported checkpoints verify against the log",
+  bundle.checkpoints.every((c) => {
+    const r = verifyCheckpoint(c, publicKey, signedEntries);
+    return r.signatureValid && r.matchesLog === true;
+  })
+);
+
+const forged = { ...checkpoints[0], hash: "f".repeat(64) };
+assert("Forged checkpoint fails signature check", !verifyCheckpoint(forged, publicKey, signedEntries).signatureValid);
+
+// ── Exporters ─────────────────────────────────────────────────
+
+console.log("\n🔍 Exporters and Sinks");
+
+const [blockedEntry, warnedEntry] = chained;
+const csv = formatAuditEntries(chained, "csv").trim().split("\n");
+assert("CSV has a header and one row per entry", csv[0].startsWith("id,timestamp,action") && csv.length === chained.length + 1);
+assert("CSV row carries outcome and blocking rule", csv[1].includes(",blocked,itsm:change_freeze_active,"));
+
+const ocsf = toOcsf(blockedEntry);
+assert("OCSF event is API Activity", ocsf.class_uid === 6003 && ocsf.type_uid === 600399);
+assert("OCSF status reflects the block", ocsf.status_id === 2 && ocsf.disposition === "Blocked");
+
+const syslogLine = toSyslog(warnedEntry, { hostname: "gw-01" });
+assert(
+  "Syslog line follows RFC 5424 layout",
+  /^<109>1 \S+ gw-01 basanos \d+ VERDICT \[basanos@32473 id="2" action="reassign" [^\]]*outcome="warned"/.test(syslogLine),
+  syslogLine
+);
+
+const cefLine = toCef({
+  ...blockedEntry,
+  verdict: { ...blockedEntry.verdict, summary: "a=b | c\\d" },
+});
+assert("CEF header and severity", cefLine.startsWith("CEF:0|project-basanos|Basanos|0.1.0|verdict:blocked|Agent action blocked|8|"));
+assert("CEF extension values are escaped", cefLine.includes("msg=a\\=b | c\\\\d"), cefLine);
+
+const exportFile = join(tmp, "export", "verdicts.csv");
+const fileSink = new FileAuditSink(exportFile, "csv");
+const received: string[] = [];
+const listener = createSocket("udp4");
+await new Promise<void>((done) => listener.bind(0, "127.0.0.1", () => done()));
+listener.on("message", (msg) => received.push(msg.toString("utf-8")));
+const udpSink = new SyslogAuditSink({ host: "127.0.0.1", port: listener.address().port, protocol: "udp", format: "cef" });
+const failingSink = { description: "broken", write: () => { throw new Error("down"); }, close: () => {} };
+
+const streaming = new ConstraintEngine({ auditSinks: [failingSink, fileSink, udpSink] });
+for (const c of itsmConstraints) streaming.register({ ...c });
+const streamed = await streaming.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { change_freeze_active: true },
+});
+await new Promise((done) => setTimeout(done, 200));
+assert("A failing sink does not affect the verdict", !streamed.allowed);
+assert("File sink writes header and row", readFileSync(exportFile, "utf-8").trim().split("\n").length === 2);
+assert("UDP sink delivers a CEF line", received.length === 1 && received[0].startsWith("CEF:0|"));
+udpSink.close();
+listener.close();
+
+rmSync(tmp, { recursive: true, force: true });
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All audit store tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
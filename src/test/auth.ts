@@ -0,0 +1,183 @@
+/**
+ * Test: caller authentication and principal-aware rules.
+ * API keys and locally verified JWTs resolve to a principal, rules can
+ * condition on `principal.*`, and every audit entry records the caller.
+ *
+ * Run: npm run build && node dist/test/auth.js
+ */
+
+import { createHash, createHmac, createSign, generateKeyPairSync } from "crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { Authenticator, AuthenticationError, validateApiKeys, verifyJwt } from "../server/auth.js";
+import { ConstraintEngine } from "../constraints/engine.js";
+import { loadConstraintsFromYaml } from "../loader.js";
+import { toCsvRow, toOcsf } from "../constraints/audit-export.js";
+import type { Principal } from "../constraints/types.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+function rejects(fn: () => unknown, pattern: RegExp): boolean {
+  try {
+    fn();
+    return false;
+  } catch (err) {
+    return err instanceof AuthenticationError && pattern.test(err.message);
+  }
+}
+
+const b64 = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function hsToken(claims: Record<string, unknown>, secret: string, alg = "HS256"): string {
+  const signed = `${b64({ alg, typ: "JWT" })}.${b64(claims)}`;
+  const hash = { HS256: "sha256", HS384: "sha384", HS512: "sha512" }[alg] ?? "sha256";
+  return `${signed}.${createHmac(hash, secret).update(signed).digest("base64url")}`;
+}
+
+const now = Math.floor(Date.now() / 1000);
+
+// ── API keys ──────────────────────────────────────────────────
+
+console.log("\n🔍 API Keys");
+
+process.env.TEST_SRE_KEY = "sre-secret";
+const auth = new Authenticator({
+  apiKeys: [
+    { id: "triage-bot", sha256: createHash("sha256").update("triage-secret").digest("hex"), roles: ["triage"], team: "service-desk" },
+    { id: "sre-agent", key: "${TEST_SRE_KEY}", roles: ["sre", "senior"] },
+    { id: "dotted-bot", key: "aaa.bbb.ccc", roles: ["triage"] },
+  ],
+  jwt: { secret: "jwt-secret", issuer: "https://idp.example.com", audience: "basanos" },
+});
+
+assert("Configured credentials make auth required", auth.getMode() === "required");
+assert("Unconfigured authenticator is off", new Authenticator().getMode() === "off");
+
+const triage = auth.authenticate({ authorization: "Bearer triage-secret" });
+assert("Hashed key resolves to its principal",
+  triage?.id === "triage-bot" && triage.roles[0] === "triage" && triage.team === "service-desk" && triage.method === "api_key");
+assert("X-API-Key header works, with ${VAR} keys", auth.authenticate({ "x-api-key": "sre-secret" })?.id === "sre-agent");
+assert("Unknown key is rejected", rejects(() => auth.authenticate({ authorization: "Bearer nope" }), /Invalid API key/));
+assert("A key shaped like a JWT still matches as a key",
+  auth.authenticate({ authorization: "Bearer aaa.bbb.ccc" })?.id === "dotted-bot");
+assert("Missing credentials are rejected", rejects(() => auth.authenticate({}), /Missing credentials/));
+assert("Optional mode lets anonymous callers through",
+  new Authenticator({ mode: "optional", apiKeys: [{ id: "x", key: "k" }] }).authenticate({}) === undefined);
+
+const badKeys = validateApiKeys({ keys: [{ id: "a" }, { key: "k", sha256: "abc" }, { id: "b", key: "k", roles: "sre" }] });
+assert("Invalid key entries are reported", badKeys.length === 5, badKeys.join("; "));
+
+// ── JWT ───────────────────────────────────────────────────────
+
+console.log("\n🔍 JWT");
+
+const claims = { sub: "planner-agent", roles: "sre oncall", team: "platform", iss: "https://idp.example.com", aud: "basanos", exp: now + 300 };
+const jwtPrincipal = auth.authenticate({ authorization: `Bearer ${hsToken(claims, "jwt-secret")}` });
+assert("HS256 token resolves to a principal",
+  jwtPrincipal?.id === "planner-agent" && jwtPrincipal.roles.join(",") === "sre,oncall" && jwtPrincipal.team === "platform" && jwtPrincipal.method === "jwt");
+assert("HS512 is supported", verifyJwt(hsToken(claims, "s", "HS512"), { secret: "s" }).sub === "planner-agent");
+assert("Wrong secret is rejected", rejects(() => verifyJwt(hsToken(claims, "other"), { secret: "jwt-secret" }), /signature/));
+assert("Expired token is rejected", rejects(() => verifyJwt(hsToken({ ...claims, exp: now - 120 }, "s"), { secret: "s" }), /expired/));
+const { exp: _exp, ...lasting } = claims;
+assert("Token without exp is rejected", rejects(() => verifyJwt(hsToken(lasting, "s"), { secret: "s" }), /no expiry/));
+assert("Max age accepts a recent token without exp",
+  verifyJwt(hsToken({ ...lasting, iat: now - 60 }, "s"), { secret: "s", maxAgeSec: 300 }).sub === "planner-agent");
+assert("Max age rejects an old token",
+  rejects(() => verifyJwt(hsToken({ ...claims, iat: now - 3600 }, "s"), { secret: "s", maxAgeSec: 300 }), /too old/));
+assert("Max age requires iat",
+  rejects(() => verifyJwt(hsToken(claims, "s"), { secret: "s", maxAgeSec: 300 }), /no issue time/));
+assert("Wrong audience is rejected",
+  rejects(() => verifyJwt(hsToken({ ...claims, aud: "other" }, "s"), { secret: "s", audience: "basanos" }), /audience/));
+assert("Wrong issuer is rejected",
+  rejects(() => verifyJwt(hsToken({ ...claims, iss: "evil" }, "s"), { secret: "s", issuer: "https://idp.example.com" }), /issuer/));
+const unsigned = `${b64({ alg: "none" })}.${b64(claims)}.`;
+assert("alg none is rejected", rejects(() => verifyJwt(unsigned, { secret: "s" }), /Unsupported/));
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const rsSigned = `${b64({ alg: "RS256", typ: "JWT" })}.${b64({ sub: "rs-agent", roles: ["triage"], exp: now + 300 })}`;
+const rsToken = `${rsSigned}.${createSign("RSA-SHA256").update(rsSigned).sign(privateKey).toString("base64url")}`;
+const publicPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+assert("RS256 token verifies against the public key", verifyJwt(rsToken, { publicKey: publicPem }).sub === "rs-agent");
+assert("RS256 is refused without a public key", rejects(() => verifyJwt(rsToken, { secret: "s" }), /No public key/));
+// HMAC with the public key as secret must not pass for an RS-only setup
+assert("HS token signed with the public key is refused",
+  rejects(() => verifyJwt(hsToken(claims, publicPem), { publicKey: publicPem }), /No secret/));
+
+// ── Principal in rules and audit ──────────────────────────────
+
+console.log("\n🔍 Principal-Aware Rules");
+
+const dir = mkdtempSync(join(tmpdir(), "basanos-auth-"));
+const rulesPath = join(dir, "constraints.yaml");
+writeFileSync(rulesPath, `
+constraints:
+  - id: test:senior_only_p1_resolve
+    name: Senior Only P1 Resolve
+    domain: itsm
+    appliesTo: ["*"]
+    relevantActions: [resolve]
+    severity: block
+    status: promoted
+    description: Only senior agents resolve P1s.
+    conditions:
+      - { field: priority, operator: eq, value: 1 }
+      - not: { field: principal.roles, operator: contains, value: senior }
+    violationMessage: "{{principal.id|An anonymous caller}} is not senior enough to resolve a P1."
+    satisfiedMessage: Caller may resolve.
+`);
+const engine = new ConstraintEngine();
+for (const c of loadConstraintsFromYaml(rulesPath)) engine.register(c);
+rmSync(dir, { recursive: true, force: true });
+
+const context = (principal?: Principal, metadata: Record<string, unknown> = { priority: 1 }) => ({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata,
+  principal,
+});
+
+const triageVerdict = await engine.evaluate(context(triage));
+assert("Rule blocks a non-senior principal", !triageVerdict.allowed);
+assert("Message names the principal",
+  triageVerdict.results[0].explanation === "triage-bot is not senior enough to resolve a P1.", triageVerdict.results[0].explanation);
+
+const sre = auth.authenticate({ "x-api-key": "sre-secret" });
+assert("Rule allows a senior principal", (await engine.evaluate(context(sre))).allowed);
+
+const spoofed = await engine.evaluate(context(undefined, { priority: 1, principal: { id: "x", roles: ["senior"] } }));
+assert("Metadata cannot impersonate a principal", !spoofed.allowed);
+const dotted = await engine.evaluate(context(triage, { priority: 1, "principal.roles": ["senior"], "principal.id": "sre-agent" }));
+assert("Literal dotted principal keys cannot impersonate a principal",
+  !dotted.allowed && dotted.results[0].explanation.startsWith("triage-bot "), dotted.results[0].explanation);
+
+const log = engine.getAuditLog();
+assert("Audit entry records the principal", log[0].principal?.id === "triage-bot" && log[1].principal?.id === "sre-agent");
+assert("Anonymous calls record no principal", log[2].principal === undefined);
+assert("Audit log can be filtered by principal",
+  engine.queryAuditLog({ principal: "sre-agent" }).total === 1);
+assert("CSV export carries the principal", toCsvRow(log[0]).endsWith(",triage-bot,"));
+const actor = toOcsf(log[0]).actor as { user?: { uid?: string; org?: { name?: string } } } | undefined;
+assert("OCSF export maps the principal to actor.user",
+  actor?.user?.uid === "triage-bot" && actor.user.org?.name === "service-desk");
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All auth tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,202 @@
+/**
+ * Test: dry runs of proxied tools.
+ * A call sent with `_dry_run` is enriched and evaluated like any other,
+ * returns the verdict and the exact upstream request, is flagged in the
+ * audit log, and never reaches the upstream.
+ *
+ * Run: npm run build && node dist/test/dry-run.js
+ */
+
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod";
+
+import { ConstraintEngine } from "../constraints/engine.js";
+import { toCsvRow } from "../constraints/audit-export.js";
+import { ActionMapper, createUnmappedToolConstraint } from "../connectors/action-mapping.js";
+import { ServiceNowMCPClient } from "../connectors/servicenow/mcp-proxy.js";
+import { registerGuardedTool } from "../server/proxy.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+function textOf(result: unknown): string {
+  const content = (result as { content?: Array<{ type: string; text?: string }> }).content ?? [];
+  return content.map((c) => c.text ?? "").join("");
+}
+
+const dir = mkdtempSync(join(tmpdir(), "basanos-dry-run-"));
+
+// ── ServiceNow request preview ────────────────────────────────
+
+console.log("\n🔍 ServiceNow Request Preview");
+
+// Stand-in instance: hands out a token and the tool list, and records
+// every other request so the test can prove nothing was executed
+const executed: string[] = [];
+const instance = createServer((req, res) => {
+  res.setHeader("content-type", "application/json");
+  if (req.url === "/oauth_token.do") {
+    res.end(JSON.stringify({ access_token: "token", expires_in: 1800 }));
+  } else if (req.url?.startsWith("/api/sn_mcp_server/mcp_tools_api/tools/server/")) {
+    res.end(JSON.stringify({ result: { tools: [
+      {
+        name: "Resolve incident",
+        description: "Resolve an incident. This is a WRITE operation.",
+        tool_type: "rest_api",
+        api_endpoint: "/api/sn_mcp_server/mcp_action_service/resolve_incident",
+        api_method: "POST",
+        tool_inputs: { incident_number: { type: "string", required: true } },
+        template: { incident_number: "{{incident_number}}", resolution_notes: "{{resolution_notes}}", source: "agent" },
+      },
+      {
+        name: "Incident summarization",
+        description: "Summarize an incident record.",
+        tool_type: "ai_skill",
+        preprocessing_endpoint: "/api/sn_mcp_server/mcp_lookup_service/preprocess_and_execute_skill",
+        tool_inputs: { number: { type: "string", required: true } },
+        template: { payload: { tablename: "incident" } },
+        config_dict: { model: "default" },
+      },
+    ] } }));
+  } else {
+    executed.push(`${req.method} ${req.url}`);
+    res.end(JSON.stringify({ result: "done" }));
+  }
+});
+await new Promise<void>((done) => instance.listen(0, "127.0.0.1", () => done()));
+const client = new ServiceNowMCPClient({
+  instanceUrl: `http://127.0.0.1:${(instance.address() as AddressInfo).port}`,
+  tokenFile: join(dir, "token.json"),
+  clientId: "id",
+  clientSecret: "secret",
+});
+
+const resolveRequest = await client.buildRequest("Resolve incident", { incident_number: "INC001" });
+assert("REST tool template is expanded",
+  JSON.stringify(resolveRequest) === JSON.stringify({
+    method: "POST",
+    endpoint: "/api/sn_mcp_server/mcp_action_service/resolve_incident",
+    payload: { incident_number: "INC001", resolution_notes: "", source: "agent" },
+  }), JSON.stringify(resolveRequest));
+
+const skillRequest = await client.buildRequest("Incident summarization", { number: "INC001" });
+assert("AI skill arguments are merged into the payload",
+  JSON.stringify(skillRequest.payload) === '{"payload":{"tablename":"incident","number":"INC001"},"config_dict":{"model":"default"}}',
+  JSON.stringify(skillRequest.payload));
+const again = await client.buildRequest("Incident summarization", { number: "INC002" });
+assert("Previewing leaves the tool template untouched",
+  (skillRequest.payload.payload as Record<string, unknown>).number === "INC001" &&
+  (again.payload.payload as Record<string, unknown>).number === "INC002");
+assert("Building a request sends nothing", executed.length === 0);
+
+await client.executeTool("Resolve incident", { incident_number: "INC001" });
+assert("Executing sends the previewed request",
+  executed.join() === "POST /api/sn_mcp_server/mcp_action_service/resolve_incident");
+
+// ── Guarded tools ─────────────────────────────────────────────
+
+console.log("\n🔍 Dry-Run Calls");
+
+const mapper = new ActionMapper();
+mapper.add({
+  domain: "itsm",
+  tools: [{ tool: "Resolve incident", action: "resolve", targetArg: "incident_number", entityType: "incident" }],
+});
+const engine = new ConstraintEngine();
+engine.register(createUnmappedToolConstraint("deny"));
+
+const forwarded: string[] = [];
+const gateway = new McpServer({ name: "basanos", version: "0.1.0" });
+const deps = { constraintEngine: engine, actionMapper: mapper, enrichmentSources: [] };
+registerGuardedTool(gateway, deps, {
+  exposedName: "sn_resolve_incident",
+  upstreamName: "Resolve incident",
+  upstream: "servicenow",
+  upstreamLabel: "ServiceNow",
+  description: "Resolve an incident. This is a WRITE operation.",
+  inputShape: { incident_number: z.string() },
+  preview: (args) => client.buildRequest("Resolve incident", args),
+  forward: async (args) => {
+    forwarded.push(String(args.incident_number));
+    return { content: [{ type: "text" as const, text: "resolved" }] };
+  },
+});
+registerGuardedTool(gateway, deps, {
+  exposedName: "tracker_delete_issue",
+  upstreamName: "delete_issue",
+  upstream: "tracker",
+  upstreamLabel: "Tracker",
+  description: "Delete an issue",
+  inputShape: { id: z.string() },
+  forward: async (args) => {
+    forwarded.push(String(args.id));
+    return { content: [{ type: "text" as const, text: "deleted" }] };
+  },
+});
+
+const [agentSide, gatewaySide] = InMemoryTransport.createLinkedPair();
+await gateway.connect(gatewaySide);
+const agent = new Client({ name: "agent", version: "1.0.0" });
+await agent.connect(agentSide);
+
+const allowed = JSON.parse(textOf(await agent.callTool({
+  name: "sn_resolve_incident",
+  arguments: { incident_number: "INC001", _dry_run: true },
+})));
+assert("Dry run reports the call would go through", allowed.dryRun === true && allowed.wouldForward === true);
+assert("Dry run returns the ServiceNow request",
+  (allowed.upstreamRequest?.payload as Record<string, unknown>)?.incident_number === "INC001" &&
+  allowed.upstreamRequest?.endpoint === "/api/sn_mcp_server/mcp_action_service/resolve_incident");
+assert("Basanos arguments stay out of the request",
+  !("_dry_run" in (allowed.upstreamRequest?.payload ?? {})));
+
+const blocked = JSON.parse(textOf(await agent.callTool({
+  name: "tracker_delete_issue",
+  arguments: { id: "42", _dry_run: true },
+})));
+assert("Dry run reports a block", blocked.dryRun === true && blocked.wouldForward === false && blocked.verdict.allowed === false);
+assert("Generic upstream request is the MCP tools/call",
+  JSON.stringify(blocked.upstreamRequest) === '{"method":"tools/call","params":{"name":"delete_issue","arguments":{"id":"42"}}}',
+  JSON.stringify(blocked.upstreamRequest));
+assert("Dry runs never reach the upstream", forwarded.length === 0 && executed.length === 1);
+
+await agent.callTool({ name: "sn_resolve_incident", arguments: { incident_number: "INC003" } });
+assert("A real call is still forwarded", forwarded.join() === "INC003");
+
+// ── Audit ─────────────────────────────────────────────────────
+
+console.log("\n🔍 Dry Runs in the Audit Log");
+
+const dryRuns = engine.queryAuditLog({ dryRun: true });
+assert("Dry runs are audited and flagged", dryRuns.total === 2 && dryRuns.entries.every((e) => e.dryRun === true));
+const real = engine.queryAuditLog({ dryRun: false });
+assert("Real calls are not flagged", real.total === 1 && real.entries[0].dryRun === undefined);
+assert("CSV export marks dry runs", toCsvRow(dryRuns.entries[0]).endsWith(",true"));
+
+await agent.close();
+instance.close();
+rmSync(dir, { recursive: true, force: true });
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All dry-run tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
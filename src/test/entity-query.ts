@@ -0,0 +1,145 @@
+/**
+ * Test: entity queries over the ontology store.
+ * Filters by domain, type (with subtypes), property conditions and
+ * related entities; sorts and pages; and keeps its indexes in step
+ * when entities are replaced.
+ *
+ * Run: npm run build && node dist/test/entity-query.js
+ */
+
+import { OntologyEngine } from "../ontology/engine.js";
+import type { EntityQuery } from "../ontology/query.js";
+import { parseEntitySort, validateEntityQuery } from "../ontology/query.js";
+import type { Entity } from "../ontology/types.js";
+import { itsmDomain } from "../domains/itsm/ontology.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+// ── Setup ─────────────────────────────────────────────────────
+
+const ontology = new OntologyEngine();
+ontology.registerDomain({
+  ...itsmDomain,
+  entityTypes: [
+    ...itsmDomain.entityTypes,
+    {
+      name: "database_instance",
+      label: "Database Instance",
+      domain: "itsm",
+      parentType: "configuration_item",
+      properties: [],
+      relationships: [],
+      description: "A database server CI.",
+    },
+  ],
+});
+
+function entity(id: string, properties: Entity["properties"], relationships: Entity["relationships"] = {}): Entity {
+  const [domain, type] = id.split(":");
+  return { id, domain, type, properties, relationships };
+}
+
+ontology.addEntity(entity("itsm:assignment_group:DB", { name: "Database Team" }));
+ontology.addEntity(entity("itsm:assignment_group:NET", { name: "Network Team" }));
+ontology.addEntity(entity("itsm:database_instance:PRODDB", { name: "prod-db", environment: "production" },
+  { owned_by: ["itsm:assignment_group:DB"] }));
+ontology.addEntity(entity("itsm:configuration_item:TESTDB", { name: "test-db", environment: "test", ci_class: "cmdb_ci_db_instance" },
+  { owned_by: ["itsm:assignment_group:DB"] }));
+ontology.addEntity(entity("itsm:configuration_item:ROUTER", { name: "core-router", environment: "production" },
+  { owned_by: ["itsm:assignment_group:NET"] }));
+ontology.addEntity(entity("itsm:incident:INC001", { priority: 1, state: "new", opened_at: "2026-10-01T10:00:00Z" },
+  { affects_ci: ["itsm:database_instance:PRODDB"] }));
+ontology.addEntity(entity("itsm:incident:INC002", { priority: "1", state: "in_progress", opened_at: "2026-10-03T10:00:00Z" },
+  { affects_ci: ["itsm:configuration_item:TESTDB"] }));
+ontology.addEntity(entity("itsm:incident:INC003", { priority: 1, state: "new", opened_at: "2026-10-02T10:00:00Z" },
+  { affects_ci: ["itsm:configuration_item:ROUTER"] }));
+ontology.addEntity(entity("itsm:incident:INC004", { priority: 3, state: "new" },
+  { affects_ci: ["itsm:database_instance:PRODDB"] }));
+ontology.addEntity(entity("hr:incident:HR001", { priority: 1 }));
+
+const ids = (query: EntityQuery) => ontology.queryEntities(query).entities.map((e) => e.id.split(":")[2]).join();
+
+// ── Filters ───────────────────────────────────────────────────
+
+console.log("\n🔍 Filters");
+
+assert("Type and domain filter", ids({ domain: "itsm", type: "incident" }) === "INC001,INC002,INC003,INC004");
+assert("Type without domain spans domains", ids({ type: "incident" }) === "HR001,INC001,INC002,INC003,INC004");
+assert("Subtypes match their parent type",
+  ids({ type: "configuration_item" }) === "ROUTER,TESTDB,PRODDB", ids({ type: "configuration_item" }));
+assert("CI class counts as a subtype", ids({ type: "cmdb_ci" }) === "TESTDB");
+assert("Property equality matches loosely like constraints",
+  ids({ domain: "itsm", where: [{ field: "priority", operator: "eq", value: 1 }] }) === "INC001,INC002,INC003");
+assert("Operators from the rule evaluator apply",
+  ids({ type: "incident", where: [{ field: "opened_at", operator: "gt", value: "2026-10-01T12:00:00Z" }] }) === "INC002,INC003");
+assert("Condition groups apply",
+  ids({ type: "incident", where: { any: [{ field: "priority", operator: "eq", value: 3 }, { field: "state", operator: "eq", value: "in_progress" }] } }) === "INC002,INC004");
+assert("In-list conditions use the index",
+  ids({ where: [{ field: "name", operator: "in", value: ["prod-db", "core-router"] }] }) === "ROUTER,PRODDB");
+assert("Entity ID is a queryable field",
+  ids({ where: [{ field: "id", operator: "contains", value: "INC00" }, { field: "state", operator: "exists" }] }) === "INC001,INC002,INC003,INC004");
+
+const p1OnProdDb = ids({
+  type: "incident",
+  where: [{ field: "priority", operator: "eq", value: 1 }],
+  related: [{
+    relationship: "affects_ci",
+    where: [{ field: "environment", operator: "eq", value: "production" }],
+    related: [{ relationship: "owned_by", where: [{ field: "name", operator: "eq", value: "Database Team" }] }],
+  }],
+});
+assert("P1 incidents on production CIs owned by Database Team", p1OnProdDb === "INC001", p1OnProdDb);
+
+// ── Sorting and paging ────────────────────────────────────────
+
+console.log("\n🔍 Sorting and Paging");
+
+assert("Sort descending by date, missing values last",
+  ids({ type: "incident", domain: "itsm", sort: parseEntitySort("-opened_at") }) === "INC002,INC003,INC001,INC004");
+assert("Sort by several keys",
+  ids({ type: "incident", domain: "itsm", sort: [{ field: "priority", order: "desc" }, { field: "opened_at" }] }) === "INC004,INC001,INC003,INC002");
+const page = ontology.queryEntities({ type: "incident", domain: "itsm", offset: 1, limit: 2 });
+assert("Pages report the total", page.total === 4 && page.offset === 1 && page.entities.map((e) => e.id).join() === "itsm:incident:INC002,itsm:incident:INC003");
+
+// ── Index maintenance ─────────────────────────────────────────
+
+console.log("\n🔍 Index Maintenance");
+
+ontology.addEntity(entity("itsm:incident:INC001", { priority: 2, state: "new" }));
+assert("Replaced entity leaves the old index entries",
+  ids({ where: [{ field: "priority", operator: "eq", value: 1 }] }) === "HR001,INC002,INC003");
+assert("Replaced entity is found by its new values",
+  ids({ where: [{ field: "priority", operator: "eq", value: 2 }] }) === "INC001");
+
+// ── Validation ────────────────────────────────────────────────
+
+console.log("\n🔍 Validation");
+
+assert("A valid query has no errors", validateEntityQuery({ type: "incident", where: [{ field: "priority", operator: "lte", value: 2 }] }).length === 0);
+const errors = validateEntityQuery({
+  where: [{ field: "priority", operator: "bogus" as "eq", value: 1 }],
+  related: [{ relationship: "" }],
+  sort: [{ field: "" }],
+  limit: -1,
+});
+assert("Invalid queries list every problem", errors.length === 4, errors.join("; "));
+assert("Sort expressions parse", JSON.stringify(parseEntitySort(" priority , -opened_at")) ===
+  '[{"field":"priority","order":"asc"},{"field":"opened_at","order":"desc"}]');
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All entity query tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,220 @@
+/**
+ * Test: persistent entity store and snapshots.
+ * In-memory and file-backed stores, loading them into the engine,
+ * picking up another process's sync, and named snapshots exported
+ * and imported as JSON.
+ *
+ * Run: npm run build && node dist/test/entity-store.js
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { OntologyEngine } from "../ontology/engine.js";
+import {
+  FileEntityStore,
+  InMemoryEntityStore,
+  createEntityStoreFromEnv,
+  createSnapshot,
+  validateSnapshot,
+} from "../ontology/entity-store.js";
+import type { EntitySnapshot } from "../ontology/entity-store.js";
+import type { Entity } from "../ontology/types.js";
+import { itsmDomain } from "../domains/itsm/ontology.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+// ── Setup ─────────────────────────────────────────────────────
+
+function entity(id: string, properties: Entity["properties"], relationships: Entity["relationships"] = {}): Entity {
+  const [domain, type] = id.split(":");
+  return { id, domain, type, properties, relationships };
+}
+
+function engine(): OntologyEngine {
+  const ontology = new OntologyEngine();
+  ontology.registerDomain(itsmDomain);
+  return ontology;
+}
+
+const graph = [
+  entity("itsm:configuration_item:MAIL", { name: "mail-server-prod-01" }),
+  entity("itsm:incident:INC001", { number: "INC001", priority: "P1" }, { affects_ci: ["itsm:configuration_item:MAIL"] }),
+];
+
+const dir = mkdtempSync(join(tmpdir(), "basanos-entities-"));
+const path = join(dir, "entities.json");
+
+// ── Engine and store ──────────────────────────────────────────
+
+console.log("\n🔍 Engine and Store");
+
+const memory = new InMemoryEntityStore();
+const ontology = engine();
+assert("Empty store loads nothing", ontology.attachStore(memory) === 0);
+for (const e of graph) ontology.addEntity(e);
+assert("Adding entities does not write through", memory.load().length === 0);
+ontology.persist();
+assert("Persist saves every entity", memory.load().map((e) => e.id).sort().join() === graph.map((e) => e.id).sort().join());
+
+const restarted = engine();
+assert("A new engine loads the persisted graph",
+  restarted.attachStore(memory) === 2 && restarted.traverse("itsm:incident:INC001", 1).has("itsm:configuration_item:MAIL"));
+assert("Refresh is a no-op when nothing changed", !restarted.refresh());
+
+restarted.replaceEntities([entity("itsm:incident:INC002", { number: "INC002" })]);
+assert("Replacing entities clears the indexes",
+  restarted.queryEntities({ type: "incident" }).total === 1 &&
+  restarted.traversePaths("itsm:configuration_item:MAIL", { direction: "incoming" }).length === 0);
+
+// ── File store ────────────────────────────────────────────────
+
+console.log("\n🔍 File Store");
+
+const dashboard = engine();
+dashboard.attachStore(new FileEntityStore({ path }));
+for (const e of graph) dashboard.addEntity(e);
+dashboard.persist();
+assert("Entities are written to one JSON file",
+  (JSON.parse(readFileSync(path, "utf-8")) as { entities: Entity[] }).entities.length === 2);
+assert("No temporary files are left behind", readdirSync(dir).join() === "entities.json", readdirSync(dir).join());
+
+const server = engine();
+assert("Another process loads the same graph", server.attachStore(new FileEntityStore({ path })) === 2);
+
+dashboard.addEntity(entity("itsm:incident:INC003", { number: "INC003" }, { affects_ci: ["itsm:configuration_item:MAIL"] }));
+dashboard.persist();
+assert("Refresh picks up another process's sync",
+  server.refresh() && server.getEntity("itsm:incident:INC003") !== undefined &&
+  server.traversePaths("itsm:configuration_item:MAIL", { direction: "incoming" }).length === 2);
+assert("Missing file loads as empty", new FileEntityStore({ path: join(dir, "none", "entities.json") }).load().length === 0);
+
+// ── Snapshots ─────────────────────────────────────────────────
+
+console.log("\n🔍 Snapshots");
+
+const files = new FileEntityStore({ path });
+const before = createSnapshot("before-sync", graph);
+before.createdAt = "2026-10-01T00:00:00.000Z";
+files.saveSnapshot(before);
+files.saveSnapshot(createSnapshot("after-sync", dashboard.getAllEntities()));
+assert("Snapshots are listed newest first",
+  files.listSnapshots().map((s) => `${s.name}:${s.entityCount}`).join() === "after-sync:3,before-sync:2",
+  JSON.stringify(files.listSnapshots()));
+assert("Snapshots record their domains", files.getSnapshot("before-sync")?.domains.join() === "itsm");
+assert("Each snapshot is one JSON file", existsSync(join(dir, "snapshots", "before-sync.json")));
+
+let rejected = false;
+try {
+  files.saveSnapshot(createSnapshot("../escape", graph));
+} catch {
+  rejected = true;
+}
+assert("Names cannot leave the snapshot directory", rejected && files.getSnapshot("../entities") === undefined);
+
+const exported = JSON.parse(readFileSync(join(dir, "snapshots", "before-sync.json"), "utf-8")) as EntitySnapshot;
+assert("An exported snapshot validates", validateSnapshot(exported).length === 0);
+memory.saveSnapshot(exported);
+const imported = engine();
+imported.attachStore(memory);
+imported.addEntity(entity("itsm:incident:INC009", { number: "INC009" }));
+imported.persist();
+imported.replaceEntities(memory.getSnapshot("before-sync")!.entities);
+imported.persist();
+assert("Restoring an imported snapshot replaces the live graph",
+  memory.load().length === 2 && imported.getEntity("itsm:incident:INC009") === undefined);
+const problems = validateSnapshot({ name: "x y", createdAt: "soon", entities: [{ id: "a", properties: [], relationships: { r: "b" } }] });
+assert("Bad snapshots are reported", problems.length === 6, problems.join("; "));
+assert("Deleting a snapshot", files.deleteSnapshot("after-sync") && !files.deleteSnapshot("after-sync") &&
+  files.listSnapshots().length === 1);
+
+// ── Restore validation ────────────────────────────────────────
+
+console.log("\n🔍 Restore Validation");
+
+const restoring = [graph[1], graph[0], entity("itsm:widget:W1", { name: "unknown" })];
+const lenient = engine();
+const lenientReport = lenient.replaceEntities(restoring, { validation: "lenient" });
+assert("Lenient restore keeps every entity and reports the issues",
+  lenient.getAllEntities().length === 3 && lenientReport.checked === 3 && lenientReport.byCode.unknown_type === 1,
+  JSON.stringify(lenientReport.byCode));
+assert("Relationships to entities later in the list resolve",
+  !lenientReport.issues.some((i) => i.code === "invalid_target"), JSON.stringify(lenientReport.issues));
+
+const strict = engine();
+const strictReport = strict.replaceEntities(restoring, { validation: "strict" });
+assert("Strict restore leaves out invalid entities",
+  strictReport.rejected >= 1 && strict.getEntity("itsm:widget:W1") === undefined &&
+  strict.getAllEntities().length === 3 - strictReport.rejected && strict.queryEntities({ type: "widget" }).total === 0);
+assert("Unvalidated restore reports nothing", engine().replaceEntities(restoring).checked === 0);
+
+// ── Unreadable files ──────────────────────────────────────────
+
+console.log("\n🔍 Unreadable Files");
+
+const corruptPath = join(dir, "corrupt", "entities.json");
+const corruptStore = new FileEntityStore({ path: corruptPath });
+const reader = engine();
+reader.attachStore(corruptStore);
+const writer = engine();
+writer.attachStore(new FileEntityStore({ path: corruptPath }));
+for (const e of graph) writer.addEntity(e);
+writer.persist();
+reader.refresh();
+writeFileSync(corruptPath, "{\"entities\": [", "utf-8");
+
+let loadError = "";
+try {
+  reader.refresh();
+} catch (err) {
+  loadError = String(err);
+}
+assert("A corrupt entity file is reported", loadError.includes(corruptPath), loadError);
+assert("The last good graph is kept", reader.getAllEntities().length === 2);
+assert("The same bad revision is not retried", !reader.refresh());
+
+mkdirSync(join(dir, "corrupt", "snapshots"), { recursive: true });
+writeFileSync(join(dir, "corrupt", "snapshots", "broken.json"), "not json", "utf-8");
+let snapshotError = "";
+try {
+  corruptStore.getSnapshot("broken");
+} catch (err) {
+  snapshotError = String(err);
+}
+assert("A corrupt snapshot is reported, not returned", snapshotError.includes("broken.json"), snapshotError);
+
+// ── Configuration ─────────────────────────────────────────────
+
+console.log("\n🔍 Configuration");
+
+const saved = { ...process.env };
+process.env.BASANOS_ENTITY_STORE = "memory";
+assert("BASANOS_ENTITY_STORE=memory keeps entities in memory", createEntityStoreFromEnv(dir) instanceof InMemoryEntityStore);
+delete process.env.BASANOS_ENTITY_STORE;
+process.env.BASANOS_ENTITY_STORE_PATH = "entities.json";
+process.env.BASANOS_SNAPSHOT_DIR = "snapshots";
+const fromEnv = createEntityStoreFromEnv(dir);
+assert("Paths resolve against the project root",
+  fromEnv instanceof FileEntityStore && fromEnv.load().length === 3 && fromEnv.listSnapshots().length === 1);
+process.env = saved;
+
+rmSync(dir, { recursive: true, force: true });
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All entity store tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,146 @@
+/**
+ * Test: entity validation on ingest.
+ * Required properties, property types, enum values, relationship names,
+ * targets and cardinality; strict and lenient modes; and the report a
+ * ServiceNow sync returns.
+ *
+ * Run: npm run build && node dist/test/entity-validation.js
+ */
+
+import { OntologyEngine } from "../ontology/engine.js";
+import { EntityValidationError, entityValidationModeFromEnv } from "../ontology/schema.js";
+import type { Entity } from "../ontology/types.js";
+import { itsmDomain } from "../domains/itsm/ontology.js";
+import type { ServiceNowConnector, ServiceNowRecord } from "../connectors/servicenow/client.js";
+import { syncTable } from "../connectors/servicenow/entity-sync.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+const ontology = new OntologyEngine();
+ontology.registerDomain(itsmDomain);
+
+const incident = (overrides: Partial<Entity["properties"]> = {}, relationships: Entity["relationships"] = {}): Entity => ({
+  id: "itsm:incident:INC001",
+  type: "incident",
+  domain: "itsm",
+  properties: {
+    number: "INC001",
+    short_description: "Mail is down",
+    state: "new",
+    priority: "P1",
+    impact: "high",
+    urgency: "high",
+    opened_at: "2026-10-19T08:00:00Z",
+    ...overrides,
+  },
+  relationships,
+});
+const codes = (entity: Entity) => ontology.validateEntity(entity).map((i) => `${i.code}:${i.field ?? ""}`).join();
+
+// ── Properties ────────────────────────────────────────────────
+
+console.log("\n🔍 Properties");
+
+assert("A well-formed entity has no issues",
+  codes(incident({}, { affects_ci: ["itsm:configuration_item:MAIL"] })) === "");
+assert("Unknown types are reported",
+  codes({ id: "itsm:widget:W1", type: "widget", domain: "itsm", properties: {}, relationships: {} }) === "unknown_type:");
+assert("Missing required properties are reported",
+  codes(incident({ short_description: null, urgency: "" })) === "missing_required:short_description,missing_required:urgency");
+assert("Enum values must be listed",
+  codes(incident({ priority: "1 - Critical" })) === "invalid_enum:priority");
+assert("Property types are checked",
+  codes(incident({ number: 42, opened_at: "yesterday-ish" })) === "wrong_type:number,wrong_type:opened_at");
+assert("Numbers and booleans may arrive as strings",
+  codes({
+    id: "itsm:sla_contract:GOLD", type: "sla_contract", domain: "itsm",
+    properties: { name: "Gold", response_time_minutes: "15", resolution_time_minutes: 240, applies_to_priority: "P1", has_penalty: "true" },
+    relationships: {},
+  }) === "");
+
+// ── Relationships ─────────────────────────────────────────────
+
+console.log("\n🔍 Relationships");
+
+assert("Unknown relationship names are reported",
+  codes(incident({}, { blames: ["itsm:assignment_group:OPS"] })) === "unknown_relationship:blames");
+assert("Targets must have the declared type",
+  codes(incident({}, { affects_ci: ["itsm:assignment_group:OPS"] })) === "invalid_target:affects_ci");
+assert("Many-to-one relationships take one target",
+  codes(incident({}, { affects_ci: ["itsm:configuration_item:A", "itsm:configuration_item:B"] })) === "cardinality:affects_ci");
+
+const service = (id: string): Entity => ({
+  id, type: "business_service", domain: "itsm",
+  properties: { name: id, criticality: "high", operational_status: "operational" },
+  relationships: { governed_by_sla: ["itsm:sla_contract:GOLD"] },
+});
+ontology.addEntity(service("itsm:business_service:EMAIL"), { validation: "strict" });
+assert("One-to-many targets belong to one source",
+  codes(service("itsm:business_service:ARCHIVE")) === "cardinality:governed_by_sla");
+assert("Re-adding the same source is not a conflict", codes(service("itsm:business_service:EMAIL")) === "");
+
+// ── Modes ─────────────────────────────────────────────────────
+
+console.log("\n🔍 Modes");
+
+let rejected: EntityValidationError | undefined;
+try {
+  ontology.addEntity(incident({ priority: "urgent" }), { validation: "strict" });
+} catch (err) {
+  rejected = err as EntityValidationError;
+}
+assert("Strict mode rejects invalid entities",
+  rejected instanceof EntityValidationError && rejected.issues[0].code === "invalid_enum" &&
+  ontology.getEntity("itsm:incident:INC001") === undefined);
+
+const issues = ontology.addEntity(incident({ priority: "urgent" }), { validation: "lenient" });
+assert("Lenient mode stores and reports", issues.length === 1 && ontology.getEntity("itsm:incident:INC001") !== undefined);
+assert("Unchecked by default", ontology.addEntity({ id: "x:y:z", type: "y", domain: "x", properties: {}, relationships: {} }).length === 0);
+assert("Mode is read from the environment",
+  entityValidationModeFromEnv({ BASANOS_ENTITY_VALIDATION: "strict" }) === "strict" &&
+  entityValidationModeFromEnv({ BASANOS_ENTITY_VALIDATION: "bogus" }) === "lenient");
+
+// ── Sync report ───────────────────────────────────────────────
+
+console.log("\n🔍 Sync Validation Report");
+
+const groups: ServiceNowRecord[] = [
+  { sys_id: "G1", name: "Database Team", type: "engineering" },
+  { sys_id: "G2", name: "", type: "sales" },
+];
+const connector = { queryTable: async () => groups } as unknown as ServiceNowConnector;
+const log = console.log;
+console.log = () => undefined;
+const lenientStore = new OntologyEngine();
+lenientStore.registerDomain(itsmDomain);
+const lenient = await syncTable(connector, "sys_user_group", lenientStore);
+const strictStore = new OntologyEngine();
+strictStore.registerDomain(itsmDomain);
+const strict = await syncTable(connector, "sys_user_group", strictStore, { validation: "strict" });
+console.log = log;
+
+assert("Lenient sync stores every record and reports issues",
+  lenient.synced === 2 && lenient.validation.checked === 2 && lenient.validation.invalid === 1 && lenient.validation.rejected === 0);
+assert("Report counts issues by code",
+  lenient.validation.byCode.missing_required === 1 && lenient.validation.byCode.invalid_enum === 1,
+  JSON.stringify(lenient.validation.byCode));
+assert("Strict sync leaves invalid records out",
+  strict.synced === 1 && strict.validation.rejected === 1 && strictStore.getEntity("itsm:assignment_group:G2") === undefined);
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All entity validation tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
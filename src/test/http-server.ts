@@ -0,0 +1,233 @@
+/**
+ * Test: streamable HTTP transport.
+ * Two agents connect to one Basanos HTTP server and check constraints;
+ * both land in the same audit trail, each in its own session.
+ *
+ * Run: npm run build && node dist/test/http-server.js
+ */
+
+import { request } from "http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { z } from "zod";
+
+import { ConstraintEngine } from "../constraints/engine.js";
+import { startHttpServer } from "../server/http.js";
+import { Authenticator, principalFromAuthInfo } from "../server/auth.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+// ── Shared engine, one server per session ─────────────────────
+
+console.log("\n🔍 Streamable HTTP Sessions");
+
+const engine = new ConstraintEngine();
+let serversBuilt = 0;
+
+function buildServer(): McpServer {
+  serversBuilt++;
+  const server = new McpServer({ name: "basanos", version: "0.1.0" });
+  server.tool(
+    "basanos_check_constraints",
+    "Evaluate constraints",
+    { action: z.string(), target_entity_id: z.string() },
+    async ({ action, target_entity_id }, extra) => {
+      const verdict = await engine.evaluate({
+        intendedAction: action,
+        targetEntity: target_entity_id,
+        relatedEntities: [],
+        timestamp: new Date(),
+        metadata: {},
+        principal: principalFromAuthInfo(extra.authInfo),
+      });
+      return { content: [{ type: "text" as const, text: JSON.stringify({ allowed: verdict.allowed }) }] };
+    }
+  );
+  return server;
+}
+
+const http = await startHttpServer({ port: 0, createServer: buildServer, log: () => undefined });
+const url = new URL(`http://127.0.0.1:${http.port}/mcp`);
+
+async function connectAgent(name: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const client = new Client({ name, version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(url);
+  await client.connect(transport);
+  return { client, transport };
+}
+
+const first = await connectAgent("agent-a");
+const second = await connectAgent("agent-b");
+
+assert("Each agent gets its own session", http.sessionCount() === 2, `got ${http.sessionCount()}`);
+assert("Each session gets its own server", serversBuilt === 2, `built ${serversBuilt}`);
+assert("Session IDs differ",
+  !!first.transport.sessionId && first.transport.sessionId !== second.transport.sessionId);
+
+const tools = (await first.client.listTools()).tools.map((t) => t.name);
+assert("Tools are listed over HTTP", tools.includes("basanos_check_constraints"));
+
+await first.client.callTool({
+  name: "basanos_check_constraints",
+  arguments: { action: "resolve", target_entity_id: "itsm:incident:INC001" },
+});
+await second.client.callTool({
+  name: "basanos_check_constraints",
+  arguments: { action: "close", target_entity_id: "itsm:incident:INC002" },
+});
+const actions = engine.getAuditLog().map((e) => e.verdict.context.intendedAction).sort();
+assert("Both agents share one audit trail", actions.join(",") === "close,resolve", actions.join(","));
+
+// ── Request validation ────────────────────────────────────────
+
+console.log("\n🔍 Request Validation");
+
+const noSession = await fetch(url, {
+  method: "POST",
+  headers: { "content-type": "application/json", accept: "application/json, text/event-stream" },
+  body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+});
+assert("Non-initialize request without a session is rejected", noSession.status === 400, `got ${noSession.status}`);
+
+const unknownSession = await fetch(url, {
+  method: "POST",
+  headers: {
+    "content-type": "application/json",
+    accept: "application/json, text/event-stream",
+    "mcp-session-id": "does-not-exist",
+  },
+  body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+});
+assert("Unknown session is rejected", unknownSession.status === 404, `got ${unknownSession.status}`);
+
+const health = await fetch(new URL("/health", url));
+const healthBody = (await health.json()) as { status?: string; sessions?: number };
+assert("Health reports open sessions", healthBody.status === "ok" && healthBody.sessions === 2);
+
+// fetch() will not send a custom Host header, so use http.request
+const badHostStatus = await new Promise<number>((done, fail) => {
+  request({ host: "127.0.0.1", port: http.port, path: "/health", headers: { host: "evil.example.com" } }, (res) => {
+    res.resume();
+    done(res.statusCode ?? 0);
+  }).on("error", fail).end();
+});
+assert("Foreign Host header is refused on localhost", badHostStatus === 403, `got ${badHostStatus}`);
+
+// ── Session termination ───────────────────────────────────────
+
+console.log("\n🔍 Session Termination");
+
+await first.transport.terminateSession();
+assert("DELETE ends the session", http.sessionCount() === 1, `got ${http.sessionCount()}`);
+
+await first.client.close();
+await second.client.close();
+await http.close();
+assert("Closing the server ends every session", http.sessionCount() === 0);
+
+// ── Session limits ────────────────────────────────────────────
+
+console.log("\n🔍 Session Limits");
+
+const limited = await startHttpServer({ port: 0, createServer: buildServer, maxSessions: 2, log: () => undefined });
+const limitedUrl = new URL(`http://127.0.0.1:${limited.port}/mcp`);
+const limitedAgent = async (name: string) => {
+  const client = new Client({ name, version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(limitedUrl);
+  await client.connect(transport);
+  return { client, transport };
+};
+const oldest = await limitedAgent("agent-1");
+const recent = await limitedAgent("agent-2");
+await new Promise((r) => setTimeout(r, 5));
+await oldest.client.listTools();
+const newest = await limitedAgent("agent-3");
+assert("Session count stays at the limit", limited.sessionCount() === 2, `got ${limited.sessionCount()}`);
+let evicted = false;
+try {
+  await recent.client.listTools();
+} catch {
+  evicted = true;
+}
+assert("Least recently used session is closed to make room", evicted);
+const survivor = await oldest.client.listTools().then(() => true, () => false);
+assert("Recently used session survives", survivor);
+for (const agent of [oldest, recent, newest]) await agent.client.close().catch(() => undefined);
+await limited.close();
+
+const idle = await startHttpServer({ port: 0, createServer: buildServer, sessionIdleMs: 50, log: () => undefined });
+const idleAgent = new Client({ name: "idle-agent", version: "1.0.0" });
+await idleAgent.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${idle.port}/mcp`)));
+assert("Idle session is open at first", idle.sessionCount() === 1);
+await new Promise((r) => setTimeout(r, 200));
+assert("Idle session is closed after the timeout", idle.sessionCount() === 0, `got ${idle.sessionCount()}`);
+await idleAgent.close().catch(() => undefined);
+await idle.close();
+
+// ── Authenticated sessions ────────────────────────────────────
+
+console.log("\n🔍 Authenticated Sessions");
+
+const authenticator = new Authenticator({
+  apiKeys: [
+    { id: "triage-bot", key: "triage-key", roles: ["triage"] },
+    { id: "sre-agent", key: "sre-key", roles: ["sre"] },
+  ],
+});
+const secured = await startHttpServer({ port: 0, createServer: buildServer, authenticator, log: () => undefined });
+const securedUrl = new URL(`http://127.0.0.1:${secured.port}/mcp`);
+
+const anonymous = new Client({ name: "anonymous", version: "1.0.0" });
+let refused = false;
+try {
+  await anonymous.connect(new StreamableHTTPClientTransport(securedUrl));
+} catch {
+  refused = true;
+}
+assert("Unauthenticated client is refused", refused && secured.sessionCount() === 0);
+
+const bot = new Client({ name: "triage-bot", version: "1.0.0" });
+const botTransport = new StreamableHTTPClientTransport(securedUrl, {
+  requestInit: { headers: { Authorization: "Bearer triage-key" } },
+});
+await bot.connect(botTransport);
+await bot.callTool({
+  name: "basanos_check_constraints",
+  arguments: { action: "reassign", target_entity_id: "itsm:incident:INC003" },
+});
+const reassign = engine.getAuditLog().find((e) => e.verdict.context.intendedAction === "reassign");
+assert("Verdict records the authenticated principal", reassign?.principal?.id === "triage-bot", reassign?.principal?.id);
+
+const hijack = await fetch(securedUrl, {
+  method: "POST",
+  headers: {
+    "content-type": "application/json",
+    accept: "application/json, text/event-stream",
+    "x-api-key": "sre-key",
+    "mcp-session-id": botTransport.sessionId ?? "",
+  },
+  body: JSON.stringify({ jsonrpc: "2.0", id: 9, method: "tools/list" }),
+});
+assert("Another principal cannot use the session", hijack.status === 403, `got ${hijack.status}`);
+
+await bot.close();
+await secured.close();
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All HTTP transport tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
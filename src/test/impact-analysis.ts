@@ -0,0 +1,152 @@
+/**
+ * Test: blast-radius impact analysis.
+ * Upstream services with criticality and SLA penalties, dependent CIs,
+ * open incidents and active changes, the weighted score, and the
+ * `impact` enrichment metadata constraints see.
+ *
+ * Run: npm run build && node dist/test/impact-analysis.js
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { OntologyEngine } from "../ontology/engine.js";
+import { analyzeImpact, impactSource, normalizeCriticality } from "../ontology/impact.js";
+import type { Entity } from "../ontology/types.js";
+import { itsmDomain } from "../domains/itsm/ontology.js";
+import { enrichContext } from "../connectors/enrichment.js";
+import { ConstraintEngine } from "../constraints/engine.js";
+import { loadConstraintsFromYaml } from "../loader.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+// ── Setup ─────────────────────────────────────────────────────
+
+const ontology = new OntologyEngine();
+ontology.registerDomain(itsmDomain);
+
+function entity(id: string, properties: Entity["properties"], relationships: Entity["relationships"] = {}): Entity {
+  const [domain, type] = id.split(":");
+  return { id, domain, type, properties, relationships };
+}
+
+ontology.addEntity(entity("itsm:configuration_item:DB", { name: "mail-db" }));
+ontology.addEntity(entity("itsm:configuration_item:MAIL", { name: "mail-server-prod-01" },
+  { depends_on: ["itsm:configuration_item:DB"] }));
+ontology.addEntity(entity("itsm:business_service:EMAIL", { name: "Corporate Email", criticality: "critical" }, {
+  depends_on: ["itsm:configuration_item:MAIL"],
+  governed_by_sla: ["itsm:sla_contract:GOLD"],
+}));
+ontology.addEntity(entity("itsm:business_service:ARCHIVE", { name: "Mail Archive", criticality: "3 - less critical" }, {
+  depends_on: ["itsm:configuration_item:DB"],
+  governed_by_sla: ["itsm:sla_contract:BRONZE"],
+}));
+ontology.addEntity(entity("itsm:sla_contract:GOLD", { name: "Gold", has_penalty: true }));
+ontology.addEntity(entity("itsm:sla_contract:BRONZE", { name: "Bronze", has_penalty: false }));
+ontology.addEntity(entity("itsm:incident:INC001", { number: "INC001", priority: "1 - Critical", state: "In Progress" },
+  { affects_ci: ["itsm:configuration_item:MAIL"] }));
+ontology.addEntity(entity("itsm:incident:INC002", { number: "INC002", priority: "P3", state: "closed" },
+  { affects_ci: ["itsm:configuration_item:DB"] }));
+ontology.addEntity(entity("itsm:incident:INC003", { number: "INC003", priority: "P2", state: "new" },
+  { affects_service: ["itsm:business_service:EMAIL"] }));
+ontology.addEntity(entity("itsm:change_request:CHG001", { number: "CHG001", state: "scheduled", risk: "high" },
+  { affects_ci: ["itsm:configuration_item:DB"] }));
+ontology.addEntity(entity("itsm:change_request:CHG002", { number: "CHG002", state: "closed", risk: "low" },
+  { affects_ci: ["itsm:configuration_item:DB"] }));
+
+const short = (ids: string[]) => ids.map((id) => id.split(":")[2]).join();
+
+// ── Blast radius of a CI ──────────────────────────────────────
+
+console.log("\n🔍 Blast Radius of a CI");
+
+const db = analyzeImpact(ontology, "itsm:configuration_item:DB")!;
+assert("Dependent CIs are found transitively", short(db.dependentCis) === "MAIL");
+assert("Upstream services, most critical first",
+  short(db.services.map((s) => s.id)) === "EMAIL,ARCHIVE" && db.services[1].criticality === "medium");
+assert("Maximum criticality", db.maxCriticality === "critical");
+assert("Service path shows how it depends on the CI",
+  db.services[0].path.map((s) => s.to.split(":")[2]).join() === "MAIL,EMAIL");
+assert("SLA penalties are flagged", short(db.slaPenaltyServices) === "EMAIL" && db.services[0].slas[0].hasPenalty);
+assert("Open incidents on CIs and services", short(db.openIncidents.map((i) => i.id)) === "INC001,INC003",
+  short(db.openIncidents.map((i) => i.id)));
+assert("Active changes only", short(db.activeChanges.map((c) => c.id)) === "CHG001" && db.activeChanges[0].risk === "high");
+// 25 critical + 8 medium + 15 penalty + 10 P1 + 5 incident + 5 change + 2 CI
+assert("Weighted score", db.score === 70, String(db.score));
+
+const service = analyzeImpact(ontology, "itsm:business_service:EMAIL")!;
+assert("A service is its own blast radius",
+  short(service.services.map((s) => s.id)) === "EMAIL" && service.dependentCis.length === 0 &&
+  short(service.openIncidents.map((i) => i.id)) === "INC003" && service.score === 45, String(service.score));
+assert("Unknown entity has no analysis", analyzeImpact(ontology, "itsm:configuration_item:NOPE") === undefined);
+assert("ServiceNow criticality values are ranked",
+  normalizeCriticality("1 - most critical") === "critical" && normalizeCriticality("High") === "high" &&
+  normalizeCriticality("unknown") === undefined);
+
+// ── Enrichment ────────────────────────────────────────────────
+
+console.log("\n🔍 Impact Enrichment");
+
+const source = impactSource(ontology);
+const fromIncident = await source.enrich("INC001", "resolve", {});
+const impact = fromIncident.impact as Record<string, unknown>;
+assert("Incident reference resolves to its CI", impact?.entity === "itsm:configuration_item:MAIL");
+assert("Metadata carries services and criticality",
+  impact?.services_affected === 1 && impact.max_criticality === "critical" && impact.sla_penalty_services === 1);
+
+const fromCi = await source.enrich("INC999", "resolve", { ci_sys_id: "DB" });
+assert("CI reported by earlier connectors wins",
+  (fromCi.impact as Record<string, unknown>)?.services_affected === 2);
+assert("Unknown reference adds nothing", Object.keys(await source.enrich("INC404", "resolve", {})).length === 0);
+
+const dir = mkdtempSync(join(tmpdir(), "basanos-impact-"));
+const rulesPath = join(dir, "constraints.yaml");
+writeFileSync(rulesPath, `
+constraints:
+  - id: test:critical_service_resolve
+    name: Critical Service Needs Review
+    domain: itsm
+    appliesTo: [incident]
+    relevantActions: [resolve]
+    severity: block
+    status: promoted
+    description: Resolving incidents that touch critical services needs review.
+    conditions:
+      - { field: impact.max_criticality, operator: eq, value: critical }
+      - { field: impact.services_affected, operator: gte, value: 1 }
+    violationMessage: "{{impact.services_affected}} service(s) affected, up to {{impact.max_criticality}}."
+    satisfiedMessage: No critical service affected.
+`);
+const engine = new ConstraintEngine();
+for (const c of loadConstraintsFromYaml(rulesPath)) engine.register(c);
+const { metadata, trace } = await enrichContext([source], "INC001", "resolve", {});
+const verdict = await engine.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata,
+});
+assert("Constraints read impact fields", !verdict.allowed && verdict.summary.includes("1 service(s) affected, up to critical"),
+  verdict.summary);
+assert("Enrichment trace names the ontology", trace[0]?.connector === "ontology" && trace[0].fields.join() === "impact");
+rmSync(dir, { recursive: true, force: true });
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All impact analysis tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
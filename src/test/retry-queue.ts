@@ -0,0 +1,303 @@
+/**
+ * Test: execute-when-allowed retries.
+ * A blocked proxied call sent with `_execute_when_allowed` is queued,
+ * re-evaluated with fresh enrichment until its constraint clears, then
+ * forwarded once; the queue survives a restart and reports outcomes by
+ * webhook and MCP notification.
+ *
+ * Run: npm run build && node dist/test/retry-queue.js
+ */
+
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { spawn } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { LoggingMessageNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+import { ConstraintEngine } from "../constraints/engine.js";
+import { ConstraintSeverity, ConstraintStatus } from "../constraints/types.js";
+import { ActionMapper } from "../connectors/action-mapping.js";
+import type { ProxyDependencies } from "../server/proxy.js";
+import { registerGuardedTool, retryGuardedCall } from "../server/proxy.js";
+import { RetryQueue, RetryScheduler, retrySettingsFromEnv } from "../server/retry-queue.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+function textOf(result: unknown): string {
+  const content = (result as { content?: Array<{ type: string; text?: string }> }).content ?? [];
+  return content.map((c) => c.text ?? "").join("");
+}
+
+const dir = mkdtempSync(join(tmpdir(), "basanos-retry-"));
+
+// ── Setup: a change freeze that can end ───────────────────────
+
+let freeze = true;
+const engine = new ConstraintEngine();
+engine.register({
+  id: "test:no_deploy_in_freeze",
+  name: "No Deploy In Freeze",
+  domain: "itsm",
+  appliesTo: ["*"],
+  relevantActions: ["deploy"],
+  severity: ConstraintSeverity.BLOCK,
+  status: ConstraintStatus.PROMOTED,
+  description: "Nothing ships during a change freeze.",
+  evaluate: async (context) => ({
+    constraintId: "test:no_deploy_in_freeze",
+    satisfied: context.metadata.freeze !== true,
+    severity: ConstraintSeverity.BLOCK,
+    explanation: context.metadata.freeze === true ? "Change freeze in effect." : "No freeze.",
+    involvedEntities: [context.targetEntity],
+  }),
+});
+
+const mapper = new ActionMapper();
+mapper.add({ domain: "itsm", tools: [{ tool: "deploy_service", action: "deploy", targetArg: "service", entityType: "service" }] });
+
+// Webhook receiver
+const hooks: Array<{ event: string; action: { id: string; status: string } }> = [];
+const receiver = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    hooks.push(JSON.parse(body));
+    res.end();
+  });
+});
+await new Promise<void>((done) => receiver.listen(0, "127.0.0.1", () => done()));
+const webhookUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+const forwarded: Array<Record<string, unknown>> = [];
+const spec = {
+  exposedName: "ops_deploy_service",
+  upstreamName: "deploy_service",
+  upstream: "ops",
+  upstreamLabel: "Ops",
+  description: "Deploy a service",
+  inputShape: { service: z.string() },
+  forward: async (args: Record<string, unknown>) => {
+    forwarded.push(args);
+    return { content: [{ type: "text" as const, text: "deployed" }] };
+  },
+};
+
+const queuePath = join(dir, "retry-queue.json");
+let deps: ProxyDependencies;
+const scheduler = new RetryScheduler({
+  queue: new RetryQueue(queuePath),
+  attempt: (queued) => retryGuardedCall(deps, spec, queued),
+  webhookUrl,
+  log: () => undefined,
+});
+deps = {
+  constraintEngine: engine,
+  actionMapper: mapper,
+  enrichmentSources: [{ id: "freeze-calendar", enrich: async () => ({ freeze }) }],
+  retry: scheduler,
+};
+
+const gateway = new McpServer({ name: "basanos", version: "0.1.0" }, { capabilities: { logging: {} } });
+registerGuardedTool(gateway, deps, spec);
+const [agentSide, gatewaySide] = InMemoryTransport.createLinkedPair();
+await gateway.connect(gatewaySide);
+const agent = new Client({ name: "agent", version: "1.0.0" });
+const notifications: Array<{ retryId?: string; status?: string }> = [];
+agent.setNotificationHandler(LoggingMessageNotificationSchema, (n) => {
+  notifications.push(n.params.data as { retryId?: string; status?: string });
+});
+await agent.connect(agentSide);
+
+// ── Queueing ──────────────────────────────────────────────────
+
+console.log("\n🔍 Queueing Blocked Calls");
+
+const plain = JSON.parse(textOf(await agent.callTool({ name: "ops_deploy_service", arguments: { service: "checkout" } })));
+assert("Without the flag a block is final", plain.blocked === true && plain.queued === undefined);
+
+const queued = JSON.parse(textOf(await agent.callTool({
+  name: "ops_deploy_service",
+  arguments: { service: "checkout", _execute_when_allowed: true, _retry_deadline_minutes: 30 },
+})));
+assert("Flagged call is queued with a retry ID", queued.queued === true && typeof queued.retryId === "string");
+const minutesLeft = (new Date(queued.deadline).getTime() - Date.now()) / 60_000;
+assert("Requested deadline is honoured", minutesLeft > 29 && minutesLeft <= 30, String(minutesLeft));
+
+const stored = scheduler.getQueue().get(queued.retryId);
+assert("Queued call keeps args without retry options",
+  stored?.args.service === "checkout" && stored.args._execute_when_allowed === undefined && stored.status === "waiting");
+assert("Nothing was forwarded yet", forwarded.length === 0);
+
+// ── Retrying ──────────────────────────────────────────────────
+
+console.log("\n🔍 Retrying Until Allowed");
+
+await scheduler.tick();
+const stillWaiting = scheduler.getQueue().get(queued.retryId);
+assert("Still blocked: call keeps waiting", stillWaiting?.status === "waiting" && stillWaiting.attempts === 2);
+assert("Latest verdict is recorded", stillWaiting?.lastVerdict.summary.includes("Change freeze") === true);
+
+freeze = false;
+await scheduler.tick();
+const done = scheduler.getQueue().get(queued.retryId);
+assert("Cleared constraint forwards the call", done?.status === "executed" && forwarded.length === 1);
+assert("Forwarded with the original arguments", JSON.stringify(forwarded[0]) === '{"service":"checkout"}');
+assert("Re-evaluation is audited", engine.getAuditLog().filter((e) => e.verdict.context.intendedAction === "deploy").length === 4);
+
+await scheduler.tick();
+assert("Executed call is not forwarded again", forwarded.length === 1);
+
+await new Promise((r) => setTimeout(r, 50));
+assert("Webhook reports the execution",
+  hooks.some((h) => h.event === "retry.executed" && h.action.id === queued.retryId));
+assert("Agent is notified over MCP",
+  notifications.some((n) => n.retryId === queued.retryId && n.status === "executed"));
+
+// ── Durability and expiry ─────────────────────────────────────
+
+console.log("\n🔍 Restart and Expiry");
+
+freeze = true;
+const before = JSON.parse(textOf(await agent.callTool({
+  name: "ops_deploy_service",
+  arguments: { service: "search", _execute_when_allowed: true },
+})));
+
+const restarted = new RetryScheduler({
+  queue: new RetryQueue(queuePath),
+  attempt: (q) => retryGuardedCall(deps, spec, q),
+  log: () => undefined,
+});
+assert("Queued call survives a restart", restarted.getQueue().get(before.retryId)?.status === "waiting");
+
+await restarted.tick(new Date(Date.now() + 2 * 60 * 60_000));
+assert("Call past its deadline expires", restarted.getQueue().get(before.retryId)?.status === "expired");
+
+const cancelled = JSON.parse(textOf(await agent.callTool({
+  name: "ops_deploy_service",
+  arguments: { service: "cart", _execute_when_allowed: true },
+})));
+assert("Waiting call can be cancelled", (await scheduler.cancel(cancelled.retryId))?.status === "cancelled");
+freeze = false;
+await scheduler.tick();
+assert("Cancelled call is never forwarded", forwarded.length === 1);
+
+const queuedVerdict = await engine.evaluate({
+  intendedAction: "deploy",
+  targetEntity: "ops:service:billing",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { freeze: true },
+}, { dryRun: true });
+
+// Cancelled while its constraints are being re-evaluated
+const cancelling: RetryScheduler = new RetryScheduler({
+  queue: scheduler.getQueue(),
+  attempt: async (q, claim) => {
+    await cancelling.cancel(q.id);
+    return retryGuardedCall(deps, spec, q, claim);
+  },
+  log: () => undefined,
+});
+const midEvaluation = await cancelling.enqueue({
+  upstream: "ops", tool: "deploy_service", exposedName: "ops_deploy_service",
+  args: { service: "billing" }, deadline: cancelling.deadlineFor(), verdict: queuedVerdict,
+});
+await cancelling.tick();
+assert("Call cancelled during an attempt is not forwarded",
+  forwarded.length === 1 && cancelling.getQueue().get(midEvaluation.id)?.status === "cancelled");
+
+// Cancelled while the upstream call is in flight
+let inFlightStatus: string | undefined;
+const lateCancel: RetryScheduler = new RetryScheduler({
+  queue: scheduler.getQueue(),
+  attempt: async (q, claim) => {
+    const attempt = await retryGuardedCall(deps, spec, q, claim);
+    inFlightStatus = (await lateCancel.cancel(q.id))?.status;
+    return attempt;
+  },
+  log: () => undefined,
+});
+const midForward = await lateCancel.enqueue({
+  upstream: "ops", tool: "deploy_service", exposedName: "ops_deploy_service",
+  args: { service: "ledger" }, deadline: lateCancel.deadlineFor(), verdict: queuedVerdict,
+});
+await lateCancel.tick();
+assert("A call is claimed before it is forwarded and cannot be cancelled then",
+  forwarded.length === 2 && inFlightStatus === "in_flight" &&
+  lateCancel.getQueue().get(midForward.id)?.status === "executed");
+
+// Two processes' schedulers over the same queue file
+const twinLog: string[] = [];
+const twins = [1, 2].map(() => new RetryScheduler({
+  queue: new RetryQueue(queuePath),
+  attempt: (q, claim) => retryGuardedCall(deps, spec, q, claim),
+  log: (message) => twinLog.push(message),
+}));
+const contested = await twins[0].enqueue({
+  upstream: "ops", tool: "deploy_service", exposedName: "ops_deploy_service",
+  args: { service: "search" }, deadline: twins[0].deadlineFor(), verdict: queuedVerdict,
+});
+await Promise.all(twins.map((t) => t.tick()));
+assert("Only one scheduler forwards a call",
+  forwarded.filter((a) => a.service === "search").length === 1 &&
+  twins[1].getQueue().get(contested.id)?.status === "executed" && twinLog.length === 1, twinLog.join("; "));
+
+// Separate processes queueing calls at once
+const enqueueScript = join(dir, "enqueue.mjs");
+writeFileSync(enqueueScript, `
+const { RetryQueue } = await import(process.env.QUEUE_MODULE);
+const queue = new RetryQueue(process.env.QUEUE_PATH);
+const verdict = JSON.parse(process.env.VERDICT);
+for (let i = 0; i < 20; i++) {
+  await queue.enqueue({ upstream: "ops", tool: "deploy_service", exposedName: "ops_deploy_service",
+    args: { service: "s" + i }, deadline: new Date(Date.now() + 60000).toISOString(), verdict });
+}
+`);
+const sharedQueuePath = join(dir, "shared-queue.json");
+const enqueuers = [1, 2, 3].map(() => new Promise<number | null>((done) => {
+  spawn(process.execPath, [enqueueScript], {
+    env: {
+      ...process.env,
+      QUEUE_MODULE: new URL("../server/retry-queue.js", import.meta.url).href,
+      QUEUE_PATH: sharedQueuePath,
+      VERDICT: JSON.stringify(queuedVerdict),
+    },
+    stdio: "inherit",
+  }).on("exit", done);
+}));
+const enqueueExits = await Promise.all(enqueuers);
+assert("No process's queued calls are lost",
+  enqueueExits.every((c) => c === 0) && new RetryQueue(sharedQueuePath).list().length === 60);
+
+assert("Deadlines are capped", new Date(scheduler.deadlineFor(10_000)).getTime() - Date.now() <= 1440 * 60_000);
+const settings = retrySettingsFromEnv({ BASANOS_RETRY_INTERVAL_SECONDS: "15", BASANOS_RETRY_MAX_DEADLINE_MINUTES: "x" });
+assert("Settings are read from the environment", settings.intervalMs === 15_000 && settings.maxDeadlineMinutes === undefined);
+
+await agent.close();
+receiver.close();
+rmSync(dir, { recursive: true, force: true });
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All retry queue tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,328 @@
+/**
+ * Test: declarative rule evaluator — condition trees and operators.
+ *
+ * Run: npm run build && node dist/test/rule-evaluator.js
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ConditionNode } from "../constraints/rule-evaluator.js";
+import {
+  evaluateCondition,
+  evaluateConditionTree,
+  renderTemplate,
+  resolvePath,
+  traceConditions,
+  validateConditionTree,
+} from "../constraints/rule-evaluator.js";
+import { loadConstraintsFromYaml } from "../loader.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+// ── Condition Trees ───────────────────────────────────────────
+
+console.log("\n🔍 Condition Trees (all/any/not)");
+
+const freezeRule: ConditionNode = {
+  all: [
+    {
+      any: [
+        { field: "priority", operator: "eq", value: "P1" },
+        { field: "priority", operator: "eq", value: "P2" },
+      ],
+    },
+    {
+      any: [
+        { field: "change_freeze_active", operator: "eq", value: true },
+        { field: "jira_open_deploys", operator: "gt", value: 0 },
+      ],
+    },
+    { not: { field: "change_type", operator: "eq", value: "emergency" } },
+  ],
+};
+
+const p2Deploy = evaluateConditionTree(freezeRule, {
+  priority: "P2",
+  change_freeze_active: false,
+  jira_open_deploys: 1,
+  change_type: "normal",
+});
+assert("P2 + active deploy + normal change triggers", p2Deploy.matched);
+assert("Root reports three branches", p2Deploy.children?.length === 3);
+assert(
+  "Deploy branch reports which child matched",
+  p2Deploy.children?.[1].children?.[1].matched === true &&
+    p2Deploy.children?.[1].children?.[0].matched === false
+);
+
+const emergency = evaluateConditionTree(freezeRule, {
+  priority: "P1",
+  change_freeze_active: true,
+  change_type: "emergency",
+});
+assert("Emergency change suppresses the rule", !emergency.matched);
+assert("NOT branch is the one that failed", emergency.children?.[2].matched === false);
+
+const p3 = evaluateConditionTree(freezeRule, { priority: "P3", change_freeze_active: true });
+assert("P3 does not trigger", !p3.matched);
+
+assert("Empty all group matches", evaluateConditionTree({ all: [] }, {}).matched);
+assert("Empty any group does not match", !evaluateConditionTree({ any: [] }, {}).matched);
+
+// ── Paths ─────────────────────────────────────────────────────
+
+console.log("\n🔍 Field Paths");
+
+const enriched: Record<string, unknown> = {
+  priority: "P1",
+  priority_value: "2",
+  impact: { max_criticality: "critical", services_affected: 3 },
+  active_change_numbers: ["CHG0001", "CHG0002"],
+  active_change_details: [
+    { number: "CHG0001", type: "normal", state: "Implement" },
+    { number: "CHG0002", type: "emergency", state: "Scheduled" },
+  ],
+  jira_deploy_details: [],
+  planned_end: "2026-03-01T12:00:00Z",
+  "legacy.key": "dotted",
+};
+
+assert("Nested key resolves", resolvePath(enriched, "impact.max_criticality") === "critical");
+assert("Indexed path resolves", resolvePath(enriched, "active_change_details[1].type") === "emergency");
+const types = resolvePath(enriched, "active_change_details[*].type") as string[];
+assert("Wildcard path resolves to array", Array.isArray(types) && types.join(",") === "normal,emergency");
+assert("Literal dotted key wins", resolvePath(enriched, "legacy.key") === "dotted");
+assert("Missing path is undefined", resolvePath(enriched, "impact.nope.deeper") === undefined);
+assert("Inherited properties are not resolved",
+  resolvePath({}, "constructor") === undefined && resolvePath(enriched, "impact.constructor") === undefined &&
+  resolvePath({}, "__proto__") === undefined);
+
+// ── Operators ─────────────────────────────────────────────────
+
+console.log("\n🔍 Operators");
+
+const now = new Date("2026-03-01T10:00:00Z");
+const check = (condition: Parameters<typeof evaluateCondition>[0]) =>
+  evaluateCondition(condition, enriched, { now });
+
+assert("contains on wildcard array", check({ field: "active_change_details[*].type", operator: "contains", value: "emergency" }));
+assert("contains on string", check({ field: "impact.max_criticality", operator: "contains", value: "crit" }));
+assert("startsWith", check({ field: "active_change_numbers[0]", operator: "startsWith", value: "CHG" }));
+assert("matches regex", check({ field: "active_change_numbers[1]", operator: "matches", value: "^CHG\\d{4}$" }));
+assert("matches /pattern/flags form", check({ field: "priority", operator: "matches", value: "/^p[12]$/i" }));
+assert("between is inclusive", check({ field: "impact.services_affected", operator: "between", value: [1, 3] }));
+assert("notIn", check({ field: "priority", operator: "notIn", value: ["P3", "P4"] }));
+assert("in with wildcard array", check({ field: "active_change_details[*].state", operator: "in", value: ["Scheduled"] }));
+assert("empty on empty array", check({ field: "jira_deploy_details", operator: "empty" }));
+assert("empty on missing field", check({ field: "not_there", operator: "empty" }));
+assert("numeric string coerces for gt", check({ field: "priority_value", operator: "gt", value: 1 }));
+assert("numeric string coerces for eq", check({ field: "priority_value", operator: "eq", value: 2 }));
+assert("non-numeric gt does not match", !check({ field: "priority", operator: "gt", value: 0 }));
+assert(
+  "any quantifier with where",
+  check({ field: "active_change_details", operator: "any", where: { field: "type", operator: "eq", value: "emergency" } })
+);
+assert(
+  "all quantifier with where",
+  !check({ field: "active_change_details", operator: "all", where: { field: "type", operator: "eq", value: "emergency" } })
+);
+assert("all on empty array is false", !check({ field: "jira_deploy_details", operator: "all", where: { field: "x", operator: "exists" } }));
+assert("count without where", check({ field: "active_change_numbers", operator: "count", value: 2 }));
+assert(
+  "count with comparator object",
+  check({ field: "active_change_details", operator: "count", value: { gte: 1, lt: 2 }, where: { field: "state", operator: "eq", value: "Implement" } })
+);
+assert("where on scalar elements uses $", check({ field: "active_change_numbers", operator: "any", where: { field: "$", operator: "eq", value: "CHG0002" } }));
+assert("after now", check({ field: "planned_end", operator: "after", value: "now" }));
+assert("before now+1w", check({ field: "planned_end", operator: "before", value: "now+1w" }));
+assert("gt against relative date", check({ field: "planned_end", operator: "gt", value: "now+1h" }));
+assert("lt against relative date", !check({ field: "planned_end", operator: "lt", value: "now+1h" }));
+assert("Free text with digits is not a date",
+  !evaluateCondition({ field: "os", operator: "gt", value: "Server 2012" }, { os: "Server 2016" }, { now }) &&
+  !evaluateCondition({ field: "tier", operator: "before", value: "now" }, { tier: "critical 2" }, { now }));
+assert("ServiceNow date-times compare as dates",
+  evaluateCondition({ field: "opened_at", operator: "before", value: "now" }, { opened_at: "2026-03-01 09:00:00" }, { now }));
+assert("exists on an empty wildcard is false",
+  !check({ field: "jira_deploy_details[*].key", operator: "exists" }) &&
+  check({ field: "active_change_details[*].type", operator: "exists" }));
+
+// ── Validation ────────────────────────────────────────────────
+
+console.log("\n🔍 Condition Validation");
+
+assert("Well-formed tree has no errors", validateConditionTree([freezeRule]).length === 0);
+assert(
+  "Unknown operator is reported",
+  validateConditionTree([{ field: "x", operator: "like" }]).length === 1
+);
+assert(
+  "Group with two keys is reported",
+  validateConditionTree({ all: [], any: [] }).length === 1
+);
+assert(
+  "Quantifier without where is reported",
+  validateConditionTree([{ field: "x", operator: "any" }]).length === 1
+);
+assert(
+  "Invalid regex is reported",
+  validateConditionTree([{ field: "x", operator: "matches", value: "(" }]).length === 1
+);
+assert(
+  "Malformed between is reported",
+  validateConditionTree([{ field: "x", operator: "between", value: 3 }]).length === 1
+);
+assert(
+  "List under 'not' is reported",
+  validateConditionTree({ not: [] }).length === 1
+);
+
+// ── Traces and Templates ──────────────────────────────────────
+
+console.log("\n🔍 Condition Traces and Message Templates");
+
+const trace = traceConditions(p2Deploy);
+assert("Trace lists every leaf condition", trace.length === 5, `got ${trace.length}`);
+assert(
+  "Trace paths follow the tree",
+  trace.map((t) => t.path).join(" ") === "all[0].any[0] all[0].any[1] all[1].any[0] all[1].any[1] all[2].not"
+);
+const deployLeaf = trace[3];
+assert(
+  "Trace records field, operator, expected and actual",
+  deployLeaf.field === "jira_open_deploys" &&
+    deployLeaf.operator === "gt" &&
+    deployLeaf.expected === 0 &&
+    deployLeaf.actual === 1 &&
+    deployLeaf.passed
+);
+assert("Negated leaf reports its own outcome", trace[4].passed === false && trace[4].actual === "normal");
+assert(
+  "Single condition is traced at the root",
+  traceConditions(evaluateConditionTree({ field: "x", operator: "exists" }, {}))[0].path === "condition"
+);
+
+const changes = { active_change_numbers: ["CHG0001", "CHG0002"], ci: { name: "web-01" } };
+assert(
+  "Template joins arrays",
+  renderTemplate("Active: {{active_change_numbers}}", changes) === "Active: CHG0001, CHG0002"
+);
+assert("Template resolves nested paths", renderTemplate("CI {{ ci.name }}", changes) === "CI web-01");
+assert("Missing template value renders as unknown", renderTemplate("{{nope}}", changes) === "unknown");
+assert(
+  "Fallback covers missing and empty values",
+  renderTemplate("{{nope|none}} / {{list|none}}", { list: [] }) === "none / none"
+);
+assert("Text without placeholders is unchanged", renderTemplate("No freeze.", changes) === "No freeze.");
+
+// ── YAML Loading ──────────────────────────────────────────────
+
+console.log("\n🔍 Nested Conditions from YAML");
+
+const tmp = mkdtempSync(join(tmpdir(), "basanos-rules-"));
+const yamlPath = join(tmp, "constraints.yaml");
+writeFileSync(yamlPath, `
+constraints:
+  - id: test:freeze
+    name: Freeze
+    domain: test
+    appliesTo: [incident]
+    relevantActions: [resolve]
+    severity: block
+    description: Freeze rule
+    conditions:
+      - any:
+          - { field: priority, operator: eq, value: P1 }
+          - { field: priority, operator: eq, value: P2 }
+      - not: { field: change_type, operator: eq, value: emergency }
+    violationMessage: "Blocked by freeze on {{priority}} ({{active_change_numbers|no changes}})."
+    satisfiedMessage: No freeze.
+`);
+
+const [loaded] = loadConstraintsFromYaml(yamlPath);
+const result = await loaded.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "test:incident:INC1",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { priority: "P1", change_type: "normal" },
+});
+assert("Nested YAML rule fires", !result.satisfied);
+assert("Result carries the condition tree", result.conditionResult?.type === "all");
+assert("Result carries a condition trace", result.conditionTrace?.length === 3);
+assert(
+  "Violation message is rendered from metadata",
+  result.explanation === "Blocked by freeze on P1 (no changes).",
+  result.explanation
+);
+
+writeFileSync(yamlPath, `
+constraints:
+  - id: test:broken
+    name: Broken
+    domain: test
+    appliesTo: [incident]
+    relevantActions: [resolve]
+    severity: block
+    description: Broken rule
+    conditions:
+      - any: { field: priority, operator: eq, value: P1 }
+    violationMessage: x
+    satisfiedMessage: y
+`);
+let threw = false;
+try {
+  loadConstraintsFromYaml(yamlPath);
+} catch {
+  threw = true;
+}
+assert("Malformed group is rejected at load time", threw);
+
+const policyYaml = (onError: string) => `
+constraints:
+  - id: test:policy
+    name: Policy
+    domain: test
+    appliesTo: [incident]
+    relevantActions: [resolve]
+    severity: warn
+    description: Rule with an error policy
+    onError: ${onError}
+    timeoutMs: 250
+    conditions:
+      - { field: priority, operator: eq, value: P1 }
+    violationMessage: x
+    satisfiedMessage: y
+`;
+writeFileSync(yamlPath, policyYaml("block"));
+const [withPolicy] = loadConstraintsFromYaml(yamlPath);
+assert("onError and timeoutMs are loaded", withPolicy.onError === "block" && withPolicy.timeoutMs === 250);
+
+writeFileSync(yamlPath, policyYaml("ignore"));
+threw = false;
+try {
+  loadConstraintsFromYaml(yamlPath);
+} catch {
+  threw = true;
+}
+assert("Unknown onError policy is rejected at load time", threw);
+
+rmSync(tmp, { recursive: true, force: true });
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All rule evaluator tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
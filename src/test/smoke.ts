@@ -4,10 +4,17 @@
  */
 
 import { OntologyEngine } from "../ontology/engine.js";
-import { ConstraintEngine } from "../constraints/engine.js";
+import { ConstraintEngine, evaluationPolicyFromEnv } from "../constraints/engine.js";
+import { InMemoryAuditStore } from "../constraints/audit-store.js";
 import { validateDomainSchema } from "../ontology/schema.js";
 import { itsmDomain } from "../domains/itsm/ontology.js";
 import { itsmConstraints } from "../domains/itsm/constraints.js";
+import type { ConstraintDefinition } from "../constraints/types.js";
+import { ConstraintSeverity, ConstraintStatus } from "../constraints/types.js";
+import { replayAuditLog, validateReplayChanges } from "../constraints/replay.js";
+import type { EnrichmentSource } from "../connectors/enrichment.js";
+import { UNKNOWN_TARGET, enrichContext, pluginSource, resolveTarget } from "../connectors/enrichment.js";
+import { createPlugin as createJiraPlugin } from "../connectors/jira/index.js";
 
 let passed = 0;
 let failed = 0;
@@ -126,7 +133,7 @@ assert("Depth-1 traversal finds 2 entities", shallowGraph.size === 2, `got ${sha
 
 console.log("\n🔍 Constraint Engine");
 
-const constraints = new ConstraintEngine();
+const constraints = new ConstraintEngine({ ontology });
 for (const c of itsmConstraints) {
   constraints.register(c);
 }
@@ -213,6 +220,442 @@ const noConstraints = await constraints.evaluate({
 assert("Unknown action has no applicable constraints", noConstraints.results.length === 0);
 assert("Unknown action is allowed", noConstraints.allowed);
 
+// Test: appliesTo scoping skips incident-only rules for change requests
+const changeCloseVerdict = await constraints.evaluate({
+  intendedAction: "close",
+  targetEntity: "itsm:change_request:CHG001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { sla_breached: true, sla_has_penalty: true, change_freeze_active: true },
+});
+assert("Incident-only rules skipped for change_request close", changeCloseVerdict.allowed);
+assert(
+  "Skipped constraints are listed in the verdict",
+  changeCloseVerdict.skipped.some((s) => s.constraintId === "itsm:change_freeze_active" && s.reason === "entity_type")
+);
+
+// Test: unresolvable targets keep every constraint (fail safe)
+const unknownTargetVerdict = await constraints.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "servicenow:unknown:unknown",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { change_freeze_active: true },
+});
+assert("Unknown target type is still constrained", !unknownTargetVerdict.allowed);
+const madeUpTypeVerdict = await constraints.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:made_up:X1",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { change_freeze_active: true },
+});
+assert("Unregistered target type is still constrained",
+  !madeUpTypeVerdict.allowed && madeUpTypeVerdict.skipped.length === 0);
+assert("Unregistered types have no scope", ontology.resolveEntityScope("x:foo:1") === undefined);
+
+// Test: CMDB subtypes match constraints scoped to a parent class
+const scopedOntology = new OntologyEngine();
+scopedOntology.registerDomain(itsmDomain);
+scopedOntology.registerDomain({ ...itsmDomain, name: "hr", label: "HR" });
+scopedOntology.addEntity({
+  id: "itsm:configuration_item:CI001",
+  type: "configuration_item",
+  domain: "itsm",
+  properties: { name: "db-prod-01", ci_class: "cmdb_ci_db_mysql" },
+  relationships: {},
+});
+const scoped = new ConstraintEngine({ ontology: scopedOntology, restrictToDomain: true });
+scoped.register({
+  id: "itsm:db_patch_window",
+  name: "Database Patch Window",
+  domain: "itsm",
+  appliesTo: ["cmdb_ci"],
+  relevantActions: ["patch"],
+  severity: ConstraintSeverity.BLOCK,
+  status: ConstraintStatus.PROMOTED,
+  description: "Databases are patched only in the window",
+  evaluate: async (ctx) => ({
+    constraintId: "itsm:db_patch_window",
+    satisfied: false,
+    severity: ConstraintSeverity.BLOCK,
+    explanation: "Outside patch window",
+    involvedEntities: [ctx.targetEntity],
+  }),
+});
+const patchVerdict = await scoped.evaluate({
+  intendedAction: "patch",
+  targetEntity: "itsm:configuration_item:CI001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: {},
+});
+assert("CI class subtype matches cmdb_ci scope", !patchVerdict.allowed);
+const otherDomainVerdict = await scoped.evaluate({
+  intendedAction: "patch",
+  targetEntity: "hr:configuration_item:SRV1",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: {},
+});
+assert("Domain restriction skips other domains", otherDomainVerdict.allowed && otherDomainVerdict.skipped[0]?.reason === "domain");
+
+// ── Shadow Evaluation ─────────────────────────────────────────
+
+console.log("\n🔍 Shadow Evaluation");
+
+const shadowEngine = new ConstraintEngine();
+for (const c of itsmConstraints) {
+  shadowEngine.register({ ...c });
+}
+shadowEngine.updateConstraintStatus("itsm:change_freeze_active", ConstraintStatus.CANDIDATE);
+
+const shadowVerdict = await shadowEngine.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { change_freeze_active: true },
+});
+assert("Candidate does not block", shadowVerdict.allowed);
+await shadowEngine.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC002",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { change_freeze_active: false },
+});
+const [shadowEntry] = shadowEngine.getAuditLog();
+assert(
+  "Audit entry records would-block shadow result",
+  shadowEntry.shadowResults.some((r) => r.constraintId === "itsm:change_freeze_active" && !r.satisfied)
+);
+const freezeShadow = shadowEngine.getShadowSummary().find((s) => s.constraintId === "itsm:change_freeze_active");
+assert(
+  "Shadow summary reports 1 of 2 would block",
+  freezeShadow?.evaluations === 2 && freezeShadow.wouldBlock === 1 && freezeShadow.wouldBlockRate === 0.5,
+  JSON.stringify(freezeShadow)
+);
+
+const holdEngine = new ConstraintEngine();
+holdEngine.register({
+  id: "itsm:cab_review",
+  name: "CAB Review",
+  domain: "itsm",
+  appliesTo: ["incident"],
+  relevantActions: ["resolve"],
+  severity: ConstraintSeverity.REQUIRE_APPROVAL,
+  status: ConstraintStatus.SHADOW,
+  description: "Frozen resolutions need CAB review",
+  evaluate: async (ctx) => ({
+    constraintId: "itsm:cab_review",
+    satisfied: ctx.metadata.change_freeze_active !== true,
+    severity: ConstraintSeverity.REQUIRE_APPROVAL,
+    explanation: "Change freeze in effect",
+    involvedEntities: [ctx.targetEntity],
+  }),
+});
+const frozen = (metadata: Record<string, unknown>) => ({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC003",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata,
+});
+await holdEngine.evaluate(frozen({ change_freeze_active: true }));
+await holdEngine.evaluate(frozen({ change_freeze_active: false }));
+await holdEngine.evaluate(frozen({ change_freeze_active: true }), { dryRun: true });
+const [heldShadow] = holdEngine.getShadowSummary();
+assert(
+  "Shadow summary counts approval holds and skips dry runs",
+  heldShadow?.evaluations === 2 && heldShadow.wouldHold === 1 && heldShadow.wouldHoldRate === 0.5 && heldShadow.wouldBlock === 0,
+  JSON.stringify(heldShadow)
+);
+
+const shadowOnly = new ConstraintEngine({ shadowCandidates: false });
+for (const c of itsmConstraints) {
+  shadowOnly.register({ ...c });
+}
+shadowOnly.updateConstraintStatus("itsm:change_freeze_active", ConstraintStatus.CANDIDATE);
+shadowOnly.updateConstraintStatus("itsm:sla_breach_review", ConstraintStatus.SHADOW);
+await shadowOnly.evaluate({
+  intendedAction: "close",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { change_freeze_active: true, sla_breached: true, sla_has_penalty: true },
+});
+const shadowIds = shadowOnly.getAuditLog()[0].shadowResults.map((r) => r.constraintId);
+assert(
+  "Only shadow status runs when candidates are excluded",
+  shadowIds.length === 1 && shadowIds[0] === "itsm:sla_breach_review",
+  shadowIds.join(", ")
+);
+
+// ── Evaluation Errors ─────────────────────────────────────────
+
+console.log("\n🔍 Evaluation Errors and Timeouts");
+
+function brokenConstraint(
+  id: string,
+  evaluate: ConstraintDefinition["evaluate"],
+  extra: Partial<ConstraintDefinition> = {}
+): ConstraintDefinition {
+  return {
+    id,
+    name: id,
+    domain: "itsm",
+    appliesTo: ["incident"],
+    relevantActions: ["resolve"],
+    severity: ConstraintSeverity.BLOCK,
+    status: ConstraintStatus.PROMOTED,
+    description: "Test constraint",
+    evaluate,
+    ...extra,
+  };
+}
+
+const throwing = async (): Promise<never> => {
+  throw new Error("CMDB lookup failed");
+};
+const hanging = () => new Promise<never>(() => {});
+const errorContext = {
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: {},
+};
+
+const defaultPolicy = new ConstraintEngine();
+defaultPolicy.register(brokenConstraint("test:throws", throwing));
+const warned = await defaultPolicy.evaluate(errorContext);
+assert(
+  "Default policy downgrades a throwing constraint to WARN",
+  warned.allowed && warned.results[0].severity === ConstraintSeverity.WARN && warned.results[0].evaluation === "error"
+);
+assert(
+  "Failure is recorded in the verdict",
+  warned.failures.length === 1 && warned.failures[0].outcome === "error" && warned.failures[0].policy === "warn"
+);
+
+const failClosed = new ConstraintEngine({ onError: "block" });
+failClosed.register(brokenConstraint("test:throws", throwing));
+failClosed.register(brokenConstraint("test:fail_open", throwing, { onError: "allow" }));
+const closed = await failClosed.evaluate(errorContext);
+assert("Global block policy fails closed", !closed.allowed);
+assert(
+  "Per-constraint allow overrides the global policy",
+  closed.results[1].satisfied && closed.failures[1].policy === "allow"
+);
+assert("Summary names the failed constraints", closed.summary.includes("could not be evaluated"));
+
+const timed = new ConstraintEngine({ onError: "block", constraintTimeoutMs: 1000, evaluationDeadlineMs: 1000 });
+timed.register(brokenConstraint("test:hangs", hanging, { timeoutMs: 20 }));
+timed.register(brokenConstraint("test:slow", () => new Promise((resolve) =>
+  setTimeout(() => resolve({
+    constraintId: "test:slow",
+    satisfied: true,
+    severity: ConstraintSeverity.BLOCK,
+    explanation: "ok",
+    involvedEntities: [],
+  }), 40)
+)));
+const timedVerdict = await timed.evaluate(errorContext);
+assert(
+  "Per-constraint timeout is recorded distinctly",
+  timedVerdict.failures.length === 1 &&
+    timedVerdict.failures[0].constraintId === "test:hangs" &&
+    timedVerdict.failures[0].outcome === "timeout" &&
+    timedVerdict.results[0].evaluation === "timeout",
+  JSON.stringify(timedVerdict.failures)
+);
+assert("Slower constraint within its limit still passes", timedVerdict.results[1].satisfied);
+
+const deadlined = new ConstraintEngine({ onError: "warn", evaluationDeadlineMs: 30 });
+deadlined.register(brokenConstraint("test:hangs_a", hanging));
+deadlined.register(brokenConstraint("test:hangs_b", hanging));
+const started = Date.now();
+const deadlineVerdict = await deadlined.evaluate(errorContext);
+assert(
+  "Constraints run concurrently under one deadline",
+  deadlineVerdict.failures.length === 2 && Date.now() - started < 200,
+  `${Date.now() - started}ms`
+);
+assert(
+  "Deadline outcome is explained",
+  deadlineVerdict.failures.every((f) => f.outcome === "timeout" && f.detail.includes("deadline"))
+);
+assert(
+  "Failures are written to the audit trail",
+  deadlined.getAuditLog()[0].verdict.failures.length === 2
+);
+
+const shadowed = new ConstraintEngine({ onError: "warn", evaluationDeadlineMs: 100 });
+shadowed.register(brokenConstraint("test:enforced", async () => ({
+  constraintId: "test:enforced",
+  satisfied: true,
+  severity: ConstraintSeverity.BLOCK,
+  explanation: "ok",
+  involvedEntities: [],
+})));
+shadowed.register(brokenConstraint("test:slow_shadow", hanging, { status: ConstraintStatus.SHADOW }));
+const shadowStarted = Date.now();
+const shadowedVerdict = await shadowed.evaluate(errorContext);
+assert(
+  "Slow shadow constraints do not hold up the verdict",
+  shadowedVerdict.allowed && Date.now() - shadowStarted < 50 && shadowed.getAuditLog().length === 0,
+  `${Date.now() - shadowStarted}ms`
+);
+await shadowed.flush();
+const shadowedEntry = shadowed.getAuditLog()[0];
+assert(
+  "Their audit entry is recorded once they hit the deadline",
+  Date.now() - shadowStarted < 400 && shadowedEntry?.verdict === shadowedVerdict &&
+    shadowedEntry.shadowResults[0]?.evaluation === "timeout"
+);
+
+class FailingAuditStore extends InMemoryAuditStore {
+  fail = false;
+  async append(entry: Parameters<InMemoryAuditStore["append"]>[0]) {
+    if (this.fail) throw new Error("disk full");
+    return super.append(entry);
+  }
+}
+const failingStore = new FailingAuditStore();
+const unrecorded = new ConstraintEngine({ onError: "warn", evaluationDeadlineMs: 50, auditStore: failingStore });
+unrecorded.register(brokenConstraint("test:slow_shadow", hanging, { status: ConstraintStatus.SHADOW }));
+failingStore.fail = true;
+await unrecorded.evaluate(errorContext);
+let flushError = "";
+await unrecorded.flush().catch((err: Error) => (flushError = err.message));
+assert("A deferred audit write that fails is reported by flush", flushError.includes("disk full"), flushError);
+await unrecorded.evaluate(errorContext);
+await new Promise((r) => setTimeout(r, 100));
+let nextError = "";
+await unrecorded.evaluate(errorContext).catch((err: Error) => (nextError = err.message));
+failingStore.fail = false;
+let recovered = false;
+await unrecorded.evaluate(errorContext).then(() => (recovered = true), () => undefined);
+await unrecorded.flush();
+assert("It fails the next evaluation instead", nextError.includes("disk full") && recovered, nextError);
+
+const fromEnv = evaluationPolicyFromEnv({
+  BASANOS_ON_ERROR: "block",
+  BASANOS_CONSTRAINT_TIMEOUT_MS: "250",
+  BASANOS_EVALUATION_DEADLINE_MS: "nope",
+});
+assert(
+  "Policy is read from the environment",
+  fromEnv.onError === "block" && fromEnv.constraintTimeoutMs === 250 && fromEnv.evaluationDeadlineMs === undefined
+);
+
+// ── Context Enrichment ────────────────────────────────────────
+
+console.log("\n🔍 Proxy Context Enrichment");
+
+assert(
+  "Incident number in the arguments resolves the target",
+  resolveTarget({ number: "inc0010001", comment: "fixed" }).targetEntity === "itsm:incident:INC0010001"
+);
+const explicitTarget = resolveTarget({ _target_entity: "servicenow-live:incident:INC042", number: "INC1" });
+assert(
+  "Explicit _target_entity wins",
+  explicitTarget.targetEntity === "servicenow-live:incident:INC042" && explicitTarget.entityRef === "INC042"
+);
+assert("Unidentifiable call falls back to unknown", resolveTarget({ query: "open P1s" }).targetEntity === UNKNOWN_TARGET);
+
+const fakeServiceNow: EnrichmentSource = {
+  id: "servicenow",
+  enrich: async () => ({
+    ci_name: "recommendationservice/ecommerce",
+    change_freeze_active: true,
+    active_change_numbers: ["CHG0040001"],
+  }),
+};
+const failingSource: EnrichmentSource = {
+  id: "broken",
+  enrich: async () => {
+    throw new Error("connection refused");
+  },
+};
+const enriched = await enrichContext(
+  [fakeServiceNow, failingSource, pluginSource(createJiraPlugin())],
+  "INC0010001",
+  "resolve",
+  { number: "INC0010001", change_freeze_active: false }
+);
+assert("Enriched values override tool arguments", enriched.metadata.change_freeze_active === true);
+assert("Later connectors see earlier results", enriched.metadata.jira_open_deploys === 1);
+assert(
+  "Trace records each connector, including failures",
+  enriched.trace.map((t) => t.connector).join(",") === "servicenow,broken,jira" &&
+    enriched.trace[1].error === "connection refused" &&
+    enriched.trace[0].fields.includes("change_freeze_active")
+);
+assert(
+  "No target means no enrichment",
+  (await enrichContext([fakeServiceNow], undefined, "resolve", {})).trace.length === 0
+);
+
+const proxyEngine = new ConstraintEngine();
+for (const c of itsmConstraints) {
+  proxyEngine.register({ ...c });
+}
+const proxyVerdict = await proxyEngine.evaluate({
+  intendedAction: "resolve",
+  targetEntity: "itsm:incident:INC0010001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: enriched.metadata,
+}, { enrichment: enriched.trace });
+assert("Freeze fires through the enriched proxy path", !proxyVerdict.allowed);
+assert("Enrichment trace is recorded in the audit", proxyEngine.getAuditLog()[0].enrichment?.length === 3);
+
+// ── Audit Replay ──────────────────────────────────────────────
+
+console.log("\n🔍 Audit Replay");
+
+// Round-trip through JSON, as an exported audit log would be
+const exported = JSON.parse(JSON.stringify(shadowEngine.getAuditLog()));
+exported.push({ ...exported[0], id: 99, dryRun: true });
+const promoteReplay = await replayAuditLog(exported, shadowEngine.getAllConstraints(), {
+  promote: ["itsm:change_freeze_active"],
+});
+assert("Replay covers every entry except dry runs", promoteReplay.total === 2 && promoteReplay.skippedDryRuns === 1);
+assert(
+  "Promoting the freeze rule newly blocks the frozen resolve",
+  promoteReplay.newlyBlocked.length === 1 &&
+    promoteReplay.newlyBlocked[0].targetEntity === "itsm:incident:INC001" &&
+    promoteReplay.newlyBlocked[0].blockedBy[0] === "itsm:change_freeze_active"
+);
+assert("Unaffected entry is unchanged", promoteReplay.unchanged === 1);
+assert(
+  "Replay does not mutate the live constraints",
+  shadowEngine.getAllConstraints().find((c) => c.id === "itsm:change_freeze_active")?.status === ConstraintStatus.CANDIDATE
+);
+
+const disableReplay = await replayAuditLog([constraints.getAuditLog()[0]], constraints.getAllConstraints(), {
+  disable: ["itsm:change_freeze_active"],
+  promote: ["itsm:no_such_rule"],
+});
+assert("Disabling a blocking rule newly allows", disableReplay.newlyAllowed.length === 1);
+assert("Unknown IDs are reported", disableReplay.unknownConstraints[0] === "itsm:no_such_rule");
+assert("Unknown severities are rejected",
+  validateReplayChanges({ severity: { "itsm:change_freeze_active": "fatal" } }).length === 1 &&
+  validateReplayChanges({ severity: { "itsm:change_freeze_active": "warn" }, promote: ["x"] }).length === 0);
+
+const throwingConstraint: ConstraintDefinition = {
+  ...itsmConstraints[0],
+  id: "itsm:broken",
+  relevantActions: ["*"],
+  status: ConstraintStatus.PROMOTED,
+  evaluate: async () => { throw new Error("connector down"); },
+};
+const replayFailOpen = await replayAuditLog([constraints.getAuditLog()[0]], [throwingConstraint], { onError: "allow" });
+const replayFailClosed = await replayAuditLog([constraints.getAuditLog()[0]], [throwingConstraint], { onError: "block" });
+assert("Replay follows the given onError policy", replayFailOpen.newlyAllowed.length === 1 && replayFailClosed.unchanged === 1);
+
 // ── Constraint Descriptions ───────────────────────────────────
 
 console.log("\n🔍 Constraint Descriptions");
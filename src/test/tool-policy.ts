@@ -0,0 +1,198 @@
+/**
+ * Test: per-caller tool policies.
+ * Policies decide which principals see and call which proxied tools:
+ * each HTTP session lists only its caller's tools, and calls outside
+ * the allowlist are rejected before constraints are evaluated.
+ *
+ * Run: npm run build && node dist/test/tool-policy.js
+ */
+
+import { dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { z } from "zod";
+
+import { ConstraintEngine } from "../constraints/engine.js";
+import { ActionMapper } from "../connectors/action-mapping.js";
+import { loadPoliciesFromYaml } from "../loader.js";
+import { Authenticator } from "../server/auth.js";
+import { startHttpServer } from "../server/http.js";
+import { ToolPolicySet, validatePolicies } from "../server/policy.js";
+import type { GuardedToolSpec, ProxyDependencies } from "../server/proxy.js";
+import { checkToolPolicy, registerGuardedTool } from "../server/proxy.js";
+import type { Principal } from "../constraints/types.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+function textOf(result: unknown): string {
+  const content = (result as { content?: Array<{ type: string; text?: string }> }).content ?? [];
+  return content.map((c) => c.text ?? "").join("");
+}
+
+const principal = (id: string, roles: string[], team?: string): Principal => ({ id, roles, team, method: "api_key" });
+
+// ── Validation ────────────────────────────────────────────────
+
+console.log("\n🔍 Policy Validation");
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const shipped = loadPoliciesFromYaml(resolve(__dirname, "..", "..", "domains", "itsm", "policies.yaml"));
+assert("Shipped ITSM policies load", shipped.domain === "itsm" && shipped.policies.length > 0);
+
+const problems = validatePolicies({
+  domain: "itsm",
+  default: "maybe",
+  policies: [
+    { id: "a", roles: ["x"], allow: { tools: ["sn_*"] } },
+    { id: "a", roles: "x", allow: { verbs: ["y"] } },
+    { id: "b", allow: { actions: ["lookup"] } },
+    { id: "c", roles: ["x"] },
+  ],
+});
+assert("Invalid policies are reported", problems.length === 6, problems.join("; "));
+
+// ── Decisions ─────────────────────────────────────────────────
+
+console.log("\n🔍 Policy Decisions");
+
+const policies = new ToolPolicySet();
+assert("No policies allows everything", policies.check(undefined, { name: "sn_approve", action: "approve" }).allowed);
+
+policies.add({
+  domain: "itsm",
+  policies: [
+    { id: "triage", roles: ["triage"], allow: { actions: ["lookup", "summarize"] } },
+    { id: "sre", roles: ["sre"], allow: { tools: ["sn_*"] }, deny: { actions: ["approve"] } },
+    { id: "platform", teams: ["platform"], allow: { tools: ["gh_*"] } },
+    { id: "kiosk", anonymous: true, allow: { tools: ["sn_look_up_*"] } },
+  ],
+});
+
+const triage = principal("triage-bot", ["triage"]);
+const sre = principal("sre-agent", ["sre"], "platform");
+const lookup = { name: "sn_look_up_incident_records", action: "lookup" };
+const approve = { name: "sn_approve_change_request", action: "approve" };
+const resolveTool = { name: "sn_resolve_incident", action: "resolve" };
+
+assert("Role allows listed actions", policies.check(triage, lookup).allowed);
+assert("Role is limited to its allowlist", !policies.check(triage, resolveTool).allowed);
+assert("Tool globs allow by name", policies.check(sre, resolveTool).allowed);
+const denied = policies.check(sre, approve);
+assert("Deny wins over allow", !denied.allowed && denied.policyId === "sre", denied.reason);
+assert("Team policies combine with role policies", policies.check(sre, { name: "gh_create_issue", action: "create" }).allowed);
+assert("Anonymous policy applies without a principal",
+  policies.check(undefined, lookup).allowed && !policies.check(undefined, resolveTool).allowed);
+assert("Uncovered callers get the default (deny)", !policies.check(principal("stranger", ["guest"]), lookup).allowed);
+
+policies.add({ domain: "other", default: "allow", policies: [] });
+assert("Strictest default wins across domains", policies.getDefault() === "deny");
+
+// ── Per-session tools ─────────────────────────────────────────
+
+console.log("\n🔍 Per-Session Tool Lists");
+
+const mapper = new ActionMapper();
+mapper.add({
+  domain: "itsm",
+  tools: [
+    { tool: "Look up incident records", action: "lookup" },
+    { tool: "Resolve incident", action: "resolve", targetArg: "number", entityType: "incident" },
+    { tool: "Approve change request", action: "approve", targetArg: "number", entityType: "change_request" },
+  ],
+});
+const engine = new ConstraintEngine();
+const deps: ProxyDependencies = { constraintEngine: engine, actionMapper: mapper, enrichmentSources: [], policy: policies };
+
+const forwarded: string[] = [];
+const specs: GuardedToolSpec[] = ["Look up incident records", "Resolve incident", "Approve change request"].map((name) => ({
+  exposedName: "sn_" + name.toLowerCase().replace(/ /g, "_"),
+  upstreamName: name,
+  upstream: "servicenow",
+  upstreamLabel: "ServiceNow",
+  description: name,
+  inputShape: { number: z.string() },
+  forward: async () => {
+    forwarded.push(name);
+    return { content: [{ type: "text" as const, text: "ok" }] };
+  },
+}));
+
+assert("Tool check resolves the action from the mapping",
+  !checkToolPolicy(deps, specs[2], sre).allowed && checkToolPolicy(deps, specs[1], sre).allowed);
+
+function buildServer(caller?: Principal): McpServer {
+  const server = new McpServer({ name: "basanos", version: "0.1.0" });
+  for (const spec of specs) {
+    if (checkToolPolicy(deps, spec, caller).allowed) registerGuardedTool(server, deps, spec);
+  }
+  // A session whose server lists every tool, to probe call-time checks
+  if (caller?.id === "probe") {
+    for (const spec of specs) {
+      if (!checkToolPolicy(deps, spec, caller).allowed) registerGuardedTool(server, deps, spec);
+    }
+  }
+  return server;
+}
+
+const authenticator = new Authenticator({
+  apiKeys: [
+    { id: "triage-bot", key: "triage-key", roles: ["triage"] },
+    { id: "sre-agent", key: "sre-key", roles: ["sre"] },
+    { id: "probe", key: "probe-key", roles: ["triage"] },
+  ],
+});
+const http = await startHttpServer({ port: 0, createServer: buildServer, authenticator, log: () => undefined });
+const url = new URL(`http://127.0.0.1:${http.port}/mcp`);
+
+async function connect(key: string): Promise<Client> {
+  const client = new Client({ name: key, version: "1.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(url, {
+    requestInit: { headers: { Authorization: `Bearer ${key}` } },
+  }));
+  return client;
+}
+
+const triageClient = await connect("triage-key");
+const sreClient = await connect("sre-key");
+
+const triageTools = (await triageClient.listTools()).tools.map((t) => t.name).sort();
+assert("Triage session lists only its tools",
+  triageTools.join(",") === "sn_look_up_incident_records", triageTools.join(","));
+const sreTools = (await sreClient.listTools()).tools.map((t) => t.name).sort();
+assert("SRE session lists its tools",
+  sreTools.join(",") === "sn_look_up_incident_records,sn_resolve_incident", sreTools.join(","));
+
+await sreClient.callTool({ name: "sn_resolve_incident", arguments: { number: "INC001" } });
+assert("Allowed call is evaluated and forwarded",
+  forwarded.join(",") === "Resolve incident" && engine.getAuditLog().length === 1);
+
+const probe = await connect("probe-key");
+const rejected = JSON.parse(textOf(await probe.callTool({ name: "sn_resolve_incident", arguments: { number: "INC002" } })));
+assert("Call outside the allowlist is rejected", rejected.blocked === true && rejected.policy?.allowed === false);
+assert("Rejected call is neither evaluated nor forwarded",
+  engine.getAuditLog().length === 1 && forwarded.length === 1);
+
+await triageClient.close();
+await sreClient.close();
+await probe.close();
+await http.close();
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All tool policy tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,125 @@
+/**
+ * Test: relationship-aware traversal.
+ * Named relationships, inverse edges from the reverse index, node
+ * filters, hop-by-hop paths, and shortest paths between entities.
+ *
+ * Run: npm run build && node dist/test/traversal.js
+ */
+
+import { OntologyEngine } from "../ontology/engine.js";
+import { validateTraversalOptions } from "../ontology/traversal.js";
+import type { TraversalOptions } from "../ontology/traversal.js";
+import type { Entity } from "../ontology/types.js";
+import { itsmDomain } from "../domains/itsm/ontology.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+// ── Setup ─────────────────────────────────────────────────────
+
+const ontology = new OntologyEngine();
+ontology.registerDomain(itsmDomain);
+
+function entity(id: string, properties: Entity["properties"], relationships: Entity["relationships"] = {}): Entity {
+  const [domain, type] = id.split(":");
+  return { id, domain, type, properties, relationships };
+}
+
+ontology.addEntity(entity("itsm:incident:INC001", { priority: 1 }, {
+  affects_ci: ["itsm:configuration_item:MAIL"],
+  assigned_to_group: ["itsm:assignment_group:OPS"],
+}));
+ontology.addEntity(entity("itsm:incident:INC002", { priority: 3 }, { affects_ci: ["itsm:configuration_item:MAIL"] }));
+ontology.addEntity(entity("itsm:configuration_item:MAIL", { name: "mail-server-prod-01" },
+  { depends_on: ["itsm:configuration_item:DB"] }));
+ontology.addEntity(entity("itsm:configuration_item:DB", { name: "mail-db" }));
+ontology.addEntity(entity("itsm:assignment_group:OPS", { name: "Infrastructure Operations" }));
+ontology.addEntity(entity("itsm:business_service:EMAIL", { name: "Corporate Email" }, {
+  depends_on: ["itsm:configuration_item:MAIL"],
+  governed_by_sla: ["itsm:sla_contract:GOLD"],
+}));
+ontology.addEntity(entity("itsm:business_service:ARCHIVE", { name: "Mail Archive" }, {
+  depends_on: ["itsm:configuration_item:MAIL"],
+  governed_by_sla: ["itsm:sla_contract:BRONZE"],
+}));
+ontology.addEntity(entity("itsm:sla_contract:GOLD", { name: "Gold", has_penalty: true }));
+ontology.addEntity(entity("itsm:sla_contract:BRONZE", { name: "Bronze", has_penalty: false }));
+
+const ids = (id: string, options: TraversalOptions) =>
+  ontology.traversePaths(id, options).map((n) => n.entity.id.split(":")[2]).sort().join();
+
+// ── Traversal ─────────────────────────────────────────────────
+
+console.log("\n🔍 Traversal");
+
+assert("Outgoing by default, hop by hop",
+  ids("itsm:incident:INC001", {}) === "DB,MAIL,OPS", ids("itsm:incident:INC001", {}));
+assert("Existing traverse keeps its shape",
+  ontology.traverse("itsm:incident:INC001", 1).size === 3 &&
+  ontology.traverse("itsm:incident:INC001", 2).get("itsm:configuration_item:DB")?.depth === 2);
+assert("Incoming edges answer what a CI affects",
+  ids("itsm:configuration_item:MAIL", { direction: "incoming", maxDepth: 1 }) === "ARCHIVE,EMAIL,INC001,INC002");
+assert("Named relationships only",
+  ids("itsm:incident:INC001", { relationships: ["assigned_to_group"] }) === "OPS");
+assert("Inverse names select incoming edges",
+  ids("itsm:configuration_item:MAIL", { direction: "both", relationships: ["supports_service"] }) === "ARCHIVE,EMAIL");
+
+const service = ontology.traversePaths("itsm:configuration_item:MAIL", { direction: "incoming" })
+  .find((n) => n.entity.id === "itsm:business_service:EMAIL");
+assert("Incoming steps carry the inverse name",
+  JSON.stringify(service?.path) ===
+  '[{"from":"itsm:configuration_item:MAIL","to":"itsm:business_service:EMAIL","relationship":"depends_on","direction":"incoming","inverseName":"supports_service"}]',
+  JSON.stringify(service?.path));
+
+const penalties = ontology.traversePaths("itsm:configuration_item:MAIL", {
+  direction: "both",
+  types: ["sla_contract"],
+  where: [{ field: "has_penalty", operator: "eq", value: true }],
+});
+assert("Type and property filters pick the results", penalties.map((n) => n.entity.id).join() === "itsm:sla_contract:GOLD");
+assert("Filtered walks pass through other entities",
+  penalties[0]?.depth === 2 && penalties[0].path.map((s) => `${s.relationship}:${s.direction}`).join() ===
+  "depends_on:incoming,governed_by_sla:outgoing");
+assert("Unknown start returns nothing", ontology.traversePaths("itsm:incident:NOPE").length === 0);
+
+// ── Shortest paths ────────────────────────────────────────────
+
+console.log("\n🔍 Shortest Paths");
+
+const route = ontology.findPath("itsm:incident:INC002", "itsm:sla_contract:GOLD");
+assert("Path crosses relationships in both directions",
+  route?.map((s) => s.to.split(":")[2]).join() === "MAIL,EMAIL,GOLD", JSON.stringify(route));
+assert("Outgoing-only search finds no path",
+  ontology.findPath("itsm:incident:INC002", "itsm:sla_contract:GOLD", { direction: "outgoing" }) === undefined);
+assert("Paths longer than maxDepth are not found",
+  ontology.findPath("itsm:incident:INC002", "itsm:sla_contract:GOLD", { maxDepth: 2 }) === undefined);
+assert("Incidents sharing a CI are two hops apart",
+  ontology.findPath("itsm:incident:INC001", "itsm:incident:INC002")?.length === 2);
+assert("Path to itself is empty", ontology.findPath("itsm:incident:INC001", "itsm:incident:INC001")?.length === 0);
+
+// ── Reverse index upkeep ──────────────────────────────────────
+
+console.log("\n🔍 Reverse Index");
+
+ontology.addEntity(entity("itsm:incident:INC002", { priority: 3 }));
+assert("Replaced entity drops its incoming edges",
+  ids("itsm:configuration_item:MAIL", { direction: "incoming", relationships: ["affects_ci"] }) === "INC001");
+assert("Bad options are reported",
+  validateTraversalOptions({ direction: "sideways" as "both", maxDepth: -1, where: [{ field: "x", operator: "nope" as "eq" }] }).length === 3);
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All traversal tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,218 @@
+/**
+ * Test: generic upstream MCP proxy.
+ * Mounts a fake upstream MCP server behind Basanos over in-memory
+ * transports and checks that tools are mirrored, blocked calls never
+ * reach the upstream, and allowed calls are forwarded unchanged.
+ *
+ * Run: npm run build && node dist/test/upstream-proxy.js
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod";
+
+import { ConstraintEngine } from "../constraints/engine.js";
+import { OntologyEngine } from "../ontology/engine.js";
+import { ActionMapper, createUnmappedToolConstraint, isWriteLike } from "../connectors/action-mapping.js";
+import { UpstreamMCPClient, expandEnv, jsonSchemaToZodShape, validateUpstreams } from "../connectors/upstream.js";
+import { exposedToolName, registerGuardedTool } from "../server/proxy.js";
+import { UNKNOWN_TARGET } from "../connectors/enrichment.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(label: string, condition: boolean, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+function textOf(result: unknown): string {
+  const content = (result as { content?: Array<{ type: string; text?: string }> }).content ?? [];
+  return content.map((c) => c.text ?? "").join("");
+}
+
+// ── JSON Schema → zod ─────────────────────────────────────────
+
+console.log("\n🔍 JSON Schema Conversion");
+
+const shape = jsonSchemaToZodShape({
+  type: "object",
+  properties: {
+    title: { type: "string", description: "Issue title" },
+    priority: { type: "integer" },
+    state: { type: "string", enum: ["open", "closed"] },
+    labels: { type: "array", items: { type: "string" } },
+    draft: { type: "boolean" },
+    assignee: { type: "object", properties: { login: { type: "string" } }, required: ["login"] },
+    extra: { type: "object" },
+  },
+  required: ["title"],
+});
+const schema = z.object(shape);
+
+assert("All properties are converted", Object.keys(shape).length === 7);
+assert("Required field is enforced", !schema.safeParse({}).success);
+assert("Valid arguments pass", schema.safeParse({
+  title: "Broken build",
+  priority: 2,
+  state: "open",
+  labels: ["ci"],
+  draft: false,
+  assignee: { login: "octocat", id: 1 },
+  extra: { anything: true },
+}).success);
+assert("Integer rejects fractions", !schema.safeParse({ title: "x", priority: 1.5 }).success);
+assert("Enum rejects unknown values", !schema.safeParse({ title: "x", state: "merged" }).success);
+assert("Nested required field is enforced", !schema.safeParse({ title: "x", assignee: {} }).success);
+assert("Description is kept", shape.title.description === "Issue title");
+
+// ── Config validation ─────────────────────────────────────────
+
+console.log("\n🔍 Upstream Config");
+
+assert("Valid upstreams pass", validateUpstreams({
+  upstreams: [
+    { name: "github", transport: "stdio", command: "npx", args: ["-y", "@modelcontextprotocol/server-github"] },
+    { name: "docs", transport: "http", url: "https://example.com/mcp", headers: { Authorization: "Bearer ${TOKEN}" } },
+  ],
+}).length === 0);
+
+const badUpstreams = validateUpstreams({
+  upstreams: [
+    { name: "a", transport: "stdio" },
+    { name: "a", transport: "http", url: "not a url" },
+    { name: "9lives", transport: "ws" },
+  ],
+});
+assert("Invalid upstreams are reported", badUpstreams.length === 5, badUpstreams.join("; "));
+assert("${VAR} is expanded from the environment",
+  expandEnv("Bearer ${TOKEN}", { TOKEN: "abc" }) === "Bearer abc" && expandEnv("${MISSING}x", {}) === "x");
+assert("Exposed names are sanitized and prefixed",
+  exposedToolName("github_", "create issue!") === "github_create_issue");
+assert("Identifier-style write tools are recognised",
+  isWriteLike("delete_issue") && isWriteLike("createPullRequest") && !isWriteLike("get_issue"));
+
+// ── Gateway end to end ────────────────────────────────────────
+
+console.log("\n🔍 Gateway Forwarding");
+
+const upstreamCalls: string[] = [];
+const upstream = new McpServer({ name: "tracker", version: "1.0.0" });
+upstream.tool("get_issue", "Fetch an issue", { id: z.string() }, async ({ id }) => {
+  upstreamCalls.push(`get_issue:${id}`);
+  return { content: [{ type: "text" as const, text: `issue ${id}` }] };
+});
+upstream.tool("delete_issue", "Delete an issue", { id: z.string() }, async ({ id }) => {
+  upstreamCalls.push(`delete_issue:${id}`);
+  return { content: [{ type: "text" as const, text: `deleted ${id}` }] };
+});
+upstream.tool("close_issue", "Close an issue", { id: z.string() }, async ({ id }) => {
+  upstreamCalls.push(`close_issue:${id}`);
+  return { content: [{ type: "text" as const, text: `closed ${id}` }] };
+});
+
+const [upstreamClientSide, upstreamServerSide] = InMemoryTransport.createLinkedPair();
+await upstream.connect(upstreamServerSide);
+const upstreamClient = new UpstreamMCPClient({ name: "tracker", transport: "stdio", command: "unused" });
+await upstreamClient.connect(upstreamClientSide);
+
+const upstreamTools = await upstreamClient.listTools();
+assert("Upstream tools are listed", upstreamTools.length === 3, `got ${upstreamTools.length}`);
+
+const mapper = new ActionMapper();
+mapper.add({
+  domain: "tracker",
+  tools: [
+    { tool: "close_issue", upstream: "other", action: "ignored" },
+    { tool: "close_issue", upstream: "tracker", action: "close", targetArg: "id", entityType: "issue" },
+    { tool: "get_issue", upstream: "tracker", action: "read", entityType: "issue" },
+  ],
+});
+const trackerOntology = new OntologyEngine();
+const trackerType = (name: string) => ({ name, label: name, domain: "tracker", properties: [], relationships: [], description: name });
+trackerOntology.registerDomain({
+  name: "tracker",
+  label: "Tracker",
+  version: "1.0.0",
+  description: "Issue tracker",
+  entityTypes: [trackerType("issue"), trackerType("milestone")],
+});
+const engine = new ConstraintEngine({ ontology: trackerOntology });
+engine.register(createUnmappedToolConstraint("deny"));
+
+const gateway = new McpServer({ name: "basanos", version: "0.1.0" });
+const deps = { constraintEngine: engine, actionMapper: mapper, enrichmentSources: [] };
+for (const tool of upstreamTools) {
+  registerGuardedTool(gateway, deps, {
+    exposedName: exposedToolName(upstreamClient.getPrefix(), tool.name),
+    upstreamName: tool.name,
+    upstream: upstreamClient.getName(),
+    upstreamLabel: upstreamClient.getLabel(),
+    description: tool.description ?? "",
+    inputShape: jsonSchemaToZodShape(tool.inputSchema),
+    forward: (args) => upstreamClient.callTool(tool.name, args),
+  });
+}
+
+const [agentSide, gatewaySide] = InMemoryTransport.createLinkedPair();
+await gateway.connect(gatewaySide);
+const agent = new Client({ name: "agent", version: "1.0.0" });
+await agent.connect(agentSide);
+
+const mirrored = (await agent.listTools()).tools.map((t) => t.name).sort();
+assert("Tools are mirrored under the prefix",
+  mirrored.join(",") === "tracker_close_issue,tracker_delete_issue,tracker_get_issue", mirrored.join(","));
+
+const read = await agent.callTool({ name: "tracker_get_issue", arguments: { id: "42" } });
+assert("Read call is forwarded unchanged", textOf(read) === "issue 42", textOf(read));
+
+const blocked = await agent.callTool({ name: "tracker_delete_issue", arguments: { id: "42" } });
+const blockedBody = JSON.parse(textOf(blocked)) as { blocked?: boolean };
+assert("Unmapped write is blocked", blockedBody.blocked === true);
+assert("Blocked call never reaches the upstream", !upstreamCalls.includes("delete_issue:42"));
+
+const closed = await agent.callTool({ name: "tracker_close_issue", arguments: { id: "42" } });
+assert("Mapped write is forwarded", textOf(closed) === "closed 42", textOf(closed));
+
+const closeContext = engine.getAuditLog().find((e) => e.verdict.context.intendedAction === "close")?.verdict.context;
+assert("Mapping for this upstream applies", closeContext !== undefined);
+assert("Target comes from the mapping",
+  closeContext?.targetEntity === "tracker:issue:42", closeContext?.targetEntity);
+assert("Upstream is recorded in the metadata", closeContext?.metadata.upstream === "tracker");
+assert("Upstream calls match allowed calls",
+  upstreamCalls.join(",") === "get_issue:42,close_issue:42", upstreamCalls.join(","));
+
+const readTargets = async (target: string) => {
+  await agent.callTool({ name: "tracker_get_issue", arguments: { id: "7", _target_entity: target } });
+  const reads = engine.getAuditLog().filter((e) => e.verdict.context.intendedAction === "read");
+  return reads[reads.length - 1].verdict.context.targetEntity;
+};
+assert("An explicit target of the mapped type is used",
+  (await readTargets("tracker:issue:7")) === "tracker:issue:7");
+assert("An explicit target of another type is unknown",
+  (await readTargets("tracker:milestone:1")) === UNKNOWN_TARGET);
+assert("An explicit target in another domain is unknown",
+  (await readTargets("itsm:issue:7")) === UNKNOWN_TARGET);
+
+const spoofed = await agent.callTool({ name: "tracker_delete_issue", arguments: { id: "9", _target_entity: "tracker:issue:9" } });
+const spoofedEntry = engine.getAuditLog()[engine.getAuditLog().length - 1];
+assert("An explicit target on an unmapped tool is unknown",
+  spoofedEntry.verdict.context.targetEntity === UNKNOWN_TARGET, spoofedEntry.verdict.context.targetEntity);
+assert("The unmapped write is still denied",
+  (JSON.parse(textOf(spoofed)) as { blocked?: boolean }).blocked === true && !upstreamCalls.includes("delete_issue:9"));
+
+await agent.close();
+await upstreamClient.close();
+
+// ── Summary ───────────────────────────────────────────────────
+
+console.log(`\n${"─".repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+console.log(`${failed === 0 ? "🎉 All upstream proxy tests passed!" : "💥 Some tests failed."}`);
+process.exit(failed > 0 ? 1 : 0);
@@ -7,10 +7,16 @@
 
 import { resolve, dirname } from "path";
 import { fileURLToPath } from "url";
-import { loadDomainFromYaml, loadConstraintsFromYaml } from "../loader.js";
+import { loadDomainFromYaml, loadConstraintsFromYaml, loadActionMappingFromYaml } from "../loader.js";
 import { validateDomainSchema } from "../ontology/schema.js";
 import { OntologyEngine } from "../ontology/engine.js";
 import { ConstraintEngine } from "../constraints/engine.js";
+import {
+  ActionMapper,
+  checkActionMappingReferences,
+  createUnmappedToolConstraint,
+  validateActionMapping,
+} from "../connectors/action-mapping.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const domainsDir = resolve(__dirname, "..", "..", "domains");
@@ -130,6 +136,67 @@ const capacityVerdict = await constraintEngine.evaluate({
 });
 assert("YAML group capacity triggers warning", capacityVerdict.results.some((r) => r.constraintId === "itsm:group_capacity_check" && !r.satisfied));
 
+// ── Action Mapping ────────────────────────────────────────────
+
+console.log("\n🔍 YAML Action Mapping");
+
+const mappingFile = loadActionMappingFromYaml(resolve(domainsDir, "itsm", "action-mapping.yaml"));
+assert("Action mapping loaded from YAML", mappingFile.domain === "itsm" && mappingFile.tools.length > 0);
+assert(
+  "Mapping references exist in the ontology",
+  checkActionMappingReferences(mappingFile, ontology, ["servicenow", "jira", "ontology"]).length === 0,
+  checkActionMappingReferences(mappingFile, ontology, ["servicenow", "jira", "ontology"]).join("; ")
+);
+
+const mapper = new ActionMapper();
+mapper.add(mappingFile);
+const resolveTool = mapper.resolve("Resolve incident");
+assert("Mapped tool resolves to its action", resolveTool.mapped && resolveTool.action === "resolve");
+assert(
+  "targetArg and entityType build the target entity",
+  mapper.targetFor(resolveTool, { incident_number: "INC0099001" })?.targetEntity === "itsm:incident:INC0099001"
+);
+assert("Regex mapping matches", mapper.resolve("Look up problem records").action === "lookup");
+
+const approvals = mapper.resolve("Get change approvals");
+assert("Unmapped read-like tool has no policy", !approvals.mapped && approvals.unmappedPolicy === undefined);
+const renamed = mapper.resolve("Resolve incident v2", "Resolves an incident. This is a WRITE operation.");
+assert("Renamed write tool is unmapped and denied", !renamed.mapped && renamed.unmappedPolicy === "deny");
+assert(
+  "Environment override wins over the file",
+  new ActionMapper({ unmapped: "warn" }).resolve("Delete record").unmappedPolicy === "warn"
+);
+
+const unmappedEngine = new ConstraintEngine();
+unmappedEngine.register(createUnmappedToolConstraint("deny"));
+const unmappedVerdict = await unmappedEngine.evaluate({
+  intendedAction: renamed.action,
+  targetEntity: "servicenow:unknown:unknown",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { tool_name: renamed.toolName, tool_mapped: false, tool_write_like: true },
+});
+assert("Unmapped write tool is blocked", !unmappedVerdict.allowed);
+
+const restricted = new ConstraintEngine({ ontology, restrictToDomain: true });
+restricted.register(createUnmappedToolConstraint("deny"));
+const restrictedVerdict = await restricted.evaluate({
+  intendedAction: renamed.action,
+  targetEntity: "itsm:incident:INC001",
+  relatedEntities: [],
+  timestamp: new Date(),
+  metadata: { tool_name: renamed.toolName, tool_mapped: false, tool_write_like: true },
+});
+assert("Unmapped write tool is blocked with domain restriction on",
+  !restrictedVerdict.allowed && restrictedVerdict.skipped.length === 0);
+
+const badMapping = validateActionMapping({
+  domain: "itsm",
+  unmapped: "ignore",
+  tools: [{ tool: "x", match: "y", action: "a" }, { match: "(", action: "b" }, { tool: "z" }],
+});
+assert("Invalid mapping entries are reported", badMapping.length === 4, badMapping.join("; "));
+
 // ── Summary ───────────────────────────────────────────────────
 
 console.log(`\n${"─".repeat(50)}`);